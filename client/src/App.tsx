@@ -14,7 +14,10 @@ import Register from "@/pages/Auth/Register";
 // Private Pages
 import Dashboard from "@/pages/Dashboard/Dashboard";
 import Contacts from "@/pages/Contacts/Contacts";
+import ImportHistory from "@/pages/ImportHistory/ImportHistory";
+import ContactDetail from "@/pages/ContactDetail/ContactDetail";
 import Groups from "@/pages/Groups/Groups";
+import Campaigns from "@/pages/Campaigns/Campaigns";
 import Templates from "@/pages/Templates/Templates";
 import EnhancedBulkUploads from "@/pages/BulkUploads/EnhancedBulkUploads";
 import DigitalCard from "@/pages/DigitalCard/DigitalCard";
@@ -52,6 +55,22 @@ function Router() {
         </PrivateRoute>
       </Route>
 
+      <Route path="/contacts/imports">
+        <PrivateRoute>
+          <Layout>
+            <ImportHistory />
+          </Layout>
+        </PrivateRoute>
+      </Route>
+
+      <Route path="/contacts/:id">
+        <PrivateRoute>
+          <Layout>
+            <ContactDetail />
+          </Layout>
+        </PrivateRoute>
+      </Route>
+
       <Route path="/groups">
         <PrivateRoute>
           <Layout>
@@ -60,6 +79,14 @@ function Router() {
         </PrivateRoute>
       </Route>
 
+      <Route path="/campaigns">
+        <PrivateRoute>
+          <Layout>
+            <Campaigns />
+          </Layout>
+        </PrivateRoute>
+      </Route>
+
       <Route path="/templates">
         <PrivateRoute>
           <Layout>
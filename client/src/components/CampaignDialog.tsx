@@ -0,0 +1,330 @@
+import { useEffect, useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/contexts/AuthContext";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import DefaultCountryPrompt from "@/components/DefaultCountryPrompt";
+import { useToast } from "@/hooks/use-toast";
+import { useDefaultCountry } from "@/hooks/useDefaultCountry";
+import { useTemplateSender } from "@/hooks/useTemplateSender";
+import { createCampaign } from "@/utils/campaignApi";
+import { logContactEvent } from "@/utils/contactActivity";
+import { recordTemplateUse } from "@/utils/templateLibrary";
+import { toWhatsAppNumber, type PhoneNumber } from "@shared/phone";
+import { contactTemplateValues, renderEmailTemplate, renderWhatsAppParams } from "@shared/templates";
+import type { CampaignChannel } from "@shared/schema";
+import { AlertTriangle, Loader2, Mail, MessageCircle, Send } from "lucide-react";
+
+interface Template {
+  id: string;
+  name: string;
+  content: string;
+  subject?: string;
+  htmlContent?: string;
+  // Approved WhatsApp template sent by WhatsApp campaigns, and its parameters
+  whatsappTemplate?: string;
+  whatsappLanguage?: string;
+  whatsappParams?: string[];
+}
+
+interface CampaignContact {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  company?: string;
+  email?: string;
+  emails?: string[];
+  phone?: string;
+  phones?: string[];
+  phoneDetails?: PhoneNumber[];
+}
+
+interface CampaignDialogProps {
+  isOpen: boolean;
+  group: { id: string; name: string } | null;
+  contacts: CampaignContact[];
+  onClose: () => void;
+}
+
+// First number that can receive WhatsApp, skipping landlines and faxes
+const whatsAppPhone = (contact: CampaignContact) => {
+  const phones = contact.phones?.length ? contact.phones : contact.phone ? [contact.phone] : [];
+  return phones.find(phone => {
+    const type = contact.phoneDetails?.find(d => d.e164 === phone)?.type;
+    return type !== 'landline' && type !== 'fax';
+  }) || '';
+};
+
+const contactEmail = (contact: CampaignContact) => contact.emails?.[0] || contact.email || '';
+
+const channelLabels: Record<CampaignChannel, string> = {
+  whatsapp: "WhatsApp",
+  email: "Email",
+};
+
+const contactName = (contact: CampaignContact) =>
+  `${contact.firstName || ''} ${contact.lastName || ''}`.trim() || contact.company || 'Unnamed contact';
+
+/**
+ * Sends a template to every contact in a group, over the WhatsApp Business
+ * API or by email, delivered by the server in the background. Messages are
+ * previewed here and rendered by the server from the stored template; for
+ * WhatsApp, the template's approved message template with its parameters.
+ */
+export default function CampaignDialog({ isOpen, group, contacts, onClose }: CampaignDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { defaultCountry } = useDefaultCountry();
+  const templateSender = useTemplateSender();
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [channel, setChannel] = useState<CampaignChannel>("whatsapp");
+  const [templateId, setTemplateId] = useState("");
+  // Email subject, itself a template; starts as the template's subject
+  const [subject, setSubject] = useState("");
+  const [name, setName] = useState("");
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !user) return;
+    setTemplateId("");
+    setSubject("");
+    setName(group ? `${group.name} – ${new Date().toLocaleDateString()}` : "");
+
+    getDocs(query(collection(db, "templates"), where("ownerId", "==", user.uid)))
+      .then(snapshot => setTemplates(snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as Template)))
+      .catch(error => {
+        console.error("Error fetching templates:", error);
+        toast({
+          title: "Error",
+          description: "Failed to fetch templates",
+          variant: "destructive",
+        });
+      });
+  }, [isOpen, user, group]);
+
+  const template = templates.find(t => t.id === templateId);
+
+  const chooseTemplate = (id: string) => {
+    setTemplateId(id);
+    setSubject(templates.find(t => t.id === id)?.subject || "");
+  };
+
+  const recipients = useMemo(() => {
+    if (!template) return [];
+    return contacts.map(contact => {
+      const values = {
+        ...templateSender,
+        ...contactTemplateValues({ ...contact, phones: contact.phones || (contact.phone ? [contact.phone] : []) }),
+      };
+      const rendered = renderEmailTemplate({ ...template, subject }, values);
+      const templateParams = renderWhatsAppParams(template, values);
+
+      return channel === "email"
+        ? {
+            contactId: contact.id,
+            name: contactName(contact),
+            to: contactEmail(contact),
+            message: rendered.text,
+            subject: rendered.subject,
+            html: rendered.html,
+          }
+        : {
+            contactId: contact.id,
+            name: contactName(contact),
+            to: toWhatsAppNumber(whatsAppPhone(contact), defaultCountry),
+            message: templateParams.filter(Boolean).join(", ") || template.whatsappTemplate || "",
+            templateParams,
+          };
+    });
+  }, [template, subject, channel, contacts, defaultCountry, templateSender]);
+
+  const whatsappReady = !!template?.whatsappTemplate;
+  const unreachable = contacts.filter(contact => channel === "email" ? !contactEmail(contact) : !whatsAppPhone(contact)).length;
+
+  const handleSend = async () => {
+    if (!user || !group || !template) return;
+    const via = channel === "email" ? "by email" : "on WhatsApp";
+    if (!window.confirm(`Send "${template.name}" to ${recipients.length} contact${recipients.length !== 1 ? 's' : ''} ${via}?`)) return;
+
+    setSending(true);
+    try {
+      const campaign = await createCampaign(user.uid, {
+        name: name.trim(),
+        channel,
+        templateId: template.id,
+        groupId: group.id,
+        contactIds: contacts.map(contact => contact.id),
+        ...(channel === "email" && { subject }),
+      });
+
+      await Promise.all(recipients.map(recipient =>
+        logContactEvent(
+          user.uid,
+          recipient.contactId,
+          'message',
+          `${channelLabels[channel]} campaign "${campaign.name}"`,
+          {
+            channel,
+            templateId: template.id,
+            campaignId: campaign.id,
+            message: recipient.message,
+            ...(recipient.subject && { subject: recipient.subject }),
+            ...(channel === "whatsapp" && { whatsappTemplate: template.whatsappTemplate }),
+          }
+        )
+      ));
+      // Contacts without an address are failed straight away, so they don't count
+      await recordTemplateUse(template.id, recipients.filter(recipient => recipient.to).length);
+
+      toast({
+        title: "Success",
+        description: `Campaign queued for ${campaign.total} contact${campaign.total !== 1 ? 's' : ''}`,
+      });
+      onClose();
+      setLocation(`/campaigns?id=${campaign.id}`);
+    } catch (error: any) {
+      console.error("Error creating campaign:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send campaign",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !sending && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Campaign - {group?.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="campaignName">Campaign Name</Label>
+            <Input
+              id="campaignName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Trade show follow-up"
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label>Send By</Label>
+            <div className="mt-1 flex gap-2">
+              {(Object.keys(channelLabels) as CampaignChannel[]).map(option => {
+                const Icon = option === "email" ? Mail : MessageCircle;
+                return (
+                  <Button
+                    key={option}
+                    type="button"
+                    variant={channel === option ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setChannel(option)}
+                  >
+                    <Icon className="h-4 w-4 mr-2" />
+                    {channelLabels[option]}
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <Label>Template</Label>
+            <Select value={templateId} onValueChange={chooseTemplate}>
+              <SelectTrigger className="mt-1">
+                <SelectValue placeholder={templates.length ? "Choose a template" : "No templates yet"} />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {channel === "email" && template && (
+            <div>
+              <Label htmlFor="campaignSubject">Subject</Label>
+              <Input
+                id="campaignSubject"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                placeholder="Great meeting you{#if company} at {company}{/if}"
+                className="mt-1"
+              />
+            </div>
+          )}
+
+          {channel === "whatsapp" && template && !whatsappReady && (
+            <p className="text-xs text-amber-700 flex items-center">
+              <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+              This template has no approved WhatsApp template. Add one on the Templates page to send it on WhatsApp.
+            </p>
+          )}
+
+          {recipients.length > 0 && (channel === "email" || whatsappReady) && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+              <Label className="text-sm font-medium text-green-800">
+                Preview for {recipients[0].name}
+              </Label>
+              {recipients[0].subject && (
+                <p className="mt-2 text-sm font-medium text-green-800">{recipients[0].subject}</p>
+              )}
+              {recipients[0].templateParams ? (
+                <div className="mt-2 text-sm text-green-700 max-h-40 overflow-y-auto">
+                  <p className="font-medium">{template?.whatsappTemplate}</p>
+                  {recipients[0].templateParams.map((param, i) => (
+                    <p key={i}>{`{{${i + 1}}}`} {param || <span className="text-amber-700">(empty, will fail)</span>}</p>
+                  ))}
+                </div>
+              ) : (
+                <p className="mt-2 text-sm text-green-700 whitespace-pre-wrap max-h-40 overflow-y-auto">
+                  {recipients[0].message}
+                </p>
+              )}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            {contacts.length} contact{contacts.length !== 1 ? 's' : ''} in this group.
+            Messages are sent one at a time; you can follow delivery on the Campaigns page.
+          </p>
+
+          {unreachable > 0 && (
+            <p className="text-xs text-amber-700 flex items-center">
+              <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+              {unreachable} contact{unreachable !== 1 ? 's have' : ' has'} no {channel === "email" ? "email address" : "mobile number"} and will be marked failed
+            </p>
+          )}
+
+          {channel === "whatsapp" && <DefaultCountryPrompt />}
+
+          <div className="flex justify-end space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} disabled={sending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSend}
+              disabled={sending || !template || !name.trim() || contacts.length === 0 || (channel === "email" ? !subject.trim() : !defaultCountry || !whatsappReady)}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Send Campaign
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useDefaultCountry } from "@/hooks/useDefaultCountry";
+import { PHONE_COUNTRIES } from "@shared/phone";
+import { Globe } from "lucide-react";
+
+/**
+ * Asks users who have never set a default country to pick one. Shown above
+ * forms that save phone numbers, which stay disabled until it is chosen.
+ */
+export default function DefaultCountryPrompt() {
+  const { defaultCountry, loading, setDefaultCountry } = useDefaultCountry();
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  if (loading || defaultCountry) return null;
+
+  const handleChange = async (code: string) => {
+    try {
+      setSaving(true);
+      await setDefaultCountry(code);
+    } catch (error) {
+      console.error("Error saving default country:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save your default country",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 p-4">
+      <div className="flex items-start gap-3">
+        <Globe className="mt-0.5 h-5 w-5 text-amber-600" />
+        <div className="flex-1">
+          <Label htmlFor="promptDefaultCountry" className="text-amber-900">Choose your default country</Label>
+          <p className="mt-1 text-sm text-amber-800">
+            Phone numbers written without a country code are saved under this country. You can change it later in Settings.
+          </p>
+          <Select onValueChange={handleChange} disabled={saving}>
+            <SelectTrigger id="promptDefaultCountry" className="mt-2 bg-white">
+              <SelectValue placeholder="Select a country" />
+            </SelectTrigger>
+            <SelectContent>
+              {PHONE_COUNTRIES.map(country => (
+                <SelectItem key={country.code} value={country.code}>
+                  {country.name} (+{country.callingCode})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { REMINDER_CHANNELS, daysFromToday, loadDueReminders, setReminderCompleted, type Reminder } from "@/utils/reminders";
+import { BellRing, Check, Eye, Loader2 } from "lucide-react";
+
+const channelLabels = Object.fromEntries(REMINDER_CHANNELS.map(c => [c.value, c.label]));
+
+/**
+ * Dashboard panel of open reminders due today, overdue ones first
+ */
+export default function DueReminders() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [completingId, setCompletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    loadDueReminders(user.uid)
+      .then(setReminders)
+      .catch(error => console.error("Error fetching reminders:", error))
+      .finally(() => setLoading(false));
+  }, [user]);
+
+  const handleComplete = async (reminder: Reminder) => {
+    try {
+      setCompletingId(reminder.id);
+      await setReminderCompleted(reminder.id, true);
+      setReminders(prev => prev.filter(r => r.id !== reminder.id));
+    } catch (error) {
+      console.error("Error completing reminder:", error);
+      toast({
+        title: "Error",
+        description: "Failed to complete reminder",
+        variant: "destructive",
+      });
+    } finally {
+      setCompletingId(null);
+    }
+  };
+
+  const today = daysFromToday(0);
+
+  return (
+    <Card className="shadow-xl border-0 overflow-hidden">
+      <CardContent className="p-0">
+        {loading ? (
+          <div className="px-6 py-8 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : reminders.length > 0 ? (
+          <ul className="divide-y divide-gray-100">
+            {reminders.map(reminder => {
+              const overdue = reminder.dueAt < today;
+              return (
+                <li key={reminder.id} className="px-6 py-4 flex items-center justify-between gap-4 hover:bg-blue-50 transition-colors duration-200">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-semibold text-gray-900 truncate">{reminder.contactName || 'Contact'}</p>
+                      <Badge variant="outline">{channelLabels[reminder.channel] || reminder.channel}</Badge>
+                      {overdue && (
+                        <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                          Overdue since {reminder.dueAt.toLocaleDateString()}
+                        </Badge>
+                      )}
+                    </div>
+                    {reminder.note && <p className="text-sm text-gray-600 mt-0.5 truncate">{reminder.note}</p>}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-blue-600 hover:bg-blue-100"
+                      onClick={() => setLocation(`/contacts/${reminder.contactId}`)}
+                    >
+                      <Eye className="h-4 w-4 mr-1" />
+                      View
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-green-600 hover:bg-green-100"
+                      disabled={completingId === reminder.id}
+                      onClick={() => handleComplete(reminder)}
+                    >
+                      {completingId === reminder.id ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <Check className="h-4 w-4 mr-1" />
+                      )}
+                      Done
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <div className="px-6 py-8 text-center text-gray-500">
+            <BellRing className="mx-auto h-10 w-10 text-gray-300 mb-3" />
+            <p className="text-sm">Nothing due today. Add reminders from a contact or after scanning cards.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
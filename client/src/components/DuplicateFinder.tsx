@@ -0,0 +1,244 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  MERGE_FIELDS,
+  buildMergedContact,
+  defaultMergeSelection,
+  findDuplicateClusters,
+  pickPrimaryContact,
+  type ContactRecord,
+  type DuplicateCluster,
+  type DuplicateReason,
+  type MergeField,
+  type MergeSelection,
+} from "@/utils/contactDuplicates";
+import { ChevronLeft, Loader2, Merge } from "lucide-react";
+
+interface DuplicateFinderProps {
+  isOpen: boolean;
+  contacts: ContactRecord[];
+  groups: Array<{ id: string; name: string }>;
+  onClose: () => void;
+  onMerge: (contacts: ContactRecord[], primaryId: string, selection: MergeSelection) => Promise<void>;
+}
+
+const fieldLabels: Record<MergeField, string> = {
+  firstName: "First Name",
+  lastName: "Last Name",
+  email: "Email",
+  company: "Company",
+  services: "Services",
+  address: "Address",
+  website: "Website",
+  qrCodeUrl: "QR Code URL",
+  notes: "Notes",
+  photoUrl: "Photo",
+  frontImageUrl: "Card Front",
+  backImageUrl: "Card Back",
+};
+
+const imageFields: MergeField[] = ['photoUrl', 'frontImageUrl', 'backImageUrl'];
+
+const reasonLabels: Record<DuplicateReason, string> = {
+  phone: "Same phone",
+  email: "Same email",
+  name: "Similar name",
+};
+
+export default function DuplicateFinder({ isOpen, contacts, groups, onClose, onMerge }: DuplicateFinderProps) {
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [active, setActive] = useState<DuplicateCluster | null>(null);
+  const [primaryId, setPrimaryId] = useState("");
+  const [selection, setSelection] = useState<MergeSelection | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  const clusters = useMemo(
+    () => (isOpen ? findDuplicateClusters(contacts).filter(c => !dismissed.includes(c.id)) : []),
+    [isOpen, contacts, dismissed]
+  );
+
+  useEffect(() => {
+    if (!isOpen) setActive(null);
+  }, [isOpen]);
+
+  const openCluster = (cluster: DuplicateCluster) => {
+    const primary = pickPrimaryContact(cluster.contacts);
+    setActive(cluster);
+    setPrimaryId(primary.id);
+    setSelection(defaultMergeSelection(cluster.contacts, primary.id));
+  };
+
+  const changePrimary = (contactId: string) => {
+    if (!active) return;
+    setPrimaryId(contactId);
+    setSelection(defaultMergeSelection(active.contacts, contactId));
+  };
+
+  const handleMerge = async () => {
+    if (!active || !selection) return;
+
+    try {
+      setMerging(true);
+      await onMerge(active.contacts, primaryId, selection);
+      setActive(null);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const groupName = (groupId: string) => groups.find(g => g.id === groupId)?.name || "";
+  const contactName = (contact: ContactRecord) => `${contact.firstName} ${contact.lastName}`.trim() || contact.phones[0] || contact.email;
+  const merged = active && selection ? buildMergedContact(active.contacts, primaryId, selection) : null;
+  const shownFields = active ? MERGE_FIELDS.filter(field => active.contacts.some(c => c[field])) : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && !merging && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{active ? "Merge Contacts" : "Find Duplicates"}</DialogTitle>
+        </DialogHeader>
+
+        {!active ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {clusters.length === 0
+                ? "No likely duplicates found in your contacts."
+                : `Found ${clusters.length} group${clusters.length === 1 ? '' : 's'} of likely duplicates, matched by phone number, email, name and company.`}
+            </p>
+
+            {clusters.map(cluster => (
+              <div key={cluster.id} className="border rounded-lg p-4">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {cluster.reasons.map(reason => (
+                        <Badge key={reason} variant="outline" className="text-xs">
+                          {reasonLabels[reason]}
+                        </Badge>
+                      ))}
+                    </div>
+                    <ul className="text-sm text-gray-700 space-y-0.5">
+                      {cluster.contacts.map(contact => (
+                        <li key={contact.id} className="truncate">
+                          <span className="font-medium">{contactName(contact)}</span>
+                          {contact.company && <span className="text-gray-500"> · {contact.company}</span>}
+                          {contact.phones[0] && <span className="text-gray-500"> · {contact.phones[0]}</span>}
+                          {contact.email && <span className="text-gray-500"> · {contact.email}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => setDismissed(prev => [...prev, cluster.id])}>
+                      Not Duplicates
+                    </Button>
+                    <Button size="sm" onClick={() => openCluster(cluster)}>
+                      <Merge className="h-4 w-4 mr-1" />
+                      Review & Merge
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Choose the value to keep for each field. Phone numbers, emails, addresses and groups from every contact are combined.
+            </p>
+
+            <div className="overflow-x-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-32">Field</TableHead>
+                    {active.contacts.map(contact => (
+                      <TableHead key={contact.id}>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            name="primary"
+                            checked={primaryId === contact.id}
+                            onChange={() => changePrimary(contact.id)}
+                          />
+                          <span className="text-xs">Keep this record</span>
+                        </label>
+                        <span className="block text-xs text-gray-400">Added {contact.createdAt.toLocaleDateString()}</span>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shownFields.map(field => (
+                    <TableRow key={field}>
+                      <TableCell className="font-medium text-sm">{fieldLabels[field]}</TableCell>
+                      {active.contacts.map(contact => {
+                        const value = contact[field];
+                        return (
+                          <TableCell key={contact.id}>
+                            {value ? (
+                              <label className="flex items-start gap-2 cursor-pointer">
+                                <input
+                                  type="radio"
+                                  name={field}
+                                  className="mt-1"
+                                  checked={selection?.[field] === contact.id}
+                                  onChange={() => setSelection(prev => prev && { ...prev, [field]: contact.id })}
+                                />
+                                {imageFields.includes(field) ? (
+                                  <img src={value} alt={fieldLabels[field]} className="h-12 rounded border object-cover" />
+                                ) : (
+                                  <span className="text-sm break-words">{value}</span>
+                                )}
+                              </label>
+                            ) : (
+                              <span className="text-xs text-gray-400">—</span>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {merged && (
+              <div className="p-4 bg-gray-50 border rounded-lg text-sm space-y-1">
+                <p><span className="font-medium">Phones:</span> {merged.phones.join(', ') || '—'}</p>
+                {merged.emails.length > 0 && (
+                  <p><span className="font-medium">Emails:</span> {merged.emails.join(', ')}</p>
+                )}
+                {merged.addresses.length > 0 && (
+                  <p><span className="font-medium">Addresses:</span> {merged.addresses.join(' | ')}</p>
+                )}
+                <p>
+                  <span className="font-medium">Groups:</span>{' '}
+                  {merged.groupIds.map(groupName).filter(Boolean).join(', ') || 'No groups'}
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setActive(null)} disabled={merging}>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Back
+              </Button>
+              <Button onClick={handleMerge} disabled={merging}>
+                {merging ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Merge className="h-4 w-4 mr-2" />
+                )}
+                Merge {active.contacts.length} Contacts
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
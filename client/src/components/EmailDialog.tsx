@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/contexts/AuthContext";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useTemplateSender } from "@/hooks/useTemplateSender";
+import { sendEmail } from "@/utils/emailApi";
+import { logContactEvent } from "@/utils/contactActivity";
+import { recordTemplateUse } from "@/utils/templateLibrary";
+import { contactTemplateValues, renderEmailTemplate } from "@shared/templates";
+import { Loader2, Mail } from "lucide-react";
+
+interface Template {
+  id: string;
+  name: string;
+  content: string;
+  subject?: string;
+  htmlContent?: string;
+}
+
+interface EmailContact {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  company?: string;
+  email?: string;
+  emails?: string[];
+  phones?: string[];
+}
+
+interface EmailDialogProps {
+  isOpen: boolean;
+  contact: EmailContact | null;
+  onClose: () => void;
+  // After a successful send, e.g. to refresh the contact's timeline
+  onSent?: () => void;
+}
+
+const contactEmails = (contact: EmailContact) =>
+  contact.emails?.length ? contact.emails : contact.email ? [contact.email] : [];
+
+/**
+ * Email one contact from a template. The message is previewed here and can
+ * be edited before sending; the server renders what is sent from the stored
+ * template, or sends the edited text. The send is logged on the contact's
+ * timeline.
+ */
+export default function EmailDialog({ isOpen, contact, onClose, onSent }: EmailDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const templateSender = useTemplateSender();
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [to, setTo] = useState("");
+  const [subject, setSubject] = useState("");
+  const [text, setText] = useState("");
+  // Formatted version from the template; dropped once the text is edited
+  const [html, setHtml] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !user || !contact) return;
+    setTemplateId("");
+    setTo(contactEmails(contact)[0] || "");
+    setSubject("");
+    setText("");
+    setHtml(null);
+
+    getDocs(query(collection(db, "templates"), where("ownerId", "==", user.uid)))
+      .then(snapshot => {
+        const loaded = snapshot.docs.map(d => ({ id: d.id, ...d.data() }) as Template);
+        // Templates written for email first
+        setTemplates(loaded.sort((a, b) => Number(!!b.subject) - Number(!!a.subject)));
+      })
+      .catch(error => {
+        console.error("Error fetching templates:", error);
+        toast({
+          title: "Error",
+          description: "Failed to fetch templates",
+          variant: "destructive",
+        });
+      });
+  }, [isOpen, user, contact]);
+
+  const applyTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template || !contact) return;
+
+    const rendered = renderEmailTemplate(template, { ...templateSender, ...contactTemplateValues(contact) });
+    setTemplateId(id);
+    setSubject(rendered.subject);
+    setText(rendered.text);
+    setHtml(rendered.html);
+  };
+
+  const handleSend = async () => {
+    if (!user || !contact) return;
+
+    setSending(true);
+    try {
+      await sendEmail({
+        contactId: contact.id,
+        to,
+        templateId: templateId || null,
+        subject,
+        // Unedited template messages are rendered by the server, HTML and all
+        text: templateId && html ? undefined : text,
+      });
+
+      await logContactEvent(
+        user.uid,
+        contact.id,
+        'message',
+        `Email "${subject.trim()}"`,
+        { channel: 'email', templateId: templateId || null, to, subject: subject.trim(), message: text.trim() }
+      );
+      if (templateId) {
+        await recordTemplateUse(templateId);
+      }
+
+      toast({
+        title: "Success",
+        description: `Email sent to ${to}`,
+      });
+      onSent?.();
+      onClose();
+    } catch (error: any) {
+      console.error("Error sending email:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send email",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const emails = contact ? contactEmails(contact) : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !sending && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Send Email</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>To</Label>
+            {emails.length > 1 ? (
+              <Select value={to} onValueChange={setTo}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {emails.map(email => (
+                    <SelectItem key={email} value={email}>{email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : emails.length === 1 ? (
+              <Input value={to} readOnly type="email" className="mt-1" />
+            ) : (
+              <p className="mt-1 text-sm text-gray-500">Add an email address to this contact to email them.</p>
+            )}
+          </div>
+
+          <div>
+            <Label>Template</Label>
+            <Select value={templateId} onValueChange={applyTemplate}>
+              <SelectTrigger className="mt-1">
+                <SelectValue placeholder={templates.length ? "Choose a template" : "No templates yet"} />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(t => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name}{t.subject ? "" : " (no subject)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="emailSubject">Subject</Label>
+            <Input
+              id="emailSubject"
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="emailText">Message</Label>
+            <Textarea
+              id="emailText"
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setHtml(null);
+              }}
+              rows={8}
+              className="mt-1"
+            />
+            {html && (
+              <p className="mt-1 text-xs text-gray-500">
+                The template's formatted version is sent too. Editing the message sends plain text only.
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} disabled={sending}>
+              Cancel
+            </Button>
+            <Button onClick={handleSend} disabled={sending || !to.trim() || !subject.trim() || !text.trim()}>
+              {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Mail className="h-4 w-4 mr-2" />}
+              Send Email
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useMemo, useState } from "react";
+import * as XLSX from "xlsx";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  IMPORT_FIELD_LABELS,
+  applyMappingPreset,
+  deleteMappingPreset,
+  loadMappingPresets,
+  mapImportRows,
+  readImportSheet,
+  saveMappingPreset,
+  suggestMappings,
+  type ColumnMapping,
+  type ImportField,
+  type ImportMappingPreset,
+  type ImportRow,
+} from "@/utils/contactImport";
+import { Loader2, Save, Trash2 } from "lucide-react";
+
+interface ImportColumnMapperProps {
+  workbook: XLSX.WorkBook;
+  userId: string;
+  // Country for numbers written without a country code
+  defaultCountry?: string;
+  onRowsChange: (rows: ImportRow[]) => void;
+}
+
+const importFields = Object.keys(IMPORT_FIELD_LABELS) as ImportField[];
+
+export default function ImportColumnMapper({ workbook, userId, defaultCountry, onRowsChange }: ImportColumnMapperProps) {
+  const { toast } = useToast();
+  const [sheetName, setSheetName] = useState(workbook.SheetNames[0]);
+  const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+  const [presets, setPresets] = useState<ImportMappingPreset[]>([]);
+  const [presetName, setPresetName] = useState("");
+  const [savingPreset, setSavingPreset] = useState(false);
+
+  const sheet = useMemo(() => {
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet) return { headers: [], rows: [] };
+    return readImportSheet(XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: '', raw: false }));
+  }, [workbook, sheetName]);
+
+  useEffect(() => {
+    setSheetName(workbook.SheetNames[0]);
+  }, [workbook]);
+
+  useEffect(() => {
+    setMappings(suggestMappings(sheet.headers));
+  }, [sheet]);
+
+  useEffect(() => {
+    onRowsChange(mappings.length > 0 ? mapImportRows(sheet, mappings, defaultCountry) : []);
+  }, [sheet, mappings, defaultCountry]);
+
+  useEffect(() => {
+    loadMappingPresets(userId)
+      .then(setPresets)
+      .catch(error => console.error("Error loading import presets:", error));
+  }, [userId]);
+
+  const updateMapping = (column: number, changes: Partial<ColumnMapping>) => {
+    setMappings(prev => prev.map(m => (m.column === column ? { ...m, ...changes } : m)));
+  };
+
+  const handleFieldChange = (mapping: ColumnMapping, field: ImportField) => {
+    updateMapping(mapping.column, {
+      field,
+      customField: field === 'custom' ? mapping.customField || mapping.header : undefined,
+    });
+  };
+
+  const handleApplyPreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (preset) setMappings(applyMappingPreset(sheet.headers, preset));
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    try {
+      setSavingPreset(true);
+      const preset = await saveMappingPreset(userId, name, mappings);
+      setPresets(prev => [...prev, preset].sort((a, b) => a.name.localeCompare(b.name)));
+      setPresetName("");
+      toast({
+        title: "Preset Saved",
+        description: `Column mapping saved as "${name}"`,
+      });
+    } catch (error) {
+      console.error("Error saving import preset:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the column mapping",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingPreset(false);
+    }
+  };
+
+  const handleDeletePreset = async (preset: ImportMappingPreset) => {
+    try {
+      await deleteMappingPreset(preset.id);
+      setPresets(prev => prev.filter(p => p.id !== preset.id));
+    } catch (error) {
+      console.error("Error deleting import preset:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the preset",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const sampleValue = (column: number) => sheet.rows.find(row => row[column])?.[column] || '';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        {workbook.SheetNames.length > 1 && (
+          <div>
+            <Label>Sheet</Label>
+            <Select value={sheetName} onValueChange={setSheetName}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {workbook.SheetNames.map(name => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {presets.length > 0 && (
+          <div>
+            <Label>Apply saved mapping</Label>
+            <Select onValueChange={handleApplyPreset}>
+              <SelectTrigger className="mt-2">
+                <SelectValue placeholder="Choose a preset" />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map(preset => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {sheet.headers.length === 0 ? (
+        <p className="text-sm text-gray-500">This sheet has no columns.</p>
+      ) : (
+        <div className="max-h-72 overflow-y-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Column</TableHead>
+                <TableHead>Sample</TableHead>
+                <TableHead>Import as</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {mappings.map(mapping => (
+                <TableRow key={mapping.column}>
+                  <TableCell className="font-medium">{mapping.header}</TableCell>
+                  <TableCell className="max-w-[12rem] truncate text-sm text-gray-500" title={sampleValue(mapping.column)}>
+                    {sampleValue(mapping.column)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Select value={mapping.field} onValueChange={value => handleFieldChange(mapping, value as ImportField)}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {importFields.map(field => (
+                            <SelectItem key={field} value={field}>
+                              {IMPORT_FIELD_LABELS[field]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {mapping.field === 'custom' && (
+                        <Input
+                          value={mapping.customField || ''}
+                          onChange={e => updateMapping(mapping.column, { customField: e.target.value })}
+                          placeholder="Field name"
+                          className="w-40"
+                        />
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="flex-1 min-w-[12rem]">
+          <Label htmlFor="presetName">Save this mapping as a preset</Label>
+          <Input
+            id="presetName"
+            value={presetName}
+            onChange={e => setPresetName(e.target.value)}
+            placeholder="e.g. Trade show leads"
+            className="mt-2"
+          />
+        </div>
+        <Button variant="outline" onClick={handleSavePreset} disabled={savingPreset || !presetName.trim() || mappings.length === 0}>
+          {savingPreset ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save Preset
+        </Button>
+      </div>
+
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {presets.map(preset => (
+            <span key={preset.id} className="inline-flex items-center rounded border px-2 py-1 text-xs text-gray-600">
+              {preset.name}
+              <button
+                onClick={() => handleDeletePreset(preset)}
+                className="ml-1 text-gray-400 hover:text-red-600"
+                title="Delete preset"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import { useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { doc, updateDoc, getDoc } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { useSubscription } from "@/hooks/useSubscription";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { authHeaders } from "@/lib/queryClient";
+import { TRIAL_DAYS } from "@shared/schema";
 import { Check, Zap, Crown, Loader2 } from "lucide-react";
 
 declare global {
@@ -67,20 +68,35 @@ export default function PricingSection() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [loading, setLoading] = useState<string | null>(null);
-  const [userSubscription, setUserSubscription] = useState<any>(null);
+  const { subscription: userSubscription, refreshSubscription } = useSubscription();
 
-  // Load user subscription status
-  const checkSubscriptionStatus = async () => {
+  const handleStartTrial = async () => {
     if (!user) return;
-    
+
+    setLoading("trial");
     try {
-      const userDoc = await getDoc(doc(db, "users", user.uid));
-      if (userDoc.exists()) {
-        const userData = userDoc.data();
-        setUserSubscription(userData.subscription);
+      const response = await fetch(`/api/subscription/${user.uid}/trial`, {
+        method: 'POST',
+        headers: await authHeaders(),
+      });
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || 'Failed to start trial');
       }
-    } catch (error) {
-      console.error("Error checking subscription:", error);
+
+      toast({
+        title: "Trial Started",
+        description: "Enjoy full access to the Premium Plan during your trial.",
+      });
+      await refreshSubscription();
+    } catch (error: any) {
+      toast({
+        title: "Trial Unavailable",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(null);
     }
   };
 
@@ -111,16 +127,16 @@ export default function PricingSection() {
         });
       }
 
-      // Create order on backend (you'll need to implement this API endpoint)
+      // Create order on backend; the amount is taken from the server's plan catalogue
       const orderResponse = await fetch('/api/create-razorpay-order', {
         method: 'POST',
         headers: {
+          ...(await authHeaders()),
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           planId: plan.id,
-          amount: plan.price,
-          userId: user.uid
+          amount: plan.price
         })
       });
 
@@ -132,9 +148,9 @@ export default function PricingSection() {
 
       // Razorpay options
       const options = {
-        key: import.meta.env.VITE_RAZORPAY_KEY_ID, // Your Razorpay key ID
-        amount: plan.price * 100, // Amount in paise
-        currency: 'INR',
+        key: orderData.keyId || import.meta.env.VITE_RAZORPAY_KEY_ID, // Your Razorpay key ID
+        amount: orderData.amount, // Amount in paise
+        currency: orderData.currency,
         name: 'WhatsApp Business Card Manager',
         description: `${plan.name} - Yearly Subscription`,
         order_id: orderData.orderId,
@@ -144,49 +160,27 @@ export default function PricingSection() {
             const verifyResponse = await fetch('/api/verify-razorpay-payment', {
               method: 'POST',
               headers: {
+                ...(await authHeaders()),
                 'Content-Type': 'application/json',
               },
               body: JSON.stringify({
                 razorpay_order_id: response.razorpay_order_id,
                 razorpay_payment_id: response.razorpay_payment_id,
                 razorpay_signature: response.razorpay_signature,
-                userId: user.uid,
                 planId: plan.id
               })
             });
 
             if (verifyResponse.ok) {
-              // Update user subscription in Firebase
-              const expiryDate = new Date();
-              expiryDate.setFullYear(expiryDate.getFullYear() + 1);
-
-              await updateDoc(doc(db, "users", user.uid), {
-                subscription: {
-                  planId: plan.id,
-                  planName: plan.name,
-                  status: 'active',
-                  startDate: new Date(),
-                  expiryDate: expiryDate,
-                  paymentId: response.razorpay_payment_id,
-                  orderId: response.razorpay_order_id
-                },
-                features: {
-                  unlimitedScanning: true,
-                  contactStorage: plan.id === 'premium' ? 'unlimited' : '1000',
-                  groupManagement: true,
-                  digitalCards: plan.id === 'premium',
-                  bulkUpload: plan.id === 'premium',
-                  templateManagement: plan.id === 'premium'
-                }
-              });
-
+              // The server records the payment and grants the plan
               toast({
                 title: "Payment Successful!",
                 description: `You've successfully subscribed to ${plan.name}. All features are now unlocked!`,
               });
 
               // Refresh subscription status
-              checkSubscriptionStatus();
+              await refreshSubscription();
+              setLoading(null);
             } else {
               throw new Error('Payment verification failed');
             }
@@ -227,10 +221,9 @@ export default function PricingSection() {
     }
   };
 
-  // Check if user has active subscription
-  const hasActiveSubscription = userSubscription && 
-    userSubscription.status === 'active' && 
-    new Date() < new Date(userSubscription.expiryDate?.toDate?.() || userSubscription.expiryDate);
+  // Paid plans can be renewed from the grace period; trials can be upgraded
+  const hasActiveSubscription = userSubscription?.status === 'active';
+  const canRenew = userSubscription?.status === 'grace' || userSubscription?.status === 'past_due';
 
   return (
     <div className="py-12 bg-gray-50">
@@ -244,22 +237,41 @@ export default function PricingSection() {
           </p>
         </div>
 
-        {hasActiveSubscription && (
-          <div className="mt-8 p-4 bg-green-50 border border-green-200 rounded-lg">
+        {userSubscription?.isActive && (
+          <div className={`mt-8 p-4 rounded-lg border ${canRenew ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'}`}>
             <div className="flex items-center">
-              <Check className="h-5 w-5 text-green-600 mr-2" />
+              <Check className={`h-5 w-5 mr-2 ${canRenew ? 'text-amber-600' : 'text-green-600'}`} />
               <div>
-                <p className="text-green-800 font-medium">
-                  You have an active {userSubscription.planName} subscription
+                <p className={`font-medium ${canRenew ? 'text-amber-800' : 'text-green-800'}`}>
+                  {userSubscription.status === 'trialing'
+                    ? `You are on a ${userSubscription.planName} trial`
+                    : canRenew
+                      ? `Your ${userSubscription.planName} subscription needs renewal`
+                      : `You have an active ${userSubscription.planName} subscription`}
                 </p>
-                <p className="text-green-600 text-sm">
-                  Expires on: {new Date(userSubscription.expiryDate?.toDate?.() || userSubscription.expiryDate).toLocaleDateString()}
+                <p className={`text-sm ${canRenew ? 'text-amber-600' : 'text-green-600'}`}>
+                  {canRenew && userSubscription.graceEndsAt
+                    ? `Features stay unlocked until ${new Date(userSubscription.graceEndsAt).toLocaleDateString()}`
+                    : `${userSubscription.status === 'trialing' ? 'Trial ends' : 'Expires'} on: ${userSubscription.endDate ? new Date(userSubscription.endDate).toLocaleDateString() : '-'}`}
                 </p>
               </div>
             </div>
           </div>
         )}
 
+        {userSubscription?.status === 'none' && (
+          <div className="mt-8 text-center">
+            <Button
+              variant="outline"
+              onClick={handleStartTrial}
+              disabled={loading === 'trial'}
+            >
+              {loading === 'trial' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Start a {TRIAL_DAYS}-day free trial
+            </Button>
+          </div>
+        )}
+
         <div className="mt-12 grid grid-cols-1 gap-8 sm:grid-cols-2 lg:grid-cols-2 max-w-4xl mx-auto">
           {pricingPlans.map((plan) => (
             <Card key={plan.id} className={`relative ${plan.popular ? 'border-blue-500 shadow-lg' : ''}`}>
@@ -306,7 +318,9 @@ export default function PricingSection() {
                       Processing...
                     </>
                   ) : hasActiveSubscription ? (
-                    userSubscription.planId === plan.id ? 'Current Plan' : 'Upgrade'
+                    userSubscription?.planId === plan.id ? 'Current Plan' : 'Upgrade'
+                  ) : canRenew && userSubscription?.planId === plan.id ? (
+                    `Renew ${plan.name}`
                   ) : (
                     `Subscribe to ${plan.name}`
                   )}
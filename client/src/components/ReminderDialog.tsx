@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { REMINDER_CHANNELS, daysFromToday, type ReminderChannel, type ReminderInput } from "@/utils/reminders";
+import { BellPlus, Loader2 } from "lucide-react";
+
+interface ReminderDialogProps {
+  isOpen: boolean;
+  // Who the reminder is for, e.g. a contact's name or "12 contacts from this batch"
+  subject: string;
+  defaultNote?: string;
+  onClose: () => void;
+  onSave: (input: ReminderInput) => Promise<void>;
+}
+
+const presets = [
+  { label: "Tomorrow", days: 1 },
+  { label: "In 3 days", days: 3 },
+  { label: "In a week", days: 7 },
+  { label: "In 2 weeks", days: 14 },
+];
+
+// yyyy-mm-dd in local time, as date inputs expect
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export default function ReminderDialog({ isOpen, subject, defaultNote = "", onClose, onSave }: ReminderDialogProps) {
+  const [dueDate, setDueDate] = useState(toDateInput(daysFromToday(3)));
+  const [note, setNote] = useState(defaultNote);
+  const [channel, setChannel] = useState<ReminderChannel>('whatsapp');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDueDate(toDateInput(daysFromToday(3)));
+      setNote(defaultNote);
+      setChannel('whatsapp');
+    }
+  }, [isOpen, defaultNote]);
+
+  const handleSave = async () => {
+    const [year, month, day] = dueDate.split('-').map(Number);
+    if (!year || !month || !day) return;
+
+    try {
+      setSaving(true);
+      await onSave({ dueAt: new Date(year, month - 1, day), note, channel });
+      onClose();
+    } catch {
+      // The caller reports the failure; keep the dialog open to retry
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Reminder</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-600">For {subject}</p>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="reminder-due">Due</Label>
+            <div className="mt-1 flex flex-wrap gap-2">
+              {presets.map(preset => {
+                const value = toDateInput(daysFromToday(preset.days));
+                return (
+                  <Button
+                    key={preset.days}
+                    type="button"
+                    size="sm"
+                    variant={dueDate === value ? "default" : "outline"}
+                    onClick={() => setDueDate(value)}
+                  >
+                    {preset.label}
+                  </Button>
+                );
+              })}
+            </div>
+            <Input
+              id="reminder-due"
+              type="date"
+              className="mt-2"
+              value={dueDate}
+              min={toDateInput(daysFromToday(0))}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <Label>Channel</Label>
+            <Select value={channel} onValueChange={(value) => setChannel(value as ReminderChannel)}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REMINDER_CHANNELS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="reminder-note">Note</Label>
+            <Textarea
+              id="reminder-note"
+              className="mt-1"
+              rows={3}
+              value={note}
+              placeholder="What to follow up on"
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !dueDate}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <BellPlus className="h-4 w-4 mr-2" />}
+            Add Reminder
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
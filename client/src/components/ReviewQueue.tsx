@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import type { ConfidenceLevel, ContactField } from "@shared/schema";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import type { ParsedContact } from "@/utils/parse";
+import type { ReviewAssessment } from "@/utils/review";
+import { AlertTriangle, Check, ChevronLeft, ChevronRight, Loader2, X } from "lucide-react";
+
+export interface ReviewCard extends ParsedContact {
+  id: string;
+  imageUrl?: string;
+  review?: ReviewAssessment;
+}
+
+interface ReviewQueueProps {
+  isOpen: boolean;
+  cards: ReviewCard[];
+  initialCardId?: string | null;
+  saving: boolean;
+  onClose: () => void;
+  onApprove: (card: ReviewCard) => Promise<void>;
+  onReject: (card: ReviewCard) => Promise<void>;
+}
+
+const reviewFields: Array<{ field: Exclude<ContactField, 'phones' | 'social'>; label: string }> = [
+  { field: 'name', label: 'Name' },
+  { field: 'company', label: 'Company' },
+  { field: 'email', label: 'Email' },
+  { field: 'services', label: 'Services/Position' },
+  { field: 'address', label: 'Address' },
+  { field: 'website', label: 'Website' },
+];
+
+const confidenceStyles: Record<ConfidenceLevel, string> = {
+  high: "",
+  medium: "border-amber-300 bg-amber-50",
+  low: "border-red-400 bg-red-50",
+};
+
+const confidenceBadges: Record<ConfidenceLevel, string> = {
+  high: "bg-green-50 text-green-700 border-green-200",
+  medium: "bg-amber-50 text-amber-700 border-amber-200",
+  low: "bg-red-50 text-red-700 border-red-200",
+};
+
+function ConfidenceBadge({ level }: { level?: ConfidenceLevel }) {
+  if (!level) return null;
+  return (
+    <Badge variant="outline" className={`ml-2 text-[10px] capitalize ${confidenceBadges[level]}`}>
+      {level}
+    </Badge>
+  );
+}
+
+export default function ReviewQueue({
+  isOpen,
+  cards,
+  initialCardId,
+  saving,
+  onClose,
+  onApprove,
+  onReject,
+}: ReviewQueueProps) {
+  const [index, setIndex] = useState(0);
+  const [editData, setEditData] = useState<ParsedContact>({});
+  const [phonesText, setPhonesText] = useState("");
+
+  // Start at the card the reviewer picked
+  useEffect(() => {
+    if (!isOpen) return;
+    const start = cards.findIndex(c => c.id === initialCardId);
+    setIndex(start >= 0 ? start : 0);
+  }, [isOpen, initialCardId]);
+
+  // Approved and rejected cards leave the queue; stay on the same slot
+  const current = cards[Math.min(index, cards.length - 1)];
+
+  useEffect(() => {
+    setEditData(current ? { ...current } : {});
+    setPhonesText(current?.phones?.join(", ") || "");
+  }, [current?.id]);
+
+  if (!isOpen) return null;
+
+  const fieldClass = (field: ContactField) => {
+    const level = current?.fieldConfidence?.[field];
+    return level ? confidenceStyles[level] : "";
+  };
+
+  const handleApprove = async () => {
+    if (!current) return;
+    const phones = phonesText.split(/[,;\n]/).map(p => p.trim()).filter(Boolean);
+    await onApprove({ ...current, ...editData, phones: phones.length > 0 ? phones : undefined });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Review Queue
+            {cards.length > 0 && (
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                Card {Math.min(index, cards.length - 1) + 1} of {cards.length}
+              </span>
+            )}
+          </DialogTitle>
+        </DialogHeader>
+
+        {!current ? (
+          <div className="py-12 text-center text-gray-600">
+            <Check className="h-8 w-8 mx-auto mb-2 text-green-600" />
+            All cards have been reviewed.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              {current.imageUrl ? (
+                <img
+                  src={current.imageUrl}
+                  alt="Scanned business card"
+                  className="w-full max-h-[60vh] object-contain rounded-lg border bg-gray-50"
+                  data-testid="review-image"
+                />
+              ) : (
+                <div className="h-48 flex items-center justify-center rounded-lg border bg-gray-50 text-sm text-gray-500">
+                  No image available
+                </div>
+              )}
+              {current.review && (
+                <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm">
+                  <p className="font-medium text-amber-900 flex items-center">
+                    <AlertTriangle className="h-4 w-4 mr-2" />
+                    Quality score {current.review.score}/100
+                    <ConfidenceBadge level={current.confidence} />
+                  </p>
+                  {current.review.issues.length > 0 && (
+                    <ul className="mt-2 list-disc list-inside text-amber-800 space-y-1">
+                      {current.review.issues.map(issue => (
+                        <li key={issue}>{issue}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              {reviewFields.map(({ field, label }) => (
+                <div key={field}>
+                  <Label htmlFor={`review-${field}`} className="flex items-center">
+                    {label}
+                    <ConfidenceBadge level={current.fieldConfidence?.[field]} />
+                  </Label>
+                  <Input
+                    id={`review-${field}`}
+                    value={editData[field] || ""}
+                    onChange={(e) => setEditData(prev => ({ ...prev, [field]: e.target.value }))}
+                    className={`mt-1 ${fieldClass(field)}`}
+                    data-testid={`review-input-${field}`}
+                  />
+                </div>
+              ))}
+              <div>
+                <Label htmlFor="review-phones" className="flex items-center">
+                  Phone Numbers
+                  <ConfidenceBadge level={current.fieldConfidence?.phones} />
+                </Label>
+                <Input
+                  id="review-phones"
+                  value={phonesText}
+                  onChange={(e) => setPhonesText(e.target.value)}
+                  placeholder="Separate numbers with commas"
+                  className={`mt-1 ${fieldClass('phones')}`}
+                  data-testid="review-input-phones"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {current && (
+          <div className="flex flex-col-reverse sm:flex-row sm:justify-between gap-3 pt-4 border-t">
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIndex(i => Math.max(0, i - 1))}
+                disabled={index === 0}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIndex(i => Math.min(cards.length - 1, i + 1))}
+                disabled={index >= cards.length - 1}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => onReject(current)}
+                disabled={saving}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                data-testid="review-reject"
+              >
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+              <Button onClick={handleApprove} disabled={saving} data-testid="review-approve">
+                {saving ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <Check className="h-4 w-4 mr-1" />
+                )}
+                Approve & Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { getScanJobSummary, type ScanFileStatus, type ScanJob } from "@/utils/scanJobs";
+import { formatEta, type OcrSchedulerStats } from "@/utils/ocrScheduler";
+import { ChevronDown, ChevronUp, Eye, History, Loader2, Play, RotateCcw, Trash2 } from "lucide-react";
+
+interface ScanJobListProps {
+  jobs: ScanJob[];
+  runningJobId: string | null;
+  runningStats: OcrSchedulerStats | null;
+  onResume: (job: ScanJob) => void;
+  onRetry: (job: ScanJob) => void;
+  onReview: (job: ScanJob) => void;
+  onDelete: (job: ScanJob) => void;
+}
+
+const statusLabels: Record<ScanFileStatus, string> = {
+  queued: "Queued",
+  uploading: "Uploading",
+  scanning: "Scanning",
+  needs_review: "Needs review",
+  saved: "Saved",
+  failed: "Failed",
+};
+
+const statusColors: Record<ScanFileStatus, string> = {
+  queued: "bg-gray-50 text-gray-700 border-gray-200",
+  uploading: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  scanning: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  needs_review: "bg-blue-50 text-blue-700 border-blue-200",
+  saved: "bg-green-50 text-green-700 border-green-200",
+  failed: "bg-red-50 text-red-700 border-red-200",
+};
+
+export default function ScanJobList({ jobs, runningJobId, runningStats, onResume, onRetry, onReview, onDelete }: ScanJobListProps) {
+  const [expandedJobs, setExpandedJobs] = useState<Record<string, boolean>>({});
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <History className="h-5 w-5 mr-2" />
+          Scan Batches
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {jobs.map(job => {
+          const summary = getScanJobSummary(job);
+          const isRunning = runningJobId === job.id;
+          // The running batch shows per-file progress until collapsed
+          const expanded = expandedJobs[job.id] ?? isRunning;
+
+          return (
+            <div key={job.id} className="border rounded-lg p-4" data-testid={`scan-job-${job.id}`}>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">
+                    {job.createdAt.toLocaleString()}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {summary.done}/{summary.total} image{summary.total !== 1 ? 's' : ''} processed
+                    {summary.cards > 0 && ` · ${summary.cards} card${summary.cards !== 1 ? 's' : ''} found`}
+                    {summary.failed > 0 && ` · ${summary.failed} failed`}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {isRunning ? (
+                    <Button size="sm" disabled>
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      Processing
+                    </Button>
+                  ) : summary.isUnfinished && (
+                    <Button size="sm" onClick={() => onResume(job)} disabled={!!runningJobId}>
+                      <Play className="h-4 w-4 mr-1" />
+                      Resume
+                    </Button>
+                  )}
+                  {!isRunning && summary.failed > 0 && (
+                    <Button size="sm" variant="outline" onClick={() => onRetry(job)} disabled={!!runningJobId}>
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Retry Failed
+                    </Button>
+                  )}
+                  {!isRunning && summary.needsReview > 0 && (
+                    <Button size="sm" variant="outline" onClick={() => onReview(job)}>
+                      <Eye className="h-4 w-4 mr-1" />
+                      Review ({summary.needsReview})
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setExpandedJobs(prev => ({ ...prev, [job.id]: !expanded }))}
+                  >
+                    {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onDelete(job)}
+                    disabled={isRunning}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <Progress value={summary.total ? (summary.done / summary.total) * 100 : 0} className="mt-3 h-2" />
+
+              {isRunning && runningStats && (
+                <p className="mt-2 text-xs text-gray-600" data-testid="scan-job-stats">
+                  {runningStats.inFlight} in flight · {runningStats.throughputPerMinute.toFixed(1)} images/min
+                  {runningStats.etaSeconds !== null && ` · about ${formatEta(runningStats.etaSeconds)} left`}
+                  {runningStats.throttledUntil !== null && ' · rate limited, slowing down'}
+                </p>
+              )}
+
+              {expanded && (
+                <div className="mt-3 space-y-2">
+                  {job.files.map(file => (
+                    <div key={file.id} className="flex items-center justify-between gap-2 p-2 bg-gray-50 rounded">
+                      <div className="min-w-0">
+                        <p className="text-sm truncate">
+                          {file.name}
+                          {file.backOf && <span className="ml-1 text-xs text-gray-500">(back)</span>}
+                        </p>
+                        {file.error && (
+                          <p className="text-xs text-red-600 truncate">{file.error}</p>
+                        )}
+                      </div>
+                      <Badge variant="outline" className={`flex-shrink-0 ${statusColors[file.status]}`}>
+                        {statusLabels[file.status]}
+                        {file.cards.length > 0 && ` · ${file.cards.length}`}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
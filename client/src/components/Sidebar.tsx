@@ -14,7 +14,8 @@ import {
   LogOut,
   Zap,
   Sparkles,
-  Menu
+  Menu,
+  Send
 } from "lucide-react";
 
 const navigation = [
@@ -42,6 +43,12 @@ const navigation = [
     icon: FileText,
     description: "Message templates"
   },
+  {
+    name: "Campaigns",
+    href: "/campaigns",
+    icon: Send,
+    description: "WhatsApp & email to groups"
+  },
   {
     name: "AI Card Scanner",
     href: "/bulk-uploads",
@@ -0,0 +1,152 @@
+import { useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  TEMPLATE_VARIABLES,
+  renderTemplate,
+  sampleTemplateValues,
+  validateTemplate,
+  type TemplateValues,
+  type TemplateVariableGroup,
+} from "@shared/templates";
+import { AlertTriangle, Braces } from "lucide-react";
+
+interface TemplateEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  // The user's own name, business and card link; samples stand in for blanks
+  sender: TemplateValues;
+}
+
+const groupLabels: Record<TemplateVariableGroup, string> = {
+  contact: "Contact",
+  sender: "You",
+};
+
+// Preview contacts: one with every detail and one without, to check fallbacks
+const previewContacts = {
+  full: { label: "Sample contact", values: {} as TemplateValues },
+  sparse: { label: "Missing details", values: { firstName: "", lastName: "", fullName: "", company: "", email: "" } as TemplateValues },
+};
+
+export default function TemplateEditor({ id, value, onChange, sender }: TemplateEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [previewContact, setPreviewContact] = useState<keyof typeof previewContacts>("full");
+
+  const issues = useMemo(() => validateTemplate(value), [value]);
+  const preview = useMemo(() => {
+    const senderValues = Object.fromEntries(Object.entries(sender).filter(([, v]) => v));
+    return renderTemplate(value, { ...sampleTemplateValues(), ...senderValues, ...previewContacts[previewContact].values });
+  }, [value, sender, previewContact]);
+
+  // Insert at the cursor, or around the selection for blocks
+  const insert = (before: string, after: string = "") => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const next = value.slice(0, start) + before + value.slice(start, end) + after + value.slice(end);
+    onChange(next);
+
+    requestAnimationFrame(() => {
+      if (!textarea) return;
+      textarea.focus();
+      const cursor = end + before.length;
+      textarea.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {(Object.keys(groupLabels) as TemplateVariableGroup[]).map(group => (
+          <div key={group} className="flex flex-wrap items-center gap-1">
+            <span className="text-xs font-medium text-gray-500 w-14">{groupLabels[group]}</span>
+            {TEMPLATE_VARIABLES.filter(v => v.group === group).map(variable => (
+              <Button
+                key={variable.name}
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                title={`Insert {${variable.name}}`}
+                onClick={() => insert(`{${variable.name}}`)}
+              >
+                {variable.label}
+              </Button>
+            ))}
+          </div>
+        ))}
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs font-medium text-gray-500 w-14">Logic</span>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => insert("{firstName|there}")}
+          >
+            <Braces className="h-3 w-3 mr-1" />
+            Name with fallback
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            title="Wrap the selection in a block shown only when the contact has a company"
+            onClick={() => insert("{#if company}", "{/if}")}
+          >
+            <Braces className="h-3 w-3 mr-1" />
+            If company
+          </Button>
+        </div>
+      </div>
+
+      <Textarea
+        id={id}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Hi {firstName|there}, great meeting you{#if company} from {company}{/if}!"
+        rows={6}
+        required
+      />
+
+      {issues.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-1">
+          {issues.map((issue, i) => (
+            <p key={i} className="text-xs text-red-700 flex items-center">
+              <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+              {issue.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+        <div className="flex items-center justify-between mb-2">
+          <Label className="text-sm font-medium text-green-800">Preview</Label>
+          <div className="flex gap-1">
+            {(Object.keys(previewContacts) as Array<keyof typeof previewContacts>).map(key => (
+              <Button
+                key={key}
+                type="button"
+                variant={previewContact === key ? "default" : "ghost"}
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => setPreviewContact(key)}
+              >
+                {previewContacts[key].label}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <p className="text-sm text-green-700 whitespace-pre-wrap max-h-40 overflow-y-auto">
+          {preview || <span className="text-green-600/60">Start typing to see a preview</span>}
+        </p>
+      </div>
+    </div>
+  );
+}
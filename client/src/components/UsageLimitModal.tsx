@@ -25,13 +25,13 @@ export default function UsageLimitModal({
     contact: {
       icon: Users,
       title: "Contact Limit Reached",
-      description: "You've reached the limit of 1 contact for free users.",
+      description: `You've reached the limit of ${limit} contact${limit === 1 ? '' : 's'} on your plan.`,
       color: "text-blue-600"
     },
     group: {
       icon: Layers,
       title: "Group Limit Reached", 
-      description: "You've reached the limit of 1 group for free users.",
+      description: `You've reached the limit of ${limit} group${limit === 1 ? '' : 's'} on your plan.`,
       color: "text-green-600"
     },
     digitalCard: {
@@ -43,7 +43,7 @@ export default function UsageLimitModal({
     aiScan: {
       icon: Camera,
       title: "AI Scan Limit Reached",
-      description: "You've reached the limit of 1 AI scan for free users.",
+      description: `You've reached the limit of ${limit} AI scan${limit === 1 ? '' : 's'} on your plan.`,
       color: "text-orange-600"
     }
   };
@@ -53,7 +53,7 @@ export default function UsageLimitModal({
 
   const handleUpgrade = () => {
     onClose();
-    setLocation("#");
+    setLocation("/pricing");
   };
 
   return (
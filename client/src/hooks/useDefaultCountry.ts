@@ -0,0 +1,47 @@
+import { useQuery } from '@tanstack/react-query';
+import { doc, getDoc, serverTimestamp, setDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/contexts/AuthContext';
+
+export const settingsQueryKey = (userId?: string) => ['settings', userId];
+
+export interface DefaultCountry {
+  // Unset while loading and until the user picks a country
+  defaultCountry?: string;
+  loading: boolean;
+  setDefaultCountry: (code: string) => Promise<void>;
+}
+
+/**
+ * The country phone numbers without a country code are read in, from the
+ * user's settings. Shared through the query cache; Settings invalidates it
+ * on save. Imports and saves wait for it, as guessing a country would store
+ * numbers under the wrong country code.
+ */
+export function useDefaultCountry(): DefaultCountry {
+  const { user } = useAuth();
+  const { data, isLoading } = useQuery<string>({
+    queryKey: settingsQueryKey(user?.uid),
+    queryFn: async () => {
+      const settingsDoc = await getDoc(doc(db, 'settings', user!.uid));
+      return settingsDoc.data()?.defaultCountry || '';
+    },
+    enabled: !!user,
+  });
+
+  const setDefaultCountry = async (code: string) => {
+    await setDoc(doc(db, 'settings', user!.uid), {
+      defaultCountry: code,
+      ownerId: user!.uid,
+      updatedAt: serverTimestamp(),
+    }, { merge: true });
+    await queryClient.invalidateQueries({ queryKey: settingsQueryKey(user!.uid) });
+  };
+
+  return {
+    defaultCountry: data || undefined,
+    loading: !user || isLoading,
+    setDefaultCountry,
+  };
+}
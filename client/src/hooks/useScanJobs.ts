@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { subscribeToScanJobs, type ScanJob } from '@/utils/scanJobs';
+
+interface ScanJobsHook {
+  jobs: ScanJob[];
+  loading: boolean;
+}
+
+/**
+ * The signed-in user's bulk scan jobs, kept live from Firestore so progress
+ * written by the runner shows up immediately.
+ */
+export function useScanJobs(): ScanJobsHook {
+  const { user } = useAuth();
+  const [jobs, setJobs] = useState<ScanJob[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setJobs([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    return subscribeToScanJobs(
+      user.uid,
+      (next) => {
+        setJobs(next);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error loading scan jobs:', error);
+        setLoading(false);
+      }
+    );
+  }, [user]);
+
+  return { jobs, loading };
+}
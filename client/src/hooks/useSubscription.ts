@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import type { SubscriptionState } from '@shared/schema';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface SubscriptionHook {
+  subscription: SubscriptionState | undefined;
+  loading: boolean;
+  refreshSubscription: () => Promise<void>;
+}
+
+/**
+ * Subscription state served by /api/subscription/:userId. Shared through the
+ * query cache so every consumer sees the same plan.
+ */
+export function useSubscription(): SubscriptionHook {
+  const { user } = useAuth();
+  const query = useQuery<SubscriptionState>({
+    queryKey: ['/api/subscription', user?.uid],
+    enabled: !!user,
+  });
+
+  return {
+    subscription: query.data,
+    loading: !!user && query.isLoading,
+    refreshSubscription: async () => {
+      await query.refetch();
+    },
+  };
+}
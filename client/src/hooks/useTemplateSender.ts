@@ -0,0 +1,39 @@
+import { useQuery } from '@tanstack/react-query';
+import { collection, doc, getDoc, getDocs, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { settingsQueryKey } from '@/hooks/useDefaultCountry';
+import type { TemplateValues } from '@shared/templates';
+
+/**
+ * Sender variables for message templates: names from the user's settings
+ * and the link to their most recently updated public digital card. Keyed
+ * under the settings query, so saving Settings refreshes it.
+ */
+export function useTemplateSender(): TemplateValues {
+  const { user } = useAuth();
+  const { data } = useQuery<TemplateValues>({
+    queryKey: [...settingsQueryKey(user?.uid), 'templateSender'],
+    queryFn: async () => {
+      const cardsQuery = query(collection(db, 'digitalCards'), where('ownerId', '==', user!.uid));
+      const [settingsDoc, cardsSnapshot] = await Promise.all([
+        getDoc(doc(db, 'settings', user!.uid)),
+        getDocs(cardsQuery),
+      ]);
+      const settings = settingsDoc.data() || {};
+      const card = cardsSnapshot.docs
+        .map(d => d.data())
+        .filter(c => c.isPublic && c.publicId)
+        .sort((a, b) => (b.updatedAt?.toMillis?.() || 0) - (a.updatedAt?.toMillis?.() || 0))[0];
+
+      return {
+        displayName: settings.displayName || user!.displayName || '',
+        businessName: settings.businessName || '',
+        cardLink: card ? `${window.location.origin}/share/${card.publicId}` : '',
+      };
+    },
+    enabled: !!user,
+  });
+
+  return data || {};
+}
@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
-import { collection, query, where, getCountFromServer, doc, getDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { authHeaders, queryClient } from '@/lib/queryClient';
+import { useSubscription } from '@/hooks/useSubscription';
+import type { QuotaResource, QuotaSummary } from '@shared/schema';
 
 interface UsageLimits {
   contacts: number;
@@ -17,6 +19,9 @@ interface UserUsage {
   aiScansCount: number;
 }
 
+// Quotas on documents, which the server creates for the client
+export type DocumentQuotaResource = Exclude<QuotaResource, 'aiScans'>;
+
 interface UsageLimitsHook {
   usage: UserUsage;
   limits: UsageLimits;
@@ -27,36 +32,47 @@ interface UsageLimitsHook {
   canUseAIScan: boolean;
   loading: boolean;
   refreshUsage: () => Promise<void>;
+  // Ids of the created documents, or null when the plan's limit is reached
+  createDocuments: (resource: DocumentQuotaResource, documents: Record<string, unknown>[]) => Promise<string[] | null>;
+  releaseQuota: (resource: QuotaResource) => Promise<void>;
 }
 
+/**
+ * Usage and limits enforced by the server's quota service. Contacts, groups
+ * and digital cards are created through createDocuments, which the server
+ * refuses past the plan's limit; pages call releaseQuota after deleting
+ * them and the server then recounts what exists.
+ */
 export function useUsageLimits(): UsageLimitsHook {
   const { user } = useAuth();
-  const [usage, setUsage] = useState<UserUsage>({
-    contactsCount: 0,
-    groupsCount: 0,
-    digitalCardsCount: 0,
-    aiScansCount: 0,
-  });
-  const [hasActiveSubscription, setHasActiveSubscription] = useState(false);
+  const { subscription, loading: subscriptionLoading, refreshSubscription } = useSubscription();
   const [loading, setLoading] = useState(true);
+  const quotaKey = ['/api/quota', user?.uid];
+  const { data: summary } = useQuery<QuotaSummary>({
+    queryKey: quotaKey,
+    enabled: !!user,
+  });
+  const hasActiveSubscription = !!subscription?.isActive;
 
-  // Define limits for free users
-  const freeLimits: UsageLimits = {
-    contacts: 1,
-    groups: 1,
-    digitalCards: 10, // Both free and paid users can store up to 10 digital cards
-    aiScans: 1,
+  const usage: UserUsage = {
+    contactsCount: summary?.quotas.contacts.used ?? 0,
+    groupsCount: summary?.quotas.groups.used ?? 0,
+    digitalCardsCount: summary?.quotas.digitalCards.used ?? 0,
+    aiScansCount: summary?.quotas.aiScans.used ?? 0,
   };
 
-  // Unlimited for paid users
-  const paidLimits: UsageLimits = {
-    contacts: Infinity,
-    groups: Infinity,
-    digitalCards: 10, // Limited to 10 digital cards for paid users
-    aiScans: Infinity,
+  // null limits are unlimited
+  const limits: UsageLimits = {
+    contacts: summary?.quotas.contacts.limit ?? Infinity,
+    groups: summary?.quotas.groups.limit ?? Infinity,
+    digitalCards: summary?.quotas.digitalCards.limit ?? Infinity,
+    aiScans: summary?.quotas.aiScans.limit ?? Infinity,
   };
 
-  const limits = hasActiveSubscription ? paidLimits : freeLimits;
+  const hasRemaining = (resource: QuotaResource) => {
+    const quota = summary?.quotas[resource];
+    return !quota || quota.remaining === null || quota.remaining > 0;
+  };
 
   const refreshUsage = async () => {
     if (!user) return;
@@ -64,43 +80,18 @@ export function useUsageLimits(): UsageLimitsHook {
     try {
       setLoading(true);
 
-      // Check subscription status
-      const userDoc = await getDoc(doc(db, "users", user.uid));
-      let isActive = false;
-      if (userDoc.exists()) {
-        const userData = userDoc.data();
-        const subscription = userData.subscription;
-        isActive = subscription && 
-          subscription.status === 'active' && 
-          new Date() < new Date(subscription.expiryDate?.toDate?.() || subscription.expiryDate);
-      }
-      setHasActiveSubscription(isActive);
-
-      // Fetch usage counts
-      const collections = ["contacts", "groups", "digitalCards"];
-      const counts = await Promise.all(
-        collections.map(async (collectionName) => {
-          const collRef = collection(db, collectionName);
-          const q = query(collRef, where("ownerId", "==", user.uid));
-          const snapshot = await getCountFromServer(q);
-          return snapshot.data().count;
-        })
-      );
-
-      // Count AI scans (contacts with source = business_card_scan or bulk_scan)
-      const aiScansQuery = query(
-        collection(db, "contacts"),
-        where("ownerId", "==", user.uid),
-        where("source", "in", ["business_card_scan", "bulk_scan"])
-      );
-      const aiScansSnapshot = await getCountFromServer(aiScansQuery);
-
-      setUsage({
-        contactsCount: counts[0],
-        groupsCount: counts[1],
-        digitalCardsCount: counts[2],
-        aiScansCount: aiScansSnapshot.data().count,
+      await refreshSubscription();
+
+      // The server recounts what already exists, covering data created
+      // before quotas were tracked
+      const response = await fetch(`/api/quota/${user.uid}/reconcile`, {
+        method: 'POST',
+        headers: await authHeaders(),
       });
+
+      if (response.ok) {
+        queryClient.setQueryData(quotaKey, await response.json());
+      }
     } catch (error) {
       console.error("Error fetching usage data:", error);
     } finally {
@@ -108,6 +99,43 @@ export function useUsageLimits(): UsageLimitsHook {
     }
   };
 
+  // ownerId and the createdAt/updatedAt times are set by the server
+  const createDocuments = async (resource: DocumentQuotaResource, documents: Record<string, unknown>[]) => {
+    if (!user) return null;
+
+    const response = await fetch(`/api/quota/${user.uid}/create`, {
+      method: 'POST',
+      headers: { ...(await authHeaders()), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ resource, documents }),
+    });
+
+    await queryClient.invalidateQueries({ queryKey: quotaKey });
+
+    if (response.status === 403) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to create ${resource}`);
+    }
+    const { ids } = await response.json();
+    return ids as string[];
+  };
+
+  const releaseQuota = async (resource: QuotaResource) => {
+    if (!user) return;
+
+    try {
+      await fetch(`/api/quota/${user.uid}/sync`, {
+        method: 'POST',
+        headers: { ...(await authHeaders()), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resource }),
+      });
+      await queryClient.invalidateQueries({ queryKey: quotaKey });
+    } catch (error) {
+      console.error(`Error releasing ${resource} quota:`, error);
+    }
+  };
+
   useEffect(() => {
     if (user) {
       refreshUsage();
@@ -118,11 +146,13 @@ export function useUsageLimits(): UsageLimitsHook {
     usage,
     limits,
     hasActiveSubscription,
-    canAddContact: usage.contactsCount < limits.contacts,
-    canAddGroup: usage.groupsCount < limits.groups,
-    canAddDigitalCard: usage.digitalCardsCount < limits.digitalCards,
-    canUseAIScan: usage.aiScansCount < limits.aiScans,
-    loading,
+    canAddContact: hasRemaining('contacts'),
+    canAddGroup: hasRemaining('groups'),
+    canAddDigitalCard: hasRemaining('digitalCards'),
+    canUseAIScan: hasRemaining('aiScans'),
+    loading: loading || subscriptionLoading,
     refreshUsage,
+    createDocuments,
+    releaseQuota,
   };
-}
\ No newline at end of file
+}
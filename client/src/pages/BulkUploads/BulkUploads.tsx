@@ -1,14 +1,16 @@
 import { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { collection, addDoc, serverTimestamp, query, where, getDocs } from "firebase/firestore";
+import { collection, query, where, getDocs } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { uploadToStorage } from "@/utils/upload";
-import { callGeminiAPIWithRetry } from "@/utils/ocr";
+import { formatVCardAddress, parseVCard } from "@shared/vcard";
+import { extractContactFromImageWithRetry } from "@/utils/ocr";
 import type { ParsedContact } from "@/utils/parse";
 import { isDuplicateContact } from "@/utils/duplicate";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useUsageLimits } from "@/hooks/useUsageLimits";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { CloudUpload, Check, Clock, X, Save, Users, Sparkles, Brain, Zap, FileImage, AlertCircle, CheckCircle2, Camera, QrCode, ScanLine, CameraOff, RotateCcw, ArrowRight, ArrowLeft } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -173,47 +175,20 @@ const parseVCardData = (qrText: string): Partial<ParsedContact> => {
   
   if (qrText.includes('BEGIN:VCARD')) {
     // vCard format
-    const lines = qrText.split('\n').map(line => line.trim()).filter(line => line);
-    
-    lines.forEach(line => {
-      if (line.includes(':')) {
-        const colonIndex = line.indexOf(':');
-        const key = line.substring(0, colonIndex).split(';')[0]; // Handle parameters
-        const value = line.substring(colonIndex + 1).trim();
-        
-        switch (key.toUpperCase()) {
-          case 'FN':
-          case 'N':
-            if (!contact.name && value) {
-              contact.name = value.replace(/;/g, ' ').trim();
-            }
-            break;
-          case 'ORG':
-            contact.company = value;
-            break;
-          case 'EMAIL':
-            contact.email = value;
-            break;
-          case 'TEL':
-            // Clean phone number
-            contact.phone = value.replace(/[^\d+\-\s]/g, '');
-            break;
-          case 'ADR':
-            // Parse address components: PO Box;Extended;Street;City;State;Postal;Country
-            const addressParts = value.split(';').filter(part => part.trim());
-            contact.address = addressParts.join(', ').replace(/,\s*,/g, ',').trim();
-            break;
-          case 'URL':
-            if (!contact.services) contact.services = '';
-            contact.services += (contact.services ? ', ' : '') + `Website: ${value}`;
-            break;
-          case 'TITLE':
-            if (!contact.services) contact.services = '';
-            contact.services += (contact.services ? ', ' : '') + `Title: ${value}`;
-            break;
-        }
-      }
-    });
+    const card = parseVCard(qrText);
+    if (card) {
+      if (card.formattedName) contact.name = card.formattedName;
+      if (card.organization) contact.company = card.organization;
+      if (card.emails[0]) contact.email = card.emails[0].value;
+      if (card.phones[0]) contact.phone = card.phones[0].value.replace(/[^\d+\-\s]/g, '');
+      if (card.addresses[0]) contact.address = formatVCardAddress(card.addresses[0]);
+
+      const services = [
+        ...card.urls.map(url => `Website: ${url.value}`),
+        ...(card.title ? [`Title: ${card.title}`] : []),
+      ];
+      if (services.length > 0) contact.services = services.join(', ');
+    }
   } else if (qrText.startsWith('MECARD:')) {
     // MeCard format
     const data = qrText.substring(7, qrText.length - (qrText.endsWith(';;') ? 2 : 0));
@@ -256,6 +231,7 @@ const parseVCardData = (qrText: string): Partial<ParsedContact> => {
 export default function BulkUploads() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { createDocuments } = useUsageLimits();
   const [uploadResults, setUploadResults] = useState<UploadResult[]>([]);
   const [uploading, setUploading] = useState(false);
   const [groups, setGroups] = useState<Group[]>([]);
@@ -504,7 +480,7 @@ export default function BulkUploads() {
         
         // Still run OCR to get additional visible information
         try {
-          const ocrData = await callGeminiAPIWithRetry(result.file, 3);
+          const ocrData = await extractContactFromImageWithRetry(result.file, 3);
           
           // Merge QR data with OCR data (QR data takes precedence for structured fields)
           extractedData = {
@@ -530,7 +506,7 @@ export default function BulkUploads() {
         console.log(`Combined QR and OCR data for ${result.file.name}:`, extractedData);
       } else {
         console.log(`No QR code found, using OCR for ${result.file.name}`);
-        extractedData = await callGeminiAPIWithRetry(result.file, 3);
+        extractedData = await extractContactFromImageWithRetry(result.file, 3);
       }
 
       console.log(`Data extracted successfully for ${result.file.name}:`, extractedData);
@@ -651,6 +627,7 @@ export default function BulkUploads() {
       let savedCount = 0;
       let duplicateCount = 0;
       let errorCount = 0;
+      let limitReached = false;
 
       for (const result of completedResults) {
         try {
@@ -666,7 +643,7 @@ export default function BulkUploads() {
           }
 
           // Create contact with selected groups
-          await addDoc(collection(db, "contacts"), {
+          const ids = await createDocuments('contacts', [{
             firstName: data.name?.split(' ')[0] || "",
             lastName: data.name?.split(' ').slice(1).join(' ') || "",
             phone: data.phone || "",
@@ -674,14 +651,17 @@ export default function BulkUploads() {
             company: data.company || "",
             services: data.services || "",
             address: data.address || "",
+            frontImageUrl: result.imageUrl || "",
             groupIds: selectedGroupIds,
-            ownerId: user!.uid,
-            createdAt: serverTimestamp(),
             // Add metadata for tracking
             source: result.isFromCamera ? 'camera' : 'upload',
             hasQRData: !!result.qrData,
             qrContent: result.qrData?.data || null,
-          });
+          }]);
+          if (!ids) {
+            limitReached = true;
+            break;
+          }
 
           savedCount++;
         } catch (contactError) {
@@ -701,6 +681,9 @@ export default function BulkUploads() {
       if (errorCount > 0) {
         successMessage += `, ${errorCount} error${errorCount !== 1 ? 's' : ''}`;
       }
+      if (limitReached) {
+        successMessage += `, contact limit reached`;
+      }
       
       toast({
         title: "Success",
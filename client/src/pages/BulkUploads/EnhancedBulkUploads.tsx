@@ -2,11 +2,30 @@ import { useState, useCallback, useRef, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { collection, addDoc, query, where, getDocs, serverTimestamp } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { processMultipleBusinessCards, validateImageFile, type MultiCardResult } from "@/utils/multiCardOcr";
-import { uploadToStorage } from "@/utils/upload";
+import { validateImageFile } from "@/utils/multiCardOcr";
+import { ScanQuotaExceededError } from "@/utils/ocrApi";
+import { formatEta, type OcrSchedulerStats } from "@/utils/ocrScheduler";
+import {
+  createScanJob,
+  deleteScanJob,
+  getScanJobSummary,
+  pickContactFields,
+  retryFailedFiles,
+  runScanJob,
+  updateScanJobCards,
+  type ScanJob,
+  type ScanJobCard
+} from "@/utils/scanJobs";
+import { assessForReview, type ReviewAssessment } from "@/utils/review";
 import { isDuplicateContact } from "@/utils/duplicate";
 import type { ParsedContact } from "@/utils/parse";
 import { useUsageLimits } from "@/hooks/useUsageLimits";
+import { useDefaultCountry } from "@/hooks/useDefaultCountry";
+import { useTemplateSender } from "@/hooks/useTemplateSender";
+import { toPhoneFields, toWhatsAppNumber } from "@shared/phone";
+import { toAddressFields } from "@shared/address";
+import { TEMPLATE_VARIABLES, contactTemplateValues, renderTemplate } from "@shared/templates";
+import { useScanJobs } from "@/hooks/useScanJobs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -18,7 +37,13 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import CameraCapture from "@/components/CameraCapture";
 import UsageLimitModal from "@/components/UsageLimitModal";
+import DefaultCountryPrompt from "@/components/DefaultCountryPrompt";
+import ScanJobList from "@/components/ScanJobList";
+import ReviewQueue, { type ReviewCard } from "@/components/ReviewQueue";
 import FeedbackForm from "@/components/FeedbackForm";
+import ReminderDialog from "@/components/ReminderDialog";
+import { createBatchReminders, type ReminderInput } from "@/utils/reminders";
+import { recordTemplateUse } from "@/utils/templateLibrary";
 import { 
   Upload, 
   Loader2, 
@@ -54,7 +79,8 @@ import {
   ChevronUp,
   Heart,
   Star,
-  ThumbsUp
+  ThumbsUp,
+  BellPlus
 } from "lucide-react";
 
 interface ProcessedCard extends ParsedContact {
@@ -62,9 +88,14 @@ interface ProcessedCard extends ParsedContact {
   status: 'success' | 'error' | 'duplicate';
   error?: string;
   saved?: boolean;
+  contactId?: string;
   isFromCamera?: boolean;
   captureIndex?: number;
   imageUrl?: string;
+  frontImageUrl?: string;
+  backImageUrl?: string;
+  review?: ReviewAssessment;
+  reviewStatus?: 'approved' | 'rejected';
 }
 
 interface Group {
@@ -111,13 +142,12 @@ const getDeviceType = () => {
   };
 };
 
-// Helper function to add delay between operations
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 export default function EnhancedBulkUploads() {
   const { user } = useAuth();
   const { toast } = useToast();
-  const { usage, limits, hasActiveSubscription, canUseAIScan, loading: limitsLoading, refreshUsage } = useUsageLimits();
+  const { usage, limits, hasActiveSubscription, canUseAIScan, loading: limitsLoading, refreshUsage, createDocuments } = useUsageLimits();
+  const { defaultCountry } = useDefaultCountry();
+  const templateSender = useTemplateSender();
   
   const [files, setFiles] = useState<File[]>([]);
   const [processing, setProcessing] = useState(false);
@@ -129,6 +159,15 @@ export default function EnhancedBulkUploads() {
   const [editData, setEditData] = useState<ParsedContact>({});
   const [saving, setSaving] = useState<string | null>(null);
   const [showLimitModal, setShowLimitModal] = useState(false);
+  const [limitFeature, setLimitFeature] = useState<'aiScan' | 'contact'>('aiScan');
+  const { jobs: scanJobs } = useScanJobs();
+  const [runningJobId, setRunningJobId] = useState<string | null>(null);
+  const [scanStats, setScanStats] = useState<OcrSchedulerStats | null>(null);
+  const [reviewJobId, setReviewJobId] = useState<string | null>(null);
+  const [showReviewQueue, setShowReviewQueue] = useState(false);
+  const [reviewStartId, setReviewStartId] = useState<string | null>(null);
+  const [pairSides, setPairSides] = useState(false);
+  const [showReminderDialog, setShowReminderDialog] = useState(false);
   
   // WhatsApp functionality states
   const [templates, setTemplates] = useState<Template[]>([]);
@@ -329,12 +368,9 @@ export default function EnhancedBulkUploads() {
     setCameraMode('processing');
     setUploading(true);
     
-    // Convert captures to files array
+    // Convert captures to files array and start processing
     const captureFiles = pendingCaptures.map(capture => capture.file);
-    setFiles(prev => [...prev, ...captureFiles]);
-    
-    // Start processing
-    await processFiles();
+    await processFiles(captureFiles);
     
     setUploading(false);
     setPendingCaptures([]);
@@ -359,12 +395,18 @@ export default function EnhancedBulkUploads() {
 
   const checkUsageLimit = () => {
     if (!canUseAIScan) {
+      setLimitFeature('aiScan');
       setShowLimitModal(true);
       return false;
     }
     return true;
   };
 
+  const showQuotaExceeded = (feature: 'aiScan' | 'contact') => {
+    setLimitFeature(feature);
+    setShowLimitModal(true);
+  };
+
   const handleFileSelect = useCallback((selectedFiles: FileList | null) => {
     if (!selectedFiles) return;
     
@@ -391,92 +433,84 @@ export default function EnhancedBulkUploads() {
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
-  const processFiles = async () => {
-    if (!user || files.length === 0) return;
-    
-    if (!checkUsageLimit()) {
-      return;
-    }
-    
-    setProcessing(true);
-    setProgress(0);
+  const jobToProcessedCards = (job: ScanJob): ProcessedCard[] => {
     const results: ProcessedCard[] = [];
-    
-    try {
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        setCurrentFile(file.name);
-        setProgress((i / files.length) * 100);
-        
-        try {
-          console.log(`Processing file ${i + 1}/${files.length}: ${file.name}`);
-          
-          // Upload to Firebase Storage first
-          const timestamp = Date.now();
-          const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
-          const fileName = `${timestamp}-${sanitizedFileName}`;
-          const imageUrl = await uploadToStorage(
-            file, 
-            `users/${user!.uid}/bulk/${fileName}`
-          );
 
-          // Process with multi-card detection
-          const result: MultiCardResult = await processMultipleBusinessCards(file);
-          
-          // Process each detected card
-          result.cards.forEach((card, cardIndex) => {
-            const processedCard: ProcessedCard = {
-              ...card,
-              id: `${file.name}_card_${cardIndex + 1}`,
-              status: 'success',
-              imageUrl,
-              isFromCamera: file.name.includes('camera-capture')
-            };
-            results.push(processedCard);
-          });
-          
-          // Add errors if any
-          if (result.errors.length > 0) {
-            result.errors.forEach((error, errorIndex) => {
-              results.push({
-                id: `${file.name}_error_${errorIndex}`,
-                status: 'error',
-                error: error,
-                imageUrl
-              });
-            });
-          }
-          
-          console.log(`Successfully processed ${result.totalProcessed} cards from ${file.name}`);
-          
-        } catch (error: any) {
-          console.error(`Error processing ${file.name}:`, error);
+    job.files.forEach(file => {
+      file.cards.filter(card => card.reviewStatus !== 'rejected').forEach(card => {
+        results.push({
+          ...card,
+          review: assessForReview(card),
+          status: 'success',
+          imageUrl: card.frontImageUrl || file.imageUrl,
+          isFromCamera: file.isFromCamera
+        });
+      });
+
+      if (file.status === 'failed') {
+        results.push({
+          id: `${file.id}_failed`,
+          status: 'error',
+          error: `${file.name}: ${file.error || "Failed to process image"}`,
+          imageUrl: file.imageUrl
+        });
+      } else {
+        // Add errors if any
+        file.warnings?.forEach((error, errorIndex) => {
           results.push({
-            id: `${file.name}_failed`,
+            id: `${file.id}_error_${errorIndex}`,
             status: 'error',
-            error: error.message || "Failed to process image"
+            error,
+            imageUrl: file.imageUrl
           });
-        }
-
-        // Add delay between files
-        if (i < files.length - 1) {
-          await delay(1000);
-        }
+        });
       }
-      
+    });
+
+    return results;
+  };
+
+  const showJobResults = (job: ScanJob) => {
+    setReviewJobId(job.id);
+    setProcessed(jobToProcessedCards(job));
+    setShowResults(true);
+  };
+
+  const runJob = async (job: ScanJob) => {
+    if (!user) return;
+
+    setProcessing(true);
+    setRunningJobId(job.id);
+    setProgress(0);
+
+    try {
+      const finished = await runScanJob(job, user.uid, {
+        onUpdate: (current) => {
+          const summary = getScanJobSummary(current);
+          const active = current.files.filter(f => f.status === 'uploading' || f.status === 'scanning');
+          setProgress((summary.done / summary.total) * 100);
+          setCurrentFile(active.map(f => f.name).join(', '));
+        },
+        onStats: setScanStats,
+      });
+
       setProgress(100);
-      setProcessed(results);
-      setShowResults(true);
-      
-      const successCount = results.filter(r => r.status === 'success').length;
-      const errorCount = results.filter(r => r.status === 'error').length;
-      
+      showJobResults(finished);
+
+      const successCount = finished.files.reduce((sum, f) => sum + f.cards.length, 0);
+      const errorCount = finished.files.filter(f => f.status === 'failed').length;
+
       toast({
         title: "Processing Complete",
         description: `Successfully processed ${successCount} cards${errorCount > 0 ? `, ${errorCount} errors` : ''}`,
       });
-      
     } catch (error: any) {
+      // Each image is one AI scan, charged by the server; the rest of the batch stays queued
+      if (error instanceof ScanQuotaExceededError) {
+        showQuotaExceeded('aiScan');
+        return;
+      }
+
       console.error("Bulk processing error:", error);
       toast({
         title: "Processing Failed",
@@ -485,22 +519,149 @@ export default function EnhancedBulkUploads() {
       });
     } finally {
       setProcessing(false);
+      setRunningJobId(null);
+      setScanStats(null);
       setCurrentFile("");
+      refreshUsage();
+    }
+  };
+
+  const processFiles = async (filesToProcess: File[] = files) => {
+    if (!user || filesToProcess.length === 0) return;
+    
+    if (!checkUsageLimit()) {
+      return;
+    }
+
+    let job: ScanJob;
+    try {
+      job = await createScanJob(user.uid, filesToProcess, { pairSides });
+    } catch (error: any) {
+      console.error("Error creating scan job:", error);
+      toast({
+        title: "Processing Failed",
+        description: "Could not start the scan batch. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await runJob(job);
+    // The batch is saved in the job list from here on
+    setFiles([]);
+  };
+
+  const resumeJob = async (job: ScanJob) => {
+    if (!checkUsageLimit()) {
+      return;
+    }
+    await runJob(job);
+  };
+
+  const retryJob = async (job: ScanJob) => {
+    try {
+      await runJob(await retryFailedFiles(job));
+    } catch (error) {
+      console.error("Error retrying scan job:", error);
     }
   };
 
-  const saveContact = async (card: ProcessedCard) => {
+  const removeJob = async (job: ScanJob) => {
+    try {
+      await deleteScanJob(job);
+      if (reviewJobId === job.id) setReviewJobId(null);
+    } catch (error) {
+      console.error("Error deleting scan job:", error);
+      toast({
+        title: "Delete Failed",
+        description: "Failed to delete scan batch",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Keep the batch in step with edits, review decisions and saves made on the results screen
+  const recordCardChanges = async (changes: Record<string, Partial<ScanJobCard>>) => {
+    if (!reviewJobId || Object.keys(changes).length === 0) return;
+
+    try {
+      await updateScanJobCards(reviewJobId, changes);
+    } catch (error) {
+      console.error("Error updating scan job:", error);
+    }
+  };
+
+  // Cards below the quality threshold wait for a person before they can be saved
+  const isPendingReview = (card: ProcessedCard) =>
+    card.status === 'success' && !card.saved && !!card.review?.needsReview && card.reviewStatus !== 'approved';
+
+  const pendingReviewCards = processed.filter(isPendingReview);
+
+  // Cards saved as new contacts in this batch, the ones a batch reminder covers
+  const savedBatchContacts = processed
+    .filter(card => card.saved && card.contactId)
+    .map(card => ({ id: card.contactId!, name: card.name || '' }));
+
+  const handleBatchReminder = async (input: ReminderInput) => {
     if (!user) return;
+
+    try {
+      const count = await createBatchReminders(user.uid, savedBatchContacts, input);
+      toast({
+        title: "Reminder Set",
+        description: `Reminding you on ${input.dueAt.toLocaleDateString()} to follow up with ${count} contact${count !== 1 ? 's' : ''}`,
+      });
+    } catch (error) {
+      console.error("Error creating reminders:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create reminders",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const openReviewQueue = (cardId: string | null = null) => {
+    setReviewStartId(cardId);
+    setShowReviewQueue(true);
+  };
+
+  const approveReviewedCard = async (card: ReviewCard) => {
+    const original = processed.find(p => p.id === card.id);
+    if (!original) return;
+
+    const approved: ProcessedCard = { ...original, ...card, reviewStatus: 'approved' };
+    await saveContact(approved, { ...pickContactFields(approved), reviewStatus: 'approved' });
+  };
+
+  const rejectReviewedCard = async (card: ReviewCard) => {
+    setProcessed(prev => prev.filter(p => p.id !== card.id));
+    await recordCardChanges({ [card.id]: { reviewStatus: 'rejected' } });
+  };
+
+  const saveContact = async (card: ProcessedCard, cardChanges: Partial<ScanJobCard> = {}) => {
+    if (!user) return;
+    if (!defaultCountry) {
+      toast({
+        title: "Choose a default country",
+        description: "Pick the country for phone numbers without a country code before saving",
+        variant: "destructive",
+      });
+      return;
+    }
     
     setSaving(card.id);
     
     try {
-      // Check for duplicates
+      const phoneFields = toPhoneFields(card.phones, defaultCountry, { landlines: card.landlines, faxes: card.faxes });
+
+      // Check for duplicates; older contacts store numbers as written
       if (card.email || card.phones?.length) {
         const isDupe = await isDuplicateContact(
           user.uid, 
           card.email, 
-          card.phones || []
+          [...(card.phones || []), ...phoneFields.phones]
         );
         if (isDupe) {
           toast({
@@ -517,30 +678,37 @@ export default function EnhancedBulkUploads() {
       const qrCodeUrl = card.qrCodes?.find(qr => qr.type === 'url')?.data || "";
       const extractedWebsite = card.website || qrCodeUrl || "";
 
-      await addDoc(collection(db, "contacts"), {
+      const ids = await createDocuments('contacts', [{
         firstName: card.name?.split(' ')[0] || "",
         lastName: card.name?.split(' ').slice(1).join(' ') || "",
-        phone: card.phones?.[0] || card.landlines?.[0] || "",
-        phones: card.phones || [],
+        phone: phoneFields.phones[0] || "",
+        ...phoneFields,
         email: card.email?.toLowerCase() || "",
         company: card.company || "",
         services: card.services || "",
-        address: card.address || "",
+        ...toAddressFields(card.address || "", defaultCountry),
         website: extractedWebsite,
         qrCodeUrl: qrCodeUrl,
+        frontImageUrl: card.frontImageUrl || "",
+        backImageUrl: card.backImageUrl || "",
         groupIds: selectedGroupIds,
-        ownerId: user.uid,
-        createdAt: serverTimestamp(),
         source: card.isFromCamera ? 'camera' : 'bulk_scan',
         hasQRData: !!(card.qrCodes && card.qrCodes.length > 0),
         qrContent: card.qrCodes?.[0]?.data || null,
-      });
+      }]);
+      if (!ids) {
+        showQuotaExceeded('contact');
+        setSaving(null);
+        return;
+      }
+      const [contactId] = ids;
       
       setProcessed(prev => 
         prev.map(p => 
-          p.id === card.id ? { ...p, saved: true } : p
+          p.id === card.id ? { ...p, ...card, saved: true, contactId } : p
         )
       );
+      await recordCardChanges({ [card.id]: { ...cardChanges, saved: true, contactId } });
       
       toast({
         title: "Contact Saved",
@@ -564,24 +732,40 @@ export default function EnhancedBulkUploads() {
 
   const saveAllContacts = async () => {
     if (!user) return;
+    if (!defaultCountry) {
+      toast({
+        title: "Choose a default country",
+        description: "Pick the country for phone numbers without a country code before saving",
+        variant: "destructive",
+      });
+      return;
+    }
     
-    const unsavedCards = processed.filter(card => card.status === 'success' && !card.saved);
+    // Cards waiting in the review queue are saved from there once approved
+    const unsavedCards = processed.filter(card => card.status === 'success' && !card.saved && !isPendingReview(card));
+    const awaitingReview = pendingReviewCards.length;
     
     let savedCount = 0;
     let duplicateCount = 0;
     let errorCount = 0;
+    let quotaReached = false;
+    const handledIds = new Set<string>();
+    const contactIds: Record<string, string> = {};
 
     for (const card of unsavedCards) {
       try {
-        // Check for duplicates
+        const phoneFields = toPhoneFields(card.phones, defaultCountry, { landlines: card.landlines, faxes: card.faxes });
+
+        // Check for duplicates; older contacts store numbers as written
         if (card.email || card.phones?.length) {
           const isDupe = await isDuplicateContact(
             user.uid, 
             card.email, 
-            card.phones || []
+            [...(card.phones || []), ...phoneFields.phones]
           );
           if (isDupe) {
             duplicateCount++;
+            handledIds.add(card.id);
             continue;
           }
         }
@@ -590,32 +774,42 @@ export default function EnhancedBulkUploads() {
         const qrCodeUrl = card.qrCodes?.find(qr => qr.type === 'url')?.data || "";
         const extractedWebsite = card.website || qrCodeUrl || "";
 
-        await addDoc(collection(db, "contacts"), {
+        const ids = await createDocuments('contacts', [{
           firstName: card.name?.split(' ')[0] || "",
           lastName: card.name?.split(' ').slice(1).join(' ') || "",
-          phone: card.phones?.[0] || card.landlines?.[0] || "",
-          phones: card.phones || [],
+          phone: phoneFields.phones[0] || "",
+          ...phoneFields,
           email: card.email?.toLowerCase() || "",
           company: card.company || "",
           services: card.services || "",
-          address: card.address || "",
+          ...toAddressFields(card.address || "", defaultCountry),
           website: extractedWebsite,
           qrCodeUrl: qrCodeUrl,
+          frontImageUrl: card.frontImageUrl || "",
+          backImageUrl: card.backImageUrl || "",
           groupIds: selectedGroupIds,
-          ownerId: user.uid,
-          createdAt: serverTimestamp(),
           source: card.isFromCamera ? 'camera' : 'bulk_scan',
           hasQRData: !!(card.qrCodes && card.qrCodes.length > 0),
           qrContent: card.qrCodes?.[0]?.data || null,
-        });
+        }]);
+        if (!ids) {
+          quotaReached = true;
+          break;
+        }
 
         savedCount++;
+        handledIds.add(card.id);
+        contactIds[card.id] = ids[0];
       } catch (contactError) {
         console.error('Error saving individual contact:', contactError);
         errorCount++;
       }
     }
 
+    if (quotaReached) {
+      showQuotaExceeded('contact');
+    }
+
     let successMessage = `Saved ${savedCount} contact${savedCount !== 1 ? 's' : ''}`;
     if (selectedGroupIds.length > 0) {
       const groupNames = groups.filter(g => selectedGroupIds.includes(g.id)).map(g => g.name).join(', ');
@@ -627,6 +821,9 @@ export default function EnhancedBulkUploads() {
     if (errorCount > 0) {
       successMessage += `, ${errorCount} error${errorCount !== 1 ? 's' : ''}`;
     }
+    if (awaitingReview > 0) {
+      successMessage += `, ${awaitingReview} waiting for review`;
+    }
     
     toast({
       title: "Success",
@@ -636,9 +833,12 @@ export default function EnhancedBulkUploads() {
     // Update saved status
     setProcessed(prev => 
       prev.map(p => 
-        p.status === 'success' && !p.saved ? { ...p, saved: true } : p
+        handledIds.has(p.id) ? { ...p, saved: true, ...(contactIds[p.id] && { contactId: contactIds[p.id] }) } : p
       )
     );
+    await recordCardChanges(
+      Object.fromEntries(Array.from(handledIds).map(id => [id, { saved: true, ...(contactIds[id] && { contactId: contactIds[id] }) }]))
+    );
     
     // Refresh usage after saving all
     await refreshUsage();
@@ -666,17 +866,8 @@ export default function EnhancedBulkUploads() {
     }
   };
 
-  const replacePlaceholders = (content: string, card: ProcessedCard) => {
-    const firstName = card.name?.split(' ')[0] || '';
-    const lastName = card.name?.split(' ').slice(1).join(' ') || '';
-    return content
-      .replace(/\{firstName\}/g, firstName)
-      .replace(/\{lastName\}/g, lastName)
-      .replace(/\{fullName\}/g, card.name || '')
-      .replace(/\{company\}/g, card.company || '')
-      .replace(/\{email\}/g, card.email || '')
-      .replace(/\{phone\}/g, card.phones?.[0] || '');
-  };
+  const replacePlaceholders = (content: string, card: ProcessedCard) =>
+    renderTemplate(content, { ...templateSender, ...contactTemplateValues(card) });
 
   const formatMessageForWhatsApp = (message: string) => {
     let cleanMessage = message
@@ -693,19 +884,6 @@ export default function EnhancedBulkUploads() {
     return cleanMessage;
   };
 
-  const formatPhoneNumber = (rawNumber: string): string => {
-    if (!rawNumber) return "";
-
-    let cleaned = rawNumber.replace(/[^\d]/g, "");
-    cleaned = cleaned.replace(/^0+/, "");
-
-    if (!cleaned.startsWith("91") && cleaned.length <= 10) {
-      cleaned = "91" + cleaned;
-    }
-
-    return cleaned;
-  };
-
   const copyMessageToClipboard = async (message: string) => {
     try {
       await navigator.clipboard.writeText(message);
@@ -727,7 +905,7 @@ export default function EnhancedBulkUploads() {
   const handleSendWhatsAppMessage = (template?: Template) => {
     if (!selectedContactForMessage) return;
 
-    const phoneNumber = formatPhoneNumber(selectedContactForMessage.phones?.[0] || "");
+    const phoneNumber = toWhatsAppNumber(selectedContactForMessage.phones?.[0] || "", defaultCountry);
     if (!phoneNumber) {
       toast({
         title: "Error",
@@ -744,8 +922,7 @@ export default function EnhancedBulkUploads() {
     } else if (customMessage.trim()) {
       messageContent = replacePlaceholders(customMessage, selectedContactForMessage);
     } else {
-      const firstName = selectedContactForMessage.name?.split(' ')[0] || 'there';
-      messageContent = `Hi ${firstName}, I hope you're doing well!`;
+      messageContent = replacePlaceholders("Hi {firstName|there}, I hope you're doing well!", selectedContactForMessage);
     }
 
     const formattedMessage = formatMessageForWhatsApp(messageContent);
@@ -797,6 +974,10 @@ export default function EnhancedBulkUploads() {
           });
         }
       }
+
+      if (template) {
+        recordTemplateUse(template.id);
+      }
       
       // Close modals
       setShowTemplateModal(false);
@@ -822,6 +1003,7 @@ export default function EnhancedBulkUploads() {
         p.id === editingCard.id ? { ...p, ...editData } : p
       )
     );
+    recordCardChanges({ [editingCard.id]: pickContactFields(editData) });
     
     setEditingCard(null);
     setEditData({});
@@ -905,13 +1087,36 @@ export default function EnhancedBulkUploads() {
                   setShowResults(false);
                   setProcessed([]);
                   setFiles([]);
+                  setReviewJobId(null);
                 }}
                 className="w-full sm:w-auto"
               >
                 Process More
               </Button>
+              {pendingReviewCards.length > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => openReviewQueue()}
+                  className="w-full sm:w-auto border-amber-300 text-amber-800 hover:bg-amber-50"
+                  data-testid="button-review-queue"
+                >
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  Review Queue ({pendingReviewCards.length})
+                </Button>
+              )}
+              {savedBatchContacts.length > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => setShowReminderDialog(true)}
+                  className="w-full sm:w-auto"
+                >
+                  <BellPlus className="h-4 w-4 mr-2" />
+                  Remind Me
+                </Button>
+              )}
               <Button 
                 onClick={saveAllContacts}
+                disabled={!defaultCountry}
                 className="w-full sm:w-auto"
               >
                 Save All Contacts
@@ -919,6 +1124,10 @@ export default function EnhancedBulkUploads() {
             </div>
           </div>
 
+          <div className="mb-6">
+            <DefaultCountryPrompt />
+          </div>
+
           {/* Group Assignment Section */}
           {!loadingGroups && groups.length > 0 && (
             <Card className="mb-6">
@@ -981,6 +1190,19 @@ export default function EnhancedBulkUploads() {
                             QR
                           </span>
                         )}
+                        {card.backImageUrl && (
+                          <span className="text-xs bg-blue-100 text-blue-800 px-2 py-1 rounded-full whitespace-nowrap">
+                            Front & back
+                          </span>
+                        )}
+                        {isPendingReview(card) && (
+                          <span
+                            className="text-xs bg-amber-100 text-amber-800 px-2 py-1 rounded-full whitespace-nowrap"
+                            title={card.review?.issues.join(', ')}
+                          >
+                            Needs review
+                          </span>
+                        )}
                       </div>
                     </CardTitle>
                     
@@ -1011,20 +1233,33 @@ export default function EnhancedBulkUploads() {
                             Edit
                           </Button>
                         </div>
-                        <Button
-                          size="sm"
-                          onClick={() => saveContact(card)}
-                          disabled={saving === card.id}
-                          className="w-full sm:w-auto text-xs"
-                          data-testid={`button-save-${card.id}`}
-                        >
-                          {saving === card.id ? (
-                            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
-                          ) : (
-                            <Save className="h-3 w-3 mr-1" />
-                          )}
-                          Save
-                        </Button>
+                        {isPendingReview(card) ? (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => openReviewQueue(card.id)}
+                            className="w-full sm:w-auto text-xs border-amber-300 text-amber-800 hover:bg-amber-50"
+                            data-testid={`button-review-${card.id}`}
+                          >
+                            <Eye className="h-3 w-3 mr-1" />
+                            Review
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            onClick={() => saveContact(card)}
+                            disabled={saving === card.id || !defaultCountry}
+                            className="w-full sm:w-auto text-xs"
+                            data-testid={`button-save-${card.id}`}
+                          >
+                            {saving === card.id ? (
+                              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                            ) : (
+                              <Save className="h-3 w-3 mr-1" />
+                            )}
+                            Save
+                          </Button>
+                        )}
                         
                         {/* Desktop: Horizontal layout */}
                         <div className="hidden sm:flex gap-2">
@@ -1082,12 +1317,19 @@ export default function EnhancedBulkUploads() {
                         {expandedCard === card.id && (
                           <div className="mt-4 space-y-3">
                             {card.imageUrl && (
-                              <div className="flex justify-center">
+                              <div className="flex justify-center gap-2">
                                 <img 
                                   src={card.imageUrl} 
                                   alt="Business card" 
-                                  className="w-full max-w-xs h-32 object-cover rounded-lg shadow-md"
+                                  className={`${card.backImageUrl ? 'w-1/2' : 'w-full'} max-w-xs h-32 object-cover rounded-lg shadow-md`}
                                 />
+                                {card.backImageUrl && (
+                                  <img
+                                    src={card.backImageUrl}
+                                    alt="Back of business card"
+                                    className="w-1/2 max-w-xs h-32 object-cover rounded-lg shadow-md"
+                                  />
+                                )}
                               </div>
                             )}
                             <div className="grid grid-cols-1 gap-3">
@@ -1182,12 +1424,19 @@ export default function EnhancedBulkUploads() {
                       {/* Desktop: Full view */}
                       <div className="hidden sm:flex sm:space-x-4">
                         {card.imageUrl && (
-                          <div className="flex-shrink-0">
+                          <div className="flex-shrink-0 space-y-2">
                             <img 
                               src={card.imageUrl} 
                               alt="Business card" 
                               className="w-32 h-20 object-cover rounded-lg shadow-md"
                             />
+                            {card.backImageUrl && (
+                              <img
+                                src={card.backImageUrl}
+                                alt="Back of business card"
+                                className="w-32 h-20 object-cover rounded-lg shadow-md"
+                              />
+                            )}
                           </div>
                         )}
                         <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -1382,7 +1631,7 @@ export default function EnhancedBulkUploads() {
                   <p className="text-xs text-gray-600 mb-1">Sending to:</p>
                   <p className="font-medium text-sm">{selectedContactForMessage.name || 'Unknown Contact'}</p>
                   <p className="text-xs text-gray-500">
-                    {selectedContactForMessage.phones?.[0] ? formatPhoneNumber(selectedContactForMessage.phones[0]) : 'No phone number'}
+                    {selectedContactForMessage.phones?.[0] ? toWhatsAppNumber(selectedContactForMessage.phones[0], defaultCountry) : 'No phone number'}
                   </p>
                 </div>
               )}
@@ -1459,7 +1708,7 @@ export default function EnhancedBulkUploads() {
                   <p className="text-sm text-gray-600 mb-1">Sending to:</p>
                   <p className="font-medium">{selectedContactForMessage.name || 'Unknown Contact'}</p>
                   <p className="text-sm text-gray-500">
-                    {selectedContactForMessage.phones?.[0] ? formatPhoneNumber(selectedContactForMessage.phones[0]) : 'No phone number'}
+                    {selectedContactForMessage.phones?.[0] ? toWhatsAppNumber(selectedContactForMessage.phones[0], defaultCountry) : 'No phone number'}
                   </p>
                 </div>
               )}
@@ -1511,7 +1760,7 @@ export default function EnhancedBulkUploads() {
                   className="mt-2 min-h-[100px]"
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Use placeholders: {'{firstName}'}, {'{lastName}'}, {'{company}'}, {'{email}'}, {'{phone}'}
+                  Use placeholders: {TEMPLATE_VARIABLES.map(v => `{${v.name}}`).join(', ')}, with fallbacks like {'{firstName|there}'}
                 </p>
               </div>
 
@@ -1555,6 +1804,35 @@ export default function EnhancedBulkUploads() {
             </div>
           </DialogContent>
         </Dialog>
+
+        {/* Review queue for low-quality scans */}
+        <ReviewQueue
+          isOpen={showReviewQueue}
+          cards={pendingReviewCards}
+          initialCardId={reviewStartId}
+          saving={!!saving}
+          onClose={() => setShowReviewQueue(false)}
+          onApprove={approveReviewedCard}
+          onReject={rejectReviewedCard}
+        />
+
+        {/* Follow-up reminder for everyone saved from this batch */}
+        <ReminderDialog
+          isOpen={showReminderDialog}
+          subject={`${savedBatchContacts.length} contact${savedBatchContacts.length !== 1 ? 's' : ''} saved from this batch`}
+          defaultNote="Message everyone from this batch"
+          onClose={() => setShowReminderDialog(false)}
+          onSave={handleBatchReminder}
+        />
+
+        {/* Usage Limit Modal */}
+        <UsageLimitModal
+          isOpen={showLimitModal}
+          onClose={() => setShowLimitModal(false)}
+          feature={limitFeature}
+          currentCount={limitFeature === 'contact' ? usage.contactsCount : usage.aiScansCount}
+          limit={limitFeature === 'contact' ? limits.contacts : limits.aiScans}
+        />
       </div>
     );
   }
@@ -1848,9 +2126,21 @@ export default function EnhancedBulkUploads() {
                               {/* Pending captures preview - Mobile optimized */}
                               {pendingCaptures.length > 0 && (
                                 <div className="bg-gray-50 rounded-lg p-3 sm:p-4">
-                                  <h4 className="text-xs sm:text-sm font-medium text-gray-900 mb-2 sm:mb-3">
-                                    Captured Photos ({pendingCaptures.length})
-                                  </h4>
+                                  <div className="flex items-center justify-between mb-2 sm:mb-3">
+                                    <h4 className="text-xs sm:text-sm font-medium text-gray-900">
+                                      Captured Photos ({pendingCaptures.length})
+                                    </h4>
+                                    <div className="flex items-center space-x-2">
+                                      <Checkbox
+                                        id="pair-captures"
+                                        checked={pairSides}
+                                        onCheckedChange={(checked) => setPairSides(!!checked)}
+                                      />
+                                      <label htmlFor="pair-captures" className="text-xs text-gray-700 cursor-pointer">
+                                        Front & back pairs
+                                      </label>
+                                    </div>
+                                  </div>
                                   <div className="grid grid-cols-5 gap-2">
                                     {pendingCaptures.map((capture, index) => (
                                       <div key={capture.id} className="flex-shrink-0 relative">
@@ -1860,6 +2150,11 @@ export default function EnhancedBulkUploads() {
                                         <div className="absolute -top-1 -right-1 w-3 h-3 sm:w-4 sm:h-4 bg-green-500 text-white rounded-full flex items-center justify-center text-xs font-bold">
                                           {index + 1}
                                         </div>
+                                        {pairSides && (
+                                          <div className="text-[10px] text-center text-gray-600 mt-0.5">
+                                            {index % 2 === 0 ? 'Front' : 'Back'}
+                                          </div>
+                                        )}
                                       </div>
                                     ))}
                                   </div>
@@ -1972,7 +2267,7 @@ export default function EnhancedBulkUploads() {
                   <p className="text-xs text-gray-400 mt-1">PNG, JPG, WebP up to 10MB each • Max 10 files</p>
                   <p className="text-xs text-purple-600 mt-1 flex items-center justify-center">
                     <QrCode className="h-3 w-3 mr-1" />
-                    QR codes automatically detected
+                    QR codes and barcodes automatically detected
                   </p>
                 </div>
               </div>
@@ -2011,6 +2306,11 @@ export default function EnhancedBulkUploads() {
                             Camera
                           </span>
                         )}
+                        {pairSides && (index % 2 === 1 || index < files.length - 1) && (
+                          <span className="ml-1 sm:ml-2 text-xs bg-blue-100 text-blue-800 px-1 sm:px-2 py-1 rounded-full whitespace-nowrap">
+                            Card {Math.floor(index / 2) + 1} {index % 2 === 0 ? 'front' : 'back'}
+                          </span>
+                        )}
                       </div>
                       <Button
                         variant="ghost"
@@ -2025,16 +2325,28 @@ export default function EnhancedBulkUploads() {
                   ))}
                 </div>
                 
+                <div className="mt-4 flex items-start space-x-2">
+                  <Checkbox
+                    id="pair-sides"
+                    checked={pairSides}
+                    onCheckedChange={(checked) => setPairSides(!!checked)}
+                    disabled={processing}
+                  />
+                  <label htmlFor="pair-sides" className="text-xs sm:text-sm text-gray-700 cursor-pointer">
+                    Front & back pairing: treat each two consecutive images as the front and back of one card
+                  </label>
+                </div>
+
                 <div className="mt-6">
                   <Button
-                    onClick={processFiles}
+                    onClick={() => processFiles()}
                     disabled={processing || files.length === 0}
                     className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white py-2 sm:py-3 text-sm sm:text-lg font-semibold"
                   >
                     {processing ? (
                       <>
                         <Loader2 className="h-4 w-4 sm:h-5 sm:w-5 mr-2 animate-spin" />
-                        Processing {currentFile}...
+                        Processing {files.length} image{files.length !== 1 ? 's' : ''}...
                       </>
                     ) : (
                       <>
@@ -2059,6 +2371,12 @@ export default function EnhancedBulkUploads() {
                           {currentFile}
                         </p>
                       )}
+                      {scanStats && scanStats.throughputPerMinute > 0 && (
+                        <p className="text-xs text-blue-600 mt-1">
+                          {scanStats.throughputPerMinute.toFixed(1)} images/min
+                          {scanStats.etaSeconds !== null && ` · about ${formatEta(scanStats.etaSeconds)} left`}
+                        </p>
+                      )}
                     </div>
                   )}
                 </div>
@@ -2067,13 +2385,24 @@ export default function EnhancedBulkUploads() {
           </Card>
         )}
 
+        {/* Persisted scan batches */}
+        <ScanJobList
+          jobs={scanJobs}
+          runningJobId={runningJobId}
+          runningStats={scanStats}
+          onResume={resumeJob}
+          onRetry={retryJob}
+          onReview={showJobResults}
+          onDelete={removeJob}
+        />
+
         {/* Usage Limit Modal */}
         <UsageLimitModal
           isOpen={showLimitModal}
           onClose={() => setShowLimitModal(false)}
-          feature="aiScan"
-          currentCount={usage.aiScansCount}
-          limit={limits.aiScans}
+          feature={limitFeature}
+          currentCount={limitFeature === 'contact' ? usage.contactsCount : usage.aiScansCount}
+          limit={limitFeature === 'contact' ? limits.contacts : limits.aiScans}
         />
 
         {/* Feedback Form */}
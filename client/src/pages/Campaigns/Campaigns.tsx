@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { cancelCampaign, fetchCampaign, fetchCampaigns, type CampaignDetails } from "@/utils/campaignApi";
+import type { CampaignChannel, CampaignStatus, CampaignSummary, RecipientStatus } from "@shared/schema";
+import { ArrowLeft, ChevronDown, ChevronRight, Loader2, Mail, MessageCircle, Send, XCircle } from "lucide-react";
+
+// How often progress is refreshed while a campaign is sending
+const POLL_INTERVAL_MS = 5000;
+
+const campaignStatusLabels: Record<CampaignStatus, string> = {
+  sending: "Sending",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+const campaignStatusColors: Record<CampaignStatus, string> = {
+  sending: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  completed: "bg-green-50 text-green-700 border-green-200",
+  cancelled: "bg-gray-50 text-gray-700 border-gray-200",
+};
+
+const recipientStatusLabels: Record<RecipientStatus, string> = {
+  queued: "Queued",
+  sent: "Sent",
+  delivered: "Delivered",
+  read: "Read",
+  failed: "Failed",
+};
+
+const recipientStatusColors: Record<RecipientStatus, string> = {
+  queued: "bg-gray-50 text-gray-700 border-gray-200",
+  sent: "bg-blue-50 text-blue-700 border-blue-200",
+  delivered: "bg-green-50 text-green-700 border-green-200",
+  read: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  failed: "bg-red-50 text-red-700 border-red-200",
+};
+
+export default function Campaigns() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get("id")
+  );
+  const [details, setDetails] = useState<CampaignDetails | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    if (!user) return;
+
+    try {
+      setCampaigns(await fetchCampaigns(user.uid));
+      if (selectedId) {
+        setDetails(await fetchCampaign(user.uid, selectedId));
+      }
+    } catch (error: any) {
+      console.error("Error fetching campaigns:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load campaigns",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setDetails(null);
+    refresh();
+  }, [user, selectedId]);
+
+  // Delivery statuses arrive by webhook, so keep polling until nothing is sending
+  const anySending = campaigns.some(c => c.status === "sending");
+  useEffect(() => {
+    if (!anySending) return;
+    const intervalId = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [anySending, user, selectedId]);
+
+  const handleCancel = async (campaign: CampaignSummary) => {
+    if (!window.confirm(`Stop "${campaign.name}"? Messages already sent are not recalled.`)) return;
+
+    try {
+      setCancellingId(campaign.id);
+      await cancelCampaign(user!.uid, campaign.id);
+      toast({
+        title: "Success",
+        description: "Campaign cancelled",
+      });
+      await refresh();
+    } catch (error: any) {
+      console.error("Error cancelling campaign:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel campaign",
+        variant: "destructive",
+      });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="py-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-48 mb-8"></div>
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="bg-gray-200 h-24 rounded-lg"></div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="md:flex md:items-center md:justify-between">
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">Campaigns</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              WhatsApp and email messages sent to groups, with delivery status for every contact
+            </p>
+          </div>
+          <div className="mt-4 flex md:mt-0 md:ml-4">
+            <Button variant="outline" onClick={() => setLocation("/groups")}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Groups
+            </Button>
+          </div>
+        </div>
+
+        {campaigns.length === 0 ? (
+          <div className="mt-6 text-center py-12 text-gray-500">
+            No campaigns yet. Send one from a group on the Groups page.
+          </div>
+        ) : (
+          <div className="mt-6 space-y-4">
+            {campaigns.map(campaign => {
+              const status = campaign.status as CampaignStatus;
+              const channel = campaign.channel as CampaignChannel;
+              const ChannelIcon = channel === "email" ? Mail : MessageCircle;
+              const expanded = selectedId === campaign.id;
+              const done = campaign.total - campaign.counts.queued;
+
+              return (
+                <Card key={campaign.id}>
+                  <CardContent className="p-4">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                      <button
+                        type="button"
+                        className="flex items-start space-x-3 min-w-0 text-left"
+                        onClick={() => setSelectedId(expanded ? null : campaign.id)}
+                      >
+                        {expanded ? (
+                          <ChevronDown className="h-5 w-5 mt-0.5 text-gray-400 flex-shrink-0" />
+                        ) : (
+                          <ChevronRight className="h-5 w-5 mt-0.5 text-gray-400 flex-shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <ChannelIcon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                            <h3 className="font-medium text-gray-900 truncate">{campaign.name}</h3>
+                            <Badge variant="outline" className={campaignStatusColors[status]}>
+                              {campaignStatusLabels[status]}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-gray-500">
+                            {new Date(campaign.createdAt).toLocaleString()}
+                            {status === "sending" && ` · ${done} of ${campaign.total} processed`}
+                          </p>
+                          <p className="mt-1 text-sm text-gray-600">
+                            {(Object.keys(recipientStatusLabels) as RecipientStatus[])
+                              .filter(key => campaign.counts[key] > 0)
+                              .map(key => `${campaign.counts[key]} ${recipientStatusLabels[key].toLowerCase()}`)
+                              .join(" · ")}
+                          </p>
+                        </div>
+                      </button>
+
+                      {status === "sending" && (
+                        <Button
+                          variant="outline"
+                          onClick={() => handleCancel(campaign)}
+                          disabled={cancellingId !== null}
+                          className="text-red-600 border-red-200 hover:bg-red-50"
+                        >
+                          {cancellingId === campaign.id ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <XCircle className="h-4 w-4 mr-2" />
+                          )}
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+
+                    {expanded && (
+                      <div className="mt-4 border-t pt-4">
+                        {!details ? (
+                          <div className="flex justify-center py-4">
+                            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                          </div>
+                        ) : (
+                          <div className="overflow-x-auto">
+                            <table className="min-w-full text-sm">
+                              <thead>
+                                <tr className="text-left text-xs text-gray-500 uppercase">
+                                  <th className="py-2 pr-4 font-medium">Contact</th>
+                                  <th className="py-2 pr-4 font-medium">{channel === "email" ? "Email" : "WhatsApp"}</th>
+                                  <th className="py-2 pr-4 font-medium">Status</th>
+                                  <th className="py-2 font-medium">Updated</th>
+                                </tr>
+                              </thead>
+                              <tbody className="divide-y">
+                                {details.recipients.map(recipient => {
+                                  const recipientStatus = recipient.status as RecipientStatus;
+                                  return (
+                                    <tr key={recipient.id}>
+                                      <td className="py-2 pr-4">
+                                        <Link href={`/contacts/${recipient.contactId}`} className="text-primary hover:underline">
+                                          {recipient.name || "Unnamed contact"}
+                                        </Link>
+                                      </td>
+                                      <td className="py-2 pr-4 text-gray-600">
+                                        {!recipient.to ? "—" : channel === "email" ? recipient.to : `+${recipient.to}`}
+                                      </td>
+                                      <td className="py-2 pr-4">
+                                        <Badge variant="outline" className={recipientStatusColors[recipientStatus]}>
+                                          {recipientStatusLabels[recipientStatus]}
+                                        </Badge>
+                                        {recipient.error && (
+                                          <p className="mt-1 text-xs text-red-600">{recipient.error}</p>
+                                        )}
+                                      </td>
+                                      <td className="py-2 text-gray-500">{new Date(recipient.updatedAt).toLocaleString()}</td>
+                                    </tr>
+                                  );
+                                })}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <p className="mt-6 text-xs text-gray-500 flex items-center">
+          <Send className="h-3 w-3 mr-1" />
+          Messages go out one at a time from your connected WhatsApp number, using your approved message template. Email has no delivery reports, so emails stay at Sent.
+        </p>
+      </div>
+    </div>
+  );
+}
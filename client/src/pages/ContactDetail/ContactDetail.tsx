@@ -0,0 +1,556 @@
+import { useEffect, useState } from "react";
+import { useLocation, useRoute } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import { collection, doc, getDoc, getDocs, query, serverTimestamp, updateDoc, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import ReminderDialog from "@/components/ReminderDialog";
+import {
+  REMINDER_CHANNELS, createReminder, daysFromToday, deleteReminder, loadContactReminders, setReminderCompleted,
+  type Reminder, type ReminderInput,
+} from "@/utils/reminders";
+import EmailDialog from "@/components/EmailDialog";
+import { loadContactTimeline, logContactEvent, type ContactEvent, type ContactEventType } from "@/utils/contactActivity";
+import { parsePhoneNumber, type PhoneNumber } from "@shared/phone";
+import { formatAddress, isEmptyAddress, mapsUrl, type PostalAddress } from "@shared/address";
+import {
+  ArrowLeft, BellPlus, Building, Check, Edit, ExternalLink, GitMerge, Globe, Loader2, Mail, MapPin, MessageCircle, Phone,
+  Plus, RotateCcw, Save, StickyNote, Trash2, UserMinus, UserPlus,
+} from "lucide-react";
+
+interface ContactDetails {
+  id: string;
+  firstName: string;
+  lastName: string;
+  phones: string[];
+  phoneDetails?: PhoneNumber[];
+  email: string;
+  emails?: string[];
+  company: string;
+  title?: string;
+  services: string;
+  address?: string;
+  postalAddress?: PostalAddress | null;
+  addresses?: string[];
+  website?: string;
+  qrCodeUrl?: string;
+  notes?: string;
+  customFields?: Record<string, string>;
+  photoUrl?: string;
+  frontImageUrl?: string;
+  backImageUrl?: string;
+  groupIds: string[];
+  source?: string;
+  importId?: string;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+interface Group {
+  id: string;
+  name: string;
+}
+
+const eventIcons: Record<ContactEventType, typeof Plus> = {
+  created: Plus,
+  edited: Edit,
+  notes: StickyNote,
+  message: MessageCircle,
+  group_added: UserPlus,
+  group_removed: UserMinus,
+  merged: GitMerge,
+};
+
+const channelLabels = Object.fromEntries(REMINDER_CHANNELS.map(c => [c.value, c.label]));
+
+const eventColors: Record<ContactEventType, string> = {
+  created: "bg-blue-100 text-blue-600",
+  edited: "bg-gray-100 text-gray-600",
+  notes: "bg-yellow-100 text-yellow-700",
+  message: "bg-green-100 text-green-600",
+  group_added: "bg-purple-100 text-purple-600",
+  group_removed: "bg-purple-100 text-purple-600",
+  merged: "bg-orange-100 text-orange-600",
+};
+
+export default function ContactDetail() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [, params] = useRoute("/contacts/:id");
+  const contactId = params?.id;
+  const [contact, setContact] = useState<ContactDetails | null>(null);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [timeline, setTimeline] = useState<ContactEvent[]>([]);
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [showReminderDialog, setShowReminderDialog] = useState(false);
+  const [showEmailDialog, setShowEmailDialog] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [savingNotes, setSavingNotes] = useState(false);
+
+  const fetchContact = async () => {
+    if (!user || !contactId) return;
+
+    try {
+      const contactDoc = await getDoc(doc(db, "contacts", contactId));
+      if (!contactDoc.exists() || contactDoc.data().ownerId !== user.uid) {
+        setContact(null);
+        return;
+      }
+
+      const data = contactDoc.data();
+      const loaded = {
+        id: contactDoc.id,
+        ...data,
+        phones: data.phones || [],
+        groupIds: data.groupIds || [],
+        createdAt: data.createdAt?.toDate() || new Date(),
+        updatedAt: data.updatedAt?.toDate(),
+      } as ContactDetails;
+
+      const groupsQuery = query(collection(db, "groups"), where("ownerId", "==", user.uid));
+      const [groupsSnapshot, events, contactReminders] = await Promise.all([
+        getDocs(groupsQuery),
+        loadContactTimeline(user.uid, loaded),
+        loadContactReminders(user.uid, loaded.id),
+      ]);
+
+      setContact(loaded);
+      setNotes(loaded.notes || "");
+      setGroups(groupsSnapshot.docs.map(d => ({ id: d.id, name: d.data().name || "" })));
+      setTimeline(events);
+      setReminders(contactReminders);
+    } catch (error) {
+      console.error("Error fetching contact:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load contact",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchContact();
+  }, [user, contactId]);
+
+  const handleSaveNotes = async () => {
+    if (!user || !contact) return;
+
+    try {
+      setSavingNotes(true);
+      await updateDoc(doc(db, "contacts", contact.id), {
+        notes: notes.trim(),
+        updatedAt: serverTimestamp(),
+      });
+      await logContactEvent(user.uid, contact.id, 'notes', notes.trim() ? 'Updated notes' : 'Cleared notes', { notes: notes.trim() });
+      toast({
+        title: "Success",
+        description: "Notes saved",
+      });
+      await fetchContact();
+    } catch (error) {
+      console.error("Error saving notes:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save notes",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingNotes(false);
+    }
+  };
+
+  const handleAddReminder = async (input: ReminderInput) => {
+    if (!user || !contact) return;
+
+    try {
+      const name = `${contact.firstName || ''} ${contact.lastName || ''}`.trim();
+      await createReminder(user.uid, { id: contact.id, name }, input);
+      setReminders(await loadContactReminders(user.uid, contact.id));
+      toast({
+        title: "Success",
+        description: `Reminder set for ${input.dueAt.toLocaleDateString()}`,
+      });
+    } catch (error) {
+      console.error("Error creating reminder:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create reminder",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const handleToggleReminder = async (reminder: Reminder) => {
+    if (!user || !contact) return;
+
+    try {
+      await setReminderCompleted(reminder.id, !reminder.completedAt);
+      setReminders(await loadContactReminders(user.uid, contact.id));
+    } catch (error) {
+      console.error("Error updating reminder:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update reminder",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteReminder = async (reminder: Reminder) => {
+    if (!window.confirm("Delete this reminder?")) return;
+
+    try {
+      await deleteReminder(reminder.id);
+      setReminders(prev => prev.filter(r => r.id !== reminder.id));
+    } catch (error) {
+      console.error("Error deleting reminder:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete reminder",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="py-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-48 mb-8"></div>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="bg-gray-200 h-64 rounded-lg lg:col-span-2"></div>
+              <div className="bg-gray-200 h-64 rounded-lg"></div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!contact) {
+    return (
+      <div className="py-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 text-center py-12">
+          <p className="text-gray-500">This contact does not exist or has been deleted.</p>
+          <Button variant="outline" className="mt-4" onClick={() => setLocation("/contacts")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Contacts
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const fullName = `${contact.firstName || ''} ${contact.lastName || ''}`.trim() || 'Unnamed contact';
+  // Contacts saved before phone details existed only have the numbers
+  const phones = contact.phoneDetails?.length
+    ? contact.phoneDetails
+    : contact.phones.map(p => parsePhoneNumber(p) || { e164: p, display: p });
+  const emails = contact.emails?.length ? contact.emails : [contact.email].filter(Boolean);
+  const address = contact.postalAddress && !isEmptyAddress(contact.postalAddress)
+    ? formatAddress(contact.postalAddress, '\n')
+    : contact.address || '';
+  const otherAddresses = (contact.addresses || []).filter(a => a && a !== contact.address);
+  const contactGroups = contact.groupIds
+    .map(id => groups.find(g => g.id === id))
+    .filter((g): g is Group => !!g);
+  const customFields = Object.entries(contact.customFields || {}).filter(([, value]) => value);
+  const cardImages = [
+    { label: 'Front', url: contact.frontImageUrl },
+    { label: 'Back', url: contact.backImageUrl },
+  ].filter(image => image.url);
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="md:flex md:items-center md:justify-between">
+          <div className="flex-1 min-w-0 flex items-center space-x-4">
+            {contact.photoUrl ? (
+              <img src={contact.photoUrl} alt={fullName} className="h-14 w-14 rounded-full object-cover" />
+            ) : (
+              <div className="h-14 w-14 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
+                <span className="text-primary font-semibold text-lg">
+                  {`${contact.firstName?.[0] || ''}${contact.lastName?.[0] || ''}`.toUpperCase()}
+                </span>
+              </div>
+            )}
+            <div className="min-w-0">
+              <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">{fullName}</h2>
+              {(contact.title || contact.company) && (
+                <p className="mt-1 text-sm text-gray-500">
+                  {[contact.title, contact.company].filter(Boolean).join(' at ')}
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="mt-4 flex md:mt-0 md:ml-4 space-x-3">
+            {emails.length > 0 && (
+              <Button variant="outline" onClick={() => setShowEmailDialog(true)}>
+                <Mail className="h-4 w-4 mr-2" />
+                Send Email
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setLocation("/contacts")}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Contacts
+            </Button>
+          </div>
+        </div>
+
+        <div className="mt-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                {phones.map(phone => (
+                  <div key={phone.e164} className="flex items-center">
+                    <Phone className="h-4 w-4 mr-3 text-gray-400 flex-shrink-0" />
+                    <a href={`tel:${phone.e164}`} className="text-gray-900 hover:text-primary">{phone.display}</a>
+                    {phone.type && <span className="ml-2 text-xs text-gray-500 capitalize">{phone.type}</span>}
+                  </div>
+                ))}
+                {emails.map(email => (
+                  <div key={email} className="flex items-center">
+                    <Mail className="h-4 w-4 mr-3 text-gray-400 flex-shrink-0" />
+                    <a href={`mailto:${email}`} className="text-gray-900 hover:text-primary break-all">{email}</a>
+                  </div>
+                ))}
+                {contact.company && (
+                  <div className="flex items-center">
+                    <Building className="h-4 w-4 mr-3 text-gray-400 flex-shrink-0" />
+                    <span className="text-gray-900">{contact.company}</span>
+                  </div>
+                )}
+                {address && (
+                  <div className="flex items-start">
+                    <MapPin className="h-4 w-4 mr-3 mt-0.5 text-gray-400 flex-shrink-0" />
+                    <a
+                      href={mapsUrl(contact.postalAddress && !isEmptyAddress(contact.postalAddress) ? contact.postalAddress : address)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-900 hover:text-primary whitespace-pre-line"
+                    >
+                      {address}
+                    </a>
+                  </div>
+                )}
+                {otherAddresses.map(other => (
+                  <div key={other} className="flex items-start">
+                    <MapPin className="h-4 w-4 mr-3 mt-0.5 text-gray-400 flex-shrink-0" />
+                    <a href={mapsUrl(other)} target="_blank" rel="noopener noreferrer" className="text-gray-900 hover:text-primary">
+                      {other}
+                    </a>
+                  </div>
+                ))}
+                {contact.website && (
+                  <div className="flex items-center">
+                    <Globe className="h-4 w-4 mr-3 text-gray-400 flex-shrink-0" />
+                    <a
+                      href={contact.website.startsWith('http') ? contact.website : `https://${contact.website}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-900 hover:text-primary break-all"
+                    >
+                      {contact.website}
+                    </a>
+                  </div>
+                )}
+                {contact.qrCodeUrl && (
+                  <div className="flex items-center">
+                    <ExternalLink className="h-4 w-4 mr-3 text-gray-400 flex-shrink-0" />
+                    <a href={contact.qrCodeUrl} target="_blank" rel="noopener noreferrer" className="text-gray-900 hover:text-primary break-all">
+                      {contact.qrCodeUrl}
+                    </a>
+                  </div>
+                )}
+                {contact.services && (
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 uppercase">Services</p>
+                    <p className="mt-1 text-gray-900 whitespace-pre-line">{contact.services}</p>
+                  </div>
+                )}
+                {customFields.length > 0 && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 pt-2 border-t">
+                    {customFields.map(([name, value]) => (
+                      <div key={name}>
+                        <p className="text-xs font-medium text-gray-500 uppercase">{name}</p>
+                        <p className="mt-1 text-gray-900 break-words">{value}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="pt-2 border-t">
+                  <p className="text-xs font-medium text-gray-500 uppercase">Groups</p>
+                  {contactGroups.length > 0 ? (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {contactGroups.map(group => (
+                        <Badge key={group.id} variant="secondary">{group.name}</Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="mt-1 text-gray-400">No groups</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {cardImages.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Business Card</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {cardImages.map(image => (
+                      <a key={image.label} href={image.url} target="_blank" rel="noopener noreferrer">
+                        <img src={image.url} alt={`${image.label} of card`} className="w-full rounded-lg border object-contain max-h-64" />
+                        <p className="mt-1 text-xs text-gray-500 text-center">{image.label}</p>
+                      </a>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-lg">Reminders</CardTitle>
+                <Button variant="outline" size="sm" onClick={() => setShowReminderDialog(true)}>
+                  <BellPlus className="h-4 w-4 mr-2" />
+                  Add Reminder
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {reminders.length === 0 ? (
+                  <p className="text-sm text-gray-500">No reminders for this contact.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {reminders.map(reminder => {
+                      const overdue = !reminder.completedAt && reminder.dueAt < daysFromToday(0);
+                      return (
+                        <li key={reminder.id} className="py-3 flex items-center justify-between gap-3">
+                          <div className={`min-w-0 ${reminder.completedAt ? 'opacity-60' : ''}`}>
+                            <div className="flex items-center gap-2">
+                              <span className={`text-sm font-medium ${reminder.completedAt ? 'line-through text-gray-500' : overdue ? 'text-red-600' : 'text-gray-900'}`}>
+                                {reminder.dueAt.toLocaleDateString()}
+                              </span>
+                              <Badge variant="outline">{channelLabels[reminder.channel] || reminder.channel}</Badge>
+                            </div>
+                            {reminder.note && <p className="mt-0.5 text-sm text-gray-600">{reminder.note}</p>}
+                          </div>
+                          <div className="flex items-center flex-shrink-0">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              title={reminder.completedAt ? "Reopen" : "Mark as done"}
+                              onClick={() => handleToggleReminder(reminder)}
+                            >
+                              {reminder.completedAt ? <RotateCcw className="h-4 w-4" /> : <Check className="h-4 w-4 text-green-600" />}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0"
+                              title="Delete reminder"
+                              onClick={() => handleDeleteReminder(reminder)}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Notes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Where you met, what you talked about, follow-ups..."
+                  rows={5}
+                />
+                <div className="mt-3 flex justify-end">
+                  <Button
+                    onClick={handleSaveNotes}
+                    disabled={savingNotes || notes.trim() === (contact.notes || '').trim()}
+                  >
+                    {savingNotes ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-2" />
+                    )}
+                    Save Notes
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle className="text-lg">Activity</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-4">
+                {timeline.map(event => {
+                  const Icon = event.type === 'message' && event.details.channel === 'email'
+                    ? Mail
+                    : eventIcons[event.type] || Edit;
+                  return (
+                    <li key={event.id} className="flex items-start space-x-3">
+                      <div className={`h-8 w-8 rounded-full flex items-center justify-center flex-shrink-0 ${eventColors[event.type] || eventColors.edited}`}>
+                        <Icon className="h-4 w-4" />
+                      </div>
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-900">{event.summary}</p>
+                        {event.type === 'message' && event.details.message && (
+                          <p className="mt-1 text-xs text-gray-600 whitespace-pre-line line-clamp-3">{event.details.message}</p>
+                        )}
+                        <p className="mt-0.5 text-xs text-gray-500">{event.createdAt.toLocaleString()}</p>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <ReminderDialog
+        isOpen={showReminderDialog}
+        subject={fullName}
+        onClose={() => setShowReminderDialog(false)}
+        onSave={handleAddReminder}
+      />
+
+      <EmailDialog
+        isOpen={showEmailDialog}
+        contact={contact}
+        onClose={() => setShowEmailDialog(false)}
+        onSent={fetchContact}
+      />
+    </div>
+  );
+}
@@ -1,8 +1,23 @@
 import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
 import { useAuth } from "../../contexts/AuthContext";
-import { collection, query, where, getDocs, addDoc, updateDoc, deleteDoc, doc, serverTimestamp } from "firebase/firestore";
+import { collection, query, where, getDocs, updateDoc, deleteDoc, doc, serverTimestamp } from "firebase/firestore";
 import { db } from "../../lib/firebase";
 import { isDuplicateContact } from "../../utils/duplicate";
+import { downloadVCard } from "../../utils/vcard";
+import { isVcfFile, parseVcfImport } from "../../utils/vcfImport";
+import { ContactImportError, runContactImport } from "../../utils/importHistory";
+import type { ImportRow } from "../../utils/contactImport";
+import ImportColumnMapper from "../../components/ImportColumnMapper";
+import DuplicateFinder from "../../components/DuplicateFinder";
+import { buildMergedContact, mergeContacts, type ContactRecord, type MergeSelection } from "../../utils/contactDuplicates";
+import { changedFields, deleteContactEvents, logContactEvent, logGroupChanges, reassignContactEvents } from "../../utils/contactActivity";
+import { recordTemplateUse } from "../../utils/templateLibrary";
+import { deleteContactReminders, reassignContactReminders } from "../../utils/reminders";
+import { createVCard } from "@shared/vcard";
+import { parsePhoneNumber, toPhoneFields, toWhatsAppNumber, type PhoneNumber } from "@shared/phone";
+import { mapsUrl, toAddressFields, type PostalAddress } from "@shared/address";
+import { TEMPLATE_VARIABLES, contactTemplateValues, renderTemplate } from "@shared/templates";
 import { Card, CardContent } from "../../components/ui/card";
 import { Button } from "../../components/ui/button";
 import { Input } from "../../components/ui/input";
@@ -12,7 +27,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from ".
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "../../components/ui/dialog";
 import { Badge } from "../../components/ui/badge";
 import { useToast } from "../../hooks/use-toast";
-import { Plus, Search, Grid3X3, List, MoreVertical, Edit, Trash2, Users2, Loader2, Download, Check, FileText, Copy, Upload, FileDown, Phone, MapPin, ExternalLink } from "lucide-react";
+import { useUsageLimits } from "../../hooks/useUsageLimits";
+import { useDefaultCountry } from "../../hooks/useDefaultCountry";
+import { useTemplateSender } from "../../hooks/useTemplateSender";
+import UsageLimitModal from "../../components/UsageLimitModal";
+import DefaultCountryPrompt from "../../components/DefaultCountryPrompt";
+import EmailDialog from "../../components/EmailDialog";
+import { Plus, Search, Grid3X3, List, MoreVertical, Edit, Trash2, Users2, Loader2, Download, Check, FileText, Copy, Upload, FileDown, Phone, MapPin, ExternalLink, History, Eye, Mail } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "../../components/ui/dropdown-menu";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../components/ui/table";
 import * as XLSX from 'xlsx';
@@ -28,13 +49,22 @@ interface Contact {
   id: string;
   firstName: string;
   lastName: string;
-  phones: string[];
+  phones: string[]; // E.164 where the number could be parsed
+  phoneDetails?: PhoneNumber[]; // Display format and type of each number
   email: string;
+  emails?: string[]; // Every email when imported from a vCard, primary first
   company: string;
   services: string;
   address?: string;
+  postalAddress?: PostalAddress | null; // The address split into its parts
+  addresses?: string[]; // Every address when imported from a vCard, primary first
   website?: string; // Website URL field
   qrCodeUrl?: string; // Added QR Code URL field
+  notes?: string;
+  customFields?: Record<string, string>; // Extra spreadsheet columns kept on import
+  photoUrl?: string; // Contact photo from an imported vCard
+  frontImageUrl?: string; // Scanned card images
+  backImageUrl?: string;
   groupIds: string[];
   createdAt: Date;
   ownerId: string;
@@ -57,6 +87,11 @@ interface Template {
 function Contacts() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { usage, limits, createDocuments, releaseQuota } = useUsageLimits();
+  const { defaultCountry } = useDefaultCountry();
+  const templateSender = useTemplateSender();
+  const [showLimitModal, setShowLimitModal] = useState(false);
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [groups, setGroups] = useState<Group[]>([]);
   const [templates, setTemplates] = useState<Template[]>([]);
@@ -74,12 +109,15 @@ function Contacts() {
   const [showGroupModal, setShowGroupModal] = useState(false);
   const [showTemplateModal, setShowTemplateModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [showDuplicateFinder, setShowDuplicateFinder] = useState(false);
   const [selectedContactForGroup, setSelectedContactForGroup] = useState<Contact | null>(null);
   const [selectedContactForMessage, setSelectedContactForMessage] = useState<Contact | null>(null);
+  const [emailContact, setEmailContact] = useState<Contact | null>(null);
   const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
   const [customMessage, setCustomMessage] = useState("");
   const [importFile, setImportFile] = useState<File | null>(null);
-  const [importPreview, setImportPreview] = useState<any[]>([]);
+  const [importWorkbook, setImportWorkbook] = useState<XLSX.WorkBook | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportRow[]>([]);
   const [formData, setFormData] = useState<{
     firstName: string;
     lastName: string;
@@ -135,6 +173,7 @@ function Contacts() {
         contact.lastName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         contact.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         contact.phones?.some(p => p.includes(searchTerm)) ||
+        contact.phoneDetails?.some(p => p.display.includes(searchTerm)) ||
         contact.company?.toLowerCase().includes(searchTerm.toLowerCase()) ||
         contact.website?.toLowerCase().includes(searchTerm.toLowerCase())
       );
@@ -173,8 +212,17 @@ function Contacts() {
           company: data.company || "",
           services: data.services || "",
           address: data.address || "",
+          postalAddress: data.postalAddress || null,
           website: data.website || "", // Website URL field
           qrCodeUrl: data.qrCodeUrl || "", // Added QR Code URL field
+          phoneDetails: data.phoneDetails || [],
+          emails: data.emails || [],
+          addresses: data.addresses || [],
+          notes: data.notes || "",
+          customFields: data.customFields || {},
+          photoUrl: data.photoUrl || "",
+          frontImageUrl: data.frontImageUrl || "",
+          backImageUrl: data.backImageUrl || "",
           groupIds: data.groupIds || [],
           createdAt: data.createdAt?.toDate() || new Date(),
           ownerId: data.ownerId,
@@ -234,72 +282,44 @@ function Contacts() {
     if (!file) return;
 
     setImportFile(file);
+    setImportWorkbook(null);
+
+    if (isVcfFile(file)) {
+      const vcfReader = new FileReader();
+      vcfReader.onload = (e) => {
+        const rows = parseVcfImport(e.target?.result as string, defaultCountry);
+        setImportPreview(rows);
+        if (rows.length === 0) {
+          toast({
+            title: "File Error",
+            description: "No contacts were found in the selected vCard file.",
+            variant: "destructive",
+          });
+        }
+      };
+      vcfReader.onerror = () => {
+        toast({
+          title: "File Error",
+          description: "Unable to read the selected vCard file.",
+          variant: "destructive",
+        });
+      };
+      vcfReader.readAsText(file);
+      return;
+    }
     
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet);
-        
-        // Transform and validate data
-        const transformedData = jsonData.map((row: any, index) => {
-          const firstName = row['First Name'] || row['firstName'] || row['Name']?.split(' ')[0] || '';
-          const lastName = row['Last Name'] || row['lastName'] || row['Name']?.split(' ').slice(1).join(' ') || '';
-          
-          // Enhanced phone number extraction supporting multiple formats
-          let phones: string[] = [];
-          
-          // First, check for comma-separated "Phones" column (from export)
-          const phonesColumn = row['Phones'] || row['phones'];
-          if (phonesColumn) {
-            phones = phonesColumn.toString().split(/[,;]/).map(p => p.trim()).filter(p => p);
-          } else {
-            // Fall back to individual phone columns
-            const phone = row['Phone'] || row['phone'] || row['Phone Number'] || row['Mobile'] || '';
-            const phone2 = row['Phone 2'] || row['phone2'] || row['Secondary Phone'] || '';
-            
-            // Also check for additional numbered phone columns
-            const additionalPhones: string[] = [];
-            for (let i = 3; i <= 10; i++) {
-              const phoneKey = `Phone ${i}`;
-              const phoneValue = row[phoneKey] || row[`phone${i}`] || row[`Phone${i}`];
-              if (phoneValue) {
-                additionalPhones.push(phoneValue.toString().trim());
-              }
-            }
-            
-            phones = [phone, phone2, ...additionalPhones].filter(p => p).map(p => p.toString().trim());
-          }
-          
-          const email = row['Email'] || row['email'] || row['Email Address'] || '';
-          const company = row['Company'] || row['company'] || row['Organization'] || '';
-          const website = row['Website'] || row['website'] || row['Web Site'] || row['URL'] || ''; // Website URL extraction
-          const qrCodeUrl = row['QR Code URL'] || row['qrCodeUrl'] || row['QR Code'] || ''; // Added QR Code URL extraction
-
-          return {
-            index: index + 1,
-            firstName: firstName.toString().trim(),
-            lastName: lastName.toString().trim(),
-            phones: phones,
-            email: email.toString().toLowerCase().trim(),
-            company: company.toString().trim(),
-            services: row['Services'] || row['services'] || '',
-            address: row['Address'] || row['address'] || '',
-            website: website.toString().trim(), // Website URL field
-            qrCodeUrl: qrCodeUrl.toString().trim(), // Added QR Code URL field
-            isValid: !!(firstName && phones.length > 0) // Minimum required fields
-          };
-        }).filter(row => row.firstName || (row.phones && row.phones.length > 0)); // Filter out completely empty rows
-
-        setImportPreview(transformedData);
+        // Rows are built by the column mapper once columns are mapped
+        setImportPreview([]);
+        setImportWorkbook(XLSX.read(data, { type: 'array' }));
       } catch (error) {
         console.error("Error reading file:", error);
         toast({
           title: "File Error",
-          description: "Unable to read the selected file. Please ensure it's a valid Excel file.",
+          description: "Unable to read the selected file. Please ensure it's a valid Excel, CSV or vCard file.",
           variant: "destructive",
         });
       }
@@ -309,56 +329,33 @@ function Contacts() {
   };
 
   const handleBulkImport = async () => {
-    if (!user || !importPreview.length) return;
+    if (!user || !importPreview.length || !defaultCountry) return;
     
     setImporting(true);
-    let successCount = 0;
-    let duplicateCount = 0;
-    let errorCount = 0;
     
     try {
-      for (const contact of importPreview.filter(c => c.isValid)) {
-        try {
-          // Check for duplicates
-          if (contact.email || contact.phones.length > 0) {
-            const isDupe = await isDuplicateContact(user.uid, contact.email, contact.phones);
-            if (isDupe) {
-              duplicateCount++;
-              continue;
-            }
-          }
-          
-          const contactData = {
-            firstName: contact.firstName,
-            lastName: contact.lastName,
-            phones: contact.phones,
-            email: contact.email,
-            company: contact.company,
-            services: contact.services || '',
-            address: contact.address || '',
-            website: contact.website || '', // Website URL field
-            qrCodeUrl: contact.qrCodeUrl || '', // Added QR Code URL field
-            groupIds: [],
-            ownerId: user.uid,
-            createdAt: serverTimestamp(),
-            updatedAt: serverTimestamp(),
-          };
-
-          await addDoc(collection(db, "contacts"), contactData);
-          successCount++;
-        } catch (error) {
-          console.error(`Error importing contact ${contact.firstName}:`, error);
-          errorCount++;
-        }
-      }
+      const result = await runContactImport(user.uid, importPreview, {
+        fileName: importFile?.name || 'Import',
+        source: importFile && isVcfFile(importFile) ? 'vcf' : 'spreadsheet',
+        groups,
+        defaultCountry,
+        maxContacts: limits.contacts - usage.contactsCount,
+        createDocuments,
+        releaseQuota,
+      });
       
       toast({
         title: "Import Complete",
-        description: `Successfully imported ${successCount} contacts. ${duplicateCount} duplicates skipped. ${errorCount} errors.`,
+        description: `Successfully imported ${result.imported} contacts. ${result.duplicates} duplicates skipped. ${result.invalid} invalid rows.${result.limitReached ? ` Contact limit reached, ${result.skipped} not imported.` : ''}${result.skippedGroups.length > 0 ? ` Group limit reached, categories not added as groups: ${result.skippedGroups.join(', ')}.` : ''}`,
       });
+
+      if (result.limitReached) {
+        setShowLimitModal(true);
+      }
       
       setShowImportModal(false);
       setImportFile(null);
+      setImportWorkbook(null);
       setImportPreview([]);
       await fetchData();
       
@@ -366,7 +363,9 @@ function Contacts() {
       console.error("Error during bulk import:", error);
       toast({
         title: "Import Error",
-        description: "An error occurred during import. Some contacts may not have been saved.",
+        description: error instanceof ContactImportError
+          ? "The import failed and was rolled back. No contacts were saved."
+          : "An error occurred during import. Check the import history before trying again.",
         variant: "destructive",
       });
     } finally {
@@ -402,7 +401,11 @@ function Contacts() {
           'Email': contact.email || '',
           'Company': contact.company || '',
           'Services': contact.services || '',
-          'Address': contact.address || '',
+          'Address': (contact.postalAddress ? contact.postalAddress.street : contact.address) || '',
+          'City': contact.postalAddress?.locality || '',
+          'State': contact.postalAddress?.region || '',
+          'Postal Code': contact.postalAddress?.postalCode || '',
+          'Country': contact.postalAddress?.country || '',
           'Website': contact.website || '', // Website URL field
           'QR Code URL': contact.qrCodeUrl || '', // Added QR Code URL field
           'Groups': groupNames,
@@ -445,38 +448,30 @@ function Contacts() {
     }
   };
 
-  // Enhanced VCF Export Function with QR Code URL
-  const generateVCF = (contact: Contact) => {
-    const vcf = [
-      'BEGIN:VCARD',
-      'VERSION:3.0',
-      `FN:${contact.firstName} ${contact.lastName}`,
-      `N:${contact.lastName};${contact.firstName};;;`,
-      ...(contact.phones || []).map((p, i) => `TEL;TYPE=${i === 0 ? 'CELL' : 'HOME'}:${p}`),
-      contact.email ? `EMAIL:${contact.email}` : '',
-      contact.company ? `ORG:${contact.company}` : '',
-      contact.address ? `ADR;TYPE=WORK:;;${contact.address};;;;` : '',
-      contact.services ? `NOTE:Services: ${contact.services}` : '',
-      contact.website ? `URL:${contact.website}` : '', // Website URL
-      contact.qrCodeUrl ? `URL:${contact.qrCodeUrl}` : '', // Added QR Code URL to VCF
-      'END:VCARD'
-    ].filter(Boolean).join('\n');
-
-    return vcf;
-  };
+  // Each number as originally written, with its type when known
+  const contactPhoneDetails = (contact: Contact): PhoneNumber[] =>
+    (contact.phones || []).map(phone => contact.phoneDetails?.find(d => d.e164 === phone) || { e164: phone, display: phone });
+
+  // VCF export, with the QR code URL as a second URL
+  const contactToVCard = (contact: Contact) => createVCard({
+    firstName: contact.firstName,
+    lastName: contact.lastName,
+    company: contact.company,
+    phones: contactPhoneDetails(contact).filter(p => p.type !== 'landline' && p.type !== 'fax').map(p => p.e164 || p.display),
+    landlines: contactPhoneDetails(contact).filter(p => p.type === 'landline').map(p => p.e164 || p.display),
+    faxes: contactPhoneDetails(contact).filter(p => p.type === 'fax').map(p => p.e164 || p.display),
+    emails: contact.emails?.length ? contact.emails : contact.email ? [contact.email] : [],
+    urls: [contact.website || '', contact.qrCodeUrl || ''],
+    address: contact.address,
+    postalAddress: contact.postalAddress,
+    note: [contact.services ? `Services: ${contact.services}` : '', contact.notes || ''].filter(Boolean).join('\n') || undefined,
+    categories: contact.groupIds?.map(getGroupName),
+    photo: contact.photoUrl ? { uri: contact.photoUrl } : undefined,
+  });
 
   const handleExportVCF = (contact: Contact) => {
     try {
-      const vcfContent = generateVCF(contact);
-      const blob = new Blob([vcfContent], { type: 'text/vcard' });
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${contact.firstName}_${contact.lastName}.vcf`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
+      downloadVCard(contactToVCard(contact), `${contact.firstName}_${contact.lastName}.vcf`);
       
       toast({
         title: "Success",
@@ -513,15 +508,59 @@ function Contacts() {
       return;
     }
 
+    if (!defaultCountry) {
+      toast({
+        title: "Choose a default country",
+        description: "Pick the country for phone numbers without a country code before saving",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const enteredPhones = formData.phones.map(p => p.trim()).filter(p => p);
+    const invalidPhone = enteredPhones.find(p => !parsePhoneNumber(p, defaultCountry));
+    if (invalidPhone) {
+      toast({
+        title: "Validation Error",
+        description: `"${invalidPhone}" is not a valid phone number`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const phoneFields = toPhoneFields(enteredPhones, defaultCountry, { previous: editingContact?.phoneDetails });
+    // An unchanged address keeps the parts it was saved with
+    const addressFields = toAddressFields(
+      formData.address,
+      defaultCountry,
+      editingContact && editingContact.address === formData.address ? editingContact.postalAddress : null
+    );
+
     setSaving(true);
     
     try {
       if (editingContact) {
         await updateDoc(doc(db, "contacts", editingContact.id), {
           ...formData,
+          ...phoneFields,
+          ...addressFields,
           email: formData.email.toLowerCase(),
           updatedAt: serverTimestamp(),
         });
+
+        const { groupIds: previousGroupIds, ...previousFields } = {
+          ...contactFormData(editingContact),
+          phones: editingContact.phones || [],
+        };
+        const { groupIds, ...updatedFields } = {
+          ...formData,
+          email: formData.email.toLowerCase(),
+          phones: phoneFields.phones,
+        };
+        const edited = changedFields(previousFields, updatedFields, Object.keys(updatedFields) as Array<keyof typeof updatedFields>);
+        if (edited.length > 0) {
+          await logContactEvent(user.uid, editingContact.id, 'edited', `Edited ${edited.join(', ')}`, { fields: edited });
+        }
+        await logGroupChanges(user.uid, editingContact.id, previousGroupIds, groupIds, getGroupName);
         
         toast({
           title: "Success",
@@ -531,9 +570,10 @@ function Contacts() {
         setShowEditModal(false);
         setEditingContact(null);
       } else {
-        if (formData.email || formData.phones.length > 0) {
+        if (formData.email || enteredPhones.length > 0) {
           try {
-            const isDupe = await isDuplicateContact(user.uid, formData.email, formData.phones);
+            // Older contacts store numbers as written, newer ones in E.164
+            const isDupe = await isDuplicateContact(user.uid, formData.email, [...enteredPhones, ...phoneFields.phones]);
             if (isDupe) {
               toast({
                 title: "Duplicate Contact",
@@ -551,20 +591,22 @@ function Contacts() {
         const contactData = {
           firstName: formData.firstName.trim(),
           lastName: formData.lastName.trim(),
-          phones: formData.phones.map(p => p.trim()).filter(p => p),
+          ...phoneFields,
           email: formData.email.toLowerCase().trim(),
           company: formData.company.trim(),
           services: formData.services.trim(),
-          address: formData.address.trim(),
+          ...addressFields,
           website: formData.website.trim(), // Website URL field
           qrCodeUrl: formData.qrCodeUrl.trim(), // Added QR Code URL field
           groupIds: formData.groupIds || [],
-          ownerId: user.uid,
-          createdAt: serverTimestamp(),
-          updatedAt: serverTimestamp(),
+          source: 'manual',
         };
 
-        await addDoc(collection(db, "contacts"), contactData);
+        if (!(await createDocuments('contacts', [contactData]))) {
+          setShowLimitModal(true);
+          setSaving(false);
+          return;
+        }
 
         toast({
           title: "Success",
@@ -600,20 +642,22 @@ function Contacts() {
     }
   };
 
+  const contactFormData = (contact: Contact) => ({
+    firstName: contact.firstName || "",
+    lastName: contact.lastName || "",
+    phones: contactPhoneDetails(contact).map(p => p.display),
+    email: contact.email || "",
+    company: contact.company || "",
+    services: contact.services || "",
+    address: contact.address || "",
+    website: contact.website || "", // Website URL field
+    qrCodeUrl: contact.qrCodeUrl || "", // Added QR Code URL field
+    groupIds: contact.groupIds || [],
+  });
+
   const handleEditContact = (contact: Contact) => {
     setEditingContact(contact);
-    setFormData({
-      firstName: contact.firstName || "",
-      lastName: contact.lastName || "",
-      phones: contact.phones || [],
-      email: contact.email || "",
-      company: contact.company || "",
-      services: contact.services || "",
-      address: contact.address || "",
-      website: contact.website || "", // Website URL field
-      qrCodeUrl: contact.qrCodeUrl || "", // Added QR Code URL field
-      groupIds: contact.groupIds || [],
-    });
+    setFormData(contactFormData(contact));
     setShowEditModal(true);
   };
 
@@ -624,6 +668,15 @@ function Contacts() {
 
     try {
       await deleteDoc(doc(db, "contacts", contactId));
+      await releaseQuota('contacts');
+      if (user) {
+        try {
+          await deleteContactEvents(user.uid, contactId);
+          await deleteContactReminders(user.uid, contactId);
+        } catch (cleanupError) {
+          console.error("Error deleting contact activity:", cleanupError);
+        }
+      }
       toast({
         title: "Success",
         description: "Contact deleted successfully",
@@ -639,6 +692,38 @@ function Contacts() {
     }
   };
 
+  const handleMergeContacts = async (cluster: ContactRecord[], primaryId: string, selection: MergeSelection) => {
+    try {
+      const deleted = await mergeContacts(cluster, primaryId, selection);
+      if (deleted > 0) await releaseQuota('contacts');
+      if (user) {
+        const mergedNames = cluster
+          .filter(contact => contact.id !== primaryId)
+          .map(contact => `${contact.firstName || ''} ${contact.lastName || ''}`.trim() || 'Unnamed contact');
+        await logContactEvent(user.uid, primaryId, 'merged', `Merged with ${mergedNames.join(', ')}`, { contactIds: cluster.map(c => c.id).filter(id => id !== primaryId) });
+
+        const merged = buildMergedContact(cluster, primaryId, selection);
+        const mergedContact = { id: primaryId, name: `${merged.firstName || ''} ${merged.lastName || ''}`.trim() };
+        for (const contact of cluster.filter(c => c.id !== primaryId)) {
+          await reassignContactReminders(user.uid, contact.id, mergedContact);
+          await reassignContactEvents(user.uid, contact.id, primaryId);
+        }
+      }
+      toast({
+        title: "Contacts Merged",
+        description: `Merged ${cluster.length} contacts into one`,
+      });
+      await fetchData();
+    } catch (error) {
+      console.error("Error merging contacts:", error);
+      toast({
+        title: "Error",
+        description: "Failed to merge contacts",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleAssignToGroup = (contact: Contact) => {
     setSelectedContactForGroup(contact);
     setShowGroupModal(true);
@@ -657,6 +742,9 @@ function Contacts() {
         groupIds: updatedGroupIds,
         updatedAt: serverTimestamp(),
       });
+      if (user) {
+        await logGroupChanges(user.uid, selectedContactForGroup.id, currentGroupIds, updatedGroupIds, getGroupName);
+      }
       
       setSelectedContactForGroup(prev => {
         if (!prev) return prev;
@@ -690,16 +778,9 @@ function Contacts() {
     setShowTemplateModal(true);
   };
 
-  // Function to replace placeholders in template content
-  const replacePlaceholders = (content: string, contact: Contact) => {
-    return content
-      .replace(/\{firstName\}/g, contact.firstName || '')
-      .replace(/\{lastName\}/g, contact.lastName || '')
-      .replace(/\{fullName\}/g, `${contact.firstName || ''} ${contact.lastName || ''}`.trim())
-      .replace(/\{company\}/g, contact.company || '')
-      .replace(/\{email\}/g, contact.email || '')
-      .replace(/\{phone\}/g, contact.phones?.[0] || '');
-  };
+  // Fill a template with the contact's details and the sender's from Settings
+  const replacePlaceholders = (content: string, contact: Contact) =>
+    renderTemplate(content, { ...templateSender, ...contactTemplateValues({ ...contact, phones: contactPhoneDetails(contact).map(p => p.display) }) });
 
   // Enhanced function to clean and format message for WhatsApp URL
   const formatMessageForWhatsApp = (message: string) => {
@@ -735,25 +816,11 @@ function Contacts() {
     }
   };
 
-  // Utility: Format phone number for WhatsApp
-  const formatPhoneNumber = (rawNumber: string): string => {
-    if (!rawNumber) return "";
-
-    let cleaned = rawNumber.replace(/[^\d]/g, "");
-    cleaned = cleaned.replace(/^0+/, "");
-
-    if (!cleaned.startsWith("91") && cleaned.length <= 10) {
-      cleaned = "91" + cleaned;
-    }
-
-    return cleaned;
-  };
-
   // Enhanced WhatsApp messaging function supporting both web and mobile
   const handleSendWhatsAppMessage = () => {
     if (!selectedContactForMessage) return;
 
-    const phoneNumber = formatPhoneNumber(selectedContactForMessage.phones?.[0] || "");
+    const phoneNumber = toWhatsAppNumber(selectedContactForMessage.phones?.[0] || "", defaultCountry);
     if (!phoneNumber) {
       toast({
         title: "Error",
@@ -776,7 +843,7 @@ function Contacts() {
         selectedContactForMessage
       );
     } else {
-      messageContent = `Hi ${selectedContactForMessage.firstName}, I hope you're doing well!`;
+      messageContent = replacePlaceholders("Hi {firstName|there}, I hope you're doing well!", selectedContactForMessage);
     }
 
     const formattedMessage = formatMessageForWhatsApp(messageContent);
@@ -827,6 +894,20 @@ function Contacts() {
         }
       }
 
+      if (user) {
+        logContactEvent(
+          user.uid,
+          selectedContactForMessage.id,
+          'message',
+          selectedTemplate ? `WhatsApp message from template "${selectedTemplate.name}"` : 'WhatsApp message',
+          { channel: 'whatsapp', templateId: selectedTemplate?.id || null, message: formattedMessage }
+        );
+      }
+
+      if (selectedTemplate) {
+        recordTemplateUse(selectedTemplate.id);
+      }
+
     } catch (error) {
       console.error("Error opening WhatsApp:", error);
       copyMessageToClipboard(formattedMessage);
@@ -934,13 +1015,20 @@ function Contacts() {
           <CardContent className="p-4 flex-1 flex flex-col">
             <div className="flex items-start justify-between mb-3">
               <div className="flex items-start space-x-3 flex-1 min-w-0">
-                <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
-                  <span className="text-primary font-medium text-sm">
-                    {getInitials(contact.firstName, contact.lastName)}
-                  </span>
+                <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0 overflow-hidden">
+                  {contact.photoUrl ? (
+                    <img src={contact.photoUrl} alt="" className="h-full w-full object-cover" />
+                  ) : (
+                    <span className="text-primary font-medium text-sm">
+                      {getInitials(contact.firstName, contact.lastName)}
+                    </span>
+                  )}
                 </div>
                 <div className="flex-1 min-w-0">
-                  <h3 className="text-base font-semibold text-gray-900 truncate leading-tight">
+                  <h3
+                    className="text-base font-semibold text-gray-900 truncate leading-tight cursor-pointer hover:text-primary"
+                    onClick={() => setLocation(`/contacts/${contact.id}`)}
+                  >
                     {contact.firstName} {contact.lastName}
                   </h3>
                   <p className="text-sm text-gray-600 truncate mt-0.5">{contact.company}</p>
@@ -955,10 +1043,21 @@ function Contacts() {
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end" className="w-48">
+                    <DropdownMenuItem onClick={() => setLocation(`/contacts/${contact.id}`)}>
+                      <Eye className="h-4 w-4 mr-2" />
+                      View Details
+                    </DropdownMenuItem>
                     <DropdownMenuItem onClick={() => window.open(`tel:${contact.phones?.[0]}`)}>
                       <Phone className="h-4 w-4 mr-2" />
                       Call
                     </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => setEmailContact(contact)}
+                      disabled={!contact.email && !contact.emails?.length}
+                    >
+                      <Mail className="h-4 w-4 mr-2" />
+                      Send Email
+                    </DropdownMenuItem>
                     <DropdownMenuItem onClick={() => handleAssignToGroup(contact)}>
                       <Users2 className="h-4 w-4 mr-2" />
                       Assign Groups
@@ -988,10 +1087,11 @@ function Contacts() {
             
             {/* Contact Details */}
             <div className="space-y-1.5 mb-3 flex-1">
-              {contact.phones?.slice(0, 2).map((phone, i) => (
+              {contactPhoneDetails(contact).slice(0, 2).map((phone, i) => (
                 <p key={i} className="text-sm text-gray-600 flex items-center">
                   <Phone className="h-3 w-3 mr-1.5 text-gray-400 flex-shrink-0" />
-                  <span className="truncate">{phone}</span>
+                  <span className="truncate">{phone.display}</span>
+                  {phone.type && <span className="ml-1.5 text-xs text-gray-400">{phone.type}</span>}
                 </p>
               ))}
               {contact.phones && contact.phones.length > 2 && (
@@ -1003,10 +1103,16 @@ function Contacts() {
               )}
               
               {contact.address && (
-                <p className="text-sm text-gray-600 flex items-start">
+                <a
+                  href={mapsUrl(contact.postalAddress || contact.address)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-gray-600 hover:text-blue-600 flex items-start"
+                  title="Open in Maps"
+                >
                   <MapPin className="h-3 w-3 mr-1.5 text-gray-400 flex-shrink-0 mt-0.5" />
                   <span className="text-xs line-clamp-2">{contact.address}</span>
-                </p>
+                </a>
               )}
               
               {contact.qrCodeUrl && (
@@ -1022,6 +1128,22 @@ function Contacts() {
               )}
             </div>
 
+            {/* Scanned card images */}
+            {(contact.frontImageUrl || contact.backImageUrl) && (
+              <div className="mb-3 flex gap-2">
+                {[contact.frontImageUrl, contact.backImageUrl].map((url, i) => url && (
+                  <button
+                    key={url}
+                    onClick={() => window.open(url, '_blank')}
+                    className="w-1/2 aspect-[7/4] rounded border bg-gray-50 overflow-hidden"
+                    title={i === 0 ? "Card front" : "Card back"}
+                  >
+                    <img src={url} alt={i === 0 ? "Card front" : "Card back"} className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            )}
+
             {contact.services && (
               <div className="mb-3">
                 <p className="text-xs text-gray-600 line-clamp-2 bg-gray-50 p-2 rounded text-left">
@@ -1112,16 +1234,20 @@ function Contacts() {
                           {getInitials(contact.firstName, contact.lastName)}
                         </span>
                       </div>
-                      <span className="font-medium min-w-0">
+                      <span
+                        className="font-medium min-w-0 cursor-pointer hover:text-primary"
+                        onClick={() => setLocation(`/contacts/${contact.id}`)}
+                      >
                         {contact.firstName} {contact.lastName}
                       </span>
                     </div>
                   </TableCell>
                   <TableCell>
                     <div className="space-y-1">
-                      {contact.phones?.map((phone, i) => (
+                      {contactPhoneDetails(contact).map((phone, i) => (
                         <div key={i} className="text-sm">
-                          {phone}
+                          {phone.display}
+                          {phone.type && <span className="ml-1.5 text-xs text-gray-400">{phone.type}</span>}
                         </div>
                       ))}
                     </div>
@@ -1138,9 +1264,15 @@ function Contacts() {
                   </TableCell>
                   <TableCell className="max-w-xs">
                     {contact.address && (
-                      <div className="truncate" title={contact.address}>
+                      <a
+                        href={mapsUrl(contact.postalAddress || contact.address)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block truncate hover:text-blue-600"
+                        title={`${contact.address} (Open in Maps)`}
+                      >
                         {contact.address}
-                      </div>
+                      </a>
                     )}
                   </TableCell>
                   <TableCell>
@@ -1206,12 +1338,25 @@ function Contacts() {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
+                          <DropdownMenuItem
+                            onClick={() => setLocation(`/contacts/${contact.id}`)}
+                          >
+                            <Eye className="h-4 w-4 mr-2" />
+                            View Details
+                          </DropdownMenuItem>
                           <DropdownMenuItem
                             onClick={() => window.open(`tel:${contact.phones?.[0]}`)}
                           >
                             <Phone className="h-4 w-4 mr-2" />
                             Call
                           </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => setEmailContact(contact)}
+                            disabled={!contact.email && !contact.emails?.length}
+                          >
+                            <Mail className="h-4 w-4 mr-2" />
+                            Send Email
+                          </DropdownMenuItem>
                           <DropdownMenuItem
                             onClick={() => handleAssignToGroup(contact)}
                           >
@@ -1268,7 +1413,24 @@ function Contacts() {
               className="text-blue-600 border-blue-600 hover:bg-blue-50"
             >
               <Upload className="h-4 w-4 mr-2" />
-              Import Excel
+              Import Contacts
+            </Button>
+
+            <Button 
+              variant="outline" 
+              onClick={() => setLocation("/contacts/imports")}
+            >
+              <History className="h-4 w-4 mr-2" />
+              Import History
+            </Button>
+
+            <Button 
+              variant="outline" 
+              onClick={() => setShowDuplicateFinder(true)}
+              disabled={contacts.length < 2}
+            >
+              <Copy className="h-4 w-4 mr-2" />
+              Find Duplicates
             </Button>
             
             <Button 
@@ -1306,6 +1468,7 @@ function Contacts() {
                   <DialogTitle>{editingContact ? "Edit Contact" : "Add New Contact"}</DialogTitle>
                 </DialogHeader>
                 <form onSubmit={handleSubmit} className="space-y-4">
+                  <DefaultCountryPrompt />
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <Label htmlFor="firstName">First Name *</Label>
@@ -1462,7 +1625,7 @@ function Contacts() {
                     <Button type="button" variant="outline" onClick={handleCloseModal} disabled={saving}>
                       Cancel
                     </Button>
-                    <Button type="submit" disabled={saving}>
+                    <Button type="submit" disabled={saving || !defaultCountry}>
                       {saving ? (
                         <>
                           <Loader2 className="h-4 w-4 mr-2 animate-spin" />
@@ -1570,26 +1733,37 @@ function Contacts() {
             <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
               <h4 className="font-medium text-blue-800 mb-2">Import Instructions:</h4>
               <ul className="text-sm text-blue-700 space-y-1">
-                <li>• Upload an Excel file (.xlsx) with contact information</li>
-                <li>• Required columns: <strong>First Name</strong> and <strong>Phone</strong></li>
-                <li>• Optional columns: Last Name, Email, Company, Services, Address, <strong>QR Code URL</strong></li>
-                <li>• Alternative column names are supported (e.g., 'Name', 'Mobile', 'Organization', 'URL')</li>
+                <li>• Upload an Excel (.xlsx) or CSV file, or a vCard file (.vcf) exported from your phone's address book</li>
+                <li>• Every contact needs a <strong>First Name</strong> and a <strong>Phone</strong></li>
+                <li>• Spreadsheet columns are matched to contact fields automatically; review the mapping before importing</li>
+                <li>• Columns that match no field can be kept as custom fields, and mappings can be saved as presets</li>
+                <li>• vCard categories are added to groups of the same name, created if needed</li>
                 <li>• Duplicates will be automatically skipped</li>
               </ul>
             </div>
 
+            <DefaultCountryPrompt />
+
             <div>
-              <Label htmlFor="importFile">Select Excel File</Label>
+              <Label htmlFor="importFile">Select Excel, CSV or vCard File</Label>
               <Input
                 id="importFile"
                 name="importFile"
                 type="file"
-                accept=".xlsx,.xls"
+                accept=".xlsx,.xls,.csv,.vcf,.vcard,text/vcard"
                 onChange={handleFileSelect}
+                disabled={!defaultCountry}
                 className="mt-2"
               />
             </div>
 
+            {importWorkbook && user && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Map Columns</h4>
+                <ImportColumnMapper workbook={importWorkbook} userId={user.uid} defaultCountry={defaultCountry} onRowsChange={setImportPreview} />
+              </div>
+            )}
+
             {importPreview.length > 0 && (
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
@@ -1611,6 +1785,7 @@ function Contacts() {
                         <TableHead>Phone 2</TableHead>
                         <TableHead>Email</TableHead>
                         <TableHead>Company</TableHead>
+                        <TableHead>Groups</TableHead>
                         <TableHead>QR Code URL</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -1621,15 +1796,21 @@ function Contacts() {
                             {row.isValid ? (
                               <Check className="h-4 w-4 text-green-600" />
                             ) : (
-                              <span className="text-xs text-red-600">Invalid</span>
+                              <span className="text-xs text-red-600" title={row.errors.join('\n')}>Invalid</span>
                             )}
                           </TableCell>
                           <TableCell>{row.firstName}</TableCell>
                           <TableCell>{row.lastName}</TableCell>
                           <TableCell>{row.phones[0] || ''}</TableCell>
                           <TableCell>{row.phones[1] || ''}</TableCell>
-                          <TableCell>{row.email}</TableCell>
+                          <TableCell>
+                            {row.email}
+                            {row.emails && row.emails.length > 1 && (
+                              <span className="ml-1 text-xs text-gray-500">+{row.emails.length - 1}</span>
+                            )}
+                          </TableCell>
                           <TableCell>{row.company}</TableCell>
+                          <TableCell>{row.categories?.join(', ')}</TableCell>
                           <TableCell>
                             {row.qrCodeUrl && (
                               <span className="text-xs text-blue-600 truncate" title={row.qrCodeUrl}>
@@ -1648,6 +1829,19 @@ function Contacts() {
                     Showing first 10 rows. Total: {importPreview.length} rows
                   </p>
                 )}
+
+                {importPreview.some(row => !row.isValid) && (
+                  <div className="max-h-40 overflow-y-auto p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <h5 className="text-sm font-medium text-red-800 mb-1">These rows will be skipped:</h5>
+                    <ul className="text-xs text-red-700 space-y-0.5">
+                      {importPreview.filter(row => !row.isValid).map(row => (
+                        <li key={row.index}>
+                          Row {row.index}{row.firstName ? ` (${row.firstName} ${row.lastName})` : ''}: {row.errors.join('; ')}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             )}
 
@@ -1657,6 +1851,7 @@ function Contacts() {
                 onClick={() => {
                   setShowImportModal(false);
                   setImportFile(null);
+                  setImportWorkbook(null);
                   setImportPreview([]);
                 }}
                 disabled={importing}
@@ -1665,7 +1860,7 @@ function Contacts() {
               </Button>
               <Button 
                 onClick={handleBulkImport}
-                disabled={importing || importPreview.length === 0 || !importPreview.some(row => row.isValid)}
+                disabled={importing || !defaultCountry || importPreview.length === 0 || !importPreview.some(row => row.isValid)}
               >
                 {importing ? (
                   <>
@@ -1681,6 +1876,14 @@ function Contacts() {
         </DialogContent>
       </Dialog>
 
+      <DuplicateFinder
+        isOpen={showDuplicateFinder}
+        contacts={contacts}
+        groups={groups}
+        onClose={() => setShowDuplicateFinder(false)}
+        onMerge={handleMergeContacts}
+      />
+
       {/* Group Assignment Modal */}
       <Dialog open={showGroupModal} onOpenChange={setShowGroupModal}>
         <DialogContent>
@@ -1758,7 +1961,7 @@ function Contacts() {
                 </div>
                 <div>
                   <p className="font-medium">{selectedContactForMessage.firstName} {selectedContactForMessage.lastName}</p>
-                  <p className="text-sm text-gray-500">{selectedContactForMessage.phones?.join(', ')}</p>
+                  <p className="text-sm text-gray-500">{contactPhoneDetails(selectedContactForMessage).map(p => p.display).join(", ")}</p>
                 </div>
               </div>
 
@@ -1836,11 +2039,9 @@ function Contacts() {
 
 You can use placeholders:
 {firstName} - Contact's first name
-{lastName} - Contact's last name  
-{fullName} - Contact's full name
-{company} - Contact's company
-{email} - Contact's email
-{phone} - Contact's phone"
+{firstName|there} - ...or 'there' when it is missing
+{#if company}at {company}{/if} - Only when there is a company
+{displayName}, {businessName}, {cardLink} - You and your digital card"
                     rows={6}
                     className="resize-none"
                   />
@@ -1872,7 +2073,7 @@ You can use placeholders:
                 {/* Placeholder Help */}
                 <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
                   <p className="text-xs text-gray-600">
-                    <strong>Available placeholders:</strong> {"{firstName}"}, {"{lastName}"}, {"{fullName}"}, {"{company}"}, {"{email}"}, {"{phone}"}
+                    <strong>Available placeholders:</strong> {TEMPLATE_VARIABLES.map(v => `{${v.name}}`).join(", ")}, with fallbacks like {"{firstName|there}"} and blocks like {"{#if company}...{/if}"}
                   </p>
                   <p className="text-xs text-gray-500 mt-1">
                     Note: For mobile devices, the app will attempt to open WhatsApp directly. For desktop/laptops, WhatsApp Web will be used.
@@ -1897,6 +2098,21 @@ You can use placeholders:
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Usage Limit Modal */}
+      <EmailDialog
+        isOpen={!!emailContact}
+        contact={emailContact}
+        onClose={() => setEmailContact(null)}
+      />
+
+      <UsageLimitModal
+        isOpen={showLimitModal}
+        onClose={() => setShowLimitModal(false)}
+        feature="contact"
+        currentCount={usage.contactsCount}
+        limit={limits.contacts}
+      />
     </div>
   );
 }
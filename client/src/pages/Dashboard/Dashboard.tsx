@@ -6,9 +6,12 @@ import {
 import { db } from "@/lib/firebase";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import DueReminders from "@/components/DueReminders";
 import { Users, Layers, FileText, Camera, UserPlus, FilePlus, CloudUpload, Eye, CreditCard, Crown, Shield, Settings } from "lucide-react";
 import { useLocation } from "wouter";
 import { useUsageLimits } from "@/hooks/useUsageLimits";
+import { useSubscription } from "@/hooks/useSubscription";
+import type { SubscriptionState } from "@shared/schema";
 
 interface Stats {
   contactsCount: number;
@@ -18,13 +21,6 @@ interface Stats {
   digitalCardsCount: number;
 }
 
-interface SubscriptionStatus {
-  hasSubscription: boolean;
-  planName?: string;
-  endDate?: Date;
-  isActive?: boolean;
-}
-
 interface RecentActivity {
   id: string;
   type: 'scan' | 'bulk_scan' | 'contact_add';
@@ -33,9 +29,19 @@ interface RecentActivity {
   details?: string;
 }
 
+const subscriptionHeadings: Record<SubscriptionState["status"], string> = {
+  none: "Free Plan",
+  trialing: "Free Trial",
+  active: "Active Subscription",
+  grace: "Renewal Due",
+  past_due: "Payment Past Due",
+  expired: "Subscription Expired",
+};
+
 export default function Dashboard() {
   const { user } = useAuth();
   const { usage, limits, loading: usageLimitsLoading } = useUsageLimits();
+  const { subscription } = useSubscription();
   const [stats, setStats] = useState<Stats>({
     contactsCount: 0,
     groupsCount: 0,
@@ -43,9 +49,6 @@ export default function Dashboard() {
     scannedCardsCount: 0,
     digitalCardsCount: 0,
   });
-  const [subscriptionStatus, setSubscriptionStatus] = useState<SubscriptionStatus>({
-    hasSubscription: false
-  });
   const [recentActivities, setRecentActivities] = useState<RecentActivity[]>([]);
   const [loading, setLoading] = useState(true);
   const [, setLocation] = useLocation();
@@ -83,26 +86,6 @@ export default function Dashboard() {
           scannedCardsCount: scannedCardsCount,
         });
 
-        // Fetch subscription status
-        try {
-          const subscriptionResponse = await fetch(`/api/subscription/${user.uid}`);
-          if (subscriptionResponse.ok) {
-            const subscription = await subscriptionResponse.json();
-            setSubscriptionStatus({
-              hasSubscription: subscription.hasSubscription || false,
-              planName: subscription.planName,
-              endDate: subscription.endDate ? new Date(subscription.endDate) : undefined,
-              isActive: subscription.isActive || false
-            });
-          } else {
-            console.warn(`Subscription API returned ${subscriptionResponse.status}: ${subscriptionResponse.statusText}`);
-          }
-        } catch (error) {
-          console.error("Error fetching subscription:", error);
-          // Set default subscription status on error
-          setSubscriptionStatus({ hasSubscription: false });
-        }
-
         // Fetch recent activities from contacts with source information
         // Using separate query to avoid composite index requirement
         const recentContactsQuery = query(
@@ -346,7 +329,7 @@ export default function Dashboard() {
       </div>
 
       {/* Subscription Status Card */}
-      {subscriptionStatus.hasSubscription ? (
+      {subscription?.isActive ? (
         <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 mt-8">
           <Card className="bg-gradient-to-r from-green-50 to-emerald-50 border-green-200 shadow-lg">
             <CardContent className="p-6">
@@ -356,16 +339,24 @@ export default function Dashboard() {
                     <Shield className="text-white h-6 w-6" />
                   </div>
                   <div>
-                    <h3 className="font-semibold text-green-800">Active Subscription</h3>
+                    <h3 className="font-semibold text-green-800">
+                      {subscriptionHeadings[subscription.status]}
+                    </h3>
                     <p className="text-sm text-green-600">
-                      {subscriptionStatus.planName} • Valid until {subscriptionStatus.endDate?.toLocaleDateString()}
+                      {subscription.planName} • {subscription.status === "trialing" ? "Trial ends" : "Renews by"}{" "}
+                      {subscription.renewsAt && new Date(subscription.renewsAt).toLocaleDateString()}
                     </p>
+                    {(subscription.status === "grace" || subscription.status === "past_due") && subscription.graceEndsAt && (
+                      <p className="text-sm text-amber-700">
+                        Renew before {new Date(subscription.graceEndsAt).toLocaleDateString()} to keep your features
+                      </p>
+                    )}
                   </div>
                 </div>
                 <Button 
                   variant="outline" 
                   className="border-green-300 text-green-700 hover:bg-green-100"
-                  onClick={() => setLocation("#")}
+                  onClick={() => setLocation("/pricing")}
                 >
                   <Crown className="h-4 w-4 mr-2" />
                   Manage
@@ -384,15 +375,19 @@ export default function Dashboard() {
                     <Crown className="text-white h-6 w-6" />
                   </div>
                   <div>
-                    <h3 className="font-semibold text-amber-800">Free Plan</h3>
+                    <h3 className="font-semibold text-amber-800">
+                      {subscription?.status === "expired" ? "Subscription Expired" : "Free Plan"}
+                    </h3>
                     <p className="text-sm text-amber-600">
-                      Upgrade to unlock unlimited features and AI processing
+                      {subscription?.status === "expired"
+                        ? "Renew your plan to restore unlimited features and AI processing"
+                        : "Upgrade to unlock unlimited features and AI processing"}
                     </p>
                   </div>
                 </div>
                 <Button 
                   className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700"
-                  onClick={() => setLocation("#")}
+                  onClick={() => setLocation("/pricing")}
                 >
                   <Crown className="h-4 w-4 mr-2" />
                   Upgrade Now
@@ -454,6 +449,18 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {/* Due Today */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 mt-12">
+        <h3 
+          className="text-xl font-semibold text-gray-900 mb-6 flex items-center animate-slideInUp"
+          style={{ animationDelay: '900ms', animationFillMode: 'both' }}
+        >
+          <span className="mr-3 text-2xl">🔔</span>
+          Due Today
+        </h3>
+        <DueReminders />
+      </div>
+
       {/* Quick Actions */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8 mt-12">
         <h3 
@@ -1,12 +1,15 @@
 import { useEffect, useState, useRef } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { collection, query, where, getDocs, addDoc, updateDoc, doc, serverTimestamp, getDoc } from "firebase/firestore";
+import { collection, query, where, getDocs, updateDoc, doc, serverTimestamp, getDoc } from "firebase/firestore";
 import { useLocation } from "wouter";
 import { db } from "@/lib/firebase";
 import { uploadToStorage } from "@/utils/upload";
-import { buildVCard } from "@/utils/vcard";
+import { serializeVCard } from "@shared/vcard";
+import { downloadVCard, profileToVCard, profileToVCardWithMedia } from "@/utils/vcard";
 import { generateQrFromText } from "@/utils/qr";
 import { useUsageLimits } from "@/hooks/useUsageLimits";
+import { useDefaultCountry } from "@/hooks/useDefaultCountry";
+import { toAddressFields, type PostalAddress } from "@shared/address";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -17,6 +20,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import UsageLimitModal from "@/components/UsageLimitModal";
+import DefaultCountryPrompt from "@/components/DefaultCountryPrompt";
 import html2canvas from 'html2canvas';
 import { 
   Save, Download, Link as LinkIcon, QrCode, Camera, Mail, Phone, 
@@ -39,6 +43,7 @@ interface DigitalCard {
   phone: string;
   website: string;
   address: string;
+  postalAddress?: PostalAddress | null;
   services: string;
   testimonials: string;
   isPublic: boolean;
@@ -139,7 +144,8 @@ const COLOR_SCHEMES = [
 export default function AdvancedDigitalCard() {
   const { user } = useAuth();
   const { toast } = useToast();
-  const { usage, limits, canAddDigitalCard, refreshUsage } = useUsageLimits();
+  const { usage, limits, canAddDigitalCard, refreshUsage, createDocuments } = useUsageLimits();
+  const { defaultCountry } = useDefaultCountry();
   const [location, navigate] = useLocation();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -284,16 +290,7 @@ export default function AdvancedDigitalCard() {
 
   const generateQRCode = async () => {
     try {
-      const vCardData = buildVCard({
-        firstName: digitalCard.firstName,
-        lastName: digitalCard.lastName,
-        title: digitalCard.title,
-        company: digitalCard.company,
-        email: digitalCard.email,
-        phone: digitalCard.phone,
-        website: digitalCard.website,
-        address: digitalCard.address,
-      });
+      const vCardData = serializeVCard(profileToVCard(digitalCard));
       
       const logoUrl = digitalCard.qrLogoEnabled && digitalCard.companyLogoUrl ? digitalCard.companyLogoUrl : undefined;
       const qrUrl = await generateQrFromText(vCardData, logoUrl);
@@ -414,6 +411,9 @@ export default function AdvancedDigitalCard() {
   };
 
   const handleSaveProfile = async () => {
+    // Addresses are read in the default country
+    if (!defaultCountry) return;
+
     // Check usage limits for new digital cards
     if (!digitalCard.id && !canAddDigitalCard) {
       setShowLimitModal(true);
@@ -423,17 +423,24 @@ export default function AdvancedDigitalCard() {
     setSaving(true);
     
     try {
-      const cardData = {
+      const { updatedAt, ...cardFields } = {
         ...digitalCard,
-        ownerId: user!.uid,
-        updatedAt: serverTimestamp(),
+        ...toAddressFields(digitalCard.address, defaultCountry),
       };
 
       if (digitalCard.id) {
-        await updateDoc(doc(db, "digitalCards", digitalCard.id), cardData);
+        await updateDoc(doc(db, "digitalCards", digitalCard.id), {
+          ...cardFields,
+          ownerId: user!.uid,
+          updatedAt: serverTimestamp(),
+        });
       } else {
-        const docRef = await addDoc(collection(db, "digitalCards"), cardData);
-        setDigitalCard(prev => ({ ...prev, id: docRef.id }));
+        const ids = await createDocuments('digitalCards', [cardFields]);
+        if (!ids) {
+          setShowLimitModal(true);
+          return;
+        }
+        setDigitalCard(prev => ({ ...prev, id: ids[0] }));
         
         // Refresh usage after creating new digital card
         await refreshUsage();
@@ -482,27 +489,8 @@ export default function AdvancedDigitalCard() {
     }
   };
 
-  const handleDownloadVCard = () => {
-    const vCardData = buildVCard({
-      firstName: digitalCard.firstName,
-      lastName: digitalCard.lastName,
-      title: digitalCard.title,
-      company: digitalCard.company,
-      email: digitalCard.email,
-      phone: digitalCard.phone,
-      website: digitalCard.website,
-      address: digitalCard.address,
-    });
-
-    const blob = new Blob([vCardData], { type: 'text/vcard' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${digitalCard.firstName}_${digitalCard.lastName}.vcf`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleDownloadVCard = async () => {
+    downloadVCard(await profileToVCardWithMedia(digitalCard), `${digitalCard.firstName}_${digitalCard.lastName}.vcf`);
 
     toast({
       title: "Success",
@@ -1465,7 +1453,7 @@ export default function AdvancedDigitalCard() {
                       <Textarea
                         id="address"
                         value={digitalCard.address}
-                        onChange={(e) => handleFieldChange('address', e.target.value)}
+                        onChange={(e) => setDigitalCard(prev => ({ ...prev, address: e.target.value, postalAddress: null }))}
                         rows={3}
                         className="border-gray-300 focus:border-purple-500 focus:ring-purple-500"
                         placeholder="Your business address..."
@@ -1536,11 +1524,13 @@ export default function AdvancedDigitalCard() {
 
                   {/* Action Buttons */}
                   <div className="mt-8 space-y-4">
+                    <DefaultCountryPrompt />
+
                     {/* Primary Actions */}
                     <div className="flex flex-col sm:flex-row gap-3">
                       <Button 
                         onClick={handleSaveProfile} 
-                        disabled={saving}
+                        disabled={saving || !defaultCountry}
                         className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white flex-1"
                       >
                         <Save className="h-4 w-4 mr-2" />
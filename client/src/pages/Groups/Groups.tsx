@@ -1,6 +1,6 @@
 import { useEffect, useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { collection, query, where, getDocs, addDoc, deleteDoc, doc, serverTimestamp, updateDoc } from "firebase/firestore";
+import { collection, query, where, getDocs, deleteDoc, doc, updateDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -9,7 +9,13 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Users, Trash2, Tag, X, Download, FileSpreadsheet } from "lucide-react";
+import { useUsageLimits } from "@/hooks/useUsageLimits";
+import UsageLimitModal from "@/components/UsageLimitModal";
+import CampaignDialog from "@/components/CampaignDialog";
+import { logContactEvent } from "@/utils/contactActivity";
+import type { PostalAddress } from "@shared/address";
+import type { PhoneNumber } from "@shared/phone";
+import { Plus, Users, Trash2, Tag, X, Download, FileSpreadsheet, Send } from "lucide-react";
 import * as XLSX from 'xlsx';
 
 interface Group {
@@ -27,9 +33,12 @@ interface Contact {
   lastName: string;
   email?: string;
   phone?: string;
+  phones?: string[];
+  phoneDetails?: PhoneNumber[];
   company?: string;
   position?: string;
   address?: string;
+  postalAddress?: PostalAddress | null;
   city?: string;
   state?: string;
   zipCode?: string;
@@ -49,11 +58,14 @@ interface Contact {
 export default function Groups() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { usage, limits, createDocuments, releaseQuota } = useUsageLimits();
+  const [showLimitModal, setShowLimitModal] = useState(false);
   const [groups, setGroups] = useState<Group[]>([]);
   const [showAddModal, setShowAddModal] = useState(false);
   const [showTagsModal, setShowTagsModal] = useState(false);
   const [showContactsModal, setShowContactsModal] = useState(false);
   const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
+  const [campaignGroup, setCampaignGroup] = useState<Group | null>(null);
   const [groupContacts, setGroupContacts] = useState<Contact[]>([]);
   const [allContacts, setAllContacts] = useState<Contact[]>([]);
   const [loading, setLoading] = useState(true);
@@ -229,11 +241,11 @@ export default function Groups() {
           'Phone': contact.phone || '',
           'Company': contact.company || '',
           'Position': contact.position || '',
-          'Address': contact.address || '',
-          'City': contact.city || '',
-          'State': contact.state || '',
-          'Zip Code': contact.zipCode || '',
-          'Country': contact.country || '',
+          'Address': (contact.postalAddress ? contact.postalAddress.street : contact.address) || '',
+          'City': contact.postalAddress?.locality || contact.city || '',
+          'State': contact.postalAddress?.region || contact.state || '',
+          'Zip Code': contact.postalAddress?.postalCode || contact.zipCode || '',
+          'Country': contact.postalAddress?.country || contact.country || '',
           'Notes': contact.notes || '',
           'Contact Tags': contact.tags?.join(', ') || '',
           'Created Date': contact.createdAt ? new Date(contact.createdAt).toLocaleDateString() : '',
@@ -409,10 +421,10 @@ export default function Groups() {
             'Phone': contact.phone || '',
             'Company': contact.company || '',
             'Position': contact.position || '',
-            'Address': contact.address || '',
-            'City': contact.city || '',
-            'State': contact.state || '',
-            'Country': contact.country || '',
+            'Address': (contact.postalAddress ? contact.postalAddress.street : contact.address) || '',
+            'City': contact.postalAddress?.locality || contact.city || '',
+            'State': contact.postalAddress?.region || contact.state || '',
+            'Country': contact.postalAddress?.country || contact.country || '',
             'Notes': contact.notes || '',
           }));
 
@@ -452,6 +464,26 @@ export default function Groups() {
     }
   };
 
+  const contactsInGroup = (groupId: string) =>
+    allContacts.filter(contact => {
+      const possibleGroupFields = [
+        contact.groupIds,
+        contact.groupId,
+        contact.groups,
+        contact.group,
+        contact.categoryId,
+        contact.categories
+      ];
+
+      return possibleGroupFields.some(field =>
+        Array.isArray(field)
+          ? field.includes(groupId) || field.some(g => g?.id === groupId)
+          : field === groupId
+      );
+    });
+
+  const groupNameFor = (groupId: string) => groups.find(g => g.id === groupId)?.name || 'a group';
+
   const removeContactFromGroup = async (contactId: string, groupId: string) => {
     try {
       const contact = allContacts.find(c => c.id === contactId);
@@ -476,6 +508,7 @@ export default function Groups() {
       }
 
       await updateDoc(doc(db, "contacts", contactId), updates);
+      await logContactEvent(user!.uid, contactId, 'group_removed', `Removed from ${groupNameFor(groupId)}`, { groupId });
 
       toast({
         title: "Success",
@@ -509,6 +542,9 @@ export default function Groups() {
       }
 
       await updateDoc(doc(db, "contacts", contactId), updates);
+      if (updates.groupIds) {
+        await logContactEvent(user!.uid, contactId, 'group_added', `Added to ${groupNameFor(groupId)}`, { groupId });
+      }
 
       toast({
         title: "Success",
@@ -538,12 +574,11 @@ export default function Groups() {
     e.preventDefault();
     
     try {
-      await addDoc(collection(db, "groups"), {
-        name: groupName,
-        ownerId: user!.uid,
-        createdAt: serverTimestamp(),
-        tags: [],
-      });
+      if (!(await createDocuments('groups', [{ name: groupName, tags: [] }]))) {
+        setShowAddModal(false);
+        setShowLimitModal(true);
+        return;
+      }
 
       toast({
         title: "Success",
@@ -679,13 +714,16 @@ export default function Groups() {
             updates.group = null;
           }
           
-          return updateDoc(doc(db, "contacts", contactDoc.id), updates);
+          return updateDoc(doc(db, "contacts", contactDoc.id), updates).then(() =>
+            logContactEvent(user!.uid, contactDoc.id, 'group_removed', `Removed from ${groupNameFor(groupId)} when the group was deleted`, { groupId })
+          );
         });
 
       await Promise.all(updatePromises);
 
       // Delete the group
       await deleteDoc(doc(db, "groups", groupId));
+      await releaseQuota('groups');
 
       toast({
         title: "Success",
@@ -859,6 +897,16 @@ export default function Groups() {
                       <Tag className="h-4 w-4 mr-1" />
                       Tags
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCampaignGroup(group)}
+                      disabled={!group.contactCount}
+                      className="text-green-600 hover:text-green-700"
+                      title="Send a template to this group on WhatsApp"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
                   </div>
                 </div>
               </CardContent>
@@ -1039,6 +1087,21 @@ export default function Groups() {
             </div>
           </div>
         )}
+
+        <CampaignDialog
+          isOpen={!!campaignGroup}
+          group={campaignGroup}
+          contacts={campaignGroup ? contactsInGroup(campaignGroup.id) : []}
+          onClose={() => setCampaignGroup(null)}
+        />
+
+        <UsageLimitModal
+          isOpen={showLimitModal}
+          onClose={() => setShowLimitModal(false)}
+          feature="group"
+          currentCount={usage.groupsCount}
+          limit={limits.groups}
+        />
       </div>
     </div>
   );
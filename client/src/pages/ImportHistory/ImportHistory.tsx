@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useUsageLimits } from "@/hooks/useUsageLimits";
+import { loadImportHistory, undoContactImport, type ContactImportRecord, type ImportStatus } from "@/utils/importHistory";
+import { ArrowLeft, FileSpreadsheet, FileText, Loader2, Undo2 } from "lucide-react";
+
+const statusLabels: Record<ImportStatus, string> = {
+  running: "Incomplete",
+  completed: "Completed",
+  rolled_back: "Rolled back",
+  undone: "Undone",
+};
+
+const statusColors: Record<ImportStatus, string> = {
+  running: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  completed: "bg-green-50 text-green-700 border-green-200",
+  rolled_back: "bg-red-50 text-red-700 border-red-200",
+  undone: "bg-gray-50 text-gray-700 border-gray-200",
+};
+
+export default function ImportHistory() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { releaseQuota } = useUsageLimits();
+  const [, setLocation] = useLocation();
+  const [imports, setImports] = useState<ContactImportRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+
+  const fetchImports = async () => {
+    if (!user) return;
+
+    try {
+      setImports(await loadImportHistory(user.uid));
+    } catch (error) {
+      console.error("Error fetching import history:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load import history",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchImports();
+  }, [user]);
+
+  const handleUndo = async (record: ContactImportRecord) => {
+    if (!window.confirm(`Delete the contacts imported from "${record.fileName}"? Contacts added since then by other means are kept.`)) {
+      return;
+    }
+
+    try {
+      setUndoingId(record.id);
+      const { deletedContacts, deletedGroups } = await undoContactImport(record);
+      if (deletedContacts > 0) await releaseQuota('contacts');
+      if (deletedGroups > 0) await releaseQuota('groups');
+      toast({
+        title: "Import Undone",
+        description: `Deleted ${deletedContacts} contacts imported from ${record.fileName}${deletedGroups > 0 ? ` and ${deletedGroups} groups it created` : ''}`,
+      });
+      await fetchImports();
+    } catch (error) {
+      console.error("Error undoing import:", error);
+      toast({
+        title: "Error",
+        description: "Failed to undo the import",
+        variant: "destructive",
+      });
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="py-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-48 mb-8"></div>
+            <div className="space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="bg-gray-200 h-24 rounded-lg"></div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        <div className="md:flex md:items-center md:justify-between">
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">Import History</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Every contact import, with the option to remove exactly the contacts it created
+            </p>
+          </div>
+          <div className="mt-4 flex md:mt-0 md:ml-4">
+            <Button variant="outline" onClick={() => setLocation("/contacts")}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Contacts
+            </Button>
+          </div>
+        </div>
+
+        {imports.length === 0 ? (
+          <div className="mt-6 text-center py-12 text-gray-500">
+            No imports yet. Import contacts from the Contacts page to see them here.
+          </div>
+        ) : (
+          <div className="mt-6 space-y-4">
+            {imports.map(record => {
+              const canUndo = record.status === 'completed' || record.status === 'running';
+              const Icon = record.source === 'vcf' ? FileText : FileSpreadsheet;
+
+              return (
+                <Card key={record.id}>
+                  <CardContent className="p-4">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                      <div className="flex items-start space-x-3 min-w-0">
+                        <Icon className="h-5 w-5 mt-0.5 text-gray-400 flex-shrink-0" />
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-medium text-gray-900 truncate">{record.fileName}</h3>
+                            <Badge variant="outline" className={statusColors[record.status]}>
+                              {statusLabels[record.status]}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-gray-500">
+                            {record.createdAt.toLocaleString()}
+                            {record.undoneAt && ` · undone ${record.undoneAt.toLocaleString()}`}
+                          </p>
+                          <p className="mt-1 text-sm text-gray-600">
+                            {record.imported} imported · {record.duplicates} duplicates · {record.invalid} invalid
+                            {record.skipped > 0 && ` · ${record.skipped} over the contact limit`}
+                            {' '}· {record.total} rows
+                          </p>
+                          {record.error && (
+                            <p className="mt-1 text-xs text-red-600">{record.error}</p>
+                          )}
+                        </div>
+                      </div>
+
+                      {canUndo && (
+                        <Button
+                          variant="outline"
+                          onClick={() => handleUndo(record)}
+                          disabled={undoingId !== null}
+                          className="text-red-600 border-red-200 hover:bg-red-50"
+                        >
+                          {undoingId === record.id ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <Undo2 className="h-4 w-4 mr-2" />
+                          )}
+                          Undo Import
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
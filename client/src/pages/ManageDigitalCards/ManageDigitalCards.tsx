@@ -7,8 +7,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useUsageLimits } from "@/hooks/useUsageLimits";
 import { useLocation } from "wouter";
-import { buildVCard } from "@/utils/vcard";
+import { serializeVCard } from "@shared/vcard";
+import { downloadVCard, profileToVCard, profileToVCardWithMedia } from "@/utils/vcard";
 import { generateQrFromText } from "@/utils/qr";
 import { 
   CreditCard, Search, Edit, Download, Share2, Trash2, 
@@ -44,6 +46,7 @@ interface DigitalCard {
 export default function ManageDigitalCards() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { releaseQuota } = useUsageLimits();
   const [, setLocation] = useLocation();
   
   const [digitalCards, setDigitalCards] = useState<DigitalCard[]>([]);
@@ -120,6 +123,7 @@ export default function ManageDigitalCards() {
 
     try {
       await deleteDoc(doc(db, "digitalCards", cardId));
+      await releaseQuota('digitalCards');
       toast({
         title: "Success",
         description: "Digital card deleted successfully",
@@ -148,28 +152,10 @@ export default function ManageDigitalCards() {
     try {
       setDownloadingCards(prev => new Set(prev).add(card.id));
       
-      // Generate vCard content
-      const vCardContent = buildVCard({
-        firstName: card.firstName,
-        lastName: card.lastName,
-        title: card.title,
-        company: card.company,
-        email: card.email,
-        phone: card.phone,
-        website: card.website,
-        address: card.address
-      });
-      
-      // Create blob and download
-      const blob = new Blob([vCardContent], { type: 'text/vcard;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `${card.firstName || 'Contact'}_${card.lastName || 'Card'}.vcf`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      downloadVCard(
+        await profileToVCardWithMedia(card),
+        `${card.firstName || 'Contact'}_${card.lastName || 'Card'}.vcf`
+      );
       
       toast({
         title: "Download Complete",
@@ -196,16 +182,7 @@ export default function ManageDigitalCards() {
       setDownloadingCards(prev => new Set(prev).add(card.id));
       
       // Generate vCard content for QR code
-      const vCardContent = buildVCard({
-        firstName: card.firstName,
-        lastName: card.lastName,
-        title: card.title,
-        company: card.company,
-        email: card.email,
-        phone: card.phone,
-        website: card.website,
-        address: card.address
-      });
+      const vCardContent = serializeVCard(profileToVCard(card));
       
       // Generate QR code with company logo if available
       const qrDataUrl = await generateQrFromText(vCardContent, card.companyLogoUrl);
@@ -2,7 +2,8 @@ import { useEffect, useState } from "react";
 import { useRoute } from "wouter";
 import { collection, query, where, getDocs } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { buildVCard } from "@/utils/vcard";
+import { downloadVCard, profileToVCardWithMedia } from "@/utils/vcard";
+import { formatAddress, mapsUrl, type PostalAddress } from "@shared/address";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -19,6 +20,7 @@ interface PublicDigitalCard {
   phone: string;
   website: string;
   address: string;
+  postalAddress?: PostalAddress | null;
   services: string;
   isPublic: boolean;
 }
@@ -57,29 +59,10 @@ export default function PublicShare() {
     }
   };
 
-  const handleDownloadVCard = () => {
+  const handleDownloadVCard = async () => {
     if (!card) return;
 
-    const vCardData = buildVCard({
-      firstName: card.firstName,
-      lastName: card.lastName,
-      title: card.title,
-      company: card.company,
-      email: card.email,
-      phone: card.phone,
-      website: card.website,
-      address: card.address,
-    });
-
-    const blob = new Blob([vCardData], { type: 'text/vcard' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${card.firstName}_${card.lastName}.vcf`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadVCard(await profileToVCardWithMedia(card), `${card.firstName}_${card.lastName}.vcf`);
   };
 
   if (loading) {
@@ -193,7 +176,17 @@ export default function PublicShare() {
                     <MapPin className="h-5 w-5 text-primary" />
                   </div>
                   <div className="flex-1">
-                    <p className="text-gray-900 whitespace-pre-line">{card.address}</p>
+                    <p className="text-gray-900 whitespace-pre-line">
+                      {card.postalAddress ? formatAddress(card.postalAddress, '\n') : card.address}
+                    </p>
+                    <a
+                      href={mapsUrl(card.postalAddress || card.address)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-primary hover:underline"
+                    >
+                      Open in Maps
+                    </a>
                   </div>
                 </div>
               )}
@@ -8,12 +8,24 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Save, Send, AlertTriangle } from "lucide-react";
+import { settingsQueryKey } from "@/hooks/useDefaultCountry";
+import { queryClient } from "@/lib/queryClient";
+import {
+  fetchWhatsAppAccount,
+  removeWhatsAppCredentials,
+  saveWhatsAppCredentials,
+  sendTestTemplate,
+} from "@/utils/whatsappApi";
+import { PHONE_COUNTRIES, toWhatsAppNumber } from "@shared/phone";
+import type { WhatsAppAccountStatus } from "@shared/schema";
+import { Save, Send, CheckCircle, ShieldCheck, Trash2, Loader2 } from "lucide-react";
 
 interface Settings {
   displayName: string;
   businessName: string;
   defaultWhatsAppNumber: string;
+  // ISO code of the country phone numbers without a country code belong to
+  defaultCountry: string;
   timezone: string;
   language: string;
   updatedAt: Date;
@@ -28,6 +40,7 @@ export default function Settings() {
     displayName: "",
     businessName: "",
     defaultWhatsAppNumber: "",
+    defaultCountry: "",
     timezone: "PST",
     language: "English",
     updatedAt: new Date(),
@@ -35,11 +48,24 @@ export default function Settings() {
   const [apiCredentials, setApiCredentials] = useState({
     whatsappToken: "",
     phoneNumberId: "",
+    appSecret: "",
   });
+  const [whatsappAccount, setWhatsappAccount] = useState<WhatsAppAccountStatus | null>(null);
+  const [savingCredentials, setSavingCredentials] = useState(false);
+  const [testTemplate, setTestTemplate] = useState({ name: "hello_world", languageCode: "en_US" });
+  const [testing, setTesting] = useState(false);
+  // Last test send: the API's response, or its error
+  const [testResult, setTestResult] = useState<{ ok: boolean; summary: string; body: unknown } | null>(null);
 
   useEffect(() => {
     if (!user) return;
     fetchSettings();
+    fetchWhatsAppAccount(user.uid)
+      .then(account => {
+        setWhatsappAccount(account);
+        setApiCredentials(prev => ({ ...prev, phoneNumberId: account.phoneNumberId || "" }));
+      })
+      .catch(error => console.error("Error fetching WhatsApp credentials:", error));
   }, [user]);
 
   const fetchSettings = async () => {
@@ -50,6 +76,7 @@ export default function Settings() {
         const settingsData = settingsDoc.data();
         setSettings({
           ...settingsData,
+          defaultCountry: settingsData.defaultCountry || "",
           updatedAt: settingsData.updatedAt?.toDate() || new Date(),
         } as Settings);
       } else {
@@ -80,6 +107,7 @@ export default function Settings() {
         ownerId: user!.uid,
         updatedAt: serverTimestamp(),
       });
+      queryClient.invalidateQueries({ queryKey: settingsQueryKey(user!.uid) });
 
       toast({
         title: "Success",
@@ -97,12 +125,85 @@ export default function Settings() {
     }
   };
 
-  const handleTestTemplate = () => {
-    // Placeholder function - in real implementation, this would test WhatsApp Business API
-    toast({
-      title: "Test Template",
-      description: "WhatsApp template test sent (placeholder functionality)",
-    });
+  const handleSaveCredentials = async () => {
+    setSavingCredentials(true);
+
+    try {
+      const account = await saveWhatsAppCredentials(user!.uid, {
+        token: apiCredentials.whatsappToken,
+        phoneNumberId: apiCredentials.phoneNumberId,
+        appSecret: apiCredentials.appSecret || undefined,
+      });
+      setWhatsappAccount(account);
+      setApiCredentials({ whatsappToken: "", phoneNumberId: account.phoneNumberId || "", appSecret: "" });
+
+      toast({
+        title: "Success",
+        description: `Connected to ${account.verifiedName || account.displayPhoneNumber || "WhatsApp Business"}`,
+      });
+    } catch (error: any) {
+      console.error("Error saving WhatsApp credentials:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save WhatsApp credentials",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingCredentials(false);
+    }
+  };
+
+  const handleRemoveCredentials = async () => {
+    if (!window.confirm("Remove your WhatsApp Business API credentials?")) return;
+
+    try {
+      await removeWhatsAppCredentials(user!.uid);
+      setWhatsappAccount(prev => prev && { ...prev, configured: false, tokenHint: null, hasAppSecret: false, validatedAt: null });
+      setTestResult(null);
+      toast({
+        title: "Success",
+        description: "WhatsApp credentials removed",
+      });
+    } catch (error: any) {
+      console.error("Error removing WhatsApp credentials:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove WhatsApp credentials",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTestTemplate = async () => {
+    const to = toWhatsAppNumber(settings.defaultWhatsAppNumber, settings.defaultCountry);
+    if (!to) {
+      toast({
+        title: "Error",
+        description: "Enter a valid Default WhatsApp Number above to send the test to",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setTesting(true);
+    setTestResult(null);
+    try {
+      const result = await sendTestTemplate(user!.uid, {
+        to,
+        templateName: testTemplate.name,
+        languageCode: testTemplate.languageCode,
+      });
+      setTestResult({ ok: true, summary: `Accepted by WhatsApp for +${to}`, body: result.response });
+    } catch (error: any) {
+      console.error("Error sending test template:", error);
+      setTestResult({
+        ok: false,
+        summary: error.message || "Failed to send test template",
+        body: { error: error.message, code: error.code ?? null, status: error.status ?? null },
+      });
+    } finally {
+      setTesting(false);
+    }
   };
 
   const handleFieldChange = (field: keyof Settings, value: string) => {
@@ -152,6 +253,7 @@ export default function Settings() {
                     onChange={(e) => handleFieldChange('displayName', e.target.value)}
                     className="mt-1"
                   />
+                  <p className="mt-1 text-sm text-gray-500">Used as {"{displayName}"} in message templates</p>
                 </div>
 
                 <div>
@@ -162,6 +264,7 @@ export default function Settings() {
                     onChange={(e) => handleFieldChange('businessName', e.target.value)}
                     className="mt-1"
                   />
+                  <p className="mt-1 text-sm text-gray-500">Used as {"{businessName}"} in message templates</p>
                 </div>
 
                 <div>
@@ -173,7 +276,7 @@ export default function Settings() {
                     onChange={(e) => handleFieldChange('defaultWhatsAppNumber', e.target.value)}
                     className="mt-1"
                   />
-                  <p className="mt-1 text-sm text-gray-500">Used for "Send Profile" feature</p>
+                  <p className="mt-1 text-sm text-gray-500">Used for "Send Profile" feature and test messages</p>
                 </div>
 
                 <div>
@@ -191,7 +294,24 @@ export default function Settings() {
                   </Select>
                 </div>
 
-                <div className="sm:col-span-2">
+                <div>
+                  <Label htmlFor="defaultCountry">Default Country</Label>
+                  <Select value={settings.defaultCountry} onValueChange={(value) => handleFieldChange('defaultCountry', value)}>
+                    <SelectTrigger id="defaultCountry" className="mt-1">
+                      <SelectValue placeholder="Select a country" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PHONE_COUNTRIES.map(country => (
+                        <SelectItem key={country.code} value={country.code}>
+                          {country.name} (+{country.callingCode})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="mt-1 text-sm text-gray-500">Used for phone numbers entered without a country code</p>
+                </div>
+
+                <div>
                   <Label htmlFor="language">Language</Label>
                   <Select value={settings.language} onValueChange={(value) => handleFieldChange('language', value)}>
                     <SelectTrigger className="mt-1">
@@ -214,19 +334,55 @@ export default function Settings() {
             <CardContent className="p-6">
               <h3 className="text-lg leading-6 font-medium text-gray-900 mb-6">WhatsApp Business Integration</h3>
               
-              <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 mb-6">
-                <div className="flex">
-                  <div className="flex-shrink-0">
-                    <AlertTriangle className="h-5 w-5 text-yellow-400" />
+              {whatsappAccount?.configured ? (
+                <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-6">
+                  <div className="flex items-start justify-between">
+                    <div className="flex">
+                      <div className="flex-shrink-0">
+                        <CheckCircle className="h-5 w-5 text-green-500" />
+                      </div>
+                      <div className="ml-3">
+                        <h3 className="text-sm font-medium text-green-800">
+                          Connected{whatsappAccount.verifiedName && ` as ${whatsappAccount.verifiedName}`}
+                        </h3>
+                        <div className="mt-1 text-sm text-green-700">
+                          <p>
+                            {whatsappAccount.displayPhoneNumber || `Phone number ID ${whatsappAccount.phoneNumberId}`}
+                            {' '}· token ending {whatsappAccount.tokenHint}
+                            {whatsappAccount.hasAppSecret && ' · own app secret'}
+                          </p>
+                          {whatsappAccount.validatedAt && (
+                            <p>Verified {new Date(whatsappAccount.validatedAt).toLocaleString()}</p>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleRemoveCredentials}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      title="Remove credentials"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
                   </div>
-                  <div className="ml-3">
-                    <h3 className="text-sm font-medium text-yellow-800">API Credentials</h3>
-                    <div className="mt-2 text-sm text-yellow-700">
-                      <p>These fields are for UI validation only. Never store API credentials in the database.</p>
+                </div>
+              ) : (
+                <div className="bg-blue-50 border border-blue-200 rounded-md p-4 mb-6">
+                  <div className="flex">
+                    <div className="flex-shrink-0">
+                      <ShieldCheck className="h-5 w-5 text-blue-400" />
+                    </div>
+                    <div className="ml-3">
+                      <h3 className="text-sm font-medium text-blue-800">API Credentials</h3>
+                      <div className="mt-2 text-sm text-blue-700">
+                        <p>Credentials are checked with WhatsApp, then stored encrypted on our server. The token is never shown again.</p>
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
+              )}
 
               <div className="grid grid-cols-1 gap-6">
                 <div>
@@ -236,8 +392,9 @@ export default function Settings() {
                     type="password"
                     value={apiCredentials.whatsappToken}
                     onChange={(e) => setApiCredentials(prev => ({ ...prev, whatsappToken: e.target.value }))}
-                    placeholder="Enter your API token"
+                    placeholder={whatsappAccount?.configured ? "Enter a new token to replace the saved one" : "Enter your API token"}
                     className="mt-1"
+                    autoComplete="off"
                   />
                   <p className="mt-1 text-sm text-gray-500">Required for sending messages via WhatsApp Business API</p>
                 </div>
@@ -254,11 +411,75 @@ export default function Settings() {
                 </div>
 
                 <div>
-                  <Button variant="outline" onClick={handleTestTemplate}>
-                    <Send className="h-4 w-4 mr-2" />
+                  <Label htmlFor="appSecret">App Secret (optional)</Label>
+                  <Input
+                    id="appSecret"
+                    type="password"
+                    value={apiCredentials.appSecret}
+                    onChange={(e) => setApiCredentials(prev => ({ ...prev, appSecret: e.target.value }))}
+                    placeholder={whatsappAccount?.hasAppSecret ? "Leave blank to keep the saved secret" : "Enter your Meta app's secret"}
+                    className="mt-1"
+                    autoComplete="off"
+                  />
+                  <p className="mt-1 text-sm text-gray-500">
+                    Needed for delivery reports when your number belongs to your own Meta app. Found under App settings &gt; Basic.
+                  </p>
+                </div>
+
+                <div>
+                  <Button
+                    variant="outline"
+                    onClick={handleSaveCredentials}
+                    disabled={savingCredentials || !apiCredentials.whatsappToken.trim() || !apiCredentials.phoneNumberId.trim()}
+                  >
+                    {savingCredentials ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+                    {savingCredentials ? "Verifying..." : "Verify & Save Credentials"}
+                  </Button>
+                </div>
+
+                <div className="border-t pt-6 grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="testTemplateName">Test Template</Label>
+                    <Input
+                      id="testTemplateName"
+                      value={testTemplate.name}
+                      onChange={(e) => setTestTemplate(prev => ({ ...prev, name: e.target.value }))}
+                      className="mt-1"
+                    />
+                    <p className="mt-1 text-sm text-gray-500">An approved template from WhatsApp Manager</p>
+                  </div>
+                  <div>
+                    <Label htmlFor="testTemplateLanguage">Template Language</Label>
+                    <Input
+                      id="testTemplateLanguage"
+                      value={testTemplate.languageCode}
+                      onChange={(e) => setTestTemplate(prev => ({ ...prev, languageCode: e.target.value }))}
+                      className="mt-1"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <Button variant="outline" onClick={handleTestTemplate} disabled={testing || !whatsappAccount?.configured}>
+                    {testing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
                     Send Test Template
                   </Button>
-                  <p className="mt-1 text-sm text-gray-500">Test your WhatsApp Business API configuration</p>
+                  <p className="mt-1 text-sm text-gray-500">
+                    {whatsappAccount?.configured
+                      ? `Sends the template to your Default WhatsApp Number${settings.defaultWhatsAppNumber ? ` (${settings.defaultWhatsAppNumber})` : ""}`
+                      : "Save your credentials to send a test"}
+                  </p>
+
+                  {testResult && (
+                    <div className={`mt-3 p-3 rounded-md border ${testResult.ok ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"}`}>
+                      <p className={`text-sm font-medium ${testResult.ok ? "text-green-800" : "text-red-800"}`}>
+                        {testResult.summary}
+                      </p>
+                      <pre className="mt-2 text-xs text-gray-700 whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+                        {JSON.stringify(testResult.body, null, 2)}
+                      </pre>
+                    </div>
+                  )}
                 </div>
               </div>
             </CardContent>
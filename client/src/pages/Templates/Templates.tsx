@@ -1,33 +1,121 @@
 import { useEffect, useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { collection, query, where, getDocs, addDoc, deleteDoc, doc, serverTimestamp } from "firebase/firestore";
+import { collection, query, where, getDocs, addDoc, deleteDoc, doc, serverTimestamp, updateDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, FileText, Trash2, MessageSquare } from "lucide-react";
+import { useTemplateSender } from "@/hooks/useTemplateSender";
+import TemplateEditor from "@/components/TemplateEditor";
+import { changedFields } from "@/utils/contactActivity";
+import {
+  STARTER_TEMPLATES,
+  TEMPLATE_CATEGORY_LABELS,
+  copyTemplate,
+  deleteTemplateVersions,
+  loadSharedTemplates,
+  loadTemplateVersions,
+  parseEmails,
+  parseTags,
+  saveTemplateVersion,
+  type StarterTemplate,
+  type TemplateFields,
+  type TemplateVersion,
+} from "@/utils/templateLibrary";
+import { renderEmailTemplate, sampleTemplateValues, validateTemplate } from "@shared/templates";
+import { Plus, FileText, Trash2, MessageSquare, Edit, Mail, History, Share2, BookOpen, Copy, Check, Loader2, X } from "lucide-react";
 
 interface Template {
   id: string;
   name: string;
   content: string;
+  // Email only: subject line and optional formatted body; `content` is the plain text
+  subject?: string;
+  htmlContent?: string;
+  // WhatsApp campaigns only: approved message template and its parameters
+  whatsappTemplate?: string;
+  whatsappLanguage?: string;
+  whatsappParams?: string[];
+  category?: string;
+  tags?: string[];
+  // Starts at 1 and goes up with every saved edit
+  version?: number;
+  // Messages sent from the template
+  usageCount?: number;
+  // Teammates' email addresses, and who shared it
+  sharedWith?: string[];
+  sharedBy?: string;
+  // Set on templates imported from the starter library
+  starterId?: string;
   createdAt: Date;
   ownerId: string;
 }
 
+// WhatsApp parameters are edited one per line
+const emptyForm = {
+  name: "",
+  content: "",
+  subject: "",
+  htmlContent: "",
+  whatsappTemplate: "",
+  whatsappLanguage: "",
+  whatsappParams: "",
+  category: "",
+  tags: "",
+};
+
+const EDITABLE_FIELDS: Array<keyof TemplateFields> = [
+  "name",
+  "content",
+  "subject",
+  "htmlContent",
+  "whatsappTemplate",
+  "whatsappLanguage",
+  "whatsappParams",
+  "category",
+  "tags",
+];
+
+// Names WhatsApp accepts for message templates
+const WHATSAPP_TEMPLATE_PATTERN = /^[a-z0-9_]+$/;
+
+const parseParams = (value: string) => value.split("\n").map(param => param.trim()).filter(Boolean);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 export default function Templates() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [templates, setTemplates] = useState<Template[]>([]);
+  const [sharedTemplates, setSharedTemplates] = useState<Template[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<Template | null>(null);
   const [loading, setLoading] = useState(true);
-  const [formData, setFormData] = useState({
-    name: "",
-    content: "",
+  const [formData, setFormData] = useState(emptyForm);
+  const [historyTemplate, setHistoryTemplate] = useState<Template | null>(null);
+  const [versions, setVersions] = useState<TemplateVersion[] | null>(null);
+  const [sharingTemplate, setSharingTemplate] = useState<Template | null>(null);
+  const [shareEmails, setShareEmails] = useState("");
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [importing, setImporting] = useState<string | null>(null);
+  const templateSender = useTemplateSender();
+  const subjectIssues = validateTemplate(formData.subject);
+  const htmlIssues = validateTemplate(formData.htmlContent);
+  const whatsappParamIssues = validateTemplate(formData.whatsappParams);
+  const whatsappNameInvalid = !!formData.whatsappTemplate.trim() && !WHATSAPP_TEMPLATE_PATTERN.test(formData.whatsappTemplate.trim());
+  const hasIssues = whatsappNameInvalid ||
+    [formData.content, formData.subject, formData.htmlContent, formData.whatsappParams].some(part => validateTemplate(part).length > 0);
+  const emailPreview = renderEmailTemplate(formData, {
+    ...sampleTemplateValues(),
+    ...Object.fromEntries(Object.entries(templateSender).filter(([, v]) => v)),
   });
 
   useEffect(() => {
@@ -47,6 +135,14 @@ export default function Templates() {
       })) as Template[];
 
       setTemplates(templatesData);
+
+      // Shared templates are only readable once the email address is verified
+      if (user!.email && user!.emailVerified) {
+        // Sharing is optional; a failure here shouldn't hide the user's own templates
+        loadSharedTemplates<Template>(user!.email)
+          .then(shared => setSharedTemplates(shared.filter(t => t.ownerId !== user!.uid)))
+          .catch(error => console.error("Error fetching shared templates:", error));
+      }
     } catch (error) {
       console.error("Error fetching templates:", error);
       toast({
@@ -59,29 +155,82 @@ export default function Templates() {
     }
   };
 
+  const openEditor = (template: Template | null) => {
+    setEditingTemplate(template);
+    setFormData(template
+      ? {
+          name: template.name,
+          content: template.content,
+          subject: template.subject || "",
+          htmlContent: template.htmlContent || "",
+          whatsappTemplate: template.whatsappTemplate || "",
+          whatsappLanguage: template.whatsappLanguage || "",
+          whatsappParams: (template.whatsappParams || []).join("\n"),
+          category: template.category || "",
+          tags: (template.tags || []).join(", "),
+        }
+      : emptyForm);
+    setShowAddModal(true);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (hasIssues) return;
     
+    const fields: TemplateFields = {
+      ...formData,
+      whatsappTemplate: formData.whatsappTemplate.trim(),
+      whatsappLanguage: formData.whatsappLanguage.trim(),
+      whatsappParams: parseParams(formData.whatsappParams),
+      tags: parseTags(formData.tags),
+    };
+
     try {
-      await addDoc(collection(db, "templates"), {
-        ...formData,
-        ownerId: user!.uid,
-        createdAt: serverTimestamp(),
-      });
+      if (editingTemplate) {
+        const previous: TemplateFields = {
+          name: editingTemplate.name,
+          content: editingTemplate.content,
+          subject: editingTemplate.subject || "",
+          htmlContent: editingTemplate.htmlContent || "",
+          whatsappTemplate: editingTemplate.whatsappTemplate || "",
+          whatsappLanguage: editingTemplate.whatsappLanguage || "",
+          whatsappParams: editingTemplate.whatsappParams || [],
+          category: editingTemplate.category || "",
+          tags: editingTemplate.tags || [],
+        };
+        if (changedFields<TemplateFields>(previous, fields, EDITABLE_FIELDS).length > 0) {
+          const version = editingTemplate.version || 1;
+          await saveTemplateVersion(user!.uid, editingTemplate.id, version, previous);
+          await updateDoc(doc(db, "templates", editingTemplate.id), {
+            ...fields,
+            version: version + 1,
+            updatedAt: serverTimestamp(),
+          });
+        }
+      } else {
+        await addDoc(collection(db, "templates"), {
+          ...fields,
+          ownerId: user!.uid,
+          version: 1,
+          usageCount: 0,
+          createdAt: serverTimestamp(),
+        });
+      }
 
       toast({
         title: "Success",
-        description: "Template created successfully",
+        description: editingTemplate ? "Template updated successfully" : "Template created successfully",
       });
 
       setShowAddModal(false);
-      setFormData({ name: "", content: "" });
+      setEditingTemplate(null);
+      setFormData(emptyForm);
       fetchTemplates();
     } catch (error) {
-      console.error("Error creating template:", error);
+      console.error("Error saving template:", error);
       toast({
         title: "Error",
-        description: "Failed to create template",
+        description: editingTemplate ? "Failed to update template" : "Failed to create template",
         variant: "destructive",
       });
     }
@@ -90,6 +239,7 @@ export default function Templates() {
   const handleDeleteTemplate = async (templateId: string) => {
     try {
       await deleteDoc(doc(db, "templates", templateId));
+      await deleteTemplateVersions(user!.uid, templateId);
 
       toast({
         title: "Success",
@@ -107,6 +257,163 @@ export default function Templates() {
     }
   };
 
+  const openHistory = async (template: Template) => {
+    setHistoryTemplate(template);
+    setVersions(null);
+
+    try {
+      setVersions(await loadTemplateVersions(user!.uid, template.id));
+    } catch (error) {
+      console.error("Error fetching template history:", error);
+      setVersions([]);
+      toast({
+        title: "Error",
+        description: "Failed to load version history",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The current state becomes a version too, so a restore can be undone
+  const handleRestoreVersion = async (version: TemplateVersion) => {
+    if (!historyTemplate) return;
+    if (!window.confirm(`Restore version ${version.version} of "${historyTemplate.name}"?`)) return;
+
+    try {
+      const current = historyTemplate.version || 1;
+      await saveTemplateVersion(user!.uid, historyTemplate.id, current, historyTemplate);
+      await updateDoc(doc(db, "templates", historyTemplate.id), {
+        name: version.name,
+        content: version.content,
+        subject: version.subject || "",
+        htmlContent: version.htmlContent || "",
+        whatsappTemplate: version.whatsappTemplate || "",
+        whatsappLanguage: version.whatsappLanguage || "",
+        whatsappParams: version.whatsappParams || [],
+        category: version.category || "",
+        tags: version.tags || [],
+        version: current + 1,
+        updatedAt: serverTimestamp(),
+      });
+
+      toast({
+        title: "Success",
+        description: `Restored version ${version.version}`,
+      });
+
+      setHistoryTemplate(null);
+      fetchTemplates();
+    } catch (error) {
+      console.error("Error restoring template version:", error);
+      toast({
+        title: "Error",
+        description: "Failed to restore version",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openShare = (template: Template) => {
+    setSharingTemplate(template);
+    setShareEmails((template.sharedWith || []).join(", "));
+  };
+
+  const handleShare = async () => {
+    if (!sharingTemplate) return;
+
+    const emails = parseEmails(shareEmails).filter(email => email !== user!.email?.toLowerCase());
+    const invalid = emails.filter(email => !EMAIL_PATTERN.test(email));
+    if (invalid.length > 0) {
+      toast({
+        title: "Error",
+        description: `Not a valid email address: ${invalid.join(", ")}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await updateDoc(doc(db, "templates", sharingTemplate.id), {
+        sharedWith: emails,
+        sharedBy: user!.email || "",
+      });
+
+      toast({
+        title: "Success",
+        description: emails.length
+          ? `Shared with ${emails.length} teammate${emails.length !== 1 ? "s" : ""}`
+          : "Template is no longer shared",
+      });
+
+      setSharingTemplate(null);
+      fetchTemplates();
+    } catch (error) {
+      console.error("Error sharing template:", error);
+      toast({
+        title: "Error",
+        description: "Failed to share template",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCopyShared = async (template: Template) => {
+    try {
+      setImporting(template.id);
+      await copyTemplate(user!.uid, template);
+
+      toast({
+        title: "Success",
+        description: `"${template.name}" added to your templates`,
+      });
+
+      fetchTemplates();
+    } catch (error) {
+      console.error("Error copying template:", error);
+      toast({
+        title: "Error",
+        description: "Failed to copy template",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  const importedStarterIds = new Set(templates.map(t => t.starterId).filter(Boolean));
+
+  const handleImportStarters = async (starters: StarterTemplate[]) => {
+    const missing = starters.filter(starter => !importedStarterIds.has(starter.starterId));
+    if (missing.length === 0) return;
+
+    try {
+      setImporting(missing.length === 1 ? missing[0].starterId : "all");
+      await Promise.all(missing.map(({ starterId, ...starter }) => copyTemplate(user!.uid, starter, { starterId })));
+
+      toast({
+        title: "Success",
+        description: `Added ${missing.length} template${missing.length !== 1 ? "s" : ""} from the starter library`,
+      });
+
+      fetchTemplates();
+    } catch (error) {
+      console.error("Error importing starter templates:", error);
+      toast({
+        title: "Error",
+        description: "Failed to import templates",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  const usedCategories = Object.keys(TEMPLATE_CATEGORY_LABELS).filter(key => templates.some(t => t.category === key));
+  const visibleTemplates = templates.filter(t =>
+    (categoryFilter === "all" || t.category === categoryFilter) &&
+    (!tagFilter || t.tags?.includes(tagFilter))
+  );
+
   const handleUseTemplate = (template: Template) => {
     // Placeholder function - in real implementation, this would integrate with WhatsApp Business API
     toast({
@@ -139,17 +446,21 @@ export default function Templates() {
           <div className="flex-1 min-w-0">
             <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">Templates</h2>
           </div>
-          <div className="mt-4 flex md:mt-0 md:ml-4">
+          <div className="mt-4 flex space-x-3 md:mt-0 md:ml-4">
+            <Button variant="outline" onClick={() => setShowLibrary(true)}>
+              <BookOpen className="h-4 w-4 mr-2" />
+              Starter Library
+            </Button>
             <Dialog open={showAddModal} onOpenChange={setShowAddModal}>
               <DialogTrigger asChild>
-                <Button>
+                <Button onClick={() => openEditor(null)}>
                   <Plus className="h-4 w-4 mr-2" />
                   Create Template
                 </Button>
               </DialogTrigger>
-              <DialogContent>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
-                  <DialogTitle>Create New Template</DialogTitle>
+                  <DialogTitle>{editingTemplate ? "Edit Template" : "Create New Template"}</DialogTitle>
                 </DialogHeader>
                 <form onSubmit={handleSubmit} className="space-y-4">
                   <div>
@@ -162,22 +473,146 @@ export default function Templates() {
                       required
                     />
                   </div>
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                    <div>
+                      <Label>Category</Label>
+                      <Select
+                        value={formData.category || "none"}
+                        onValueChange={(value) => setFormData(prev => ({ ...prev, category: value === "none" ? "" : value }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No category</SelectItem>
+                          {Object.entries(TEMPLATE_CATEGORY_LABELS).map(([key, label]) => (
+                            <SelectItem key={key} value={key}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="tags">Tags</Label>
+                      <Input
+                        id="tags"
+                        value={formData.tags}
+                        onChange={(e) => setFormData(prev => ({ ...prev, tags: e.target.value }))}
+                        placeholder="e.g. event, sales"
+                      />
+                    </div>
+                  </div>
                   <div>
                     <Label htmlFor="content">Template Content</Label>
-                    <Textarea
+                    <TemplateEditor
                       id="content"
                       value={formData.content}
-                      onChange={(e) => setFormData(prev => ({ ...prev, content: e.target.value }))}
-                      placeholder="Enter your message template..."
-                      rows={6}
-                      required
+                      onChange={(content) => setFormData(prev => ({ ...prev, content }))}
+                      sender={templateSender}
                     />
                   </div>
+                  <div className="space-y-3 border-t pt-4">
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-900">Email (optional)</h4>
+                      <p className="text-xs text-gray-500">
+                        Add a subject to send this template by email. The content above is the plain text body; variables work here too.
+                      </p>
+                    </div>
+                    <div>
+                      <Label htmlFor="subject">Subject</Label>
+                      <Input
+                        id="subject"
+                        value={formData.subject}
+                        onChange={(e) => setFormData(prev => ({ ...prev, subject: e.target.value }))}
+                        placeholder="Great meeting you{#if company} at {company}{/if}"
+                      />
+                      {subjectIssues.map((issue, i) => (
+                        <p key={i} className="mt-1 text-xs text-red-700">{issue.message}</p>
+                      ))}
+                    </div>
+                    <div>
+                      <Label htmlFor="htmlContent">HTML Body</Label>
+                      <Textarea
+                        id="htmlContent"
+                        value={formData.htmlContent}
+                        onChange={(e) => setFormData(prev => ({ ...prev, htmlContent: e.target.value }))}
+                        placeholder="<p>Hi {firstName|there},</p>"
+                        rows={5}
+                        className="font-mono text-xs"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">Leave empty to send plain text only</p>
+                      {htmlIssues.map((issue, i) => (
+                        <p key={i} className="mt-1 text-xs text-red-700">{issue.message}</p>
+                      ))}
+                    </div>
+                    {formData.subject.trim() && (
+                      <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                        <Label className="text-sm font-medium text-blue-800">Email Preview</Label>
+                        <p className="mt-2 text-sm font-medium text-blue-900">{emailPreview.subject}</p>
+                        {emailPreview.html ? (
+                          <iframe
+                            title="Email preview"
+                            sandbox=""
+                            srcDoc={emailPreview.html}
+                            className="mt-2 w-full h-48 bg-white border rounded"
+                          />
+                        ) : (
+                          <p className="mt-2 text-sm text-blue-700 whitespace-pre-wrap">{emailPreview.text}</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  <div className="space-y-3 border-t pt-4">
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-900">WhatsApp campaigns (optional)</h4>
+                      <p className="text-xs text-gray-500">
+                        Campaigns send a message template approved in WhatsApp Manager, so they reach contacts who have not messaged you in the last 24 hours.
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                      <div>
+                        <Label htmlFor="whatsappTemplate">Approved Template Name</Label>
+                        <Input
+                          id="whatsappTemplate"
+                          value={formData.whatsappTemplate}
+                          onChange={(e) => setFormData(prev => ({ ...prev, whatsappTemplate: e.target.value }))}
+                          placeholder="e.g. intro_after_event"
+                        />
+                        {whatsappNameInvalid && (
+                          <p className="mt-1 text-xs text-red-700">Template names use lowercase letters, numbers and underscores</p>
+                        )}
+                      </div>
+                      <div>
+                        <Label htmlFor="whatsappLanguage">Language</Label>
+                        <Input
+                          id="whatsappLanguage"
+                          value={formData.whatsappLanguage}
+                          onChange={(e) => setFormData(prev => ({ ...prev, whatsappLanguage: e.target.value }))}
+                          placeholder="en_US"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <Label htmlFor="whatsappParams">Body Parameters</Label>
+                      <Textarea
+                        id="whatsappParams"
+                        value={formData.whatsappParams}
+                        onChange={(e) => setFormData(prev => ({ ...prev, whatsappParams: e.target.value }))}
+                        placeholder={"{firstName|there}\n{displayName}"}
+                        rows={3}
+                      />
+                      <p className="mt-1 text-xs text-gray-500">One per line, filling {"{{1}}"}, {"{{2}}"} and so on. Every parameter needs a value, so give variables a fallback.</p>
+                      {whatsappParamIssues.map((issue, i) => (
+                        <p key={i} className="mt-1 text-xs text-red-700">{issue.message}</p>
+                      ))}
+                    </div>
+                  </div>
                   <div className="flex justify-end space-x-4">
                     <Button type="button" variant="outline" onClick={() => setShowAddModal(false)}>
                       Cancel
                     </Button>
-                    <Button type="submit">Create Template</Button>
+                    <Button type="submit" disabled={hasIssues}>
+                      {editingTemplate ? "Save Template" : "Create Template"}
+                    </Button>
                   </div>
                 </form>
               </DialogContent>
@@ -187,8 +622,30 @@ export default function Templates() {
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+        {templates.length > 0 && (
+          <div className="mt-6 flex flex-wrap items-center gap-3">
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {usedCategories.map(key => (
+                  <SelectItem key={key} value={key}>{TEMPLATE_CATEGORY_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {tagFilter && (
+              <Badge variant="secondary" className="cursor-pointer" onClick={() => setTagFilter(null)}>
+                #{tagFilter}
+                <X className="h-3 w-3 ml-1" />
+              </Badge>
+            )}
+          </div>
+        )}
+
         <div className="mt-6 grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
-          {templates.map((template) => (
+          {visibleTemplates.map((template) => (
             <Card key={template.id} className="hover:shadow-md transition-shadow">
               <CardContent className="p-6">
                 <div className="flex items-start justify-between">
@@ -200,26 +657,85 @@ export default function Templates() {
                     </div>
                     <div className="ml-4 flex-1">
                       <h3 className="text-lg font-medium text-gray-900">{template.name}</h3>
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {template.category && (
+                          <Badge variant="outline" className="text-xs">
+                            {TEMPLATE_CATEGORY_LABELS[template.category] || template.category}
+                          </Badge>
+                        )}
+                        {template.subject && (
+                          <Badge variant="secondary" className="text-xs">
+                            <Mail className="h-3 w-3 mr-1" />
+                            Email
+                          </Badge>
+                        )}
+                        {template.sharedWith && template.sharedWith.length > 0 && (
+                          <Badge variant="secondary" className="text-xs" title={template.sharedWith.join(", ")}>
+                            <Share2 className="h-3 w-3 mr-1" />
+                            Shared with {template.sharedWith.length}
+                          </Badge>
+                        )}
+                      </div>
                       <p className="text-sm text-gray-500 mt-1 line-clamp-3">
                         {template.content}
                       </p>
+                      {template.tags && template.tags.length > 0 && (
+                        <div className="mt-2 flex flex-wrap gap-1">
+                          {template.tags.map(tag => (
+                            <button
+                              key={tag}
+                              type="button"
+                              onClick={() => setTagFilter(tag)}
+                              className="text-xs text-primary hover:underline"
+                            >
+                              #{tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleDeleteTemplate(template.id)}
-                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  <div className="flex">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openEditor(template)}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openHistory(template)}
+                      title="Version history"
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openShare(template)}
+                      title="Share with teammates"
+                    >
+                      <Share2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteTemplate(template.id)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
                 
                 <div className="mt-4 pt-4 border-t border-gray-200">
                   <div className="flex items-center justify-between">
-                    <p className="text-xs text-gray-500">
-                      Created {template.createdAt.toLocaleDateString()}
-                    </p>
+                    <div className="text-xs text-gray-500">
+                      <p>Created {template.createdAt.toLocaleDateString()}{(template.version || 1) > 1 && ` · v${template.version}`}</p>
+                      <p>Sent {template.usageCount || 0} time{template.usageCount !== 1 ? "s" : ""}</p>
+                    </div>
                     <Button
                       variant="outline"
                       size="sm"
@@ -239,11 +755,170 @@ export default function Templates() {
         {templates.length === 0 && (
           <div className="mt-6 text-center py-12">
             <div className="text-gray-500">
-              No templates yet. Create your first message template to get started.
+              No templates yet. Create your first message template or add some from the starter library.
+            </div>
+          </div>
+        )}
+
+        {templates.length > 0 && visibleTemplates.length === 0 && (
+          <div className="mt-6 text-center py-12 text-gray-500">
+            No templates match these filters.
+          </div>
+        )}
+
+        {sharedTemplates.length > 0 && (
+          <div className="mt-10">
+            <h3 className="text-lg font-medium text-gray-900">Shared with me</h3>
+            <p className="text-sm text-gray-500">Templates your teammates have shared. Save a copy to use or edit one.</p>
+            <div className="mt-4 grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+              {sharedTemplates.map(template => (
+                <Card key={template.id}>
+                  <CardContent className="p-6">
+                    <h4 className="font-medium text-gray-900">{template.name}</h4>
+                    <p className="text-xs text-gray-500">Shared by {template.sharedBy || "a teammate"}</p>
+                    <p className="text-sm text-gray-500 mt-2 line-clamp-3">{template.content}</p>
+                    <div className="mt-4 flex justify-end">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCopyShared(template)}
+                        disabled={importing !== null}
+                      >
+                        {importing === template.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Copy className="h-4 w-4 mr-1" />}
+                        Save a Copy
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
             </div>
           </div>
         )}
       </div>
+
+      {/* Version history */}
+      <Dialog open={historyTemplate !== null} onOpenChange={(open) => !open && setHistoryTemplate(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Version History - {historyTemplate?.name}</DialogTitle>
+          </DialogHeader>
+          {versions === null ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="py-6 text-center text-sm text-gray-500">
+              No earlier versions. A version is kept every time the template is edited.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">Current version: v{historyTemplate?.version || 1}</p>
+              {versions.map(version => (
+                <div key={version.id} className="p-3 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">v{version.version} · {version.name}</p>
+                      <p className="text-xs text-gray-500">Replaced {version.savedAt.toLocaleString()}</p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => handleRestoreVersion(version)}>
+                      Restore
+                    </Button>
+                  </div>
+                  {version.subject && <p className="mt-2 text-xs text-gray-600">Subject: {version.subject}</p>}
+                  <p className="mt-2 text-sm text-gray-600 whitespace-pre-wrap line-clamp-4">{version.content}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Sharing */}
+      <Dialog open={sharingTemplate !== null} onOpenChange={(open) => !open && setSharingTemplate(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Share "{sharingTemplate?.name}"</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="shareEmails">Teammates' email addresses</Label>
+              <Textarea
+                id="shareEmails"
+                value={shareEmails}
+                onChange={(e) => setShareEmails(e.target.value)}
+                placeholder="alex@example.com, sam@example.com"
+                rows={3}
+                className="mt-1"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                They see it under "Shared with me" when signed in with that address and can save their own copy. Clear the list to stop sharing.
+              </p>
+            </div>
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={() => setSharingTemplate(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleShare}>
+                <Share2 className="h-4 w-4 mr-2" />
+                Save Sharing
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Starter library */}
+      <Dialog open={showLibrary} onOpenChange={setShowLibrary}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Starter Library</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">Ready-made templates you can add and then edit.</p>
+              <Button
+                size="sm"
+                onClick={() => handleImportStarters(STARTER_TEMPLATES)}
+                disabled={importing !== null || STARTER_TEMPLATES.every(s => importedStarterIds.has(s.starterId))}
+              >
+                {importing === "all" && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Add All
+              </Button>
+            </div>
+            {STARTER_TEMPLATES.map(starter => {
+              const imported = importedStarterIds.has(starter.starterId);
+              return (
+                <div key={starter.starterId} className="p-3 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-gray-900">{starter.name}</p>
+                      {starter.category && (
+                        <Badge variant="outline" className="text-xs">{TEMPLATE_CATEGORY_LABELS[starter.category]}</Badge>
+                      )}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleImportStarters([starter])}
+                      disabled={imported || importing !== null}
+                    >
+                      {imported ? (
+                        <Check className="h-4 w-4 mr-1" />
+                      ) : importing === starter.starterId ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <Plus className="h-4 w-4 mr-1" />
+                      )}
+                      {imported ? "Added" : "Add"}
+                    </Button>
+                  </div>
+                  <p className="mt-2 text-sm text-gray-600 whitespace-pre-wrap line-clamp-3">{starter.content}</p>
+                </div>
+              );
+            })}
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,81 @@
+import { authHeaders } from "@/lib/queryClient";
+import type { CampaignChannel, CampaignRecipient, CampaignSummary } from "@shared/schema";
+
+export interface CampaignDetails {
+  campaign: CampaignSummary;
+  recipients: CampaignRecipient[];
+}
+
+export interface NewCampaign {
+  name: string;
+  channel?: CampaignChannel;
+  templateId?: string | null;
+  groupId?: string | null;
+  // The contacts to send to. The server renders each message from the
+  // stored template.
+  contactIds: string[];
+  // Email only: a subject template replacing the template's own
+  subject?: string;
+}
+
+/**
+ * Error response from the campaigns API, e.g. 404 for a campaign that is
+ * not the user's or 409 when cancelling one that has finished.
+ */
+export class CampaignApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "CampaignApiError";
+    this.status = status;
+  }
+}
+
+// Requests are made as the signed-in user, whose campaigns they are
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const headers = { ...(await authHeaders()), ...init.headers };
+
+  let response: Response;
+  try {
+    response = await fetch(path, { ...init, headers });
+  } catch {
+    throw new Error("Network error. Please check your internet connection and try again.");
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new CampaignApiError(data.error || `API Error: ${response.status}`, response.status);
+  }
+  return data as T;
+}
+
+/**
+ * Queue a WhatsApp or email campaign. The server delivers the messages in
+ * the background.
+ */
+export async function createCampaign(userId: string, campaign: NewCampaign): Promise<CampaignSummary> {
+  const data = await request<{ campaign: CampaignSummary }>(`/api/campaigns/${encodeURIComponent(userId)}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(campaign),
+  });
+  return data.campaign;
+}
+
+export async function fetchCampaigns(userId: string): Promise<CampaignSummary[]> {
+  const data = await request<{ campaigns: CampaignSummary[] }>(`/api/campaigns/${encodeURIComponent(userId)}`);
+  return data.campaigns;
+}
+
+export function fetchCampaign(userId: string, campaignId: string): Promise<CampaignDetails> {
+  return request<CampaignDetails>(`/api/campaigns/${encodeURIComponent(userId)}/${encodeURIComponent(campaignId)}`);
+}
+
+export async function cancelCampaign(userId: string, campaignId: string): Promise<CampaignSummary> {
+  const data = await request<{ campaign: CampaignSummary }>(
+    `/api/campaigns/${encodeURIComponent(userId)}/${encodeURIComponent(campaignId)}/cancel`,
+    { method: "POST" }
+  );
+  return data.campaign;
+}
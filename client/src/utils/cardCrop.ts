@@ -0,0 +1,177 @@
+import type { CardCorners, CardPoint } from "@shared/schema";
+
+// Longest side of a stored card crop, in pixels
+const MAX_CROP_SIZE = 1600;
+// Outlines within this fraction of a right-angled rectangle are cropped
+// directly instead of being warped
+const AXIS_ALIGNED_TOLERANCE = 0.01;
+
+function loadImageElement(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image for cropping'));
+    };
+    img.src = url;
+  });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode card image'));
+      }
+    }, 'image/jpeg', 0.9);
+  });
+}
+
+const distance = (a: CardPoint, b: CardPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * True when the outline covers (almost) the whole image, so the scan
+ * itself can serve as the card image
+ */
+export function isFullFrame(corners: CardCorners): boolean {
+  const xs = corners.map(c => c.x);
+  const ys = corners.map(c => c.y);
+  return Math.min(...xs) <= 0.03 && Math.max(...xs) >= 0.97 && Math.min(...ys) <= 0.03 && Math.max(...ys) >= 0.97;
+}
+
+function isAxisAligned([tl, tr, br, bl]: CardCorners): boolean {
+  const close = (a: number, b: number) => Math.abs(a - b) <= AXIS_ALIGNED_TOLERANCE;
+  return close(tl.y, tr.y) && close(bl.y, br.y) && close(tl.x, bl.x) && close(tr.x, br.x);
+}
+
+/**
+ * Solve the 8x8 system for the homography mapping each `from` point onto
+ * the matching `to` point. Returns the first eight coefficients of the 3x3
+ * matrix (the last is fixed at 1).
+ */
+function solveHomography(from: CardPoint[], to: CardPoint[]): number[] {
+  const rows: number[][] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u]);
+    rows.push([0, 0, 0, x, y, 1, -x * v, -y * v, v]);
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) {
+      throw new Error('Card outline is degenerate');
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col] / rows[col][col];
+      for (let k = col; k < 9; k++) rows[row][k] -= factor * rows[col][k];
+    }
+  }
+
+  return rows.map((row, i) => row[8] / row[i]);
+}
+
+/**
+ * Crop one card out of a photo. Skewed or rotated outlines are warped back
+ * to a flat rectangle (perspective correction) with bilinear sampling.
+ * Returns a JPEG no larger than MAX_CROP_SIZE on its longest side.
+ */
+export async function cropCardImage(image: Blob, corners: CardCorners): Promise<Blob> {
+  const img = await loadImageElement(image);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const points = corners.map(c => ({ x: c.x * width, y: c.y * height }));
+  const [tl, tr, br, bl] = points;
+
+  const cardWidth = Math.max(distance(tl, tr), distance(bl, br));
+  const cardHeight = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, MAX_CROP_SIZE / Math.max(cardWidth, cardHeight));
+  const outWidth = Math.max(1, Math.round(cardWidth * scale));
+  const outHeight = Math.max(1, Math.round(cardHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = outWidth;
+  canvas.height = outHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+
+  if (isAxisAligned(corners)) {
+    const left = Math.min(tl.x, bl.x);
+    const top = Math.min(tl.y, tr.y);
+    ctx.drawImage(img, left, top, Math.max(tr.x, br.x) - left, Math.max(bl.y, br.y) - top, 0, 0, outWidth, outHeight);
+    return canvasToBlob(canvas);
+  }
+
+  // Read only the region under the outline
+  const left = Math.max(0, Math.floor(Math.min(...points.map(p => p.x))));
+  const top = Math.max(0, Math.floor(Math.min(...points.map(p => p.y))));
+  const right = Math.min(width, Math.ceil(Math.max(...points.map(p => p.x))));
+  const bottom = Math.min(height, Math.ceil(Math.max(...points.map(p => p.y))));
+  const regionWidth = Math.max(1, right - left);
+  const regionHeight = Math.max(1, bottom - top);
+
+  const source = document.createElement('canvas');
+  source.width = regionWidth;
+  source.height = regionHeight;
+  const sourceCtx = source.getContext('2d');
+  if (!sourceCtx) throw new Error('Canvas is not supported');
+  sourceCtx.drawImage(img, left, top, regionWidth, regionHeight, 0, 0, regionWidth, regionHeight);
+  const src = sourceCtx.getImageData(0, 0, regionWidth, regionHeight).data;
+
+  // Map each output pixel back into the photo
+  const target = [
+    { x: 0, y: 0 },
+    { x: outWidth, y: 0 },
+    { x: outWidth, y: outHeight },
+    { x: 0, y: outHeight },
+  ];
+  const [a, b, c, d, e, f, g, h] = solveHomography(target, points.map(p => ({ x: p.x - left, y: p.y - top })));
+
+  const output = ctx.createImageData(outWidth, outHeight);
+  const out = output.data;
+
+  for (let v = 0; v < outHeight; v++) {
+    for (let u = 0; u < outWidth; u++) {
+      const w = g * u + h * v + 1;
+      const x = Math.min(regionWidth - 1, Math.max(0, (a * u + b * v + c) / w));
+      const y = Math.min(regionHeight - 1, Math.max(0, (d * u + e * v + f) / w));
+
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const x1 = Math.min(regionWidth - 1, x0 + 1);
+      const y1 = Math.min(regionHeight - 1, y0 + 1);
+      const fx = x - x0;
+      const fy = y - y0;
+
+      const i00 = (y0 * regionWidth + x0) * 4;
+      const i10 = (y0 * regionWidth + x1) * 4;
+      const i01 = (y1 * regionWidth + x0) * 4;
+      const i11 = (y1 * regionWidth + x1) * 4;
+      const o = (v * outWidth + u) * 4;
+
+      for (let channel = 0; channel < 4; channel++) {
+        const upper = src[i00 + channel] * (1 - fx) + src[i10 + channel] * fx;
+        const lower = src[i01 + channel] * (1 - fx) + src[i11 + channel] * fx;
+        out[o + channel] = upper * (1 - fy) + lower * fy;
+      }
+    }
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return canvasToBlob(canvas);
+}
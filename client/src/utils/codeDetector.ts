@@ -0,0 +1,204 @@
+import QrScanner from 'qr-scanner';
+import type { CardPoint, CodeFormat } from "@shared/schema";
+
+export interface DetectedCode {
+  format: CodeFormat;
+  data: string;
+  // Centre of the code as a fraction of the image size
+  center: CardPoint;
+}
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface NativeBarcodeDetector {
+  detect(image: ImageBitmapSource): Promise<Array<{ rawValue: string; format: string; cornerPoints: CardPoint[] }>>;
+}
+
+// The browser's BarcodeDetector class, missing from TypeScript's DOM types
+interface NativeBarcodeDetectorConstructor {
+  new (options: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+// Images are scanned at no more than this size on their longest side
+const MAX_SCAN_SIZE = 2000;
+// Tile grids scanned after the whole image; small codes only decode once
+// they fill more of the frame
+const TILE_GRIDS = [2, 3];
+const TILE_OVERLAP = 0.25;
+
+const NATIVE_FORMATS: Record<string, CodeFormat> = {
+  qr_code: 'qr_code',
+  data_matrix: 'data_matrix',
+  pdf417: 'pdf417',
+};
+
+function loadImageElement(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image for code detection'));
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * The whole image followed by overlapping tiles, each grid finer than the last
+ */
+function scanRegions(width: number, height: number): Region[] {
+  const regions: Region[] = [{ x: 0, y: 0, width, height }];
+
+  for (const grid of TILE_GRIDS) {
+    const tileWidth = Math.min(width, Math.round((width / grid) * (1 + TILE_OVERLAP)));
+    const tileHeight = Math.min(height, Math.round((height / grid) * (1 + TILE_OVERLAP)));
+    for (let row = 0; row < grid; row++) {
+      for (let col = 0; col < grid; col++) {
+        regions.push({
+          x: Math.round(((width - tileWidth) * col) / (grid - 1)),
+          y: Math.round(((height - tileHeight) * row) / (grid - 1)),
+          width: tileWidth,
+          height: tileHeight,
+        });
+      }
+    }
+  }
+
+  return regions;
+}
+
+async function createNativeDetector(): Promise<NativeBarcodeDetector | null> {
+  const Detector = (window as unknown as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+  if (!Detector) return null;
+
+  try {
+    const supported = await Detector.getSupportedFormats();
+    const formats = Object.keys(NATIVE_FORMATS).filter(f => supported.includes(f));
+    return formats.length > 0 ? new Detector({ formats }) : null;
+  } catch {
+    return null;
+  }
+}
+
+const centerOf = (points: CardPoint[]): CardPoint => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+/**
+ * Find every QR code, Data Matrix and PDF417 barcode in an image. The whole
+ * image is scanned first, then overlapping tiles, so several codes (or one
+ * small code) on a photo of many cards are all picked up. Uses the
+ * browser's BarcodeDetector where available and falls back to qr-scanner
+ * plus the ZXing decoder bundled with html5-qrcode.
+ */
+export async function detectCodes(image: Blob): Promise<DetectedCode[]> {
+  const img = await loadImageElement(image);
+  const scale = Math.min(1, MAX_SCAN_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+  const source = document.createElement('canvas');
+  source.width = width;
+  source.height = height;
+  source.getContext('2d')!.drawImage(img, 0, 0, width, height);
+
+  const tile = document.createElement('canvas');
+  const tileCtx = tile.getContext('2d')!;
+  const drawTile = (region: Region) => {
+    tile.width = region.width;
+    tile.height = region.height;
+    tileCtx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+  };
+
+  // Keyed by format and payload; a code seen in several regions keeps the
+  // most precise position (exact corners over a tile centre)
+  const found = new Map<string, DetectedCode & { precision: number }>();
+  const add = (format: CodeFormat, data: string, center: CardPoint, precision: number) => {
+    if (!data) return;
+    const key = `${format}:${data}`;
+    const existing = found.get(key);
+    if (!existing || precision < existing.precision) {
+      found.set(key, { format, data, center: { x: center.x / width, y: center.y / height }, precision });
+    }
+  };
+
+  const regions = scanRegions(width, height);
+  const native = await createNativeDetector();
+
+  if (native) {
+    for (const region of regions) {
+      drawTile(region);
+      try {
+        const codes = await native.detect(tile);
+        codes.forEach(code => {
+          const center = centerOf(code.cornerPoints);
+          add(NATIVE_FORMATS[code.format] || 'qr_code', code.rawValue, { x: center.x + region.x, y: center.y + region.y }, 0);
+        });
+      } catch {
+        // A region the detector cannot read is skipped like one without codes
+      }
+    }
+  } else {
+    const [{ Html5QrcodeShim }, { BaseLoggger, Html5QrcodeSupportedFormats }] = await Promise.all([
+      import('html5-qrcode/esm/code-decoder'),
+      import('html5-qrcode/esm/core'),
+    ]);
+    const zxing = new Html5QrcodeShim(
+      [Html5QrcodeSupportedFormats.QR_CODE, Html5QrcodeSupportedFormats.DATA_MATRIX, Html5QrcodeSupportedFormats.PDF_417],
+      false,
+      false,
+      new BaseLoggger(false)
+    );
+    const zxingFormats: Partial<Record<number, CodeFormat>> = {
+      [Html5QrcodeSupportedFormats.QR_CODE]: 'qr_code',
+      [Html5QrcodeSupportedFormats.DATA_MATRIX]: 'data_matrix',
+      [Html5QrcodeSupportedFormats.PDF_417]: 'pdf417',
+    };
+    const qrEngine = await QrScanner.createQrEngine();
+
+    try {
+      for (const region of regions) {
+        // qr-scanner reads the region in place and reports corners in image coordinates
+        try {
+          const result = await QrScanner.scanImage(source, {
+            scanRegion: region,
+            qrEngine,
+            returnDetailedScanResult: true,
+          });
+          add('qr_code', result.data, centerOf(result.cornerPoints), 0);
+        } catch {
+          // No QR code in this region
+        }
+
+        // ZXing reads one code per call and reports no position, so the
+        // tile centre stands in for it
+        drawTile(region);
+        try {
+          const result = await zxing.decodeAsync(tile);
+          const format = result.format ? zxingFormats[result.format.format] : 'qr_code';
+          if (format) {
+            add(format, result.text, { x: region.x + region.width / 2, y: region.y + region.height / 2 }, region.width * region.height);
+          }
+        } catch {
+          // No code in this region
+        }
+      }
+    } finally {
+      if (qrEngine instanceof Worker) qrEngine.terminate();
+    }
+  }
+
+  return Array.from(found.values()).map(({ precision, ...code }) => code);
+}
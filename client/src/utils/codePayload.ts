@@ -0,0 +1,180 @@
+import type { CodePayloadKind, ParsedContact } from "@shared/schema";
+import { normalizePhoneNumber } from "@shared/contactFields";
+import { parseVCard, vCardToParsedContact } from "@shared/vcard";
+
+export interface ClassifiedPayload {
+  type: 'contact' | 'url' | 'text';
+  kind: CodePayloadKind;
+  extractedInfo: ParsedContact;
+}
+
+const WHATSAPP_PATTERN = /^(?:https?:\/\/)?(?:wa\.me|(?:api|web)\.whatsapp\.com\/send)\/?([^?#]*)(?:\?([^#]*))?/i;
+const LINKEDIN_PATTERN = /^(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/(?:in|company|pub)\/[^\s?#]+/i;
+
+function queryParams(query: string | undefined): URLSearchParams {
+  return new URLSearchParams(query || '');
+}
+
+/**
+ * Work out what a QR code or barcode holds and pull out the contact
+ * details in it
+ */
+export function classifyCodePayload(raw: string): ClassifiedPayload {
+  const data = raw.trim();
+
+  if (/^BEGIN:VCARD/i.test(data)) {
+    const card = parseVCard(data);
+    return { type: 'contact', kind: 'vcard', extractedInfo: card ? vCardToParsedContact(card) : {} };
+  }
+
+  if (/^MECARD:/i.test(data)) {
+    return { type: 'contact', kind: 'mecard', extractedInfo: parseMeCard(data) };
+  }
+
+  if (/^tel:/i.test(data)) {
+    const phone = normalizePhoneNumber(decodeURIComponent(data.slice(4)));
+    return { type: 'contact', kind: 'tel', extractedInfo: phone ? { phones: [phone] } : {} };
+  }
+
+  if (/^mailto:/i.test(data)) {
+    const email = decodeURIComponent(data.slice(7).split('?')[0]).trim().toLowerCase();
+    return { type: 'contact', kind: 'mailto', extractedInfo: email ? { email } : {} };
+  }
+
+  if (/^whatsapp:\/\/send/i.test(data) || WHATSAPP_PATTERN.test(data)) {
+    const match = data.match(WHATSAPP_PATTERN);
+    const query = data.includes('?') ? data.slice(data.indexOf('?') + 1) : match?.[2];
+    const digits = (match?.[1] || queryParams(query).get('phone') || '').replace(/\D/g, '');
+    const phone = digits ? normalizePhoneNumber(`+${digits}`) : '';
+    return { type: 'contact', kind: 'whatsapp', extractedInfo: phone ? { phones: [phone] } : {} };
+  }
+
+  if (LINKEDIN_PATTERN.test(data)) {
+    const url = data.match(LINKEDIN_PATTERN)![0];
+    return { type: 'url', kind: 'linkedin', extractedInfo: { social: /^https?:\/\//i.test(url) ? url : `https://${url}` } };
+  }
+
+  if (/^upi:\/\/pay\?/i.test(data)) {
+    // Payee name is often a shop name, so only the address is kept
+    const address = queryParams(data.slice(data.indexOf('?') + 1)).get('pa');
+    return { type: 'text', kind: 'upi', extractedInfo: address ? { social: `UPI: ${address}` } : {} };
+  }
+
+  if (/^https?:\/\//i.test(data)) {
+    return { type: 'url', kind: 'url', extractedInfo: { website: data } };
+  }
+
+  const textInfo: ParsedContact = extractContactFromText(data);
+  return {
+    type: Object.keys(textInfo).length > 0 ? 'contact' : 'text',
+    kind: 'text',
+    extractedInfo: textInfo,
+  };
+}
+
+/**
+ * Enhanced MeCard parser
+ */
+export function parseMeCard(meCardData: string): any {
+  const contact: any = {};
+  
+  try {
+    // Clean and parse MeCard format
+    const cleanData = meCardData.replace('MECARD:', '');
+    const fields = cleanData.split(';');
+    
+    for (const field of fields) {
+      const trimmedField = field.trim();
+      if (!trimmedField) continue;
+      
+      const colonIndex = trimmedField.indexOf(':');
+      if (colonIndex === -1) continue;
+      
+      const key = trimmedField.substring(0, colonIndex).trim().toUpperCase();
+      const value = trimmedField.substring(colonIndex + 1).trim();
+      
+      if (!value) continue;
+      
+      switch (key) {
+        case 'N':
+          // Parse name (lastname,firstname)
+          const nameParts = value.split(',');
+          const lastName = nameParts[0]?.trim() || '';
+          const firstName = nameParts[1]?.trim() || '';
+          contact.name = `${firstName} ${lastName}`.trim();
+          break;
+        case 'ORG':
+          contact.company = value;
+          break;
+        case 'EMAIL':
+          contact.email = value.toLowerCase();
+          break;
+        case 'TEL':
+          if (!contact.phones) contact.phones = [];
+          const phone = normalizePhoneNumber(value);
+          if (phone) contact.phones.push(phone);
+          break;
+        case 'URL':
+          contact.website = value;
+          break;
+        case 'ADR':
+          contact.address = value;
+          break;
+        case 'NOTE':
+          contact.services = value;
+          break;
+      }
+    }
+  } catch (error) {
+    console.error('MeCard parsing error:', error);
+  }
+  
+  return contact;
+}
+
+/**
+ * Enhanced contact extraction from plain text
+ */
+export function extractContactFromText(text: string): any {
+  const contact: any = {};
+  
+  try {
+    // Extract phone numbers with better regex
+    const phoneRegex = /(?:(?:\+|00)[1-9]\d{0,3}[-.\s]?)?(?:\(?\d{1,4}\)?[-.\s]?)?\d{1,4}[-.\s]?\d{1,4}[-.\s]?\d{1,9}/g;
+    const phones = text.match(phoneRegex)?.map(p => normalizePhoneNumber(p)).filter(Boolean);
+    if (phones && phones.length > 0) contact.phones = Array.from(new Set(phones));
+    
+    // Extract email addresses
+    const emailRegex = /\b[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}\b/g;
+    const emails = text.match(emailRegex);
+    if (emails && emails.length > 0) contact.email = emails[0].toLowerCase();
+    
+    // Extract URLs
+    const urlRegex = /https?:\/\/(?:[-\w.])+(?:[:\d]+)?(?:\/(?:[\w/_.])*(?:\?(?:[\w&=%.])*)?(?:#(?:[\w.])*)?)?/g;
+    const urls = text.match(urlRegex);
+    if (urls && urls.length > 0) contact.website = urls[0];
+    
+    // Handle tel: and mailto: schemes
+    if (text.includes('tel:')) {
+      const telMatch = text.match(/tel:([\d+\-\s()]+)/);
+      if (telMatch) {
+        const phone = normalizePhoneNumber(telMatch[1]);
+        if (phone) {
+          if (!contact.phones) contact.phones = [];
+          contact.phones.push(phone);
+        }
+      }
+    }
+    
+    if (text.includes('mailto:')) {
+      const mailtoMatch = text.match(/mailto:([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/);
+      if (mailtoMatch && !contact.email) {
+        contact.email = mailtoMatch[1].toLowerCase();
+      }
+    }
+  } catch (error) {
+    console.error('Text extraction error:', error);
+  }
+  
+  return contact;
+}
@@ -0,0 +1,152 @@
+import { addDoc, collection, getDocs, query, serverTimestamp, where, writeBatch } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+
+export type ContactEventType = 'created' | 'edited' | 'notes' | 'message' | 'group_added' | 'group_removed' | 'merged';
+
+// One entry of a contact's timeline
+export interface ContactEvent {
+  id: string;
+  ownerId: string;
+  contactId: string;
+  type: ContactEventType;
+  summary: string;
+  // Type-specific extras: changed fields, message text, group names
+  details: Record<string, any>;
+  createdAt: Date;
+}
+
+// How a contact was created, from its `source` field
+export const CONTACT_SOURCE_LABELS: Record<string, string> = {
+  manual: 'Added manually',
+  camera: 'Scanned with the camera',
+  bulk_scan: 'Scanned in a bulk upload',
+  import: 'Imported from a file',
+  upload: 'Uploaded from a card image',
+};
+
+/**
+ * Record an event on a contact's timeline. Failures are logged and
+ * swallowed so they never undo the change being recorded.
+ */
+export async function logContactEvent(
+  userId: string,
+  contactId: string,
+  type: ContactEventType,
+  summary: string,
+  details: Record<string, any> = {}
+): Promise<void> {
+  try {
+    await addDoc(collection(db, "contactEvents"), {
+      ownerId: userId,
+      contactId,
+      type,
+      summary,
+      details,
+      createdAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error recording contact event:", error);
+  }
+}
+
+/**
+ * Record group membership changes, one event per group added or removed
+ */
+export async function logGroupChanges(
+  userId: string,
+  contactId: string,
+  before: string[],
+  after: string[],
+  groupName: (groupId: string) => string
+): Promise<void> {
+  const added = after.filter(id => !before.includes(id));
+  const removed = before.filter(id => !after.includes(id));
+
+  await Promise.all([
+    ...added.map(id => logContactEvent(userId, contactId, 'group_added', `Added to ${groupName(id) || 'a group'}`, { groupId: id })),
+    ...removed.map(id => logContactEvent(userId, contactId, 'group_removed', `Removed from ${groupName(id) || 'a group'}`, { groupId: id })),
+  ]);
+}
+
+/**
+ * Names of the fields whose values differ, comparing arrays by content
+ */
+export function changedFields<T extends Record<string, any>>(before: T, after: T, fields: Array<keyof T>): string[] {
+  const normalize = (value: any) => JSON.stringify(Array.isArray(value) ? value.filter(Boolean) : (value ?? ''));
+  return fields.filter(field => normalize(before[field]) !== normalize(after[field])).map(String);
+}
+
+/**
+ * A contact's timeline, newest first. The creation entry comes from the
+ * contact itself, so contacts created before events were recorded have one.
+ */
+export async function loadContactTimeline(
+  userId: string,
+  contact: { id: string; source?: string; importId?: string; createdAt: Date }
+): Promise<ContactEvent[]> {
+  const eventsQuery = query(
+    collection(db, "contactEvents"),
+    where("ownerId", "==", userId),
+    where("contactId", "==", contact.id)
+  );
+  const snapshot = await getDocs(eventsQuery);
+
+  const events = snapshot.docs.map(d => {
+    const data = d.data();
+    return {
+      id: d.id,
+      ownerId: data.ownerId,
+      contactId: data.contactId,
+      type: data.type,
+      summary: data.summary || '',
+      details: data.details || {},
+      createdAt: data.createdAt?.toDate() || new Date(),
+    } as ContactEvent;
+  });
+
+  events.push({
+    id: `created-${contact.id}`,
+    ownerId: userId,
+    contactId: contact.id,
+    type: 'created',
+    summary: CONTACT_SOURCE_LABELS[contact.source || ''] || 'Contact created',
+    details: contact.importId ? { importId: contact.importId } : {},
+    createdAt: contact.createdAt,
+  });
+
+  return events.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Delete a contact's timeline along with the contact
+ */
+export async function deleteContactEvents(userId: string, contactId: string): Promise<void> {
+  const eventsQuery = query(
+    collection(db, "contactEvents"),
+    where("ownerId", "==", userId),
+    where("contactId", "==", contactId)
+  );
+  const snapshot = await getDocs(eventsQuery);
+  if (snapshot.empty) return;
+
+  const batch = writeBatch(db);
+  snapshot.docs.forEach(d => batch.delete(d.ref));
+  await batch.commit();
+}
+
+/**
+ * Move timeline events to the contact that another was merged into
+ */
+export async function reassignContactEvents(userId: string, fromContactId: string, toContactId: string): Promise<void> {
+  const eventsQuery = query(
+    collection(db, "contactEvents"),
+    where("ownerId", "==", userId),
+    where("contactId", "==", fromContactId)
+  );
+  const snapshot = await getDocs(eventsQuery);
+  if (snapshot.empty) return;
+
+  const batch = writeBatch(db);
+  snapshot.docs.forEach(d => batch.update(d.ref, { contactId: toContactId }));
+  await batch.commit();
+}
@@ -0,0 +1,282 @@
+import { doc, serverTimestamp, writeBatch } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { phoneMatchKey, phonesMatch, type PhoneNumber } from "@shared/phone";
+import type { PostalAddress } from "@shared/address";
+import { calculateStringSimilarity } from "./multiCardOcr";
+
+// The stored contact fields the duplicate finder reads and merges
+export interface ContactRecord {
+  id: string;
+  firstName: string;
+  lastName: string;
+  phones: string[];
+  phoneDetails?: PhoneNumber[];
+  email: string;
+  emails?: string[];
+  company: string;
+  services: string;
+  address?: string;
+  postalAddress?: PostalAddress | null;
+  addresses?: string[];
+  website?: string;
+  qrCodeUrl?: string;
+  notes?: string;
+  customFields?: Record<string, string>;
+  photoUrl?: string;
+  frontImageUrl?: string;
+  backImageUrl?: string;
+  groupIds: string[];
+  createdAt: Date;
+}
+
+export type DuplicateReason = 'phone' | 'email' | 'name';
+
+export interface DuplicateCluster {
+  id: string;
+  contacts: ContactRecord[];
+  reasons: DuplicateReason[];
+}
+
+// Single-value fields picked from one of the merged contacts
+export const MERGE_FIELDS = [
+  'firstName',
+  'lastName',
+  'email',
+  'company',
+  'services',
+  'address',
+  'website',
+  'qrCodeUrl',
+  'notes',
+  'photoUrl',
+  'frontImageUrl',
+  'backImageUrl',
+] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+// For each field, the id of the contact whose value is kept
+export type MergeSelection = Record<MergeField, string>;
+
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+// Same threshold deduplicateContacts uses for companies on scanned batches
+const COMPANY_SIMILARITY_THRESHOLD = 0.7;
+// Name blocks larger than this are too generic to compare pairwise
+const MAX_NAME_BLOCK = 50;
+
+const fullName = (contact: ContactRecord) => `${contact.firstName} ${contact.lastName}`.trim().toLowerCase();
+
+/**
+ * Whether two contacts with similar names are likely the same person:
+ * identical names that no company contradicts, or near-identical names at
+ * the same company
+ */
+function namesMatch(first: ContactRecord, second: ContactRecord): boolean {
+  const nameSimilarity = calculateStringSimilarity(fullName(first), fullName(second));
+  if (nameSimilarity < NAME_SIMILARITY_THRESHOLD) return false;
+
+  const companyA = first.company.trim().toLowerCase();
+  const companyB = second.company.trim().toLowerCase();
+  if (!companyA || !companyB) return nameSimilarity === 1;
+
+  return companyA.includes(companyB)
+    || companyB.includes(companyA)
+    || calculateStringSimilarity(companyA, companyB) >= COMPANY_SIMILARITY_THRESHOLD;
+}
+
+function contactEmails(contact: ContactRecord): string[] {
+  return [contact.email, ...(contact.emails || [])].map(e => (e || '').toLowerCase().trim()).filter(Boolean);
+}
+
+/**
+ * Group the contact book into clusters of likely duplicates. Contacts that
+ * share a phone number (ignoring country codes and formatting) or an email
+ * are always clustered; contacts that only have similar names are clustered
+ * when their companies agree.
+ */
+export function findDuplicateClusters(contacts: ContactRecord[]): DuplicateCluster[] {
+  const parent = contacts.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasons = new Map<string, Set<DuplicateReason>>();
+
+  const union = (a: number, b: number, reason: DuplicateReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[rootB] = rootA;
+    const key = `${a}:${b}`;
+    if (!reasons.has(key)) reasons.set(key, new Set());
+    reasons.get(key)!.add(reason);
+  };
+
+  const exactBlocks = new Map<string, number[]>();
+  const nameBlocks = new Map<string, number[]>();
+  const addTo = (blocks: Map<string, number[]>, key: string, index: number) => {
+    const block = blocks.get(key) || [];
+    if (!block.includes(index)) block.push(index);
+    blocks.set(key, block);
+  };
+
+  contacts.forEach((contact, i) => {
+    contact.phones.map(phoneMatchKey).filter(Boolean).forEach(key => addTo(exactBlocks, `phone:${key}`, i));
+    contactEmails(contact).forEach(email => addTo(exactBlocks, `email:${email}`, i));
+
+    const name = fullName(contact).replace(/[^a-z\s]/g, '');
+    const tokens = name.split(/\s+/).filter(Boolean);
+    if (tokens.length > 0) {
+      // Same words in any order, plus blocks that let a typo in either the
+      // first or the last name still meet
+      const first = tokens[0];
+      const last = tokens.length > 1 ? tokens[tokens.length - 1] : '';
+      addTo(nameBlocks, tokens.slice().sort().join(' '), i);
+      addTo(nameBlocks, `first:${first.slice(0, 3)}|${last[0] || ''}`, i);
+      if (last) addTo(nameBlocks, `last:${last}|${first[0]}`, i);
+    }
+  });
+
+  const sharePhone = (a: ContactRecord, b: ContactRecord) =>
+    a.phones.some(p => b.phones.some(q => phonesMatch(p, q)));
+
+  exactBlocks.forEach((block, key) => {
+    if (key.startsWith('email:')) {
+      for (let k = 1; k < block.length; k++) union(block[0], block[k], 'email');
+      return;
+    }
+    // Same last ten digits; only the same number once parsed is a duplicate
+    for (let b = 1; b < block.length; b++) {
+      const a = block.slice(0, b).find(i => sharePhone(contacts[i], contacts[block[b]]));
+      if (a !== undefined) union(a, block[b], 'phone');
+    }
+  });
+
+  nameBlocks.forEach(block => {
+    if (block.length < 2 || block.length > MAX_NAME_BLOCK) return;
+    for (let a = 0; a < block.length; a++) {
+      for (let b = a + 1; b < block.length; b++) {
+        if (namesMatch(contacts[block[a]], contacts[block[b]])) union(block[a], block[b], 'name');
+      }
+    }
+  });
+
+  const clusters = new Map<number, number[]>();
+  contacts.forEach((_, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) || []), i]);
+  });
+
+  const result: DuplicateCluster[] = [];
+  clusters.forEach(members => {
+    if (members.length < 2) return;
+    const clusterReasons = new Set<DuplicateReason>();
+    reasons.forEach((set, key) => {
+      const [a] = key.split(':').map(Number);
+      if (members.includes(a)) set.forEach(r => clusterReasons.add(r));
+    });
+    const clusterContacts = members
+      .map(i => contacts[i])
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    result.push({
+      id: clusterContacts.map(c => c.id).join('-'),
+      contacts: clusterContacts,
+      reasons: Array.from(clusterReasons),
+    });
+  });
+
+  return result.sort((a, b) => b.contacts.length - a.contacts.length);
+}
+
+const filledFields = (contact: ContactRecord) =>
+  MERGE_FIELDS.filter(field => contact[field]).length + contact.phones.length + contact.groupIds.length;
+
+/**
+ * The contact to keep by default: the most complete one, oldest first on ties
+ */
+export function pickPrimaryContact(contacts: ContactRecord[]): ContactRecord {
+  return contacts.reduce((best, contact) => (filledFields(contact) > filledFields(best) ? contact : best));
+}
+
+/**
+ * Default merge choices: the primary contact's value, or for fields it
+ * lacks, the longest value among the others
+ */
+export function defaultMergeSelection(contacts: ContactRecord[], primaryId: string): MergeSelection {
+  const primary = contacts.find(c => c.id === primaryId) || contacts[0];
+  const selection = {} as MergeSelection;
+
+  MERGE_FIELDS.forEach(field => {
+    if (primary[field]) {
+      selection[field] = primary.id;
+      return;
+    }
+    const best = contacts
+      .filter(c => c[field])
+      .sort((a, b) => (b[field] || '').length - (a[field] || '').length)[0];
+    selection[field] = (best || primary).id;
+  });
+
+  return selection;
+}
+
+/**
+ * The merged contact: chosen single values, with phones, emails,
+ * addresses, groups and custom fields combined from every contact
+ */
+export function buildMergedContact(contacts: ContactRecord[], primaryId: string, selection: MergeSelection) {
+  const byId = new Map(contacts.map(c => [c.id, c]));
+  const primary = byId.get(primaryId) || contacts[0];
+  // List values keep the primary contact's first
+  const ordered = [primary, ...contacts.filter(c => c !== primary)];
+  const merged: Record<string, any> = {};
+
+  MERGE_FIELDS.forEach(field => {
+    merged[field] = (byId.get(selection[field]) || primary)[field] || '';
+  });
+  // The address keeps its parts from the contact it was picked from
+  merged.postalAddress = (byId.get(selection.address) || primary).postalAddress || null;
+
+  const unique = (values: Array<string | undefined>) =>
+    Array.from(new Set(values.map(v => (v || '').trim()).filter(Boolean)));
+
+  // Phones are kept once per number, in the first format seen
+  merged.phones = unique(ordered.reduce<string[]>((all, c) => all.concat(c.phones || []), []))
+    .filter((phone, i, all) => !all.slice(0, i).some(other => phonesMatch(other, phone)));
+  const details = ordered.reduce<PhoneNumber[]>((all, c) => all.concat(c.phoneDetails || []), []);
+  merged.phoneDetails = merged.phones
+    .map((phone: string) => details.find(d => d.e164 === phone))
+    .filter(Boolean);
+
+  merged.email = merged.email.toLowerCase();
+  const emails = unique([merged.email, ...ordered.reduce<string[]>((all, c) => all.concat(contactEmails(c)), [])]);
+  merged.emails = emails.length > 1 ? emails : [];
+
+  const addresses = unique([merged.address, ...ordered.reduce<string[]>((all, c) => all.concat(c.address || '', c.addresses || []), [])]);
+  merged.addresses = addresses.length > 1 ? addresses : [];
+
+  merged.groupIds = unique(ordered.reduce<string[]>((all, c) => all.concat(c.groupIds || []), []));
+  // The primary contact's custom values win over the others'
+  merged.customFields = ordered
+    .slice()
+    .reverse()
+    .reduce((fields, c) => ({ ...fields, ...(c.customFields || {}) }), {} as Record<string, string>);
+
+  return merged;
+}
+
+/**
+ * Merge a cluster into its primary contact and delete the others in one
+ * batch. Returns how many contacts were deleted.
+ */
+export async function mergeContacts(contacts: ContactRecord[], primaryId: string, selection: MergeSelection): Promise<number> {
+  const merged = buildMergedContact(contacts, primaryId, selection);
+  const others = contacts.filter(c => c.id !== primaryId);
+
+  const batch = writeBatch(db);
+  batch.update(doc(db, "contacts", primaryId), {
+    ...merged,
+    mergedFrom: others.map(c => c.id),
+    updatedAt: serverTimestamp(),
+  });
+  others.forEach(c => batch.delete(doc(db, "contacts", c.id)));
+  await batch.commit();
+
+  return others.length;
+}
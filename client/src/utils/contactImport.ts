@@ -0,0 +1,325 @@
+import { addDoc, collection, deleteDoc, doc, getDocs, query, serverTimestamp, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { VCardMedia } from "@shared/vcard";
+import { normalizePhoneNumber } from "@shared/phone";
+import { EMPTY_POSTAL_ADDRESS, formatAddress, type PostalAddress } from "@shared/address";
+
+// A row of the contact import preview, from a spreadsheet or a vCard
+export interface ImportRow {
+  index: number;
+  firstName: string;
+  lastName: string;
+  phones: string[];
+  faxes?: string[];
+  email: string;
+  company: string;
+  services: string;
+  address: string;
+  // Set when the file has the address in parts (separate columns or a vCard ADR)
+  postalAddress?: PostalAddress;
+  website: string;
+  qrCodeUrl: string;
+  notes: string;
+  // Values of columns mapped to custom fields, keyed by field name
+  customFields: Record<string, string>;
+  // Only set for vCard rows
+  emails?: string[];
+  addresses?: string[];
+  categories?: string[];
+  photo?: VCardMedia;
+  errors: string[];
+  isValid: boolean;
+}
+
+export type ImportField =
+  | 'firstName'
+  | 'lastName'
+  | 'fullName'
+  | 'phone'
+  | 'fax'
+  | 'email'
+  | 'company'
+  | 'services'
+  | 'address'
+  | 'city'
+  | 'region'
+  | 'postalCode'
+  | 'country'
+  | 'website'
+  | 'qrCodeUrl'
+  | 'notes'
+  | 'custom'
+  | 'ignore';
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  firstName: 'First Name',
+  lastName: 'Last Name',
+  fullName: 'Full Name',
+  phone: 'Phone',
+  fax: 'Fax',
+  email: 'Email',
+  company: 'Company',
+  services: 'Services',
+  address: 'Address',
+  city: 'City',
+  region: 'State / Region',
+  postalCode: 'Postal Code',
+  country: 'Country',
+  website: 'Website',
+  qrCodeUrl: 'QR Code URL',
+  notes: 'Notes',
+  custom: 'Custom field',
+  ignore: "Don't import",
+};
+
+// How one spreadsheet column is imported
+export interface ColumnMapping {
+  column: number;
+  header: string;
+  field: ImportField;
+  // Name of the custom field when `field` is 'custom'
+  customField?: string;
+}
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportMappingPreset {
+  id: string;
+  name: string;
+  ownerId: string;
+  mappings: Array<Pick<ColumnMapping, 'header' | 'field' | 'customField'>>;
+  createdAt: Date;
+}
+
+// Header names recognised for each field, compared without case, spaces,
+// dashes or underscores. Phone columns also match any numbered variant.
+const FIELD_ALIASES: Array<[Exclude<ImportField, 'custom' | 'ignore'>, string[]]> = [
+  ['firstName', ['firstname', 'first', 'givenname', 'forename']],
+  ['lastName', ['lastname', 'last', 'surname', 'familyname']],
+  ['fullName', ['name', 'fullname', 'contactname', 'displayname']],
+  ['phone', ['phone', 'phones', 'phonenumber', 'mobile', 'mobilenumber', 'cell', 'telephone', 'tel', 'secondaryphone', 'whatsapp']],
+  ['fax', ['fax', 'faxnumber', 'faxno']],
+  ['email', ['email', 'emailaddress', 'mail', 'emailid']],
+  ['company', ['company', 'organization', 'organisation', 'business', 'companyname']],
+  ['services', ['services', 'service', 'title', 'jobtitle', 'designation', 'position']],
+  ['address', ['address', 'street', 'streetaddress', 'address1', 'addressline1', 'location', 'postaladdress']],
+  ['city', ['city', 'town', 'locality']],
+  ['region', ['state', 'region', 'province', 'county', 'stateprovince']],
+  ['postalCode', ['zip', 'zipcode', 'postalcode', 'postcode', 'pincode', 'pin']],
+  ['country', ['country', 'countryname', 'nation']],
+  ['website', ['website', 'web', 'url', 'site', 'homepage']],
+  ['qrCodeUrl', ['qrcodeurl', 'qrcode', 'qr', 'qrurl']],
+  ['notes', ['notes', 'note', 'comments', 'remarks']],
+];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_\-.]+/g, '');
+
+/**
+ * Suggest a field for a column header. Unknown headers become custom
+ * fields named after the header so no column is dropped by default.
+ */
+export function suggestField(header: string): Pick<ColumnMapping, 'field' | 'customField'> {
+  const key = normalizeHeader(header);
+  const phoneKey = key.replace(/\d+$/, '');
+  for (const [field, aliases] of FIELD_ALIASES) {
+    if (aliases.includes(key) || (field === 'phone' && aliases.includes(phoneKey))) {
+      return { field };
+    }
+  }
+  return key ? { field: 'custom', customField: header.trim() } : { field: 'ignore' };
+}
+
+export function suggestMappings(headers: string[]): ColumnMapping[] {
+  const taken = new Set<ImportField>();
+  return headers.map((header, column) => {
+    const suggestion = suggestField(header);
+    // Only phone columns may share a field; later repeats become custom
+    if (suggestion.field !== 'phone' && suggestion.field !== 'custom' && suggestion.field !== 'ignore') {
+      if (taken.has(suggestion.field)) return { column, header, field: 'custom', customField: header.trim() };
+      taken.add(suggestion.field);
+    }
+    return { column, header, ...suggestion };
+  });
+}
+
+/**
+ * Apply a saved preset to a sheet. Columns are matched by header name; any
+ * column the preset does not know keeps its suggested mapping.
+ */
+export function applyMappingPreset(headers: string[], preset: ImportMappingPreset): ColumnMapping[] {
+  const byHeader = new Map(preset.mappings.map(m => [normalizeHeader(m.header), m]));
+  return suggestMappings(headers).map(mapping => {
+    const saved = byHeader.get(normalizeHeader(mapping.header));
+    return saved ? { ...mapping, field: saved.field, customField: saved.customField } : mapping;
+  });
+}
+
+/**
+ * Read one sheet as a header row plus data rows, all as display strings.
+ * Blank and repeated headers are given unique names.
+ */
+export function readImportSheet(sheet: unknown[][]): ImportSheet {
+  const [headerRow = [], ...dataRows] = sheet;
+  const width = dataRows.reduce((max, row) => Math.max(max, row.length), headerRow.length);
+  const seen = new Map<string, number>();
+
+  const headers = Array.from({ length: width }, (_, i) => {
+    const base = String(headerRow[i] ?? '').trim() || `Column ${i + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+
+  const rows = dataRows.map(row => headers.map((_, i) => String(row[i] ?? '').trim()));
+
+  return { headers, rows };
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Validation errors for one import row. Numbers without a country code are
+ * checked against the default country's numbering plan.
+ */
+export function validateImportRow(row: ImportRow, defaultCountry?: string): string[] {
+  const errors: string[] = [];
+  if (!row.firstName) errors.push('First name is required');
+  if (row.phones.length === 0) errors.push('At least one phone number is required');
+  [...row.phones, ...(row.faxes || [])].forEach(phone => {
+    if (!normalizePhoneNumber(phone, defaultCountry)) errors.push(`Invalid phone number "${phone}"`);
+  });
+  if (row.email && !EMAIL_PATTERN.test(row.email)) errors.push(`Invalid email "${row.email}"`);
+  return errors;
+}
+
+/**
+ * Validate every row, also flagging rows that repeat the email or a phone
+ * number of an earlier row in the same file
+ */
+export function validateImportRows<T extends ImportRow>(rows: T[], defaultCountry?: string): T[] {
+  const firstRowByKey = new Map<string, number>();
+
+  return rows.map(row => {
+    const errors = validateImportRow(row, defaultCountry);
+    const phoneKeys = row.phones.map(p => normalizePhoneNumber(p, defaultCountry)).filter(Boolean).map(p => `phone:${p}`);
+    const keys = row.email ? [`email:${row.email}`, ...phoneKeys] : phoneKeys;
+    const earlier = keys.map(key => firstRowByKey.get(key)).find(index => index !== undefined);
+    if (earlier !== undefined) errors.push(`Duplicate of row ${earlier}`);
+    keys.forEach(key => {
+      if (!firstRowByKey.has(key)) firstRowByKey.set(key, row.index);
+    });
+    return { ...row, errors, isValid: errors.length === 0 };
+  });
+}
+
+/**
+ * Turn sheet rows into import rows using the chosen column mappings
+ */
+export function mapImportRows(sheet: ImportSheet, mappings: ColumnMapping[], defaultCountry?: string): ImportRow[] {
+  const rows = sheet.rows.map((values, i): ImportRow => {
+    const row: ImportRow = {
+      // Spreadsheet row number, counting the header row
+      index: i + 2,
+      firstName: '',
+      lastName: '',
+      phones: [],
+      email: '',
+      company: '',
+      services: '',
+      address: '',
+      website: '',
+      qrCodeUrl: '',
+      notes: '',
+      customFields: {},
+      errors: [],
+      isValid: false,
+    };
+    let fullName = '';
+
+    mappings.forEach(({ column, field, customField }) => {
+      const value = values[column] || '';
+      if (!value) return;
+
+      switch (field) {
+        case 'phone':
+          // A single cell may hold several numbers, as in our own export
+          row.phones.push(...value.split(/[,;]/).map(p => p.trim()).filter(Boolean));
+          break;
+        case 'fax':
+          row.faxes = [...(row.faxes || []), ...value.split(/[,;]/).map(p => p.trim()).filter(Boolean)];
+          break;
+        case 'email':
+          row.email = value.toLowerCase();
+          break;
+        case 'city':
+          row.postalAddress = { ...(row.postalAddress || EMPTY_POSTAL_ADDRESS), locality: value };
+          break;
+        case 'region':
+        case 'postalCode':
+        case 'country':
+          row.postalAddress = { ...(row.postalAddress || EMPTY_POSTAL_ADDRESS), [field]: value };
+          break;
+        case 'fullName':
+          fullName = value;
+          break;
+        case 'custom':
+          if (customField?.trim()) row.customFields[customField.trim()] = value;
+          break;
+        case 'ignore':
+          break;
+        default:
+          row[field] = value;
+      }
+    });
+
+    if (fullName && !row.firstName && !row.lastName) {
+      const parts = fullName.split(/\s+/);
+      row.firstName = parts[0] || '';
+      row.lastName = parts.slice(1).join(' ');
+    }
+    if (row.postalAddress) {
+      // The address column holds the street when the other parts have columns
+      row.postalAddress.street = row.address;
+      row.address = formatAddress(row.postalAddress);
+    }
+    row.phones = Array.from(new Set(row.phones));
+    return row;
+  });
+
+  return validateImportRows(rows.filter(row => row.firstName || row.phones.length > 0), defaultCountry);
+}
+
+export async function loadMappingPresets(userId: string): Promise<ImportMappingPreset[]> {
+  const presetsQuery = query(collection(db, "importPresets"), where("ownerId", "==", userId));
+  const snapshot = await getDocs(presetsQuery);
+  return snapshot.docs
+    .map(d => {
+      const data = d.data();
+      return {
+        id: d.id,
+        name: data.name || '',
+        ownerId: data.ownerId,
+        mappings: data.mappings || [],
+        createdAt: data.createdAt?.toDate() || new Date(),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveMappingPreset(userId: string, name: string, mappings: ColumnMapping[]): Promise<ImportMappingPreset> {
+  const saved = mappings.map(({ header, field, customField }) => (customField ? { header, field, customField } : { header, field }));
+  const ref = await addDoc(collection(db, "importPresets"), {
+    name,
+    ownerId: userId,
+    mappings: saved,
+    createdAt: serverTimestamp(),
+  });
+  return { id: ref.id, name, ownerId: userId, mappings: saved, createdAt: new Date() };
+}
+
+export async function deleteMappingPreset(presetId: string) {
+  await deleteDoc(doc(db, "importPresets", presetId));
+}
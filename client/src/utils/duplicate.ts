@@ -42,3 +42,39 @@ export async function isDuplicateContact(ownerId: string, email?: string, phones
     return false; // Allow addition if check fails
   }
 }
+
+export interface DuplicateChecker {
+  isDuplicate(email?: string, phones?: string[]): boolean;
+  // Remember a contact about to be created so later rows are checked against it
+  add(email?: string, phones?: string[]): void;
+}
+
+/**
+ * Load the owner's contacts once and check many candidates against them in
+ * memory, with the same matching rules as isDuplicateContact
+ */
+export async function createDuplicateChecker(ownerId: string): Promise<DuplicateChecker> {
+  const snapshot = await getDocs(query(collection(db, "contacts"), where("ownerId", "==", ownerId)));
+  const emails = new Set<string>();
+  const phoneNumbers = new Set<string>();
+
+  const add = (email?: string, phones?: string[]) => {
+    if (email && email.trim()) emails.add(email.toLowerCase().trim());
+    (phones || []).forEach(phone => {
+      if (phone && String(phone).trim()) phoneNumbers.add(String(phone).trim());
+    });
+  };
+
+  snapshot.docs.forEach(d => {
+    const data = d.data();
+    add(data.email, Array.isArray(data.phones) ? data.phones : []);
+  });
+
+  return {
+    isDuplicate(email?: string, phones?: string[]) {
+      if (email && emails.has(email.toLowerCase().trim())) return true;
+      return (phones || []).some(phone => !!phone && phoneNumbers.has(phone.trim()));
+    },
+    add,
+  };
+}
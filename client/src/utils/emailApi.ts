@@ -0,0 +1,52 @@
+import { authHeaders } from "@/lib/queryClient";
+
+/**
+ * An email to one of the user's contacts. The server renders it from the
+ * template; `text` replaces the template with the user's own plain text.
+ */
+export interface OutgoingEmail {
+  contactId: string;
+  // One of the contact's addresses
+  to: string;
+  templateId?: string | null;
+  subject: string;
+  text?: string;
+}
+
+/**
+ * Error response from the email endpoint, e.g. 400 for an invalid address,
+ * 429 once the daily limit is reached or 503 when the server has no mail
+ * transport configured.
+ */
+export class EmailApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "EmailApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * Send one email through the server as the signed-in user, returning its
+ * message id.
+ */
+export async function sendEmail(email: OutgoingEmail): Promise<{ messageId: string }> {
+  let response: Response;
+  try {
+    response = await fetch("/api/email/send", {
+      method: "POST",
+      headers: { ...(await authHeaders()), "Content-Type": "application/json" },
+      body: JSON.stringify(email),
+    });
+  } catch {
+    throw new Error("Network error. Please check your internet connection and try again.");
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new EmailApiError(data.error || `API Error: ${response.status}`, response.status);
+  }
+  return data;
+}
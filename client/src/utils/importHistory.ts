@@ -0,0 +1,347 @@
+import {
+  addDoc,
+  arrayUnion,
+  collection,
+  doc,
+  getDocs,
+  limit,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { toPhoneFields } from "@shared/phone";
+import { toAddressFields } from "@shared/address";
+import { createDuplicateChecker } from "./duplicate";
+import { saveVCardPhoto } from "./vcfImport";
+import type { ImportRow } from "./contactImport";
+
+// Quotas an import draws on: its contacts and the groups vCard categories add
+export type ImportQuotaResource = 'contacts' | 'groups';
+
+export type ImportSource = 'spreadsheet' | 'vcf';
+export type ImportStatus = 'running' | 'completed' | 'rolled_back' | 'undone';
+
+// One run of the contact importer; every contact it created carries its id
+// in `importId`
+export interface ContactImportRecord {
+  id: string;
+  ownerId: string;
+  fileName: string;
+  source: ImportSource;
+  status: ImportStatus;
+  total: number;
+  imported: number;
+  duplicates: number;
+  invalid: number;
+  // Valid rows left out because the contact limit was reached
+  skipped: number;
+  // Groups created for vCard categories no existing group matched
+  createdGroupIds: string[];
+  error?: string;
+  createdAt: Date;
+  undoneAt?: Date;
+}
+
+export interface ContactImportOptions {
+  fileName: string;
+  source: ImportSource;
+  // Existing groups, used to match vCard categories by name
+  groups: Array<{ id: string; name: string }>;
+  // Country for numbers written without a country code
+  defaultCountry?: string;
+  // Contacts that may still be created under the user's plan
+  maxContacts?: number;
+  // Create contacts or groups within the plan's quota, returning their
+  // ids; null when refused
+  createDocuments: (resource: ImportQuotaResource, documents: Record<string, unknown>[]) => Promise<string[] | null>;
+  // Give back quota once the server can see the documents are gone
+  releaseQuota: (resource: ImportQuotaResource) => Promise<void>;
+}
+
+export interface ContactImportUndoResult {
+  deletedContacts: number;
+  deletedGroups: number;
+}
+
+export interface ContactImportResult {
+  importId: string | null;
+  imported: number;
+  duplicates: number;
+  invalid: number;
+  skipped: number;
+  limitReached: boolean;
+  // vCard categories left unassigned because the group limit was reached
+  skippedGroups: string[];
+}
+
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 450;
+// and 30 values in an `in` filter
+const IN_FILTER_SIZE = 30;
+// Contacts sent to the server per create request
+const CREATE_SIZE = 50;
+
+export class ContactImportError extends Error {
+  constructor(message: string, public importId: string) {
+    super(message);
+    this.name = 'ContactImportError';
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/**
+ * Delete every contact created by an import, in batches. Returns the ids
+ * of the deleted contacts.
+ */
+async function deleteImportedContacts(userId: string, importId: string): Promise<string[]> {
+  const contactsQuery = query(
+    collection(db, "contacts"),
+    where("ownerId", "==", userId),
+    where("importId", "==", importId)
+  );
+  const snapshot = await getDocs(contactsQuery);
+
+  for (const docs of chunk(snapshot.docs, BATCH_SIZE)) {
+    const batch = writeBatch(db);
+    docs.forEach(d => batch.delete(d.ref));
+    await batch.commit();
+  }
+  return snapshot.docs.map(d => d.id);
+}
+
+/**
+ * Delete the documents in a collection that belong to any of the contacts,
+ * such as their timeline events or reminders
+ */
+async function deleteForContacts(collectionName: string, userId: string, contactIds: string[]): Promise<void> {
+  for (const ids of chunk(contactIds, IN_FILTER_SIZE)) {
+    const snapshot = await getDocs(query(
+      collection(db, collectionName),
+      where("ownerId", "==", userId),
+      where("contactId", "in", ids)
+    ));
+    if (snapshot.empty) continue;
+
+    const batch = writeBatch(db);
+    snapshot.docs.forEach(d => batch.delete(d.ref));
+    await batch.commit();
+  }
+}
+
+/**
+ * The groups no contact of the user is in any more
+ */
+async function findUnusedGroups(userId: string, groupIds: string[]): Promise<string[]> {
+  const unused: string[] = [];
+  for (const groupId of groupIds) {
+    const snapshot = await getDocs(query(
+      collection(db, "contacts"),
+      where("ownerId", "==", userId),
+      where("groupIds", "array-contains", groupId),
+      limit(1)
+    ));
+    if (snapshot.empty) unused.push(groupId);
+  }
+  return unused;
+}
+
+async function deleteGroups(groupIds: string[]): Promise<void> {
+  for (const ids of chunk(groupIds, BATCH_SIZE)) {
+    const batch = writeBatch(db);
+    ids.forEach(id => batch.delete(doc(db, "groups", id)));
+    await batch.commit();
+  }
+}
+
+/**
+ * Import validated rows as contacts. Duplicates are checked against one
+ * snapshot of the contact book, and contacts are written in batches stamped
+ * with the import's id. Each group created for a vCard category reserves
+ * groups quota first. If a batch fails, the contacts and groups already
+ * written are deleted again and the import is recorded as rolled back.
+ */
+export async function runContactImport(userId: string, rows: ImportRow[], options: ContactImportOptions): Promise<ContactImportResult> {
+  const valid = rows.filter(row => row.isValid);
+  const invalid = rows.length - valid.length;
+
+  // Older contacts store numbers as written, newer ones in E.164
+  const checker = await createDuplicateChecker(userId);
+  const fresh = valid.filter(row => {
+    const phones = [...row.phones, ...toPhoneFields(row.phones, options.defaultCountry).phones];
+    if (checker.isDuplicate(row.email, phones)) return false;
+    checker.add(row.email, phones);
+    return true;
+  });
+  const duplicates = valid.length - fresh.length;
+
+  const limit = Math.max(0, options.maxContacts ?? Infinity);
+  const toImport = fresh.slice(0, limit);
+  const skipped = fresh.length - toImport.length;
+
+  const result: ContactImportResult = {
+    importId: null,
+    imported: 0,
+    duplicates,
+    invalid,
+    skipped,
+    limitReached: skipped > 0,
+    skippedGroups: [],
+  };
+  if (toImport.length === 0) return result;
+
+  const importRef = await addDoc(collection(db, "imports"), {
+    ownerId: userId,
+    fileName: options.fileName,
+    source: options.source,
+    status: 'running',
+    total: rows.length,
+    imported: 0,
+    duplicates,
+    invalid,
+    skipped,
+    createdAt: serverTimestamp(),
+  });
+  result.importId = importRef.id;
+
+  const createdGroupIds: string[] = [];
+  let groupLimitReached = false;
+  try {
+    // vCard categories become groups, matched by name and created when missing
+    const groupIdsByName = new Map(options.groups.map(g => [g.name.trim().toLowerCase(), g.id]));
+    const resolveGroupIds = async (names: string[] = []) => {
+      const ids: string[] = [];
+      for (const name of names) {
+        const key = name.trim().toLowerCase();
+        if (!key) continue;
+        let groupId = groupIdsByName.get(key);
+        if (!groupId) {
+          // Once the group limit is reached, later categories are skipped too
+          const groupIds = groupLimitReached
+            ? null
+            : await options.createDocuments('groups', [{ name: name.trim(), tags: [] }]);
+          if (!groupIds) {
+            groupLimitReached = true;
+            if (!result.skippedGroups.includes(name.trim())) result.skippedGroups.push(name.trim());
+            continue;
+          }
+          groupId = groupIds[0];
+          createdGroupIds.push(groupId);
+          // Recorded straight away so undo finds it even if the import stops
+          await updateDoc(importRef, { createdGroupIds: arrayUnion(groupId) });
+          groupIdsByName.set(key, groupId);
+        }
+        if (!ids.includes(groupId)) ids.push(groupId);
+      }
+      return ids;
+    };
+
+    const contacts: Record<string, any>[] = [];
+    for (const row of toImport) {
+      const contactData: Record<string, any> = {
+        firstName: row.firstName,
+        lastName: row.lastName,
+        ...toPhoneFields(row.phones, options.defaultCountry, { faxes: row.faxes }),
+        email: row.email,
+        company: row.company,
+        services: row.services || '',
+        ...toAddressFields(row.address || '', options.defaultCountry, row.postalAddress),
+        website: row.website || '',
+        qrCodeUrl: row.qrCodeUrl || '',
+        groupIds: await resolveGroupIds(row.categories),
+        source: 'import',
+        importId: importRef.id,
+      };
+      if (row.emails && row.emails.length > 1) contactData.emails = row.emails;
+      if (row.addresses && row.addresses.length > 1) contactData.addresses = row.addresses;
+      if (row.notes) contactData.notes = row.notes;
+      if (Object.keys(row.customFields).length > 0) contactData.customFields = row.customFields;
+      if (row.photo) {
+        try {
+          const photoUrl = await saveVCardPhoto(userId, row.photo);
+          if (photoUrl) contactData.photoUrl = photoUrl;
+        } catch (error) {
+          console.error(`Error saving photo for ${row.firstName}:`, error);
+        }
+      }
+      contacts.push(contactData);
+    }
+
+    for (const contactsChunk of chunk(contacts, CREATE_SIZE)) {
+      // The limit can be reached part way when other contacts were created
+      // since the import started
+      if (!(await options.createDocuments('contacts', contactsChunk))) {
+        result.skipped += contacts.length - result.imported;
+        result.limitReached = true;
+        break;
+      }
+      result.imported += contactsChunk.length;
+    }
+
+    await updateDoc(importRef, { status: 'completed', imported: result.imported, skipped: result.skipped });
+    return result;
+  } catch (error) {
+    console.error("Import failed, rolling back:", error);
+    const message = error instanceof Error ? error.message : 'Import failed';
+    try {
+      await deleteImportedContacts(userId, importRef.id);
+      await deleteGroups(createdGroupIds);
+      await updateDoc(importRef, { status: 'rolled_back', imported: 0, error: message });
+      await options.releaseQuota('contacts');
+      if (createdGroupIds.length > 0) await options.releaseQuota('groups');
+    } catch (rollbackError) {
+      // Left as running so it can still be undone from the import history
+      console.error("Error rolling back import:", rollbackError);
+    }
+    throw new ContactImportError(message, importRef.id);
+  }
+}
+
+export async function loadImportHistory(userId: string): Promise<ContactImportRecord[]> {
+  const importsQuery = query(collection(db, "imports"), where("ownerId", "==", userId));
+  const snapshot = await getDocs(importsQuery);
+
+  return snapshot.docs
+    .map(d => {
+      const data = d.data();
+      return {
+        id: d.id,
+        ownerId: data.ownerId,
+        fileName: data.fileName || '',
+        source: data.source || 'spreadsheet',
+        status: data.status || 'completed',
+        total: data.total || 0,
+        imported: data.imported || 0,
+        duplicates: data.duplicates || 0,
+        invalid: data.invalid || 0,
+        skipped: data.skipped || 0,
+        createdGroupIds: data.createdGroupIds || [],
+        error: data.error,
+        createdAt: data.createdAt?.toDate() || new Date(),
+        undoneAt: data.undoneAt?.toDate(),
+      } as ContactImportRecord;
+    })
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Delete exactly the contacts an import created, with their timeline
+ * events and reminders, and mark it undone. Groups the import created are
+ * deleted too unless contacts added since are in them.
+ */
+export async function undoContactImport(record: ContactImportRecord): Promise<ContactImportUndoResult> {
+  const deleted = await deleteImportedContacts(record.ownerId, record.id);
+  await deleteForContacts("contactEvents", record.ownerId, deleted);
+  await deleteForContacts("reminders", record.ownerId, deleted);
+  const unusedGroups = await findUnusedGroups(record.ownerId, record.createdGroupIds);
+  await deleteGroups(unusedGroups);
+  await updateDoc(doc(db, "imports", record.id), { status: 'undone', undoneAt: serverTimestamp() });
+  return { deletedContacts: deleted.length, deletedGroups: unusedGroups.length };
+}
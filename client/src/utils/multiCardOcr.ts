@@ -1,9 +1,12 @@
+import type { CardCorners, CardPoint, CodeFormat, CodePayloadKind } from "@shared/schema";
 import type { ParsedContact } from "./parse";
-import QrScanner from 'qr-scanner';
-
-// Get API key from environment variables
-const GEMINI_API_KEY = import.meta.env?.VITE_GEMINI_API_KEY;
-const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent";
+import { normalizePhoneNumber, cleanExtractedField } from "@shared/contactFields";
+import { phonesMatch } from "@shared/phone";
+import { scanCardImage, ScanQuotaExceededError, type CardSide } from "./ocrApi";
+import { OcrScheduler } from "./ocrScheduler";
+import { detectCodes } from "./codeDetector";
+import { createVCard, serializeVCards } from "@shared/vcard";
+import { classifyCodePayload, extractContactFromText, parseMeCard } from "./codePayload";
 
 export interface MultiCardResult {
   cards: ParsedContact[];
@@ -16,605 +19,150 @@ interface QRCodeData {
   type: 'contact' | 'url' | 'text';
   data: string;
   extractedInfo?: any;
-  position?: { x: number; y: number; width: number; height: number };
+  kind: CodePayloadKind;
+  format: CodeFormat;
+  position?: CardPoint;
 }
 
 /**
- * Convert file to base64 with proper format detection and optimization
- */
-const getFileAsBase64 = async (file: File): Promise<{ base64: string; mimeType: string }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result as string;
-      const [header, base64] = result.split(',');
-      const mimeType = header.split(':')[1].split(';')[0];
-      resolve({ base64, mimeType });
-    };
-    reader.onerror = (error) => reject(new Error('Failed to read file: ' + error));
-    reader.readAsDataURL(file);
-  });
-};
-
-/**
- * Enhanced QR code extraction with better error handling and multiple format support
+ * Find and classify every QR code and barcode in the image. Detection
+ * failures never fail the scan; they just yield no codes.
  */
 async function extractQRCodes(file: File): Promise<QRCodeData[]> {
   try {
-    const qrCodes: QRCodeData[] = [];
-    const imageUrl = URL.createObjectURL(file);
-    const img = new Image();
-    
-    return new Promise((resolve) => {
-      img.onload = async () => {
-        try {
-          // Try multiple scanning approaches for better detection
-          const scanOptions = [
-            { returnDetailedScanResult: true },
-            { returnDetailedScanResult: true, highlightScanRegion: true },
-            { returnDetailedScanResult: true, highlightCodeOutline: true }
-          ];
-
-          for (const options of scanOptions) {
-            try {
-              const qrResult = await QrScanner.scanImage(img, options);
-              
-              if (qrResult?.data) {
-                const qrData = qrResult.data;
-                let qrInfo: QRCodeData = {
-                  type: 'text',
-                  data: qrData
-                };
-
-                // Enhanced QR code type detection and parsing
-                if (qrData.startsWith('BEGIN:VCARD')) {
-                  qrInfo.type = 'contact';
-                  qrInfo.extractedInfo = parseVCard(qrData);
-                } else if (qrData.startsWith('MECARD:')) {
-                  qrInfo.type = 'contact';
-                  qrInfo.extractedInfo = parseMeCard(qrData);
-                } else if (/^https?:\/\//.test(qrData)) {
-                  qrInfo.type = 'url';
-                  qrInfo.extractedInfo = { url: qrData };
-                } else if (qrData.includes('tel:') || qrData.includes('mailto:') || 
-                          /(\+?\d{1,4}[-.\s]?)?\(?\d{1,4}\)?[-.\s]?\d{1,4}[-.\s]?\d{1,9}/.test(qrData)) {
-                  qrInfo.type = 'contact';
-                  qrInfo.extractedInfo = extractContactFromText(qrData);
-                }
-
-                // Add position if available
-                if ('corner' in qrResult) {
-                  qrInfo.position = {
-                    x: Math.min(...qrResult.corner.map((p: any) => p.x)),
-                    y: Math.min(...qrResult.corner.map((p: any) => p.y)),
-                    width: Math.max(...qrResult.corner.map((p: any) => p.x)) - Math.min(...qrResult.corner.map((p: any) => p.x)),
-                    height: Math.max(...qrResult.corner.map((p: any) => p.y)) - Math.min(...qrResult.corner.map((p: any) => p.y))
-                  };
-                }
-
-                qrCodes.push(qrInfo);
-                break; // Found QR code, no need to try other options
-              }
-            } catch (scanError) {
-              console.log(`QR scan attempt failed:`, scanError);
-              continue;
-            }
-          }
-        } catch (error) {
-          console.log('QR code extraction error:', error);
-        }
-        
-        URL.revokeObjectURL(imageUrl);
-        resolve(qrCodes);
-      };
-      
-      img.onerror = () => {
-        URL.revokeObjectURL(imageUrl);
-        resolve(qrCodes);
-      };
-      
-      img.src = imageUrl;
-    });
+    const codes = await detectCodes(file);
+    return codes.map(code => ({
+      ...classifyCodePayload(code.data),
+      data: code.data,
+      format: code.format,
+      position: code.center,
+    }));
   } catch (error) {
     console.error('QR Code extraction error:', error);
     return [];
   }
 }
 
-/**
- * Enhanced vCard parser with better field handling
- */
-function parseVCard(vCardData: string): any {
-  const lines = vCardData.split(/\r?\n/);
-  const contact: any = {};
-  
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    if (!trimmedLine || trimmedLine.startsWith('BEGIN:') || 
-        trimmedLine.startsWith('END:') || trimmedLine.startsWith('VERSION:')) continue;
-    
-    const colonIndex = trimmedLine.indexOf(':');
-    if (colonIndex === -1) continue;
-    
-    const keyPart = trimmedLine.substring(0, colonIndex).trim();
-    const value = trimmedLine.substring(colonIndex + 1).trim();
-    
-    if (!value) continue;
-    
-    // Parse key and parameters
-    const [key, ...params] = keyPart.split(';');
-    const keyUpper = key.toUpperCase();
-    
-    switch (keyUpper) {
-      case 'FN':
-        contact.name = decodeVCardValue(value);
-        break;
-      case 'N':
-        // Parse structured name (Family;Given;Additional;Prefix;Suffix)
-        const nameParts = value.split(';').map(decodeVCardValue);
-        const lastName = nameParts[0] || '';
-        const firstName = nameParts[1] || '';
-        const middleName = nameParts[2] || '';
-        const prefix = nameParts[3] || '';
-        const suffix = nameParts[4] || '';
-        
-        const fullName = [prefix, firstName, middleName, lastName, suffix]
-          .filter(part => part.trim()).join(' ').trim();
-        if (fullName && !contact.name) contact.name = fullName;
-        break;
-      case 'ORG':
-        contact.company = decodeVCardValue(value);
-        break;
-      case 'EMAIL':
-        if (!contact.email) contact.email = decodeVCardValue(value).toLowerCase();
-        break;
-      case 'TEL':
-        if (!contact.phones) contact.phones = [];
-        const cleanPhone = normalizePhoneNumber(decodeVCardValue(value));
-        if (cleanPhone && !contact.phones.includes(cleanPhone)) {
-          contact.phones.push(cleanPhone);
-        }
-        break;
-      case 'URL':
-        if (!contact.website) contact.website = decodeVCardValue(value);
-        break;
-      case 'ADR':
-        // Parse structured address
-        const addressParts = value.split(';').map(decodeVCardValue).filter(part => part.trim());
-        if (addressParts.length > 0) contact.address = addressParts.join(', ');
-        break;
-      case 'TITLE':
-        if (!contact.services) contact.services = decodeVCardValue(value);
-        break;
-      case 'ROLE':
-        if (!contact.services) contact.services = decodeVCardValue(value);
-        break;
-      case 'NOTE':
-        if (!contact.services && value) contact.services = decodeVCardValue(value);
-        break;
+function isInsideOutline(point: CardPoint, corners: CardCorners): boolean {
+  // Ray casting
+  let inside = false;
+  for (let i = 0, j = corners.length - 1; i < corners.length; j = i++) {
+    const a = corners[i];
+    const b = corners[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
     }
   }
-  
-  return contact;
+  return inside;
 }
 
 /**
- * Enhanced MeCard parser
+ * Index of the card each code sits on. With one card every code belongs to
+ * it; otherwise a code goes to the card whose outline contains it, or the
+ * nearest outlined card. Codes that cannot be placed get -1.
  */
-function parseMeCard(meCardData: string): any {
-  const contact: any = {};
-  
-  try {
-    // Clean and parse MeCard format
-    const cleanData = meCardData.replace('MECARD:', '');
-    const fields = cleanData.split(';');
-    
-    for (const field of fields) {
-      const trimmedField = field.trim();
-      if (!trimmedField) continue;
-      
-      const colonIndex = trimmedField.indexOf(':');
-      if (colonIndex === -1) continue;
-      
-      const key = trimmedField.substring(0, colonIndex).trim().toUpperCase();
-      const value = trimmedField.substring(colonIndex + 1).trim();
-      
-      if (!value) continue;
-      
-      switch (key) {
-        case 'N':
-          // Parse name (lastname,firstname)
-          const nameParts = value.split(',');
-          const lastName = nameParts[0]?.trim() || '';
-          const firstName = nameParts[1]?.trim() || '';
-          contact.name = `${firstName} ${lastName}`.trim();
-          break;
-        case 'ORG':
-          contact.company = value;
-          break;
-        case 'EMAIL':
-          contact.email = value.toLowerCase();
-          break;
-        case 'TEL':
-          if (!contact.phones) contact.phones = [];
-          const phone = normalizePhoneNumber(value);
-          if (phone) contact.phones.push(phone);
-          break;
-        case 'URL':
-          contact.website = value;
-          break;
-        case 'ADR':
-          contact.address = value;
-          break;
-        case 'NOTE':
-          contact.services = value;
-          break;
+function assignCodesToCards(codes: QRCodeData[], cards: ParsedContact[]): number[] {
+  if (cards.length === 1) return codes.map(() => 0);
+
+  return codes.map(code => {
+    if (!code.position) return -1;
+    const position = code.position;
+
+    const containing = cards.findIndex(card => card.corners && isInsideOutline(position, card.corners));
+    if (containing !== -1) return containing;
+
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    cards.forEach((card, index) => {
+      if (!card.corners) return;
+      const cx = card.corners.reduce((sum, p) => sum + p.x, 0) / 4;
+      const cy = card.corners.reduce((sum, p) => sum + p.y, 0) / 4;
+      const distance = Math.hypot(position.x - cx, position.y - cy);
+      if (distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
       }
-    }
-  } catch (error) {
-    console.error('MeCard parsing error:', error);
-  }
-  
-  return contact;
+    });
+    return nearest;
+  });
 }
 
 /**
- * Enhanced contact extraction from plain text
+ * Fill a card's missing fields from a code's payload. Code payloads are
+ * machine-readable, so merged fields are high confidence.
  */
-function extractContactFromText(text: string): any {
-  const contact: any = {};
-  
-  try {
-    // Extract phone numbers with better regex
-    const phoneRegex = /(?:(?:\+|00)[1-9]\d{0,3}[-.\s]?)?(?:\(?\d{1,4}\)?[-.\s]?)?\d{1,4}[-.\s]?\d{1,4}[-.\s]?\d{1,9}/g;
-    const phones = text.match(phoneRegex)?.map(normalizePhoneNumber).filter(Boolean);
-    if (phones && phones.length > 0) contact.phones = [...new Set(phones)];
-    
-    // Extract email addresses
-    const emailRegex = /\b[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}\b/g;
-    const emails = text.match(emailRegex);
-    if (emails && emails.length > 0) contact.email = emails[0].toLowerCase();
-    
-    // Extract URLs
-    const urlRegex = /https?:\/\/(?:[-\w.])+(?:[:\d]+)?(?:\/(?:[\w/_.])*(?:\?(?:[\w&=%.])*)?(?:#(?:[\w.])*)?)?/g;
-    const urls = text.match(urlRegex);
-    if (urls && urls.length > 0) contact.website = urls[0];
-    
-    // Handle tel: and mailto: schemes
-    if (text.includes('tel:')) {
-      const telMatch = text.match(/tel:([\d+\-\s()]+)/);
-      if (telMatch) {
-        const phone = normalizePhoneNumber(telMatch[1]);
-        if (phone) {
-          if (!contact.phones) contact.phones = [];
-          contact.phones.push(phone);
-        }
-      }
-    }
-    
-    if (text.includes('mailto:')) {
-      const mailtoMatch = text.match(/mailto:([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/);
-      if (mailtoMatch && !contact.email) {
-        contact.email = mailtoMatch[1].toLowerCase();
-      }
+function mergeCodeIntoCard(card: ParsedContact, code: QRCodeData): void {
+  const info: ParsedContact = code.extractedInfo || {};
+
+  for (const field of ['name', 'company', 'email', 'website', 'address', 'services'] as const) {
+    if (info[field] && !card[field]) {
+      card[field] = field === 'email' ? info.email!.toLowerCase() : info[field];
+      card.fieldConfidence = { ...card.fieldConfidence, [field]: 'high' };
     }
-  } catch (error) {
-    console.error('Text extraction error:', error);
   }
-  
-  return contact;
-}
 
-/**
- * Decode vCard encoded values (handle quoted-printable, etc.)
- */
-function decodeVCardValue(value: string): string {
-  // Handle basic vCard escaping
-  return value
-    .replace(/\\n/g, '\n')
-    .replace(/\\,/g, ',')
-    .replace(/\\;/g, ';')
-    .replace(/\\\\/g, '\\');
-}
-
-/**
- * Normalize phone numbers to a consistent format
- */
-function normalizePhoneNumber(phone: string): string {
-  if (!phone) return '';
-  
-  // Remove all non-digit characters except +
-  let cleaned = phone.replace(/[^\d+]/g, '');
-  
-  // Handle different international formats
-  if (cleaned.startsWith('00')) {
-    cleaned = '+' + cleaned.substring(2);
+  if (info.phones && Array.isArray(info.phones)) {
+    // Numbers already read from the card are kept in their printed format
+    const known = [...(card.phones || [])];
+    const codePhones = info.phones.filter(phone => {
+      if (!normalizePhoneNumber(phone) || known.some(other => phonesMatch(other, phone))) return false;
+      known.push(phone);
+      return true;
+    });
+    if (codePhones.length > 0) {
+      card.phones = [...(card.phones || []), ...codePhones];
+    }
   }
-  
-  // Validate minimum length
-  if (cleaned.replace(/\+/, '').length < 7) return '';
-  
-  return cleaned;
-}
 
-/**
- * Clean and validate extracted text fields
- */
-function cleanExtractedField(value: any, type: 'text' | 'email' | 'url' | 'phone' = 'text'): string {
-  if (!value) return '';
-  
-  let cleaned = value.toString().trim();
-  
-  switch (type) {
-    case 'email':
-      cleaned = cleaned.toLowerCase();
-      // Validate email format
-      if (!/^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(cleaned)) {
-        return '';
-      }
-      break;
-    case 'url':
-      // Ensure URL has protocol
-      if (cleaned && !cleaned.startsWith('http')) {
-        cleaned = 'https://' + cleaned;
-      }
-      break;
-    case 'phone':
-      cleaned = normalizePhoneNumber(cleaned);
-      break;
+  // LinkedIn profiles and UPI addresses go alongside any handles already read
+  if (info.social && !card.social?.includes(info.social)) {
+    card.social = card.social ? `${card.social}, ${info.social}` : info.social;
   }
-  
-  return cleaned;
 }
 
 /**
- * Enhanced Gemini API call with improved prompting and error handling
+ * Read every business card in an image through the server OCR endpoint,
+ * merging in contact details found in QR codes
  */
-export async function processMultipleBusinessCards(file: File): Promise<MultiCardResult> {
+export async function processMultipleBusinessCards(file: File, side: CardSide = 'front'): Promise<MultiCardResult> {
   console.log('Starting enhanced multi-card processing...');
-  
-  if (!GEMINI_API_KEY) {
-    throw new Error("Gemini API key not found. Please set VITE_GEMINI_API_KEY environment variable.");
-  }
 
   const errors: string[] = [];
   const cards: ParsedContact[] = [];
+  let qrCodes: QRCodeData[] = [];
 
   try {
     // Extract QR codes first
     console.log('Extracting QR codes...');
-    const qrCodes = await extractQRCodes(file);
+    qrCodes = await extractQRCodes(file);
     console.log(`Found ${qrCodes.length} QR codes`);
 
-    // Convert image to base64
-    const { base64, mimeType } = await getFileAsBase64(file);
-
-    // Enhanced prompt with better instructions
-    const prompt = `
-Analyze this image that may contain one or more business cards. Extract information from EACH business card you can identify and return a JSON array.
-
-IMPORTANT INSTRUCTIONS:
-- Look carefully for multiple business cards in the image (side by side, overlapping, etc.)
-- Extract text accurately, don't hallucinate information
-- Pay special attention to phone numbers, emails, and names
-- Include ALL phone numbers (mobile and landline) in a single "phones" array
-- Clean up any OCR artifacts or unclear text
-
-For each business card found, return this JSON structure:
-
-[
-  {
-    "cardNumber": 1,
-    "name": "Full name (first and last name)",
-    "company": "Company or organization name",
-    "email": "email@domain.com",
-    "phones": ["all phone numbers including mobile and landline"],
-    "services": "Job title, position, or services description",
-    "address": "Complete address with street, city, state/province, postal code",
-    "website": "Website URL (include https://)",
-    "social": "Social media handles or other contact info",
-    "confidence": "high|medium|low - your confidence in the extraction"
-  }
-]
+    console.log('Calling OCR endpoint for multi-card detection...');
+    const result = await scanCardImage(file, { mode: 'multi', side });
+    errors.push(...result.errors);
 
-RULES:
-- Return a JSON array even for single cards
-- Use empty arrays [] for missing phones
-- Use empty string "" for missing text fields  
-- Include ALL phone numbers in the same "phones" array (don't separate mobile/landline)
-- Include country codes when visible
-- Extract complete, properly formatted addresses
-- Don't guess or make up information
-- Number cards starting from 1
-- Be conservative with confidence ratings
-`;
+    // Merge each code into the card it sits on
+    const owners = assignCodesToCards(qrCodes, result.cards);
 
-    const requestBody = {
-      contents: [
-        {
-          parts: [
-            {
-              text: prompt
-            },
-            {
-              inline_data: {
-                mime_type: mimeType,
-                data: base64
-              }
-            }
-          ]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.1,
-        topK: 1,
-        topP: 0.8,
-        maxOutputTokens: 8192,
-      },
-      safetySettings: [
-        {
-          category: "HARM_CATEGORY_HARASSMENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
-        {
-          category: "HARM_CATEGORY_HATE_SPEECH", 
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
-        {
-          category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        },
-        {
-          category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE"
-        }
-      ]
-    };
+    for (let i = 0; i < result.cards.length; i++) {
+      const cleanedCard: ParsedContact = { ...result.cards[i] };
+      const cardCodes = qrCodes.filter((_, index) => owners[index] === i);
 
-    console.log('Calling Gemini API for enhanced multi-card detection...');
-    const response = await fetch(`${GEMINI_API_URL}?key=${GEMINI_API_KEY}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Gemini API Error Response:', errorText);
-      throw new Error(`API Error: ${response.status} - ${errorText}`);
-    }
-
-    const result = await response.json();
-    console.log('Gemini API response received');
-    
-    if (!result.candidates || !result.candidates[0] || !result.candidates[0].content) {
-      throw new Error('Invalid response from Gemini API - no content found');
-    }
-
-    const extractedText = result.candidates[0].content.parts[0].text;
-    console.log('Raw API response:', extractedText);
-    
-    // Enhanced JSON extraction
-    let jsonText = extractedText.trim();
-    
-    // Remove markdown code blocks
-    jsonText = jsonText.replace(/```(?:json)?\s*/g, '').replace(/```\s*/g, '');
-    
-    // Find JSON array - try multiple patterns
-    let jsonMatch = jsonText.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      // Try finding JSON object and wrapping in array
-      const objectMatch = jsonText.match(/\{[\s\S]*\}/);
-      if (objectMatch) {
-        jsonText = `[${objectMatch[0]}]`;
-      } else {
-        throw new Error('No valid JSON found in API response');
+      if (cardCodes.length > 0) {
+        cleanedCard.qrCodes = cardCodes.map(({ type, data, extractedInfo, kind, format }) => ({ type, data, extractedInfo, kind, format }));
+        cardCodes.forEach(code => mergeCodeIntoCard(cleanedCard, code));
       }
-    } else {
-      jsonText = jsonMatch[0];
-    }
-
-    try {
-      const parsedCards = JSON.parse(jsonText) as any[];
-      
-      // Process each detected card
-      for (let i = 0; i < parsedCards.length; i++) {
-        const cardData = parsedCards[i];
-        
-        try {
-          // Enhanced data cleaning and validation
-          const cleanedCard: ParsedContact = {};
-
-          // Clean text fields
-          if (cardData.name) cleanedCard.name = cleanExtractedField(cardData.name, 'text');
-          if (cardData.company) cleanedCard.company = cleanExtractedField(cardData.company, 'text');
-          if (cardData.email) {
-            const cleanEmail = cleanExtractedField(cardData.email, 'email');
-            if (cleanEmail) cleanedCard.email = cleanEmail;
-          }
-          if (cardData.services) cleanedCard.services = cleanExtractedField(cardData.services, 'text');
-          if (cardData.address) cleanedCard.address = cleanExtractedField(cardData.address, 'text');
-          if (cardData.website) {
-            const cleanWebsite = cleanExtractedField(cardData.website, 'url');
-            if (cleanWebsite) cleanedCard.website = cleanWebsite;
-          }
-          if (cardData.social) cleanedCard.social = cleanExtractedField(cardData.social, 'text');
 
-          // Process all phone numbers into a single array
-          const allPhones: string[] = [];
-          
-          if (Array.isArray(cardData.phones)) {
-            allPhones.push(...cardData.phones.map((p: any) => cleanExtractedField(p, 'phone')).filter(Boolean));
-          }
-          
-          // Remove duplicates and set phones array
-          if (allPhones.length > 0) {
-            cleanedCard.phones = [...new Set(allPhones)];
-          }
-
-          // Merge QR code data if available and relevant
-          if (qrCodes.length > 0) {
-            cleanedCard.qrCodes = qrCodes;
-            
-            for (const qr of qrCodes) {
-              if (qr.type === 'contact' && qr.extractedInfo) {
-                const qrContact = qr.extractedInfo;
-                
-                // Only merge if current field is empty or QR data seems more complete
-                if (qrContact.name && !cleanedCard.name) cleanedCard.name = qrContact.name;
-                if (qrContact.company && !cleanedCard.company) cleanedCard.company = qrContact.company;
-                if (qrContact.email && !cleanedCard.email) cleanedCard.email = qrContact.email.toLowerCase();
-                if (qrContact.website && !cleanedCard.website) cleanedCard.website = qrContact.website;
-                if (qrContact.address && !cleanedCard.address) cleanedCard.address = qrContact.address;
-                if (qrContact.services && !cleanedCard.services) cleanedCard.services = qrContact.services;
-                
-                // Merge phone numbers into single phones array
-                if (qrContact.phones && Array.isArray(qrContact.phones)) {
-                  const qrPhones = qrContact.phones.map(normalizePhoneNumber).filter(Boolean);
-                  if (qrPhones.length > 0) {
-                    cleanedCard.phones = [...new Set([...(cleanedCard.phones || []), ...qrPhones])];
-                  }
-                }
-              }
-            }
-          }
-
-          // Final validation - only add card if it has substantial information
-          const hasSubstantialInfo = cleanedCard.name || cleanedCard.company || 
-                                   cleanedCard.email || cleanedCard.phones;
-          
-          if (hasSubstantialInfo) {
-            // Remove empty fields
-            Object.keys(cleanedCard).forEach(key => {
-              const value = cleanedCard[key as keyof ParsedContact];
-              if (!value || (Array.isArray(value) && value.length === 0) || value === '') {
-                delete cleanedCard[key as keyof ParsedContact];
-              }
-            });
-
-            cards.push(cleanedCard);
-            console.log(`Successfully processed card ${i + 1}:`, cleanedCard);
-          } else {
-            errors.push(`Card ${i + 1} skipped - insufficient information extracted`);
-          }
-          
-        } catch (cardError: any) {
-          const errorMsg = `Error processing card ${i + 1}: ${cardError.message}`;
-          console.error(errorMsg);
-          errors.push(errorMsg);
-        }
-      }
-      
-    } catch (parseError: any) {
-      console.error('JSON parsing error:', parseError);
-      console.error('Failed to parse text:', jsonText);
-      throw new Error(`Failed to parse extracted card data: ${parseError.message}. Please try with a clearer image.`);
+      cards.push(cleanedCard);
+      console.log(`Successfully processed card ${i + 1}:`, cleanedCard);
     }
 
   } catch (error: any) {
     console.error('Multi-card OCR Error:', error);
+    if (error instanceof ScanQuotaExceededError) {
+      throw error;
+    }
+
     const errorMsg = `Processing failed: ${error.message}`;
     errors.push(errorMsg);
     
@@ -627,7 +175,7 @@ RULES:
     cards,
     totalProcessed: cards.length,
     errors,
-    qrCodesFound: await extractQRCodes(file).then(codes => codes.length)
+    qrCodesFound: qrCodes.length
   };
 }
 
@@ -781,21 +329,22 @@ export async function preprocessImageForOCR(file: File): Promise<File> {
 }
 
 /**
- * Batch processing for multiple files
+ * Batch processing for multiple files, scanned concurrently under the OCR
+ * scheduler's rate limit
  */
-export async function processBatchBusinessCards(files: File[]): Promise<{
+export async function processBatchBusinessCards(
+  files: File[],
+  scheduler: OcrScheduler = new OcrScheduler()
+): Promise<{
   results: MultiCardResult[];
   totalCards: number;
   totalErrors: string[];
   processingTime: number;
 }> {
   const startTime = Date.now();
-  const results: MultiCardResult[] = [];
-  const totalErrors: string[] = [];
-  let totalCards = 0;
+  scheduler.expect(files.length);
   
-  for (let i = 0; i < files.length; i++) {
-    const file = files[i];
+  const results = await Promise.all(files.map(async (file, i): Promise<MultiCardResult> => {
     console.log(`Processing file ${i + 1}/${files.length}: ${file.name}`);
     
     try {
@@ -803,33 +352,31 @@ export async function processBatchBusinessCards(files: File[]): Promise<{
       
       // Optionally preprocess image for better results
       const preprocessedFile = await preprocessImageForOCR(file);
-      const result = await processMultipleBusinessCards(preprocessedFile);
-      
-      results.push(result);
-      totalCards += result.totalProcessed;
-      totalErrors.push(...result.errors);
+      const result = await scheduler.schedule(() => processMultipleBusinessCards(preprocessedFile));
+      scheduler.recordResult(true);
+      return result;
       
     } catch (error: any) {
       const errorMsg = `Failed to process ${file.name}: ${error.message}`;
       console.error(errorMsg);
-      totalErrors.push(errorMsg);
+      scheduler.recordResult(false);
       
       // Add empty result for failed file
-      results.push({
+      return {
         cards: [],
         totalProcessed: 0,
         errors: [errorMsg],
         qrCodesFound: 0
-      });
+      };
     }
-  }
+  }));
   
   const processingTime = Date.now() - startTime;
   
   return {
     results,
-    totalCards,
-    totalErrors,
+    totalCards: results.reduce((sum, r) => sum + r.totalProcessed, 0),
+    totalErrors: results.flatMap(r => r.errors),
     processingTime
   };
 }
@@ -842,34 +389,18 @@ export class ContactExporter {
    * Export to VCF (vCard) format
    */
   static toVCF(contacts: ParsedContact[]): string {
-    return contacts.map(contact => {
-      const vcard = ['BEGIN:VCARD', 'VERSION:3.0'];
-      
-      if (contact.name) {
-        vcard.push(`FN:${contact.name}`);
-        const nameParts = contact.name.split(' ');
-        const firstName = nameParts[0] || '';
-        const lastName = nameParts.slice(1).join(' ') || '';
-        vcard.push(`N:${lastName};${firstName};;;`);
-      }
-      
-      if (contact.company) vcard.push(`ORG:${contact.company}`);
-      if (contact.services) vcard.push(`TITLE:${contact.services}`);
-      if (contact.email) vcard.push(`EMAIL:${contact.email}`);
-      if (contact.website) vcard.push(`URL:${contact.website}`);
-      if (contact.address) vcard.push(`ADR:;;${contact.address};;;;`);
-      
-      if (contact.phones) {
-        contact.phones.forEach(phone => {
-          vcard.push(`TEL:${phone}`);
-        });
-      }
-      
-      if (contact.social) vcard.push(`NOTE:${contact.social}`);
-      
-      vcard.push('END:VCARD');
-      return vcard.join('\r\n');
-    }).join('\r\n\r\n');
+    return serializeVCards(contacts.map(contact => createVCard({
+      fullName: contact.name,
+      company: contact.company,
+      title: contact.services,
+      phones: contact.phones,
+      landlines: contact.landlines,
+      faxes: contact.faxes,
+      emails: contact.email ? [contact.email] : [],
+      urls: contact.website ? [contact.website] : [],
+      address: contact.address,
+      note: contact.social,
+    })));
   }
   
   /**
@@ -1041,7 +572,7 @@ export function deduplicateContacts(contacts: ParsedContact[]): {
 /**
  * Calculate similarity between two contacts
  */
-function calculateContactSimilarity(contact1: ParsedContact, contact2: ParsedContact): number {
+export function calculateContactSimilarity(contact1: ParsedContact, contact2: ParsedContact): number {
   let matches = 0;
   let total = 0;
   
@@ -1069,11 +600,7 @@ function calculateContactSimilarity(contact1: ParsedContact, contact2: ParsedCon
   
   if (phones1.length > 0 && phones2.length > 0) {
     total++;
-    const overlap = phones1.some(p1 => 
-      phones2.some(p2 => 
-        normalizePhoneNumber(p1) === normalizePhoneNumber(p2)
-      )
-    );
+    const overlap = phones1.some(p1 => phones2.some(p2 => phonesMatch(p1, p2)));
     if (overlap) matches++;
   }
   
@@ -1093,7 +620,7 @@ function calculateContactSimilarity(contact1: ParsedContact, contact2: ParsedCon
 /**
  * Simple string similarity calculation (Jaro-Winkler approximation)
  */
-function calculateStringSimilarity(str1: string, str2: string): number {
+export function calculateStringSimilarity(str1: string, str2: string): number {
   if (str1 === str2) return 1;
   if (str1.length === 0 || str2.length === 0) return 0;
   
@@ -1171,7 +698,7 @@ function mergeContactInformation(target: ParsedContact, source: ParsedContact):
 // Export all functions and classes
 export {
   extractQRCodes,
-  parseVCard,
+  mergeContactInformation,
   parseMeCard,
   extractContactFromText,
   normalizePhoneNumber,
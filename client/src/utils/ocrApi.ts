@@ -0,0 +1,82 @@
+import { authHeaders } from "@/lib/queryClient";
+import type { ParsedContact } from "./parse";
+
+export type ScanMode = "single" | "multi";
+
+// Back sides are kept when they hold only an address or website
+export type CardSide = "front" | "back";
+
+export interface ScanResponse {
+  cards: ParsedContact[];
+  errors: string[];
+  provider: string;
+}
+
+/**
+ * Thrown when the server refuses a scan because the user's aiScans quota
+ * is used up.
+ */
+export class ScanQuotaExceededError extends Error {
+  constructor(message = "AI scan limit reached for your plan") {
+    super(message);
+    this.name = "ScanQuotaExceededError";
+  }
+}
+
+/**
+ * Error response from the OCR endpoint. 429 and 503 mean the model is
+ * throttling or unavailable and the request can be retried later.
+ */
+export class ScanApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ScanApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * Send an image to the server OCR proxy and return the cards it read. The
+ * scan is charged to the signed-in user.
+ */
+export async function scanCardImage(
+  image: Blob,
+  { mode = "multi", side = "front" }: { mode?: ScanMode; side?: CardSide } = {}
+): Promise<ScanResponse> {
+  const params = new URLSearchParams({ mode, side });
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
+
+  const headers = await authHeaders();
+
+  let response: Response;
+  try {
+    response = await fetch(`/api/ocr/scan?${params}`, {
+      method: "POST",
+      headers: { ...headers, "Content-Type": image.type || "image/jpeg" },
+      body: image,
+      signal: controller.signal,
+    });
+  } catch (error: any) {
+    if (error.name === "AbortError") {
+      throw new Error("API request timeout. Please try again.");
+    }
+    throw new Error("Network error. Please check your internet connection and try again.");
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    if (response.status === 403 && data.resource === "aiScans") {
+      throw new ScanQuotaExceededError();
+    }
+    throw new ScanApiError(data.error || `API Error: ${response.status}`, response.status);
+  }
+
+  return data as ScanResponse;
+}
@@ -0,0 +1,228 @@
+export interface OcrSchedulerOptions {
+  concurrency: number;
+  requestsPerMinute: number;
+  burst: number;
+}
+
+export interface OcrSchedulerStats {
+  total: number;
+  completed: number;
+  failed: number;
+  inFlight: number;
+  concurrency: number;
+  throughputPerMinute: number;
+  etaSeconds: number | null;
+  throttledUntil: number | null;
+}
+
+const MAX_THROTTLE_DELAY_MS = 60000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const readPositiveInt = (value: unknown, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Scheduler defaults, overridable with VITE_OCR_CONCURRENCY and
+ * VITE_OCR_REQUESTS_PER_MINUTE
+ */
+export function getOcrSchedulerOptions(): OcrSchedulerOptions {
+  const env = import.meta.env ?? {};
+  const concurrency = readPositiveInt(env.VITE_OCR_CONCURRENCY, 3);
+  return {
+    concurrency,
+    requestsPerMinute: readPositiveInt(env.VITE_OCR_REQUESTS_PER_MINUTE, 30),
+    burst: concurrency,
+  };
+}
+
+/**
+ * True for responses that mean the model is throttling or temporarily
+ * unavailable
+ */
+export function isThrottleError(error: any): boolean {
+  return error?.status === 429 || error?.status === 503;
+}
+
+/**
+ * Classic token bucket: holds up to `capacity` tokens and refills at a
+ * steady rate. Each request takes one token, waiting when none are left.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond);
+    this.updatedAt = now;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await delay(((1 - this.tokens) / this.refillPerSecond) * 1000);
+    }
+  }
+}
+
+/**
+ * Runs OCR requests with bounded concurrency under a token-bucket rate
+ * limit. A 429 or 503 pauses every request with exponential backoff and
+ * halves the concurrency; it grows back one slot at a time as requests
+ * succeed. Callers report per-file outcomes with `recordResult` so the
+ * stats carry throughput and an ETA.
+ */
+export class OcrScheduler {
+  private bucket: TokenBucket;
+  private limit: number;
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private throttledUntil = 0;
+  private throttleStreak = 0;
+  private successStreak = 0;
+  private stopError: Error | null = null;
+
+  private total = 0;
+  private completed = 0;
+  private failed = 0;
+  private startedAt: number | null = null;
+  private listeners = new Set<(stats: OcrSchedulerStats) => void>();
+
+  constructor(private options: OcrSchedulerOptions = getOcrSchedulerOptions()) {
+    this.bucket = new TokenBucket(options.burst, options.requestsPerMinute / 60);
+    this.limit = options.concurrency;
+  }
+
+  /**
+   * Add files to the progress totals
+   */
+  expect(count: number) {
+    this.total += count;
+    this.emit();
+  }
+
+  recordResult(ok: boolean) {
+    if (ok) {
+      this.completed++;
+    } else {
+      this.failed++;
+    }
+    this.emit();
+  }
+
+  subscribe(listener: (stats: OcrSchedulerStats) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reject every waiting and future request with `error`
+   */
+  stop(error: Error) {
+    this.stopError = error;
+    this.waiting.splice(0).forEach(wake => wake());
+  }
+
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      await this.waitForThrottle();
+      await this.bucket.take();
+      if (this.stopError) throw this.stopError;
+
+      this.startedAt ??= Date.now();
+      const result = await task();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isThrottleError(error)) this.onThrottle();
+      throw error;
+    } finally {
+      this.release();
+    }
+  }
+
+  getStats(): OcrSchedulerStats {
+    const done = this.completed + this.failed;
+    const elapsedMinutes = this.startedAt ? (Date.now() - this.startedAt) / 60000 : 0;
+    const throughputPerMinute = elapsedMinutes > 0 ? done / elapsedMinutes : 0;
+    const remaining = Math.max(0, this.total - done);
+
+    return {
+      total: this.total,
+      completed: this.completed,
+      failed: this.failed,
+      inFlight: this.active,
+      concurrency: this.limit,
+      throughputPerMinute,
+      etaSeconds: throughputPerMinute > 0 ? Math.round((remaining / throughputPerMinute) * 60) : null,
+      throttledUntil: this.throttledUntil > Date.now() ? this.throttledUntil : null,
+    };
+  }
+
+  private emit() {
+    const stats = this.getStats();
+    this.listeners.forEach(listener => listener(stats));
+  }
+
+  private async acquire() {
+    while (this.active >= this.limit && !this.stopError) {
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+    if (this.stopError) throw this.stopError;
+    this.active++;
+  }
+
+  private release() {
+    this.active--;
+    this.waiting.shift()?.();
+    this.emit();
+  }
+
+  private async waitForThrottle() {
+    while (Date.now() < this.throttledUntil) {
+      await delay(this.throttledUntil - Date.now());
+    }
+  }
+
+  private onThrottle() {
+    this.throttleStreak++;
+    this.successStreak = 0;
+    this.limit = Math.max(1, Math.floor(this.limit / 2));
+    const backoff = Math.min(MAX_THROTTLE_DELAY_MS, 2000 * Math.pow(2, this.throttleStreak - 1));
+    this.throttledUntil = Math.max(this.throttledUntil, Date.now() + backoff);
+  }
+
+  private onSuccess() {
+    this.throttleStreak = 0;
+    this.successStreak++;
+    if (this.limit < this.options.concurrency && this.successStreak >= this.limit * 2) {
+      this.limit++;
+      this.successStreak = 0;
+      this.waiting.shift()?.();
+    }
+  }
+}
+
+/**
+ * Human-readable ETA, e.g. "2m 05s"
+ */
+export function formatEta(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
@@ -0,0 +1,185 @@
+import { addDoc, collection, deleteDoc, doc, getDocs, query, serverTimestamp, Timestamp, updateDoc, where, writeBatch } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+
+export type ReminderChannel = 'whatsapp' | 'call' | 'email' | 'meeting' | 'other';
+
+export const REMINDER_CHANNELS: Array<{ value: ReminderChannel; label: string }> = [
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'call', label: 'Call' },
+  { value: 'email', label: 'Email' },
+  { value: 'meeting', label: 'Meeting' },
+  { value: 'other', label: 'Other' },
+];
+
+// A follow-up task on a contact
+export interface Reminder {
+  id: string;
+  ownerId: string;
+  contactId: string;
+  // Kept on the reminder so lists need not load every contact
+  contactName: string;
+  dueAt: Date;
+  note: string;
+  channel: ReminderChannel;
+  // Set when the reminder was created for a whole scan batch at once
+  batchId: string | null;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ReminderInput {
+  dueAt: Date;
+  note: string;
+  channel: ReminderChannel;
+}
+
+export interface ReminderContact {
+  id: string;
+  name: string;
+}
+
+// Firestore limits a batch to 500 writes
+const BATCH_SIZE = 450;
+
+function toReminder(id: string, data: any): Reminder {
+  return {
+    id,
+    ownerId: data.ownerId,
+    contactId: data.contactId,
+    contactName: data.contactName || '',
+    dueAt: data.dueAt?.toDate() || new Date(),
+    note: data.note || '',
+    channel: data.channel || 'other',
+    batchId: data.batchId || null,
+    completedAt: data.completedAt?.toDate() || null,
+    createdAt: data.createdAt?.toDate() || new Date(),
+  };
+}
+
+const reminderData = (userId: string, contact: ReminderContact, input: ReminderInput, batchId: string | null) => ({
+  ownerId: userId,
+  contactId: contact.id,
+  contactName: contact.name,
+  dueAt: Timestamp.fromDate(input.dueAt),
+  note: input.note.trim(),
+  channel: input.channel,
+  batchId,
+  completedAt: null,
+  createdAt: serverTimestamp(),
+});
+
+/**
+ * Midnight at the start of the day `days` days from today
+ */
+export function daysFromToday(days: number): Date {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + days);
+  return date;
+}
+
+/**
+ * Whether an open reminder is due by the end of today, overdue included
+ */
+export function isReminderDue(reminder: Reminder): boolean {
+  return !reminder.completedAt && reminder.dueAt < daysFromToday(1);
+}
+
+export async function createReminder(userId: string, contact: ReminderContact, input: ReminderInput): Promise<string> {
+  const ref = await addDoc(collection(db, "reminders"), reminderData(userId, contact, input, null));
+  return ref.id;
+}
+
+/**
+ * One reminder per contact, sharing a batch id so they read as one follow-up
+ */
+export async function createBatchReminders(userId: string, contacts: ReminderContact[], input: ReminderInput): Promise<number> {
+  const batchId = doc(collection(db, "reminders")).id;
+
+  for (let start = 0; start < contacts.length; start += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    contacts.slice(start, start + BATCH_SIZE).forEach(contact => {
+      batch.set(doc(collection(db, "reminders")), reminderData(userId, contact, input, batchId));
+    });
+    await batch.commit();
+  }
+
+  return contacts.length;
+}
+
+/**
+ * Every reminder of the user, soonest first
+ */
+export async function loadReminders(userId: string): Promise<Reminder[]> {
+  const remindersQuery = query(collection(db, "reminders"), where("ownerId", "==", userId));
+  const snapshot = await getDocs(remindersQuery);
+  return snapshot.docs
+    .map(d => toReminder(d.id, d.data()))
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+/**
+ * Open reminders due today or earlier, oldest first
+ */
+export async function loadDueReminders(userId: string): Promise<Reminder[]> {
+  return (await loadReminders(userId)).filter(isReminderDue);
+}
+
+/**
+ * A contact's reminders: open ones soonest first, then completed ones
+ */
+export async function loadContactReminders(userId: string, contactId: string): Promise<Reminder[]> {
+  const remindersQuery = query(
+    collection(db, "reminders"),
+    where("ownerId", "==", userId),
+    where("contactId", "==", contactId)
+  );
+  const snapshot = await getDocs(remindersQuery);
+  return snapshot.docs
+    .map(d => toReminder(d.id, d.data()))
+    .sort((a, b) => Number(!!a.completedAt) - Number(!!b.completedAt) || a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+export async function setReminderCompleted(reminderId: string, completed: boolean): Promise<void> {
+  await updateDoc(doc(db, "reminders", reminderId), {
+    completedAt: completed ? serverTimestamp() : null,
+  });
+}
+
+export async function deleteReminder(reminderId: string): Promise<void> {
+  await deleteDoc(doc(db, "reminders", reminderId));
+}
+
+/**
+ * Delete a contact's reminders along with the contact
+ */
+export async function deleteContactReminders(userId: string, contactId: string): Promise<void> {
+  const remindersQuery = query(
+    collection(db, "reminders"),
+    where("ownerId", "==", userId),
+    where("contactId", "==", contactId)
+  );
+  const snapshot = await getDocs(remindersQuery);
+  if (snapshot.empty) return;
+
+  const batch = writeBatch(db);
+  snapshot.docs.forEach(d => batch.delete(d.ref));
+  await batch.commit();
+}
+
+/**
+ * Move reminders to the contact that another was merged into
+ */
+export async function reassignContactReminders(userId: string, fromContactId: string, toContact: ReminderContact): Promise<void> {
+  const remindersQuery = query(
+    collection(db, "reminders"),
+    where("ownerId", "==", userId),
+    where("contactId", "==", fromContactId)
+  );
+  const snapshot = await getDocs(remindersQuery);
+  if (snapshot.empty) return;
+
+  const batch = writeBatch(db);
+  snapshot.docs.forEach(d => batch.update(d.ref, { contactId: toContact.id, contactName: toContact.name }));
+  await batch.commit();
+}
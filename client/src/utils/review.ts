@@ -0,0 +1,48 @@
+import type { ConfidenceLevel, ContactField } from "@shared/schema";
+import { assessContactQuality } from "./multiCardOcr";
+import type { ParsedContact } from "./parse";
+
+// Cards scoring below this in assessContactQuality wait for a person
+export const REVIEW_SCORE_THRESHOLD = 60;
+
+// A low-confidence read of any of these always needs a second look
+const ESSENTIAL_FIELDS: ContactField[] = ['name', 'email', 'phones'];
+
+export interface ReviewAssessment {
+  needsReview: boolean;
+  score: number;
+  issues: string[];
+  lowConfidenceFields: ContactField[];
+}
+
+/**
+ * Decide whether a scanned card can be saved as-is or should go to the
+ * review queue, combining the quality score with the model's confidence
+ */
+export function assessForReview(contact: ParsedContact): ReviewAssessment {
+  const { score, issues } = assessContactQuality(contact);
+
+  const lowConfidenceFields = (Object.keys(contact.fieldConfidence || {}) as ContactField[])
+    .filter(field => contact.fieldConfidence?.[field] === 'low');
+
+  const reasons = [...issues];
+  if (contact.confidence === 'low') {
+    reasons.push('Low overall extraction confidence');
+  }
+  if (lowConfidenceFields.length > 0) {
+    reasons.push(`Unclear: ${lowConfidenceFields.join(', ')}`);
+  }
+
+  return {
+    needsReview: score < REVIEW_SCORE_THRESHOLD
+      || contact.confidence === 'low'
+      || lowConfidenceFields.some(field => ESSENTIAL_FIELDS.includes(field)),
+    score,
+    issues: reasons,
+    lowConfidenceFields,
+  };
+}
+
+export function getFieldConfidence(contact: ParsedContact, field: ContactField): ConfidenceLevel | undefined {
+  return contact.fieldConfidence?.[field];
+}
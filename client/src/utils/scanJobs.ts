@@ -0,0 +1,562 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  query,
+  runTransaction,
+  serverTimestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { cropCardImage, isFullFrame } from "./cardCrop";
+import type { ContactField } from "@shared/schema";
+import { mergeContactInformation, processMultipleBusinessCards } from "./multiCardOcr";
+import { ScanQuotaExceededError } from "./ocrApi";
+import { OcrScheduler, isThrottleError, type OcrSchedulerStats } from "./ocrScheduler";
+import { uploadToStorage } from "./upload";
+import type { ParsedContact } from "./parse";
+
+export type ScanFileStatus = 'queued' | 'uploading' | 'scanning' | 'needs_review' | 'saved' | 'failed';
+
+export interface ScanJobCard extends ParsedContact {
+  id: string;
+  saved?: boolean;
+  // The contact the card was saved as
+  contactId?: string;
+  reviewStatus?: 'approved' | 'rejected';
+  // Image of this card alone, cropped out of the scan when it holds several
+  frontImageUrl?: string;
+  backImageUrl?: string;
+}
+
+export interface ScanJobFile {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  isFromCamera: boolean;
+  status: ScanFileStatus;
+  attempts: number;
+  imageUrl?: string;
+  error?: string;
+  warnings?: string[];
+  cards: ScanJobCard[];
+  // Set on the back side of a card: the id of the file holding its front
+  backOf?: string;
+  // The back's cards have been merged into the front file's cards
+  merged?: boolean;
+}
+
+export interface ScanJob {
+  id: string;
+  ownerId: string;
+  files: ScanJobFile[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const MAX_SCAN_ATTEMPTS = 3;
+// Throttled requests are paused by the scheduler rather than counted as
+// failed attempts, up to this many times per file
+const MAX_THROTTLED_ATTEMPTS = 6;
+
+// Files picked in this tab, keyed by job and file id. Anything not uploaded
+// before the tab closes cannot be recovered on resume.
+const pendingFiles = new Map<string, File>();
+const activeRuns = new Map<string, Promise<ScanJob>>();
+// Applies a change to the files of a job running in this tab, keyed by job
+// id. The run rewrites the whole files list, so changes made while it runs
+// must go through it or its next write would undo them.
+const activeEdits = new Map<string, (update: (files: ScanJobFile[]) => ScanJobFile[]) => Promise<void>>();
+
+const fileKey = (jobId: string, fileId: string) => `${jobId}/${fileId}`;
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Firestore rejects undefined values, so drop them before writing
+const toFirestoreFiles = (files: ScanJobFile[]) => JSON.parse(JSON.stringify(files));
+
+// A running job saves its files at most this often
+const SAVE_INTERVAL_MS = 2000;
+
+/**
+ * Coalesces a running job's file changes into one write per interval, so
+ * a batch doesn't rewrite the job document on every status change. Writes
+ * run one at a time and always carry the latest files.
+ */
+function createFilesWriter(jobId: string) {
+  let latest: ScanJobFile[] | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let writing: Promise<void> = Promise.resolve();
+
+  const writeLatest = async () => {
+    if (!latest) return;
+    const files = latest;
+    latest = null;
+    try {
+      await updateDoc(doc(db, "scanJobs", jobId), {
+        files: toFirestoreFiles(files),
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      // Keep the files for the next write unless newer ones arrived
+      if (!latest) latest = files;
+      throw error;
+    }
+  };
+
+  const enqueue = () => {
+    const next = writing.then(writeLatest);
+    writing = next.catch(() => {});
+    return next;
+  };
+
+  return {
+    save(files: ScanJobFile[]) {
+      latest = files;
+      if (timer) return;
+      timer = setTimeout(() => {
+        timer = undefined;
+        enqueue().catch(error => console.error('Error saving scan job:', error));
+      }, SAVE_INTERVAL_MS);
+    },
+    // Write any pending changes now
+    flush() {
+      clearTimeout(timer);
+      timer = undefined;
+      return enqueue();
+    },
+  };
+}
+
+function toScanJob(id: string, data: any): ScanJob {
+  return {
+    id,
+    ownerId: data.ownerId,
+    files: data.files || [],
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+  };
+}
+
+/**
+ * Progress counts for a job's files
+ */
+export function getScanJobSummary(job: ScanJob) {
+  const count = (status: ScanFileStatus) => job.files.filter(f => f.status === status).length;
+  const pending = count('queued') + count('uploading') + count('scanning');
+  const needsReview = count('needs_review');
+  const saved = count('saved');
+  const failed = count('failed');
+  const total = job.files.length;
+
+  return {
+    total,
+    pending,
+    needsReview,
+    saved,
+    failed,
+    done: total - pending,
+    cards: job.files.reduce((sum, f) => sum + f.cards.length, 0),
+    isUnfinished: pending > 0,
+  };
+}
+
+export interface CreateScanJobOptions {
+  // Treat consecutive images as the front and back of one card
+  pairSides?: boolean;
+}
+
+/**
+ * Record a new bulk scan for the user. Files are held in memory until the
+ * runner uploads them.
+ */
+export async function createScanJob(
+  userId: string,
+  files: File[],
+  { pairSides = false }: CreateScanJobOptions = {}
+): Promise<ScanJob> {
+  const jobFiles: ScanJobFile[] = files.map(file => ({
+    id: Math.random().toString(36).substr(2, 9),
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    isFromCamera: file.name.includes('camera-capture'),
+    status: 'queued',
+    attempts: 0,
+    cards: [],
+  }));
+
+  if (pairSides) {
+    for (let i = 1; i < jobFiles.length; i += 2) {
+      jobFiles[i].backOf = jobFiles[i - 1].id;
+    }
+  }
+
+  const ref = await addDoc(collection(db, "scanJobs"), {
+    ownerId: userId,
+    files: jobFiles,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+
+  jobFiles.forEach((jobFile, i) => pendingFiles.set(fileKey(ref.id, jobFile.id), files[i]));
+
+  return { id: ref.id, ownerId: userId, files: jobFiles, createdAt: new Date(), updatedAt: new Date() };
+}
+
+/**
+ * Live list of the user's scan jobs, newest first
+ */
+export function subscribeToScanJobs(userId: string, onChange: (jobs: ScanJob[]) => void, onError?: (error: Error) => void) {
+  const jobsQuery = query(collection(db, "scanJobs"), where("ownerId", "==", userId));
+
+  return onSnapshot(jobsQuery, snapshot => {
+    const jobs = snapshot.docs
+      .map(d => toScanJob(d.id, d.data()))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    onChange(jobs);
+  }, onError);
+}
+
+export async function deleteScanJob(job: ScanJob) {
+  job.files.forEach(f => pendingFiles.delete(fileKey(job.id, f.id)));
+  await deleteDoc(doc(db, "scanJobs", job.id));
+}
+
+/**
+ * The contact fields of a card, without UI or review state
+ */
+export function pickContactFields(contact: ParsedContact): ParsedContact {
+  const { name, company, phones, landlines, faxes, email, services, address, website, social } = contact;
+  return { name, company, phones, landlines, faxes, email, services, address, website, social };
+}
+
+function applyCardChanges(files: ScanJobFile[], changes: Record<string, Partial<ScanJobCard>>): ScanJobFile[] {
+  return files.map(file => {
+    const cards = file.cards.map(card => changes[card.id] ? { ...card, ...changes[card.id], id: card.id } : card);
+    const allHandled = file.status === 'needs_review' && cards.length > 0
+      && cards.every(c => c.saved || c.reviewStatus === 'rejected');
+    return { ...file, cards, status: allHandled ? 'saved' as const : file.status };
+  }).map((file, _, all) => {
+    // A back merged into its front is done once the front is
+    const front = file.backOf && file.merged && file.cards.length === 0 && all.find(f => f.id === file.backOf);
+    return front && front.status === 'saved' ? { ...file, status: 'saved' as const } : file;
+  });
+}
+
+/**
+ * Apply review edits, decisions and saved flags to cards in the job. A file
+ * moves to `saved` once each of its cards has been saved or rejected. The
+ * changes are made to the job's latest files, never to a copy the caller
+ * may hold.
+ */
+export async function updateScanJobCards(jobId: string, changes: Record<string, Partial<ScanJobCard>>) {
+  const edit = activeEdits.get(jobId);
+  if (edit) {
+    await edit(files => applyCardChanges(files, changes));
+    return;
+  }
+
+  const ref = doc(db, "scanJobs", jobId);
+  await runTransaction(db, async transaction => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists()) return;
+    transaction.update(ref, {
+      files: toFirestoreFiles(applyCardChanges(snapshot.data().files || [], changes)),
+      updatedAt: serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Queue failed files again. Files that never reached storage can only be
+ * retried from the tab they were picked in.
+ */
+export async function retryFailedFiles(job: ScanJob): Promise<ScanJob> {
+  const files = job.files.map(file =>
+    file.status === 'failed' && (file.imageUrl || pendingFiles.has(fileKey(job.id, file.id)))
+      ? { ...file, status: 'queued' as const, attempts: 0, error: undefined }
+      : file
+  );
+
+  await updateDoc(doc(db, "scanJobs", job.id), {
+    files: toFirestoreFiles(files),
+    updatedAt: serverTimestamp(),
+  });
+  return { ...job, files };
+}
+
+/**
+ * Give each card its own image. Cards with an outline are cropped out of
+ * the scan and stored under users/{uid}/cards/; a lone card without one
+ * uses the whole scan. A failed crop leaves the card without an image
+ * rather than failing the scan.
+ */
+async function attachCardImages(
+  userId: string,
+  file: ScanJobFile,
+  image: File,
+  cards: ScanJobCard[]
+): Promise<{ cards: ScanJobCard[]; warnings: string[] }> {
+  const warnings: string[] = [];
+
+  const withImages = await Promise.all(cards.map(async (card): Promise<ScanJobCard> => {
+    if (!card.corners || (cards.length === 1 && isFullFrame(card.corners))) {
+      return cards.length === 1 ? { ...card, frontImageUrl: file.imageUrl } : card;
+    }
+
+    try {
+      const crop = await cropCardImage(image, card.corners);
+      const frontImageUrl = await uploadToStorage(
+        new File([crop], `${card.id}-front.jpg`, { type: 'image/jpeg' }),
+        `users/${userId}/cards/${Date.now()}-${card.id}-front.jpg`
+      );
+      return { ...card, frontImageUrl };
+    } catch (error: any) {
+      console.error('Card crop failed:', error);
+      warnings.push(`Could not crop ${card.name || 'a card'} from ${file.name}: ${error.message || 'unknown error'}`);
+      return cards.length === 1 ? { ...card, frontImageUrl: file.imageUrl } : card;
+    }
+  }));
+
+  return { cards: withImages, warnings };
+}
+
+/**
+ * Fold the back side of a card into its front. Fields missing from the
+ * front are filled from the back and keep the back's confidence, and the
+ * back's image is attached to the merged card. The front's name and
+ * company are kept even when the back has longer ones.
+ */
+function mergeCardSides(front: ScanJobCard, back: ScanJobCard | undefined, backImageUrl?: string): ScanJobCard {
+  const merged: ScanJobCard = { ...front, backImageUrl: backImageUrl || front.backImageUrl };
+  if (!back) return merged;
+
+  mergeContactInformation(merged, back);
+  if (front.name) merged.name = front.name;
+  if (front.company) merged.company = front.company;
+
+  const fieldConfidence = { ...front.fieldConfidence };
+  (Object.keys(back.fieldConfidence || {}) as ContactField[]).forEach(field => {
+    if (merged[field] !== front[field] && merged[field] === back[field]) {
+      fieldConfidence[field] = back.fieldConfidence![field];
+    }
+  });
+  if (Object.keys(fieldConfidence).length > 0) merged.fieldConfidence = fieldConfidence;
+
+  return merged;
+}
+
+/**
+ * Merge every scanned back side into its scanned front, pairing cards in
+ * detection order. Back cards without a matching front card stay on the
+ * back file as contacts of their own.
+ */
+function pairCardSides(files: ScanJobFile[]): ScanJobFile[] {
+  let result = files;
+
+  for (const back of files) {
+    if (!back.backOf || back.merged || back.status !== 'needs_review') continue;
+    const front = result.find(f => f.id === back.backOf);
+    if (!front || front.status !== 'needs_review' || back.cards.some(c => c.saved)) continue;
+
+    const cards = front.cards.map((card, i) => card.saved
+      ? card
+      : mergeCardSides(card, back.cards[i], back.cards[i]?.frontImageUrl || back.imageUrl));
+    const leftover = back.cards.slice(front.cards.length);
+
+    result = result.map(f => {
+      if (f.id === front.id) return { ...f, cards };
+      if (f.id === back.id) return { ...f, cards: leftover, merged: true };
+      return f;
+    });
+  }
+
+  return result;
+}
+
+async function loadImage(jobId: string, file: ScanJobFile): Promise<File> {
+  const local = pendingFiles.get(fileKey(jobId, file.id));
+  if (local) return local;
+
+  const response = await fetch(file.imageUrl!);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+  }
+  const blob = await response.blob();
+  return new File([blob], file.name, { type: file.type || blob.type });
+}
+
+function backoffDelay(attempt: number, error: any) {
+  // Longer delay for rate limit errors: 4s, 8s; otherwise 2s, 4s
+  const base = error?.message?.includes('rate limit') ? 2000 : 1000;
+  return Math.pow(2, attempt) * base;
+}
+
+export interface ScanJobCallbacks {
+  onUpdate?: (job: ScanJob) => void;
+  onStats?: (stats: OcrSchedulerStats) => void;
+}
+
+/**
+ * Upload and scan every unfinished file in the job, saving progress every
+ * few seconds so the batch can be resumed later. Scans run concurrently through
+ * an OcrScheduler; failed steps are retried with exponential backoff up to
+ * MAX_SCAN_ATTEMPTS times. Paired back sides are merged into their fronts
+ * once both are scanned. Throws ScanQuotaExceededError, leaving the
+ * remaining files queued, when the user's AI scan quota runs out.
+ */
+export function runScanJob(
+  job: ScanJob,
+  userId: string,
+  callbacks: ScanJobCallbacks = {}
+): Promise<ScanJob> {
+  const existing = activeRuns.get(job.id);
+  if (existing) return existing;
+
+  const run = processScanJob(job, userId, callbacks).finally(() => activeRuns.delete(job.id));
+  activeRuns.set(job.id, run);
+  return run;
+}
+
+async function processScanJob(
+  job: ScanJob,
+  userId: string,
+  { onUpdate, onStats }: ScanJobCallbacks
+): Promise<ScanJob> {
+  const scheduler = new OcrScheduler();
+  const unsubscribe = onStats ? scheduler.subscribe(onStats) : undefined;
+
+  // Steps cut short by a closed tab start over
+  let files = job.files.map(file =>
+    file.status === 'uploading' || file.status === 'scanning' ? { ...file, status: 'queued' as const } : file
+  );
+
+  const writer = createFilesWriter(job.id);
+
+  const setFiles = (next: ScanJobFile[]) => {
+    files = next;
+    writer.save(files);
+    onUpdate?.({ ...job, files });
+  };
+
+  const setFile = (fileId: string, changes: Partial<ScanJobFile>) =>
+    setFiles(files.map(f => f.id === fileId ? { ...f, ...changes } : f));
+
+  activeEdits.set(job.id, update => {
+    setFiles(update(files));
+    return writer.flush();
+  });
+
+  const runStep = async (
+    fileId: string,
+    status: ScanFileStatus,
+    step: (file: ScanJobFile) => Promise<Partial<ScanJobFile>>,
+    scheduled = false
+  ): Promise<boolean> => {
+    let throttles = 0;
+
+    for (;;) {
+      const file = files.find(f => f.id === fileId)!;
+
+      const attempt = async () => {
+        setFile(fileId, { status });
+        return step(file);
+      };
+
+      try {
+        const changes = scheduled ? await scheduler.schedule(attempt) : await attempt();
+        setFile(fileId, changes);
+        return changes.status !== 'failed';
+      } catch (error: any) {
+        if (error instanceof ScanQuotaExceededError) {
+          scheduler.stop(error);
+          setFile(fileId, { status: 'queued', error: error.message });
+          throw error;
+        }
+
+        const message = error.message || 'Failed to process image';
+        if (scheduled && isThrottleError(error) && ++throttles < MAX_THROTTLED_ATTEMPTS) {
+          // The scheduler has already paused every request
+          setFile(fileId, { status: 'queued', error: message });
+          continue;
+        }
+
+        const attempts = file.attempts + 1;
+        if (attempts >= MAX_SCAN_ATTEMPTS) {
+          setFile(fileId, { status: 'failed', attempts, error: message });
+          return false;
+        }
+
+        setFile(fileId, { status: 'queued', attempts, error: message });
+        await delay(backoffDelay(attempts, error));
+      }
+    }
+  };
+
+  try {
+    // Upload every image first so the scans can resume from storage
+    for (const file of files.filter(f => f.status === 'queued' && !f.imageUrl)) {
+      const local = pendingFiles.get(fileKey(job.id, file.id));
+      if (!local) {
+        setFile(file.id, { status: 'failed', error: 'Upload was interrupted. Add this image to a new batch.' });
+        continue;
+      }
+
+      await runStep(file.id, 'uploading', async () => {
+        const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
+        const imageUrl = await uploadToStorage(local, `users/${userId}/bulk/${Date.now()}-${sanitizedFileName}`);
+        return { status: 'queued', imageUrl, attempts: 0, error: undefined };
+      });
+    }
+
+    const toScan = files.filter(f => f.status === 'queued' && f.imageUrl);
+    scheduler.expect(toScan.length);
+
+    const outcomes = await Promise.allSettled(toScan.map(async ({ id }) => {
+      const ok = await runStep(id, 'scanning', async (file) => {
+        const image = await loadImage(job.id, file);
+        const result = await processMultipleBusinessCards(image, file.backOf ? 'back' : 'front');
+
+        // A back side may hold only an address or website, or nothing but a
+        // logo; it still joins its front
+        if (result.cards.length === 0 && !file.backOf) {
+          return { status: 'failed', error: result.errors[0] || 'No business cards detected', warnings: result.errors };
+        }
+
+        const { cards, warnings } = await attachCardImages(
+          userId,
+          file,
+          image,
+          result.cards.map((card, cardIndex) => ({ ...card, id: `${file.id}_card_${cardIndex + 1}` }))
+        );
+        return {
+          status: 'needs_review',
+          error: undefined,
+          warnings: [...result.errors, ...warnings],
+          cards,
+        };
+      }, true);
+
+      scheduler.recordResult(ok);
+      pendingFiles.delete(fileKey(job.id, id));
+    }));
+
+    const rejection = outcomes.find((o): o is PromiseRejectedResult => o.status === 'rejected');
+    if (rejection) throw rejection.reason;
+
+    const paired = pairCardSides(files);
+    if (paired !== files) setFiles(paired);
+
+    await writer.flush();
+    return { ...job, files };
+  } finally {
+    unsubscribe?.();
+    // Save where a failed run stopped; a no-op after a successful flush
+    await writer.flush().catch(error => console.error('Error saving scan job:', error));
+    activeEdits.delete(job.id);
+  }
+}
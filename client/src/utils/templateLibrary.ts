@@ -0,0 +1,224 @@
+import { addDoc, collection, doc, getDocs, increment, query, serverTimestamp, updateDoc, where, writeBatch } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+
+export const TEMPLATE_CATEGORY_LABELS: Record<string, string> = {
+  introduction: 'Introduction',
+  follow_up: 'Follow-up',
+  meeting: 'Meeting',
+  thank_you: 'Thank you',
+  promotion: 'Promotion',
+  other: 'Other',
+};
+
+// The editable parts of a template, as kept in each version
+export interface TemplateFields {
+  name: string;
+  content: string;
+  subject?: string;
+  htmlContent?: string;
+  // WhatsApp campaigns: approved message template and the text filling its
+  // body parameters, {{1}} onwards, with variables per contact
+  whatsappTemplate?: string;
+  whatsappLanguage?: string;
+  whatsappParams?: string[];
+  category?: string;
+  tags?: string[];
+}
+
+// A template as it was before an edit
+export interface TemplateVersion extends TemplateFields {
+  id: string;
+  ownerId: string;
+  templateId: string;
+  version: number;
+  savedAt: Date;
+}
+
+export interface StarterTemplate extends TemplateFields {
+  // Stable key so an imported starter is recognised again
+  starterId: string;
+}
+
+/**
+ * Built-in templates users can import as a starting point
+ */
+export const STARTER_TEMPLATES: StarterTemplate[] = [
+  {
+    starterId: 'intro-after-event',
+    name: 'Nice to meet you',
+    category: 'introduction',
+    tags: ['event', 'networking'],
+    content: "Hi {firstName|there}, it was great meeting you{#if company} and learning about {company}{/if}. I'm {displayName} from {businessName}. Here's my card so we can stay in touch: {cardLink}",
+    subject: 'Great meeting you{#if firstName}, {firstName}{/if}',
+  },
+  {
+    starterId: 'follow-up-week',
+    name: 'One week follow-up',
+    category: 'follow_up',
+    tags: ['follow-up'],
+    content: "Hi {firstName|there}, just following up on our conversation last week. Let me know if you'd like to pick it up again; happy to help.\n\n{displayName}",
+    subject: 'Following up',
+  },
+  {
+    starterId: 'meeting-request',
+    name: 'Meeting request',
+    category: 'meeting',
+    tags: ['meeting', 'sales'],
+    content: "Hi {firstName|there}, would you have 20 minutes this week for a quick call{#if company} about how we could work with {company}{/if}? Let me know a time that suits you.\n\n{displayName}, {businessName}",
+    subject: 'Quick call this week?',
+  },
+  {
+    starterId: 'thank-you',
+    name: 'Thank you',
+    category: 'thank_you',
+    tags: ['thanks'],
+    content: "Hi {firstName|there}, thank you for your time today. It was a pleasure talking with you and I look forward to staying in touch.\n\n{displayName}",
+    subject: 'Thank you{#if firstName}, {firstName}{/if}',
+  },
+  {
+    starterId: 'share-card',
+    name: 'Share my digital card',
+    category: 'introduction',
+    tags: ['card'],
+    content: "Hi {firstName|there}, here's my digital business card with all my details: {cardLink}\n\n{displayName}{#if businessName}, {businessName}{/if}",
+  },
+  {
+    starterId: 'offer',
+    name: 'Special offer',
+    category: 'promotion',
+    tags: ['promotion', 'offer'],
+    content: "Hi {firstName|there}, as someone we've met recently we'd like to offer you an introductory discount at {businessName}. Reply to this message to hear more.\n\n{displayName}",
+    subject: 'An offer from {businessName|us}',
+  },
+];
+
+// Split a comma-separated tag list, dropping blanks and repeats
+export function parseTags(value: string): string[] {
+  const tags = value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+// Split a list of teammates' email addresses
+export function parseEmails(value: string): string[] {
+  const emails = value.split(/[\s,;]+/).map(email => email.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(emails));
+}
+
+const templateFields = (template: TemplateFields): TemplateFields => ({
+  name: template.name,
+  content: template.content,
+  subject: template.subject || '',
+  htmlContent: template.htmlContent || '',
+  whatsappTemplate: template.whatsappTemplate || '',
+  whatsappLanguage: template.whatsappLanguage || '',
+  whatsappParams: template.whatsappParams || [],
+  category: template.category || '',
+  tags: template.tags || [],
+});
+
+/**
+ * Keep a template's current state as a version before it is changed
+ */
+export async function saveTemplateVersion(
+  userId: string,
+  templateId: string,
+  version: number,
+  template: TemplateFields
+): Promise<void> {
+  await addDoc(collection(db, "templateVersions"), {
+    ...templateFields(template),
+    ownerId: userId,
+    templateId,
+    version,
+    savedAt: serverTimestamp(),
+  });
+}
+
+/**
+ * A template's earlier versions, newest first
+ */
+export async function loadTemplateVersions(userId: string, templateId: string): Promise<TemplateVersion[]> {
+  const versionsQuery = query(
+    collection(db, "templateVersions"),
+    where("ownerId", "==", userId),
+    where("templateId", "==", templateId)
+  );
+  const snapshot = await getDocs(versionsQuery);
+
+  return snapshot.docs
+    .map(d => ({
+      id: d.id,
+      ...d.data(),
+      savedAt: d.data().savedAt?.toDate() || new Date(),
+    }) as TemplateVersion)
+    .sort((a, b) => b.version - a.version);
+}
+
+/**
+ * Delete a template's history along with the template
+ */
+export async function deleteTemplateVersions(userId: string, templateId: string): Promise<void> {
+  const versionsQuery = query(
+    collection(db, "templateVersions"),
+    where("ownerId", "==", userId),
+    where("templateId", "==", templateId)
+  );
+  const snapshot = await getDocs(versionsQuery);
+  if (snapshot.empty) return;
+
+  const batch = writeBatch(db);
+  snapshot.docs.forEach(d => batch.delete(d.ref));
+  await batch.commit();
+}
+
+/**
+ * Count messages sent from a template. Failures are logged and swallowed
+ * so they never fail the send being counted.
+ */
+export async function recordTemplateUse(templateId: string, count = 1): Promise<void> {
+  if (count <= 0) return;
+
+  try {
+    await updateDoc(doc(db, "templates", templateId), {
+      usageCount: increment(count),
+      lastUsedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error("Error recording template use:", error);
+  }
+}
+
+/**
+ * Templates teammates have shared with this email address
+ */
+export async function loadSharedTemplates<T>(email: string): Promise<T[]> {
+  const sharedQuery = query(collection(db, "templates"), where("sharedWith", "array-contains", email.toLowerCase()));
+  const snapshot = await getDocs(sharedQuery);
+
+  return snapshot.docs.map(d => ({
+    id: d.id,
+    ...d.data(),
+    createdAt: d.data().createdAt?.toDate() || new Date(),
+  }) as T);
+}
+
+/**
+ * Add a template to the user's own library, e.g. a teammate's shared
+ * template or one from the starter library. Usage and sharing start fresh.
+ */
+export async function copyTemplate(
+  userId: string,
+  template: TemplateFields,
+  extra: Record<string, any> = {}
+): Promise<string> {
+  const ref = await addDoc(collection(db, "templates"), {
+    ...templateFields(template),
+    ...extra,
+    ownerId: userId,
+    version: 1,
+    usageCount: 0,
+    sharedWith: [],
+    createdAt: serverTimestamp(),
+  });
+  return ref.id;
+}
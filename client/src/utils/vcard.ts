@@ -1,33 +1,87 @@
-export function buildVCard(profile: {
-  firstName?: string; 
-  lastName?: string; 
-  title?: string; 
+import { createVCard, serializeVCards, type VCard, type VCardMedia } from "@shared/vcard";
+import type { PostalAddress } from "@shared/address";
+
+// Fields of a digital card that go into its vCard
+export interface CardProfile {
+  firstName?: string;
+  lastName?: string;
+  title?: string;
   company?: string;
-  email?: string; 
-  phone?: string; 
-  website?: string; 
+  email?: string;
+  phone?: string;
+  website?: string;
   address?: string;
-}) {
-  const fn = [profile.firstName, profile.lastName].filter(Boolean).join(" ");
-  const n = `${profile.lastName || ""};${profile.firstName || ""};;;`;
-  const org = profile.company || "";
-  const title = profile.title || "";
-  const tel = profile.phone || "";
-  const email = profile.email || "";
-  const url = profile.website || "";
-  const adr = profile.address ? `;;${profile.address.replace(/\n/g,";")}` : ";;;;;";
-  
-  return [
-    "BEGIN:VCARD",
-    "VERSION:3.0",
-    `FN:${fn}`,
-    `N:${n}`,
-    `ORG:${org}`,
-    `TITLE:${title}`,
-    tel ? `TEL;TYPE=CELL:${tel}` : null,
-    email ? `EMAIL:${email}` : null,
-    url ? `URL:${url}` : null,
-    `ADR:${adr}`,
-    "END:VCARD"
-  ].filter(Boolean).join("\n");
+  postalAddress?: PostalAddress | null;
+  avatarUrl?: string;
+  companyLogoUrl?: string;
+}
+
+/**
+ * vCard for a digital card. Photo and logo are only linked when media is
+ * passed, so QR codes built from the result stay small.
+ */
+export function profileToVCard(profile: CardProfile, media: { photo?: VCardMedia; logo?: VCardMedia } = {}): VCard {
+  return createVCard({
+    firstName: profile.firstName,
+    lastName: profile.lastName,
+    title: profile.title,
+    company: profile.company,
+    phones: profile.phone ? [profile.phone] : [],
+    emails: profile.email ? [profile.email] : [],
+    urls: profile.website ? [profile.website] : [],
+    address: profile.address,
+    postalAddress: profile.postalAddress,
+    ...media,
+  });
+}
+
+/**
+ * Embed an image in a vCard, falling back to linking it when it cannot be
+ * fetched (for example when the host does not allow CORS)
+ */
+export async function loadVCardMedia(url?: string): Promise<VCardMedia | undefined> {
+  if (!url) return undefined;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to fetch image: ${response.status}`);
+    const blob = await response.blob();
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+    return { data: dataUrl.split(',')[1], mediaType: blob.type || 'image/jpeg' };
+  } catch (error) {
+    console.log('Linking vCard image instead of embedding it:', error);
+    return { uri: url };
+  }
+}
+
+/**
+ * vCard for a digital card with its avatar and company logo embedded
+ */
+export async function profileToVCardWithMedia(profile: CardProfile): Promise<VCard> {
+  const [photo, logo] = await Promise.all([
+    loadVCardMedia(profile.avatarUrl),
+    loadVCardMedia(profile.companyLogoUrl),
+  ]);
+  return profileToVCard(profile, { photo, logo });
+}
+
+/**
+ * Save one or more vCards as a .vcf file
+ */
+export function downloadVCard(cards: VCard | VCard[], fileName: string) {
+  const content = serializeVCards(Array.isArray(cards) ? cards : [cards]);
+  const blob = new Blob([content], { type: 'text/vcard;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName.endsWith('.vcf') ? fileName : `${fileName}.vcf`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
 }
@@ -0,0 +1,103 @@
+import { formatVCardAddress, parseVCards, type VCard, type VCardMedia, type VCardTypedValue } from "@shared/vcard";
+import { fromVCardAddress } from "@shared/address";
+import { uploadToStorage } from "./upload";
+import { validateImportRows, type ImportRow } from "./contactImport";
+
+const VCF_EXTENSIONS = ['.vcf', '.vcard'];
+const VCF_MIME_TYPES = ['text/vcard', 'text/x-vcard', 'text/directory'];
+
+export function isVcfFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return VCF_EXTENSIONS.some(ext => name.endsWith(ext)) || VCF_MIME_TYPES.includes(file.type);
+}
+
+// Preferred entries first, otherwise in file order, without repeats
+function orderedValues(values: VCardTypedValue[], normalize: (value: string) => string = v => v): string[] {
+  const sorted = values.filter(v => v.pref).concat(values.filter(v => !v.pref));
+  return Array.from(new Set(sorted.map(v => normalize(v.value.trim())).filter(Boolean)));
+}
+
+/**
+ * Map one vCard onto an import preview row. The row is validated along with
+ * the rest of the file by `parseVcfImport`.
+ */
+export function vCardToImportRow(card: VCard, index: number): ImportRow {
+  let firstName = card.name?.given.trim() || '';
+  let lastName = card.name?.family.trim() || '';
+  if (!firstName && !lastName && card.formattedName) {
+    const parts = card.formattedName.trim().split(/\s+/);
+    firstName = parts[0] || '';
+    lastName = parts.slice(1).join(' ');
+  }
+
+  const phones = orderedValues(card.phones.filter(p => !p.types.includes('fax')));
+  const faxes = orderedValues(card.phones.filter(p => p.types.includes('fax')));
+  const emails = orderedValues(card.emails, v => v.toLowerCase());
+  const orderedAddresses = card.addresses.filter(a => a.pref).concat(card.addresses.filter(a => !a.pref));
+  const addresses = Array.from(new Set(orderedAddresses.map(formatVCardAddress).filter(Boolean)));
+  // Kept in parts unless the card only has the street or a label
+  const primaryAddress = orderedAddresses[0];
+  const postalAddress = primaryAddress && (primaryAddress.locality || primaryAddress.region || primaryAddress.postalCode || primaryAddress.country)
+    ? fromVCardAddress(primaryAddress)
+    : undefined;
+  const photo = card.photo?.data || card.photo?.uri ? card.photo : undefined;
+
+  return {
+    index,
+    firstName,
+    lastName,
+    phones,
+    faxes,
+    email: emails[0] || '',
+    emails,
+    company: card.organization || '',
+    services: card.title || card.role || '',
+    address: addresses[0] || '',
+    postalAddress,
+    addresses,
+    website: orderedValues(card.urls)[0] || '',
+    qrCodeUrl: '',
+    notes: card.note || '',
+    customFields: {},
+    categories: card.categories,
+    photo,
+    errors: [],
+    isValid: false,
+  };
+}
+
+/**
+ * Parse a .vcf file (one or many cards, as exported by phone address books)
+ * into import preview rows, dropping cards with neither a name nor a phone
+ */
+export function parseVcfImport(text: string, defaultCountry?: string): ImportRow[] {
+  return validateImportRows(
+    parseVCards(text)
+      .map((card, i) => vCardToImportRow(card, i + 1))
+      .filter(row => row.firstName || row.phones.length > 0),
+    defaultCountry
+  );
+}
+
+function base64ToBlob(data: string, mediaType: string): Blob {
+  const binary = atob(data.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mediaType });
+}
+
+/**
+ * Store a vCard photo for an imported contact. Embedded images are uploaded
+ * to storage; linked ones are kept as they are.
+ */
+export async function saveVCardPhoto(userId: string, photo: VCardMedia): Promise<string | undefined> {
+  if (photo.data) {
+    const mediaType = photo.mediaType || 'image/jpeg';
+    const extension = (mediaType.split('/')[1] || 'jpeg').replace('jpeg', 'jpg');
+    const fileName = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${extension}`;
+    const file = new File([base64ToBlob(photo.data, mediaType)], fileName, { type: mediaType });
+    return uploadToStorage(file, `users/${userId}/contacts/${fileName}`);
+  }
+  if (photo.uri && /^https?:\/\//i.test(photo.uri)) return photo.uri;
+  return undefined;
+}
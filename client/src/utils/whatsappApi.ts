@@ -0,0 +1,77 @@
+import { authHeaders } from "@/lib/queryClient";
+import type { WhatsAppAccountStatus } from "@shared/schema";
+
+export interface TestTemplateResult {
+  messageId: string;
+  // The Cloud API's response, as returned
+  response: unknown;
+}
+
+/**
+ * Error response from the WhatsApp account endpoints. `code` is the Cloud
+ * API's error code when WhatsApp itself refused the request.
+ */
+export class WhatsAppRequestError extends Error {
+  status: number;
+  code: number | null;
+
+  constructor(message: string, status: number, code: number | null = null) {
+    super(message);
+    this.name = "WhatsAppRequestError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Requests are made as the signed-in user, who must own the account
+async function request<T>(path: string, method = "GET", body?: unknown): Promise<T> {
+  const headers = {
+    ...(await authHeaders()),
+    ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(path, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  } catch {
+    throw new Error("Network error. Please check your internet connection and try again.");
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new WhatsAppRequestError(data.error || `API Error: ${response.status}`, response.status, data.code ?? null);
+  }
+  return data as T;
+}
+
+const accountPath = (userId: string) => `/api/whatsapp/${encodeURIComponent(userId)}`;
+
+export function fetchWhatsAppAccount(userId: string): Promise<WhatsAppAccountStatus> {
+  return request<WhatsAppAccountStatus>(`${accountPath(userId)}/credentials`);
+}
+
+/**
+ * Validate the credentials with WhatsApp and store them on the server.
+ * Rejected credentials are not stored.
+ */
+export function saveWhatsAppCredentials(
+  userId: string,
+  credentials: { token: string; phoneNumberId: string; appSecret?: string }
+): Promise<WhatsAppAccountStatus> {
+  return request<WhatsAppAccountStatus>(`${accountPath(userId)}/credentials`, "PUT", credentials);
+}
+
+export async function removeWhatsAppCredentials(userId: string): Promise<void> {
+  await request(`${accountPath(userId)}/credentials`, "DELETE");
+}
+
+export function sendTestTemplate(
+  userId: string,
+  params: { to: string; templateName: string; languageCode: string }
+): Promise<TestTemplateResult> {
+  return request<TestTemplateResult>(`${accountPath(userId)}/test-template`, "POST", params);
+}
@@ -0,0 +1,104 @@
+import type { NextFunction, Request, Response } from "express";
+import { getFirebaseAdminAuth } from "./firebaseAdmin";
+
+// The signed-in user a request was made by
+export interface VerifiedUser {
+  uid: string;
+  email: string | null;
+  emailVerified: boolean;
+  // Display name on the Firebase account, if any
+  name: string | null;
+}
+
+declare module "express-serve-static-core" {
+  interface Request {
+    // Set by requireUser
+    auth?: VerifiedUser;
+  }
+}
+
+export class AuthError extends Error {
+  status: number;
+
+  constructor(message: string, status = 401) {
+    super(message);
+    this.name = "AuthError";
+    this.status = status;
+  }
+}
+
+/**
+ * Checks the Firebase ID token a client sends and says whose it is.
+ */
+export interface IdTokenVerifier {
+  readonly name: string;
+  verify(idToken: string): Promise<VerifiedUser>;
+}
+
+export class FirebaseIdTokenVerifier implements IdTokenVerifier {
+  readonly name = "firebase";
+
+  async verify(idToken: string): Promise<VerifiedUser> {
+    const decoded = await getFirebaseAdminAuth().verifyIdToken(idToken);
+    return {
+      uid: decoded.uid,
+      email: decoded.email ?? null,
+      emailVerified: decoded.email_verified === true,
+      name: decoded.name ?? null,
+    };
+  }
+}
+
+let verifier: IdTokenVerifier | undefined;
+
+export function getIdTokenVerifier(): IdTokenVerifier {
+  if (!verifier) {
+    verifier = new FirebaseIdTokenVerifier();
+  }
+  return verifier;
+}
+
+/**
+ * Replace the active verifier, e.g. with a fake in local testing.
+ */
+export function setIdTokenVerifier(next: IdTokenVerifier) {
+  verifier = next;
+}
+
+/**
+ * The user behind a request's `Authorization: Bearer <ID token>` header.
+ */
+export async function authenticate(req: Request): Promise<VerifiedUser> {
+  const match = /^Bearer\s+(.+)$/i.exec(req.get("authorization") || "");
+  if (!match) {
+    throw new AuthError("Sign in to continue");
+  }
+
+  try {
+    return await getIdTokenVerifier().verify(match[1].trim());
+  } catch (error: any) {
+    console.error("ID token rejected:", error.message);
+    throw new AuthError("Your session has expired. Sign in again.");
+  }
+}
+
+/**
+ * Route middleware that requires a signed-in user and sets `req.auth`.
+ * Routes with a `:userId` parameter only serve that user.
+ */
+export async function requireUser(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = await authenticate(req);
+    if (req.params.userId !== undefined && req.params.userId !== user.uid) {
+      throw new AuthError("You can only access your own account", 403);
+    }
+    req.auth = user;
+    next();
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error authenticating request:", error);
+    res.status(500).json({ error: "Failed to authenticate request" });
+  }
+}
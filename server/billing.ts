@@ -0,0 +1,216 @@
+import type { PaymentOrder, Subscription } from "@shared/schema";
+import { storage } from "./storage";
+import { getPaymentGateway } from "./payments";
+import { getPlan } from "./plans";
+import { createRazorpayOrder } from "./razorpay";
+import { findSubscription, resolveSubscriptionStatus } from "./subscriptions";
+
+export class BillingError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "BillingError";
+    this.status = status;
+  }
+}
+
+interface RazorpayPaymentEntity {
+  id: string;
+  order_id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  method?: string;
+  error_description?: string;
+}
+
+export interface RazorpayWebhookPayload {
+  event: string;
+  payload?: {
+    payment?: { entity: RazorpayPaymentEntity };
+  };
+}
+
+/**
+ * Create a gateway order for a plan. The amount always comes from the
+ * server-side plan catalogue.
+ */
+export async function createOrderForPlan(userId: string, planId: string) {
+  const plan = getPlan(planId);
+  if (!plan) {
+    throw new BillingError(`Unknown plan: ${planId}`);
+  }
+
+  const gateway = getPaymentGateway();
+  const orderData = createRazorpayOrder(plan.id, plan.price);
+  const gatewayOrder = await gateway.createOrder({
+    ...orderData,
+    currency: plan.currency,
+    notes: { ...orderData.notes, userId },
+  });
+
+  const order = await storage.createPaymentOrder({
+    id: gatewayOrder.id,
+    userId,
+    planId: plan.id,
+    amount: gatewayOrder.amount,
+    currency: gatewayOrder.currency,
+    receipt: gatewayOrder.receipt,
+  });
+
+  return { order, keyId: gateway.publicKey };
+}
+
+/**
+ * Extend (or start) the user's subscription for a paid order. Renewals of a
+ * paid plan, including one in its grace period, continue from the current
+ * expiry date so no time is lost.
+ */
+async function activateSubscription(order: PaymentOrder, paymentId: string): Promise<Subscription> {
+  const plan = getPlan(order.planId);
+  if (!plan) {
+    throw new BillingError(`Unknown plan: ${order.planId}`, 500);
+  }
+
+  const now = new Date();
+  const current = await findSubscription(order.userId);
+  const currentStatus = resolveSubscriptionStatus(current, now);
+  const isRenewal = currentStatus === "active" || currentStatus === "grace" || currentStatus === "past_due";
+
+  const expiryDate = new Date(isRenewal ? current!.expiryDate : now);
+  expiryDate.setMonth(expiryDate.getMonth() + plan.durationMonths);
+
+  return storage.upsertSubscription({
+    userId: order.userId,
+    planId: plan.id,
+    status: "active",
+    startDate: isRenewal ? current!.startDate : now,
+    expiryDate,
+    orderId: order.id,
+    paymentId,
+  });
+}
+
+/**
+ * A failed renewal during the grace period moves the subscription to past_due.
+ */
+async function markRenewalPastDue(userId: string) {
+  const current = await findSubscription(userId);
+  if (current && resolveSubscriptionStatus(current) === "grace") {
+    await storage.upsertSubscription({ ...current, status: "past_due" });
+  }
+}
+
+/**
+ * Record a successful payment against its order and grant the plan. Safe to
+ * call more than once for the same order: the checkout callback and the
+ * webhook both end up here.
+ */
+async function fulfillOrder(
+  orderId: string,
+  paymentId: string,
+  status: "authorized" | "captured",
+  method?: string,
+): Promise<Subscription> {
+  const order = await storage.getPaymentOrder(orderId);
+  if (!order) {
+    throw new BillingError(`Unknown order: ${orderId}`, 404);
+  }
+
+  const existingPayment = await storage.getPayment(paymentId);
+  await storage.upsertPayment({
+    id: paymentId,
+    orderId: order.id,
+    userId: order.userId,
+    planId: order.planId,
+    amount: order.amount,
+    currency: order.currency,
+    status: existingPayment?.status === "captured" ? "captured" : status,
+    method,
+  });
+
+  if (order.status === "paid") {
+    const subscription = await storage.getSubscriptionByUser(order.userId);
+    if (subscription) return subscription;
+  }
+
+  await storage.updatePaymentOrderStatus(order.id, "paid");
+  return activateSubscription(order, paymentId);
+}
+
+/**
+ * Verify the signature returned by Razorpay Checkout and fulfil the order.
+ */
+export async function verifyCheckoutPayment(params: {
+  orderId: string;
+  paymentId: string;
+  signature: string;
+  userId?: string;
+}): Promise<Subscription> {
+  const gateway = getPaymentGateway();
+  if (!gateway.verifyPaymentSignature(params.orderId, params.paymentId, params.signature)) {
+    throw new BillingError("Invalid payment signature");
+  }
+
+  const order = await storage.getPaymentOrder(params.orderId);
+  if (!order) {
+    throw new BillingError(`Unknown order: ${params.orderId}`, 404);
+  }
+  if (params.userId && order.userId !== params.userId) {
+    throw new BillingError("Order does not belong to this user", 403);
+  }
+
+  return fulfillOrder(order.id, params.paymentId, "authorized");
+}
+
+/**
+ * Handle a verified webhook delivery. Returns false when the event id was
+ * already processed.
+ */
+export async function handleRazorpayWebhook(
+  eventId: string,
+  body: RazorpayWebhookPayload,
+): Promise<boolean> {
+  if (await storage.getWebhookEvent(eventId)) {
+    return false;
+  }
+
+  const payment = body.payload?.payment?.entity;
+
+  switch (body.event) {
+    case "payment.captured":
+    case "order.paid":
+      if (payment) {
+        await fulfillOrder(payment.order_id, payment.id, "captured", payment.method);
+      }
+      break;
+    case "payment.failed":
+      if (payment) {
+        const order = await storage.getPaymentOrder(payment.order_id);
+        if (order) {
+          await storage.upsertPayment({
+            id: payment.id,
+            orderId: order.id,
+            userId: order.userId,
+            planId: order.planId,
+            amount: payment.amount,
+            currency: payment.currency,
+            status: "failed",
+            method: payment.method,
+            errorReason: payment.error_description,
+          });
+          if (order.status !== "paid") {
+            await storage.updatePaymentOrderStatus(order.id, "failed");
+            await markRenewalPastDue(order.userId);
+          }
+        }
+      }
+      break;
+    default:
+      console.log(`Ignoring Razorpay webhook event ${body.event}`);
+  }
+
+  await storage.recordWebhookEvent(eventId, body.event);
+  return true;
+}
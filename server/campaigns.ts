@@ -0,0 +1,383 @@
+import { randomUUID } from "crypto";
+import type {
+  Campaign,
+  CampaignChannel,
+  CampaignRecipient,
+  CampaignSummary,
+  InsertCampaignRecipient,
+  RecipientStatus,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { EmailError, emailDay, getEmailTransport, isEmailAddress, releaseEmailSends, reserveEmailSends } from "./email";
+import { WhatsAppApiError, parseWhatsAppStatuses } from "./whatsapp";
+import { DEFAULT_TEST_TEMPLATE_LANGUAGE, getWhatsAppAccountStatus, getWhatsAppClientForUser } from "./whatsappAccounts";
+
+// Pause after each of a user's sends, across their campaigns, to stay under
+// the provider's rate limits
+const SEND_INTERVAL_MS: Record<CampaignChannel, number> = {
+  whatsapp: parseInt(process.env.WHATSAPP_SEND_INTERVAL_MS || "1000", 10),
+  email: parseInt(process.env.EMAIL_SEND_INTERVAL_MS || "200", 10),
+};
+const CHANNELS = Object.keys(SEND_INTERVAL_MS) as CampaignChannel[];
+// Attempts per message when the provider is rate limiting or unavailable
+const MAX_ATTEMPTS = 3;
+const MAX_RECIPIENTS = 1000;
+
+export class CampaignError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "CampaignError";
+    this.status = status;
+  }
+}
+
+export interface CreateCampaignParams {
+  userId: string;
+  name: string;
+  channel?: CampaignChannel;
+  templateId?: string | null;
+  groupId?: string | null;
+  // Email only
+  fromName?: string | null;
+  replyTo?: string | null;
+  // WhatsApp only: approved message template, as free-form text does not
+  // reach contacts outside the 24-hour customer service window
+  whatsappTemplate?: string | null;
+  whatsappLanguage?: string | null;
+  // Rendered per contact from the stored template: see emailMessages.ts
+  // and whatsappMessages.ts
+  recipients: InsertCampaignRecipient[];
+}
+
+// Statuses only move forward, so a late `delivered` never overwrites
+// `read`. `failed` is final.
+const STATUS_RANK: Record<Exclude<RecipientStatus, "failed">, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Recipient ids waiting to be sent, oldest first, by user. Each user sends
+// from their own account, so one user's campaign never holds up another's.
+// Queued recipients are stored, and resumeCampaigns queues them again after
+// a restart.
+const queues = new Map<string, string[]>();
+const processing = new Set<string>();
+const attempts = new Map<string, number>();
+
+function summarize(campaign: Campaign, recipients: CampaignRecipient[]): CampaignSummary {
+  const counts: Record<RecipientStatus, number> = { queued: 0, sent: 0, delivered: 0, read: 0, failed: 0 };
+  recipients.forEach(recipient => {
+    counts[recipient.status as RecipientStatus]++;
+  });
+  return { ...campaign, total: recipients.length, counts };
+}
+
+async function completeIfDone(campaignId: string) {
+  const campaign = await storage.getCampaign(campaignId);
+  if (!campaign || campaign.status !== "sending") return;
+
+  const recipients = await storage.getCampaignRecipients(campaignId);
+  if (recipients.every(r => r.status !== "queued")) {
+    await storage.updateCampaign(campaignId, { status: "completed", completedAt: new Date() });
+  }
+}
+
+// Give back the daily email allowance of messages that were never sent.
+// Campaigns count against the day they were created.
+async function releaseUnsent(campaign: Campaign, count: number) {
+  if (campaign.channel === "email") {
+    await releaseEmailSends(campaign.userId, count, emailDay(campaign.createdAt));
+  }
+}
+
+// Hand one message to the provider. Email has no delivery reports, so
+// email recipients stop at `sent`.
+async function deliver(campaign: Campaign, recipient: CampaignRecipient): Promise<string> {
+  if (campaign.channel === "email") {
+    const { messageId } = await getEmailTransport().send({
+      to: recipient.to,
+      subject: recipient.subject || "",
+      text: recipient.message,
+      html: recipient.html || undefined,
+      fromName: campaign.fromName || undefined,
+      replyTo: campaign.replyTo || undefined,
+    });
+    return messageId;
+  }
+
+  const client = await getWhatsAppClientForUser(campaign.userId);
+  const { messageId } = await client.sendTemplate(
+    recipient.to,
+    campaign.whatsappTemplate!,
+    campaign.whatsappLanguage || DEFAULT_TEST_TEMPLATE_LANGUAGE,
+    recipient.templateParams ?? [],
+  );
+  return messageId;
+}
+
+// Returns the channel sent on, which sets the pause before the next send
+async function sendRecipient(recipientId: string): Promise<CampaignChannel | null> {
+  const recipient = await storage.getCampaignRecipient(recipientId);
+  if (!recipient || recipient.status !== "queued") return null;
+
+  const campaign = await storage.getCampaign(recipient.campaignId);
+  if (!campaign || campaign.status === "cancelled") {
+    await storage.updateCampaignRecipient(recipient.id, { status: "failed", error: "Campaign cancelled" });
+    if (campaign) await releaseUnsent(campaign, 1);
+    return null;
+  }
+  const channel = campaign.channel as CampaignChannel;
+
+  try {
+    const messageId = await deliver(campaign, recipient);
+    await storage.updateCampaignRecipient(recipient.id, { messageId, status: "sent" });
+  } catch (error: any) {
+    const attempt = (attempts.get(recipient.id) ?? 0) + 1;
+    const retryable = (error instanceof WhatsAppApiError || error instanceof EmailError) && error.retryable;
+    if (retryable && attempt < MAX_ATTEMPTS) {
+      attempts.set(recipient.id, attempt);
+      enqueue(campaign.userId, [recipient.id]);
+      // Back off before the next send while the provider is pushing back
+      await sleep(SEND_INTERVAL_MS[channel] * 5 * attempt);
+      return channel;
+    }
+
+    console.error(`${channel} send failed for campaign ${campaign.id}:`, error.message);
+    await storage.updateCampaignRecipient(recipient.id, { status: "failed", error: error.message || "Send failed" });
+    await releaseUnsent(campaign, 1);
+  }
+
+  attempts.delete(recipient.id);
+  await completeIfDone(campaign.id);
+  return channel;
+}
+
+/**
+ * Work through a user's queue one message at a time. Runs in the
+ * background; enqueueing while it runs just extends the queue.
+ */
+async function processQueue(userId: string) {
+  const queue = queues.get(userId);
+  if (!queue || processing.has(userId)) return;
+  processing.add(userId);
+
+  try {
+    while (queue.length > 0) {
+      const recipientId = queue.shift()!;
+      let channel: CampaignChannel | null = null;
+      try {
+        channel = await sendRecipient(recipientId);
+      } catch (error) {
+        console.error("Error processing campaign queue:", error);
+      }
+      if (channel && queue.length > 0) await sleep(SEND_INTERVAL_MS[channel]);
+    }
+  } finally {
+    processing.delete(userId);
+    queues.delete(userId);
+  }
+}
+
+function enqueue(userId: string, recipientIds: string[]) {
+  const queue = queues.get(userId) ?? [];
+  queue.push(...recipientIds);
+  queues.set(userId, queue);
+  void processQueue(userId);
+}
+
+/**
+ * Queue the unsent messages of campaigns that were still sending when the
+ * server stopped. Call once at startup.
+ */
+export async function resumeCampaigns(): Promise<void> {
+  for (const campaign of await storage.getCampaignsByStatus("sending")) {
+    const queued = (await storage.getCampaignRecipients(campaign.id)).filter(r => r.status === "queued");
+    if (queued.length > 0) {
+      enqueue(campaign.userId, queued.map(r => r.id));
+    } else {
+      await completeIfDone(campaign.id);
+    }
+  }
+}
+
+/**
+ * Store a campaign and queue its messages. Recipients are sent in the
+ * background; poll getCampaignDetails for progress.
+ */
+export async function createCampaign(params: CreateCampaignParams): Promise<CampaignSummary> {
+  const name = params.name?.trim();
+  if (!name) {
+    throw new CampaignError("Campaign name is required");
+  }
+  if (!Array.isArray(params.recipients) || params.recipients.length === 0) {
+    throw new CampaignError("Campaign has no recipients");
+  }
+  if (params.recipients.length > MAX_RECIPIENTS) {
+    throw new CampaignError(`Campaigns are limited to ${MAX_RECIPIENTS} recipients`);
+  }
+  const channel = params.channel ?? "whatsapp";
+  if (!CHANNELS.includes(channel)) {
+    throw new CampaignError(`Unknown channel "${channel}"`);
+  }
+  const replyTo = params.replyTo?.trim() || null;
+  if (replyTo && !isEmailAddress(replyTo)) {
+    throw new CampaignError("Reply-to must be an email address");
+  }
+  const whatsappTemplate = channel === "whatsapp" ? params.whatsappTemplate?.trim() || null : null;
+  const whatsappLanguage = channel === "whatsapp" ? params.whatsappLanguage?.trim() || DEFAULT_TEST_TEMPLATE_LANGUAGE : null;
+  if (channel === "whatsapp") {
+    if (!whatsappTemplate || !/^[a-z0-9_]+$/.test(whatsappTemplate)) {
+      throw new CampaignError("WhatsApp campaigns need the name of an approved message template");
+    }
+    if (!(await getWhatsAppAccountStatus(params.userId)).configured) {
+      throw new CampaignError("Connect your WhatsApp account in Settings before sending WhatsApp campaigns", 409);
+    }
+  }
+
+  const recipients = params.recipients.map(recipient => {
+    // The Cloud API rejects parameters with newlines, tabs or runs of spaces
+    const templateParams = channel === "whatsapp" && Array.isArray(recipient.templateParams)
+      ? recipient.templateParams.map(param => String(param ?? "").replace(/\s+/g, " ").trim())
+      : null;
+    return {
+      contactId: String(recipient.contactId || ""),
+      name: String(recipient.name || ""),
+      to: channel === "email"
+        ? String(recipient.to || "").trim()
+        : String(recipient.to || "").replace(/\D/g, ""),
+      message: channel === "email"
+        ? String(recipient.message || "").trim()
+        : templateParams?.filter(Boolean).join(", ") || whatsappTemplate!,
+      subject: channel === "email" ? String(recipient.subject || "").replace(/[\r\n]+/g, " ").trim() : null,
+      html: channel === "email" && recipient.html ? String(recipient.html) : null,
+      templateParams,
+    };
+  });
+  if (recipients.some(r => !r.contactId || !r.message)) {
+    throw new CampaignError("Every recipient needs a contact id and a message");
+  }
+  if (channel === "email" && recipients.some(r => !r.subject)) {
+    throw new CampaignError("Every email needs a subject");
+  }
+  const reserved = channel === "email" ? recipients.filter(r => isEmailAddress(r.to)).length : 0;
+  const day = reserved > 0 ? await reserveEmailSends(params.userId, reserved) : null;
+
+  let campaign: Campaign;
+  try {
+    campaign = await storage.createCampaign({
+      id: randomUUID(),
+      userId: params.userId,
+      name,
+      channel,
+      templateId: params.templateId ?? null,
+      groupId: params.groupId ?? null,
+      fromName: channel === "email" ? params.fromName?.trim() || null : null,
+      replyTo: channel === "email" ? replyTo : null,
+      whatsappTemplate,
+      whatsappLanguage,
+    }, recipients);
+  } catch (error) {
+    if (day) await releaseEmailSends(params.userId, reserved, day);
+    throw error;
+  }
+
+  const stored = await storage.getCampaignRecipients(campaign.id);
+  const queued: string[] = [];
+  for (const recipient of stored) {
+    const reachable = channel === "email" ? isEmailAddress(recipient.to) : recipient.to.length >= 8;
+    // The Cloud API rejects empty parameters, e.g. a contact without a company
+    const emptyParam = recipient.templateParams?.findIndex(param => !param) ?? -1;
+    if (!reachable) {
+      await storage.updateCampaignRecipient(recipient.id, {
+        status: "failed",
+        error: channel === "email" ? "No valid email address" : "No valid WhatsApp number",
+      });
+    } else if (emptyParam >= 0) {
+      await storage.updateCampaignRecipient(recipient.id, {
+        status: "failed",
+        error: `Template parameter {{${emptyParam + 1}}} is empty for this contact`,
+      });
+    } else {
+      queued.push(recipient.id);
+    }
+  }
+  await completeIfDone(campaign.id);
+  if (queued.length > 0) enqueue(params.userId, queued);
+
+  return (await getCampaignDetails(params.userId, campaign.id)).campaign;
+}
+
+export async function listCampaigns(userId: string): Promise<CampaignSummary[]> {
+  const campaigns = await storage.getCampaignsByUser(userId);
+  return Promise.all(
+    campaigns.map(async campaign => summarize(campaign, await storage.getCampaignRecipients(campaign.id)))
+  );
+}
+
+export async function getCampaignDetails(
+  userId: string,
+  campaignId: string,
+): Promise<{ campaign: CampaignSummary; recipients: CampaignRecipient[] }> {
+  const campaign = await storage.getCampaign(campaignId);
+  if (!campaign || campaign.userId !== userId) {
+    throw new CampaignError("Campaign not found", 404);
+  }
+
+  const recipients = await storage.getCampaignRecipients(campaignId);
+  return { campaign: summarize(campaign, recipients), recipients };
+}
+
+/**
+ * Stop a campaign. Messages already handed to the provider are not recalled.
+ */
+export async function cancelCampaign(userId: string, campaignId: string): Promise<CampaignSummary> {
+  const { campaign } = await getCampaignDetails(userId, campaignId);
+  if (campaign.status !== "sending") {
+    throw new CampaignError("Only campaigns that are still sending can be cancelled", 409);
+  }
+
+  await storage.updateCampaign(campaignId, { status: "cancelled", completedAt: new Date() });
+  const recipients = await storage.getCampaignRecipients(campaignId);
+  const unsent = recipients.filter(r => r.status === "queued");
+  for (const recipient of unsent) {
+    await storage.updateCampaignRecipient(recipient.id, { status: "failed", error: "Campaign cancelled" });
+  }
+  await releaseUnsent(campaign, unsent.length);
+
+  return (await getCampaignDetails(userId, campaignId)).campaign;
+}
+
+/**
+ * Apply the message statuses in a WhatsApp webhook payload. With `userId`,
+ * the user whose number the payload is signed for, only their campaigns are
+ * updated. Returns how many campaign messages changed status.
+ */
+export async function handleWhatsAppWebhook(payload: any, userId?: string): Promise<number> {
+  let updated = 0;
+
+  for (const update of parseWhatsAppStatuses(payload)) {
+    const recipient = await storage.getCampaignRecipientByMessageId(update.messageId);
+    if (!recipient) continue;
+    if (userId !== undefined && (await storage.getCampaign(recipient.campaignId))?.userId !== userId) continue;
+
+    const current = recipient.status as RecipientStatus;
+    const moves = current !== "failed" && (update.status === "failed"
+      ? current !== "read"
+      : STATUS_RANK[update.status] > STATUS_RANK[current]);
+    if (!moves) continue;
+
+    await storage.updateCampaignRecipient(recipient.id, {
+      status: update.status,
+      error: update.status === "failed" ? update.error || "Delivery failed" : null,
+    });
+    updated++;
+  }
+
+  return updated;
+}
@@ -0,0 +1,249 @@
+import { randomUUID } from "crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+import { storage } from "./storage";
+
+// Email configuration. EMAIL_TRANSPORT=capture keeps messages in memory
+// instead of sending them, for local development and tests.
+export const EMAIL_TRANSPORT = process.env.EMAIL_TRANSPORT || "smtp";
+export const EMAIL_FROM = process.env.EMAIL_FROM;
+export const SMTP_HOST = process.env.SMTP_HOST;
+export const SMTP_PORT = parseInt(process.env.SMTP_PORT || "587", 10);
+export const SMTP_SECURE = process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : SMTP_PORT === 465;
+export const SMTP_USER = process.env.SMTP_USER;
+export const SMTP_PASS = process.env.SMTP_PASS;
+// Without implicit TLS the connection must be upgraded with STARTTLS before
+// logging in, so the password is never sent in the clear. Only set this for
+// local test servers that cannot do TLS.
+export const SMTP_ALLOW_INSECURE = process.env.SMTP_ALLOW_INSECURE === "true";
+// Emails one user may send per day, single emails and campaigns together
+export const EMAIL_DAILY_LIMIT = parseInt(process.env.EMAIL_DAILY_LIMIT || "1000", 10);
+
+/**
+ * Failed email send. Temporary SMTP failures (4xx replies, connection
+ * problems) are worth another attempt.
+ */
+export class EmailError extends Error {
+  status: number;
+  retryable: boolean;
+
+  constructor(message: string, status = 502, retryable = false) {
+    super(message);
+    this.name = "EmailError";
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  // Shown as the sender's name; the address is always EMAIL_FROM
+  fromName?: string;
+  replyTo?: string;
+}
+
+export interface SmtpOptions {
+  host?: string;
+  port: number;
+  // Implicit TLS from the first byte (port 465); otherwise STARTTLS
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  // Carry on unencrypted when the server does not offer STARTTLS
+  allowInsecure?: boolean;
+}
+
+export interface CapturedEmail extends EmailMessage {
+  messageId: string;
+  from: string;
+  sentAt: Date;
+}
+
+/**
+ * Delivers email. Returns an id for the message as sent.
+ */
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export function isEmailAddress(value: string): boolean {
+  return EMAIL_PATTERN.test(value);
+}
+
+const senderName = (fromName?: string) => fromName?.replace(/[\r\n"<>]/g, "").trim() || "";
+
+function fromMailbox(address: string, fromName?: string): string {
+  const name = senderName(fromName);
+  return name ? `${name} <${address}>` : address;
+}
+
+// Connection failures nodemailer reports without an SMTP reply
+const CONNECTION_ERRORS = ["ECONNECTION", "ETIMEDOUT", "ESOCKET", "EDNS"];
+
+/**
+ * Sends through an SMTP server configured with the SMTP_* variables, using
+ * nodemailer
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+  private transporter: Transporter | undefined;
+
+  constructor(
+    private options: SmtpOptions = {
+      host: SMTP_HOST,
+      port: SMTP_PORT,
+      secure: SMTP_SECURE,
+      user: SMTP_USER,
+      pass: SMTP_PASS,
+      allowInsecure: SMTP_ALLOW_INSECURE,
+    },
+    private from = EMAIL_FROM,
+  ) {}
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      const { host, port, secure, user, pass, allowInsecure } = this.options;
+      this.transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure,
+        // Fail rather than log in over a connection STARTTLS did not encrypt
+        requireTLS: !secure && !allowInsecure,
+        auth: user ? { user, pass } : undefined,
+        connectionTimeout: 30000,
+        greetingTimeout: 30000,
+        socketTimeout: 30000,
+      });
+    }
+    return this.transporter;
+  }
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    if (!this.options.host || !this.from) {
+      throw new EmailError("Email sending is not configured", 503);
+    }
+
+    const name = senderName(message.fromName);
+    try {
+      const info = await this.getTransporter().sendMail({
+        from: name ? { name, address: this.from } : this.from,
+        to: message.to,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+      return { messageId: info.messageId };
+    } catch (error: any) {
+      // 4xx replies and dropped connections are temporary
+      const temporary = typeof error.responseCode === "number"
+        ? error.responseCode >= 400 && error.responseCode < 500
+        : CONNECTION_ERRORS.includes(error.code);
+      throw new EmailError(error.message || "Email send failed", temporary ? 503 : 502, temporary);
+    }
+  }
+}
+
+/**
+ * Keeps messages in memory instead of sending them. Addresses ending in
+ * @bounce.test fail, to exercise error handling.
+ */
+export class CaptureTransport implements EmailTransport {
+  readonly name = "capture";
+  readonly messages: CapturedEmail[] = [];
+
+  constructor(private from = EMAIL_FROM || "no-reply@localhost") {}
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    if (message.to.toLowerCase().endsWith("@bounce.test")) {
+      throw new EmailError("550 Mailbox unavailable", 502);
+    }
+
+    const captured: CapturedEmail = {
+      ...message,
+      messageId: `<capture-${randomUUID()}@localhost>`,
+      from: fromMailbox(this.from, message.fromName),
+      sentAt: new Date(),
+    };
+    this.messages.push(captured);
+    return { messageId: captured.messageId };
+  }
+}
+
+/**
+ * Check and send a single email, e.g. to one contact. Subject and
+ * addresses are validated here; campaigns validate their own recipients.
+ */
+export async function sendEmail(message: EmailMessage): Promise<{ messageId: string }> {
+  const to = String(message.to || "").trim();
+  const subject = String(message.subject || "").replace(/[\r\n]+/g, " ").trim();
+  const text = String(message.text || "").trim();
+  const replyTo = message.replyTo?.trim() || undefined;
+
+  if (!isEmailAddress(to)) {
+    throw new EmailError("Enter a valid email address", 400);
+  }
+  if (!subject || !text) {
+    throw new EmailError("Subject and message are required", 400);
+  }
+  if (replyTo && !isEmailAddress(replyTo)) {
+    throw new EmailError("Reply-to must be an email address", 400);
+  }
+
+  return getEmailTransport().send({
+    to,
+    subject,
+    text,
+    html: message.html || undefined,
+    fromName: message.fromName,
+    replyTo,
+  });
+}
+
+// Day the daily email limit counts against, in UTC
+export const emailDay = (date = new Date()) => date.toISOString().slice(0, 10);
+
+/**
+ * Count `count` emails against the user's daily limit before sending them.
+ * Fails with a 429, counting nothing, when they would go over it. Returns
+ * the day counted against, for releaseEmailSends.
+ */
+export async function reserveEmailSends(userId: string, count: number): Promise<string> {
+  const day = emailDay();
+  const { allowed, sent } = await storage.incrementEmailSends(userId, day, count, EMAIL_DAILY_LIMIT);
+  if (!allowed) {
+    const left = Math.max(0, EMAIL_DAILY_LIMIT - sent);
+    throw new EmailError(`Daily email limit reached: ${left} of ${EMAIL_DAILY_LIMIT} emails left today`, 429);
+  }
+  return day;
+}
+
+/**
+ * Give back reserved sends that were never made, e.g. when the send failed
+ */
+export async function releaseEmailSends(userId: string, count: number, day: string): Promise<void> {
+  if (count > 0) {
+    await storage.decrementEmailSends(userId, day, count);
+  }
+}
+
+let transport: EmailTransport | undefined;
+
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = EMAIL_TRANSPORT === "capture" ? new CaptureTransport() : new SmtpTransport();
+  }
+  return transport;
+}
+
+/**
+ * Replace the active transport, e.g. with a CaptureTransport in tests.
+ */
+export function setEmailTransport(next: EmailTransport) {
+  transport = next;
+}
@@ -0,0 +1,179 @@
+import type { InsertCampaignRecipient } from "@shared/schema";
+import {
+  contactTemplateValues,
+  renderEmailTemplate,
+  type EmailTemplate,
+  type TemplateValues,
+} from "@shared/templates";
+import type { VerifiedUser } from "./auth";
+import { EmailError, type EmailMessage } from "./email";
+import { getUserDataSource, type UserDocument } from "./userData";
+
+// Public address of the app, used in card links. Defaults to the address
+// the request was made to.
+export const APP_URL = process.env.APP_URL?.replace(/\/+$/, "");
+// Contacts one email campaign can go to
+export const MAX_EMAIL_CONTACTS = 1000;
+
+// Emails are rendered here from the user's own templates and contacts, so
+// clients cannot send other content or write to addresses of their choosing
+
+export interface ContactEmailRequest {
+  contactId: string;
+  // One of the contact's addresses; the first one when left out
+  to?: string;
+  templateId?: string | null;
+  // Replaces the template's subject; required without a template
+  subject?: string;
+  // Plain text the user wrote or edited, sent instead of the template's
+  // text and HTML
+  text?: string;
+}
+
+export interface CampaignEmailRequest {
+  templateId: string;
+  // Template for the subject, replacing the template's own
+  subject?: string;
+  contactIds: string[];
+}
+
+export interface CampaignEmails {
+  fromName: string | null;
+  replyTo: string | null;
+  recipients: InsertCampaignRecipient[];
+}
+
+export function contactEmails(contact: UserDocument): string[] {
+  return contact.emails?.length ? contact.emails : contact.email ? [contact.email] : [];
+}
+
+export const contactName = (contact: UserDocument) =>
+  `${contact.firstName || ""} ${contact.lastName || ""}`.trim() || contact.name || contact.company || "Unnamed contact";
+
+export const contactValues = (contact: UserDocument) =>
+  contactTemplateValues({ ...contact, phones: contact.phones || (contact.phone ? [contact.phone] : []) });
+
+async function loadTemplate(userId: string, templateId: string): Promise<EmailTemplate> {
+  const [template] = await getUserDataSource().getMany("templates", [String(templateId)]);
+  if (!template || template.ownerId !== userId) {
+    throw new EmailError("Template not found", 404);
+  }
+  return {
+    subject: template.subject || "",
+    content: template.content || "",
+    htmlContent: template.htmlContent || null,
+  };
+}
+
+// The user's contacts in the order asked for. Fails if any is not theirs.
+export async function loadContacts(userId: string, contactIds: string[]): Promise<UserDocument[]> {
+  const ids = Array.from(new Set(contactIds.map(String)));
+  const contacts = await getUserDataSource().getMany("contacts", ids);
+  if (contacts.length !== ids.length || contacts.some(contact => contact.ownerId !== userId)) {
+    throw new EmailError("Contact not found", 404);
+  }
+  return ids.map(id => contacts.find(contact => contact.id === id)!);
+}
+
+// Sender variables, as useTemplateSender builds them on the client
+export async function loadSender(user: VerifiedUser, origin: string): Promise<TemplateValues> {
+  const data = getUserDataSource();
+  const [[settings], cards] = await Promise.all([
+    data.getMany("settings", [user.uid]),
+    data.listOwned("digitalCards", user.uid),
+  ]);
+  const card = cards
+    .filter(c => c.isPublic && c.publicId)
+    .sort((a, b) => (b.updatedAt?.toMillis?.() || 0) - (a.updatedAt?.toMillis?.() || 0))[0];
+
+  return {
+    displayName: settings?.displayName || user.name || "",
+    businessName: settings?.businessName || "",
+    cardLink: card ? `${APP_URL || origin}/share/${card.publicId}` : "",
+  };
+}
+
+const senderName = (sender: TemplateValues) => sender.displayName || sender.businessName || null;
+
+// Replies only go to an address the user has proved is theirs
+const replyAddress = (user: VerifiedUser) => (user.emailVerified && user.email) || null;
+
+/**
+ * One email to one of the user's contacts, from a template or the user's
+ * own text
+ */
+export async function composeContactEmail(
+  user: VerifiedUser,
+  request: ContactEmailRequest,
+  origin: string,
+): Promise<EmailMessage> {
+  if (!request.contactId) {
+    throw new EmailError("Choose a contact to email", 400);
+  }
+  const [contact] = await loadContacts(user.uid, [request.contactId]);
+  const addresses = contactEmails(contact);
+  const to = request.to?.trim() || addresses[0] || "";
+  if (!addresses.some(address => address.toLowerCase() === to.toLowerCase())) {
+    throw new EmailError(addresses.length ? "Emails can only go to the contact's own addresses" : "This contact has no email address", 400);
+  }
+
+  const sender = await loadSender(user, origin);
+  const rendered = request.templateId
+    ? renderEmailTemplate(await loadTemplate(user.uid, request.templateId), { ...sender, ...contactValues(contact) })
+    : null;
+  const text = request.text?.trim();
+
+  return {
+    to,
+    subject: request.subject?.trim() || rendered?.subject || "",
+    text: text || rendered?.text || "",
+    html: text ? undefined : rendered?.html || undefined,
+    fromName: senderName(sender) || undefined,
+    replyTo: replyAddress(user) || undefined,
+  };
+}
+
+/**
+ * Render a template for each of the user's contacts in an email campaign
+ */
+export async function composeCampaignEmails(
+  user: VerifiedUser,
+  request: CampaignEmailRequest,
+  origin: string,
+): Promise<CampaignEmails> {
+  if (!request.templateId) {
+    throw new EmailError("Choose a template to send", 400);
+  }
+  if (!Array.isArray(request.contactIds) || request.contactIds.length === 0) {
+    throw new EmailError("Campaign has no recipients", 400);
+  }
+  if (request.contactIds.length > MAX_EMAIL_CONTACTS) {
+    throw new EmailError(`Campaigns are limited to ${MAX_EMAIL_CONTACTS} recipients`, 400);
+  }
+
+  const [template, contacts, sender] = await Promise.all([
+    loadTemplate(user.uid, request.templateId),
+    loadContacts(user.uid, request.contactIds),
+    loadSender(user, origin),
+  ]);
+  const subject = request.subject?.trim() || template.subject || "";
+
+  return {
+    fromName: senderName(sender),
+    replyTo: replyAddress(user),
+    recipients: contacts.map(contact => {
+      const rendered = renderEmailTemplate({ ...template, subject }, {
+        ...sender,
+        ...contactValues(contact),
+      });
+      return {
+        contactId: contact.id,
+        name: contactName(contact),
+        to: contactEmails(contact)[0] || "",
+        message: rendered.text,
+        subject: rendered.subject,
+        html: rendered.html,
+      };
+    }),
+  };
+}
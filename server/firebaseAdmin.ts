@@ -0,0 +1,38 @@
+import { applicationDefault, cert, getApps, initializeApp, type App } from "firebase-admin/app";
+import { getAuth, type Auth } from "firebase-admin/auth";
+import { getFirestore, type Firestore } from "firebase-admin/firestore";
+
+// Firebase project the client signs in to. Verifying ID tokens needs only
+// the project id; reading user data also needs a service account, either
+// FIREBASE_SERVICE_ACCOUNT (the key file's JSON) or the file named by
+// GOOGLE_APPLICATION_CREDENTIALS.
+export const FIREBASE_PROJECT_ID = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID;
+export const FIREBASE_SERVICE_ACCOUNT = process.env.FIREBASE_SERVICE_ACCOUNT;
+
+function credential() {
+  if (FIREBASE_SERVICE_ACCOUNT) {
+    return cert(JSON.parse(FIREBASE_SERVICE_ACCOUNT));
+  }
+  if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+    return applicationDefault();
+  }
+  return undefined;
+}
+
+export function getFirebaseAdminApp(): App {
+  const existing = getApps()[0];
+  if (existing) return existing;
+
+  if (!FIREBASE_PROJECT_ID) {
+    throw new Error("FIREBASE_PROJECT_ID not configured");
+  }
+  return initializeApp({ projectId: FIREBASE_PROJECT_ID, credential: credential() });
+}
+
+export function getFirebaseAdminAuth(): Auth {
+  return getAuth(getFirebaseAdminApp());
+}
+
+export function getFirebaseAdminFirestore(): Firestore {
+  return getFirestore(getFirebaseAdminApp());
+}
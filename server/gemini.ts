@@ -0,0 +1,230 @@
+import { ApiError, GoogleGenAI, HarmBlockThreshold, HarmCategory } from "@google/genai";
+import type { ParsedContact } from "@shared/schema";
+import {
+  OcrError,
+  cleanCardData,
+  type CardSide,
+  type OcrImage,
+  type OcrProvider,
+  type ScanMode,
+  type ScanResult,
+} from "./ocr";
+
+const SAFETY_SETTINGS = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+].map(category => ({ category, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE }));
+
+const SINGLE_CARD_PROMPT = `
+Analyze this business card image and extract the following information. Return ONLY a valid JSON object with this exact structure:
+
+{
+  "name": "Full name of the person",
+  "company": "Company or organization name",
+  "email": "Email address",
+  "phone": "Phone number (with country code if visible)",
+  "services": "Job title, position, or services offered",
+  "address": "Complete address (street, city, state, zip)",
+  "website": "Website URL if present",
+  "social": "Social media handles if present",
+  "confidence": "high|medium|low - your confidence in the extraction",
+  "fieldConfidence": {
+    "name": "high|medium|low",
+    "company": "high|medium|low",
+    "email": "high|medium|low",
+    "phones": "high|medium|low",
+    "services": "high|medium|low",
+    "address": "high|medium|low",
+    "website": "high|medium|low",
+    "social": "high|medium|low"
+  },
+  "corners": [{"x": 0.0, "y": 0.0}, {"x": 1.0, "y": 0.0}, {"x": 1.0, "y": 1.0}, {"x": 0.0, "y": 1.0}]
+}
+
+Rules:
+- Return ONLY valid JSON, no additional text or explanation
+- Use empty string "" for missing information, not null
+- Clean and format extracted text properly
+- For phone numbers, include country code if visible
+- Write phone numbers as printed and put "Fax: " in front of fax numbers
+- Extract complete addresses including all components
+- Be accurate and avoid hallucination
+- If text is unclear, use best interpretation but don't guess
+- Rate each extracted field in "fieldConfidence"; use "low" for text that was blurry, cut off or partly guessed
+- "corners" outlines the card itself: top-left, top-right, bottom-right, bottom-left corners of the card as printed (follow the card if it is rotated or photographed at an angle), each as a fraction 0-1 of the image width (x) and height (y)
+`;
+
+const MULTI_CARD_PROMPT = `
+Analyze this image that may contain one or more business cards. Extract information from EACH business card you can identify and return a JSON array.
+
+IMPORTANT INSTRUCTIONS:
+- Look carefully for multiple business cards in the image (side by side, overlapping, etc.)
+- Extract text accurately, don't hallucinate information
+- Pay special attention to phone numbers, emails, and names
+- Include ALL phone numbers (mobile and landline) in a single "phones" array
+- Clean up any OCR artifacts or unclear text
+
+For each business card found, return this JSON structure:
+
+[
+  {
+    "cardNumber": 1,
+    "name": "Full name (first and last name)",
+    "company": "Company or organization name",
+    "email": "email@domain.com",
+    "phones": ["all phone numbers including mobile and landline"],
+    "services": "Job title, position, or services description",
+    "address": "Complete address with street, city, state/province, postal code",
+    "website": "Website URL (include https://)",
+    "social": "Social media handles or other contact info",
+    "confidence": "high|medium|low - your confidence in the extraction",
+    "fieldConfidence": {
+      "name": "high|medium|low",
+      "company": "high|medium|low",
+      "email": "high|medium|low",
+      "phones": "high|medium|low",
+      "services": "high|medium|low",
+      "address": "high|medium|low",
+      "website": "high|medium|low",
+      "social": "high|medium|low"
+    },
+    "corners": [{"x": 0.0, "y": 0.0}, {"x": 0.5, "y": 0.0}, {"x": 0.5, "y": 0.5}, {"x": 0.0, "y": 0.5}]
+  }
+]
+
+RULES:
+- Return a JSON array even for single cards
+- Use empty arrays [] for missing phones
+- Use empty string "" for missing text fields  
+- Include ALL phone numbers in the same "phones" array (don't separate mobile/landline)
+- Include country codes when visible
+- Write phone numbers as printed and put "Fax: " in front of fax numbers
+- Extract complete, properly formatted addresses
+- Don't guess or make up information
+- Number cards starting from 1
+- Be conservative with confidence ratings
+- Rate each extracted field in "fieldConfidence"; use "low" for text that was blurry, cut off or partly guessed
+- "corners" outlines the card itself: top-left, top-right, bottom-right, bottom-left corners of the card as printed (follow the card if it is rotated or photographed at an angle), each as a fraction 0-1 of the image width (x) and height (y)
+`;
+
+const SCAN_SETTINGS: Record<ScanMode, { prompt: string; maxOutputTokens: number; topP: number }> = {
+  single: { prompt: SINGLE_CARD_PROMPT, maxOutputTokens: 1024, topP: 1 },
+  multi: { prompt: MULTI_CARD_PROMPT, maxOutputTokens: 8192, topP: 0.8 },
+};
+
+/**
+ * Pull the JSON payload out of a model reply, tolerating markdown fences,
+ * surrounding prose and trailing commas. Always returns an array of cards.
+ */
+export function parseModelResponse(text: string): any[] {
+  let jsonText = text.trim().replace(/```(?:json)?\s*/g, '').replace(/```\s*/g, '');
+
+  const arrayMatch = jsonText.match(/\[[\s\S]*\]/);
+  const objectMatch = jsonText.match(/\{[\s\S]*\}/);
+  if (arrayMatch && (!objectMatch || arrayMatch.index! < objectMatch.index!)) {
+    jsonText = arrayMatch[0];
+  } else if (objectMatch) {
+    jsonText = `[${objectMatch[0]}]`;
+  } else {
+    throw new OcrError('No valid JSON found in model response', 502);
+  }
+
+  jsonText = jsonText
+    .replace(/,\s*}/g, '}')
+    .replace(/,\s*]/g, ']')
+    .replace(/[\u0000-\u001F\u007F-\u009F]/g, '');
+
+  try {
+    const parsed = JSON.parse(jsonText);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch (error: any) {
+    throw new OcrError(`Failed to parse extracted card data: ${error.message}. Please try with a clearer image.`, 502);
+  }
+}
+
+/**
+ * Gemini vision model, called with the server's GEMINI_API_KEY so the key
+ * never reaches the browser.
+ */
+export class GeminiOcrProvider implements OcrProvider {
+  readonly name = "gemini";
+  private client: GoogleGenAI | undefined;
+
+  constructor(
+    private apiKey = process.env.GEMINI_API_KEY,
+    private model = process.env.GEMINI_MODEL || "gemini-1.5-flash",
+  ) {}
+
+  async scan(image: OcrImage, mode: ScanMode, side: CardSide = "front"): Promise<ScanResult> {
+    const reply = await this.generate(image, mode);
+    const parsedCards = parseModelResponse(reply);
+
+    const cards: ParsedContact[] = [];
+    const errors: string[] = [];
+
+    parsedCards.forEach((cardData, i) => {
+      const card = cleanCardData(cardData, side);
+      if (card) {
+        cards.push(card);
+      } else {
+        errors.push(`Card ${i + 1} skipped - insufficient information extracted`);
+      }
+    });
+
+    return { cards, errors, provider: this.name };
+  }
+
+  private async generate(image: OcrImage, mode: ScanMode): Promise<string> {
+    if (!this.apiKey) {
+      throw new OcrError("OCR is not configured. Set GEMINI_API_KEY on the server.", 503);
+    }
+    if (!this.client) {
+      this.client = new GoogleGenAI({ apiKey: this.apiKey });
+    }
+
+    const { prompt, maxOutputTokens, topP } = SCAN_SETTINGS[mode];
+
+    try {
+      const response = await this.client.models.generateContent({
+        model: this.model,
+        contents: [{
+          role: "user",
+          parts: [
+            { text: prompt },
+            { inlineData: { mimeType: image.mimeType, data: image.data.toString("base64") } },
+          ],
+        }],
+        config: {
+          temperature: 0.1,
+          topK: 1,
+          topP,
+          maxOutputTokens,
+          safetySettings: SAFETY_SETTINGS,
+        },
+      });
+
+      const text = response.text;
+      if (!text) {
+        throw new OcrError("Invalid response from Gemini API - no content found", 502);
+      }
+      return text;
+    } catch (error: any) {
+      if (error instanceof OcrError) throw error;
+      if (error instanceof ApiError) {
+        if (error.status === 429) {
+          throw new OcrError("API rate limit exceeded. Please wait before trying again.", 429);
+        }
+        if (error.status === 401 || error.status === 403) {
+          console.error("Gemini rejected the server API key:", error.message);
+          throw new OcrError("OCR service rejected the server's API key.", 502);
+        }
+        if (error.status >= 500) {
+          throw new OcrError("Gemini API server error. Please try again later.", 503);
+        }
+      }
+      throw new OcrError(`OCR processing failed: ${error.message}`, 502);
+    }
+  }
+}
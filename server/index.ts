@@ -1,9 +1,21 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { resumeCampaigns } from "./campaigns";
 import { setupVite, serveStatic, log } from "./vite";
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody: unknown;
+  }
+}
+
 const app = express();
-app.use(express.json());
+// Keep the raw request body around so webhook signatures can be verified
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Middleware for logging API requests
@@ -76,4 +88,7 @@ app.use((req, res, next) => {
       }
     );
   }
+
+  // Carry on with campaigns a restart interrupted
+  resumeCampaigns().catch(error => console.error("Error resuming campaigns:", error));
 })();
@@ -0,0 +1,93 @@
+import { spawn } from "child_process";
+import { parseOcrToContact } from "@shared/parse";
+import { CONTACT_FIELDS, OcrError, cleanCardData, type CardSide, type OcrImage, type OcrProvider, type ScanMode, type ScanResult } from "./ocr";
+
+/**
+ * Turns an image into plain text. The offline provider only needs text, so
+ * any engine with a command-line or library interface can be plugged in.
+ */
+export interface TextRecognizer {
+  recognize(image: OcrImage): Promise<string>;
+}
+
+const RECOGNIZE_TIMEOUT_MS = 30000;
+
+/**
+ * Runs the Tesseract CLI (TESSERACT_PATH, or `tesseract` on the PATH) with
+ * the image piped through stdin.
+ */
+export class TesseractRecognizer implements TextRecognizer {
+  constructor(
+    private command = process.env.TESSERACT_PATH || "tesseract",
+    private language = process.env.TESSERACT_LANG || "eng",
+  ) {}
+
+  recognize(image: OcrImage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, ["stdin", "stdout", "-l", this.language, "--psm", "3"]);
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new OcrError("Offline OCR timed out. Please try again.", 504));
+      }, RECOGNIZE_TIMEOUT_MS);
+
+      child.stdout.on("data", chunk => stdout.push(chunk));
+      child.stderr.on("data", chunk => stderr.push(chunk));
+      child.on("error", (error: NodeJS.ErrnoException) => {
+        clearTimeout(timer);
+        if (error.code === "ENOENT") {
+          reject(new OcrError("Offline OCR engine is not installed on the server.", 503));
+        } else {
+          reject(new OcrError(`Offline OCR failed: ${error.message}`, 502));
+        }
+      });
+      child.on("close", code => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(Buffer.concat(stdout).toString("utf8"));
+        } else {
+          reject(new OcrError(`Offline OCR failed: ${Buffer.concat(stderr).toString("utf8").trim()}`, 502));
+        }
+      });
+
+      // Tesseract may exit before reading all input on unsupported images
+      child.stdin.on("error", () => {});
+      child.stdin.end(image.data);
+    });
+  }
+}
+
+/**
+ * Offline provider: recognizes plain text locally and extracts the contact
+ * with the parseOcrToContact heuristics. It reads one card per image.
+ */
+export class LocalOcrProvider implements OcrProvider {
+  readonly name = "local";
+
+  constructor(private recognizer: TextRecognizer = new TesseractRecognizer()) {}
+
+  async scan(image: OcrImage, mode: ScanMode, side: CardSide = "front"): Promise<ScanResult> {
+    const text = await this.recognizer.recognize(image);
+    const card = text.trim() ? cleanCardData(parseOcrToContact(text), side) : null;
+
+    if (!card) {
+      return { cards: [], errors: ["Card 1 skipped - insufficient information extracted"], provider: this.name };
+    }
+
+    // Heuristic extraction: only pattern-matched fields earn medium confidence
+    card.confidence = "low";
+    card.fieldConfidence = {};
+    for (const field of CONTACT_FIELDS) {
+      if (card[field]) {
+        card.fieldConfidence[field] = field === "email" || field === "phones" ? "medium" : "low";
+      }
+    }
+
+    const errors = mode === "multi"
+      ? ["Offline OCR reads one card per image; scan additional cards separately"]
+      : [];
+    return { cards: [card], errors, provider: this.name };
+  }
+}
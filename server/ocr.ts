@@ -0,0 +1,223 @@
+import type { CardCorners, ConfidenceLevel, ContactField, ParsedContact } from "@shared/schema";
+import { cleanExtractedField } from "@shared/contactFields";
+import { phoneLabelType, phonesMatch } from "@shared/phone";
+import { GeminiOcrProvider } from "./gemini";
+import { LocalOcrProvider } from "./localOcr";
+import { FixtureOcrProvider } from "./ocrFixtures";
+
+export type ScanMode = "single" | "multi";
+
+// A card's back side may hold only an address or website
+export type CardSide = "front" | "back";
+
+export interface OcrImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface ScanResult {
+  cards: ParsedContact[];
+  errors: string[];
+  provider: string;
+}
+
+/**
+ * Engine that reads business cards from an image. Cloud providers return
+ * structured fields from a vision model; offline providers recognize plain
+ * text and extract fields heuristically.
+ */
+export interface OcrProvider {
+  readonly name: string;
+  scan(image: OcrImage, mode: ScanMode, side?: CardSide): Promise<ScanResult>;
+}
+
+export class OcrError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = "OcrError";
+    this.status = status;
+  }
+}
+
+export const SUPPORTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/gif", "image/webp", "image/bmp"];
+
+export const OCR_PROVIDERS = ["gemini", "local", "fixture"] as const;
+export type OcrProviderName = typeof OCR_PROVIDERS[number];
+
+export const CONTACT_FIELDS: ContactField[] = ["name", "company", "email", "phones", "services", "address", "website", "social"];
+
+function toConfidenceLevel(value: unknown): ConfidenceLevel | undefined {
+  const level = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return level === "high" || level === "medium" || level === "low" ? level : undefined;
+}
+
+/**
+ * Card outline from a provider: four {x, y} corners as fractions of the
+ * image size. Outlines that are malformed or too small to be a card are
+ * dropped so the client falls back to the whole image.
+ */
+function toCardCorners(value: unknown): CardCorners | undefined {
+  if (!Array.isArray(value) || value.length !== 4) return undefined;
+
+  const corners = value.map(point => ({ x: Number(point?.x), y: Number(point?.y) }));
+  if (corners.some(({ x, y }) => !Number.isFinite(x) || !Number.isFinite(y))) return undefined;
+
+  // Some replies use 0-1000 coordinates instead of fractions
+  const scale = corners.some(({ x, y }) => x > 1 || y > 1) ? 1000 : 1;
+  const clamp = (n: number) => Math.min(1, Math.max(0, n / scale));
+  const points = corners.map(({ x, y }) => ({ x: clamp(x), y: clamp(y) }));
+
+  // Shoelace area; anything under 1% of the image is not a usable crop
+  const area = Math.abs(points.reduce((sum, p, i) => {
+    const next = points[(i + 1) % 4];
+    return sum + p.x * next.y - next.x * p.y;
+  }, 0)) / 2;
+
+  return area >= 0.01 ? points as CardCorners : undefined;
+}
+
+/**
+ * Clean one card read by a provider. Returns null when nothing useful
+ * (name, company, email or phone) was read; a back side only needs one
+ * field, as it is merged into its front.
+ */
+export function cleanCardData(cardData: any, side: CardSide = "front"): ParsedContact | null {
+  if (!cardData || typeof cardData !== 'object') return null;
+
+  const card: ParsedContact = {
+    name: cleanExtractedField(cardData.name, 'text'),
+    company: cleanExtractedField(cardData.company, 'text'),
+    email: cleanExtractedField(cardData.email, 'email'),
+    services: cleanExtractedField(cardData.services, 'text'),
+    address: cleanExtractedField(cardData.address, 'text'),
+    website: cleanExtractedField(cardData.website, 'url'),
+    social: cleanExtractedField(cardData.social, 'text'),
+  };
+
+  // Numbers stay as printed, once each; fax numbers are kept apart
+  const rawPhones: any[] = Array.isArray(cardData.phones) ? cardData.phones : [cardData.phone];
+  const rawFaxes: any[] = Array.isArray(cardData.faxes) ? cardData.faxes : [];
+  const seen: string[] = [];
+  const phones: string[] = [];
+  const faxes: string[] = [];
+  [...rawPhones, ...rawFaxes].forEach((raw, i) => {
+    const phone = cleanExtractedField(raw, 'phone');
+    if (!phone || seen.some(other => phonesMatch(other, phone))) return;
+    seen.push(phone);
+    (i >= rawPhones.length || phoneLabelType(phone) === 'fax' ? faxes : phones).push(phone);
+  });
+  if (phones.length > 0) card.phones = phones;
+  if (faxes.length > 0) card.faxes = faxes;
+
+  Object.keys(card).forEach(key => {
+    if (!card[key as keyof ParsedContact]) {
+      delete card[key as keyof ParsedContact];
+    }
+  });
+
+  // Confidence is only kept for fields that survived cleaning
+  const confidence = toConfidenceLevel(cardData.confidence);
+  if (confidence) card.confidence = confidence;
+
+  const fieldConfidence: ParsedContact["fieldConfidence"] = {};
+  for (const field of CONTACT_FIELDS) {
+    const level = toConfidenceLevel(cardData.fieldConfidence?.[field]);
+    if (level && card[field]) fieldConfidence[field] = level;
+  }
+  if (Object.keys(fieldConfidence).length > 0) card.fieldConfidence = fieldConfidence;
+
+  const corners = toCardCorners(cardData.corners);
+  if (corners) card.corners = corners;
+
+  if (side === "back") {
+    return CONTACT_FIELDS.some(field => card[field]) ? card : null;
+  }
+  return card.name || card.company || card.email || card.phones ? card : null;
+}
+
+export function createOcrProvider(name: OcrProviderName): OcrProvider {
+  switch (name) {
+    case "gemini":
+      return new GeminiOcrProvider();
+    case "local":
+      return new LocalOcrProvider();
+    case "fixture":
+      return new FixtureOcrProvider();
+  }
+}
+
+let provider: OcrProvider | undefined;
+let fallbackProvider: OcrProvider | undefined;
+
+/**
+ * Provider named by OCR_PROVIDER, or Gemini when a key is configured and the
+ * offline engine otherwise.
+ */
+export function getOcrProvider(): OcrProvider {
+  if (!provider) {
+    const configured = process.env.OCR_PROVIDER as OcrProviderName | undefined;
+    if (configured && OCR_PROVIDERS.includes(configured)) {
+      provider = createOcrProvider(configured);
+    } else {
+      provider = createOcrProvider(process.env.GEMINI_API_KEY ? "gemini" : "local");
+    }
+  }
+  return provider;
+}
+
+/**
+ * Replace the active provider, e.g. with a fixture provider in tests.
+ */
+export function setOcrProvider(next: OcrProvider) {
+  provider = next;
+}
+
+function getFallbackProvider(): OcrProvider {
+  if (!fallbackProvider) {
+    fallbackProvider = createOcrProvider("local");
+  }
+  return fallbackProvider;
+}
+
+/**
+ * Read the business cards in an image with the configured provider. When a
+ * cloud model is unavailable the scan falls back to the offline engine.
+ */
+export async function scanBusinessCards(
+  image: OcrImage,
+  mode: ScanMode = "multi",
+  side: CardSide = "front"
+): Promise<ScanResult> {
+  if (!SUPPORTED_IMAGE_TYPES.includes(image.mimeType)) {
+    throw new OcrError(`Invalid file type: ${image.mimeType}`, 415);
+  }
+
+  const primary = getOcrProvider();
+  let result: ScanResult;
+
+  try {
+    result = await primary.scan(image, mode, side);
+  } catch (error: any) {
+    const fallback = getFallbackProvider();
+    if (!(error instanceof OcrError) || error.status !== 503 || primary.name === fallback.name) {
+      throw error;
+    }
+
+    console.warn(`${primary.name} OCR unavailable, using ${fallback.name}: ${error.message}`);
+    try {
+      result = await fallback.scan(image, mode, side);
+    } catch (fallbackError: any) {
+      if (fallbackError instanceof OcrError && fallbackError.status === 503) {
+        throw new OcrError("No OCR engine is available. Set GEMINI_API_KEY or install Tesseract on the server.", 503);
+      }
+      throw fallbackError;
+    }
+  }
+
+  if (mode === "single" && result.cards.length > 1) {
+    result.cards.length = 1;
+  }
+  return result;
+}
@@ -0,0 +1,44 @@
+import { createHash } from "crypto";
+import type { ParsedContact } from "@shared/schema";
+import type { OcrImage, OcrProvider, ScanResult } from "./ocr";
+
+export const FIXTURE_CARDS: ParsedContact[] = [
+  {
+    name: "Jane Doe",
+    company: "Acme Corporation",
+    email: "jane.doe@acme.example",
+    phones: ["+15550100000"],
+    services: "Head of Partnerships",
+    address: "1 Market Street, San Francisco, CA 94105",
+    website: "https://acme.example",
+    confidence: "high",
+  },
+];
+
+/**
+ * Deterministic provider for local development and tests. Images are matched
+ * by the SHA-256 of their bytes; anything unrecognized returns the default
+ * cards.
+ */
+export class FixtureOcrProvider implements OcrProvider {
+  readonly name = "fixture";
+
+  constructor(
+    private fixtures: Record<string, ParsedContact[]> = {},
+    private defaultCards: ParsedContact[] = FIXTURE_CARDS,
+  ) {}
+
+  static hashImage(image: OcrImage): string {
+    return createHash("sha256").update(image.data).digest("hex");
+  }
+
+  async scan(image: OcrImage): Promise<ScanResult> {
+    const cards = this.fixtures[FixtureOcrProvider.hashImage(image)] ?? this.defaultCards;
+
+    return {
+      cards: structuredClone(cards),
+      errors: [],
+      provider: this.name,
+    };
+  }
+}
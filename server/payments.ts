@@ -0,0 +1,44 @@
+import { RazorpayGateway } from "./razorpay";
+
+export interface CreateOrderParams {
+  amount: number; // smallest currency unit (paise)
+  currency: string;
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface GatewayOrder {
+  id: string;
+  amount: number;
+  currency: string;
+  receipt: string;
+}
+
+/**
+ * Payment provider used by the billing routes. Implementations create orders
+ * with the provider and verify the signatures it attaches to checkout
+ * callbacks and webhooks.
+ */
+export interface PaymentGateway {
+  readonly name: string;
+  readonly publicKey: string | undefined;
+  createOrder(params: CreateOrderParams): Promise<GatewayOrder>;
+  verifyPaymentSignature(orderId: string, paymentId: string, signature: string): boolean;
+  verifyWebhookSignature(rawBody: Buffer | string, signature: string): boolean;
+}
+
+let gateway: PaymentGateway | undefined;
+
+export function getPaymentGateway(): PaymentGateway {
+  if (!gateway) {
+    gateway = new RazorpayGateway();
+  }
+  return gateway;
+}
+
+/**
+ * Replace the active gateway, e.g. with a fake in local testing.
+ */
+export function setPaymentGateway(next: PaymentGateway) {
+  gateway = next;
+}
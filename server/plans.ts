@@ -0,0 +1,92 @@
+import { TRIAL_DAYS, type PlanFeatures, type QuotaLimits } from "@shared/schema";
+
+// Plan catalogue owned by the server. Prices are in rupees and are never
+// taken from the client when creating payment orders.
+
+export interface Plan {
+  id: string;
+  name: string;
+  price: number;
+  currency: string;
+  durationMonths: number;
+  features: PlanFeatures;
+  limits: QuotaLimits;
+}
+
+export const FREE_PLAN: Plan = {
+  id: "free",
+  name: "Free Plan",
+  price: 0,
+  currency: "INR",
+  durationMonths: 0,
+  features: {
+    unlimitedScanning: false,
+    contactStorage: 1,
+    groupManagement: false,
+    digitalCards: true,
+    bulkUpload: false,
+    templateManagement: false,
+  },
+  limits: {
+    contacts: 1,
+    groups: 1,
+    digitalCards: 10,
+    aiScans: 1,
+  },
+};
+
+export const PLANS: Record<string, Plan> = {
+  basic: {
+    id: "basic",
+    name: "Basic Plan",
+    price: 999,
+    currency: "INR",
+    durationMonths: 12,
+    features: {
+      unlimitedScanning: true,
+      contactStorage: 1000,
+      groupManagement: true,
+      digitalCards: false,
+      bulkUpload: false,
+      templateManagement: false,
+    },
+    limits: {
+      contacts: 1000,
+      groups: null,
+      digitalCards: 10,
+      aiScans: null,
+    },
+  },
+  premium: {
+    id: "premium",
+    name: "Premium Plan",
+    price: 1999,
+    currency: "INR",
+    durationMonths: 12,
+    features: {
+      unlimitedScanning: true,
+      contactStorage: "unlimited",
+      groupManagement: true,
+      digitalCards: true,
+      bulkUpload: true,
+      templateManagement: true,
+    },
+    limits: {
+      contacts: null,
+      groups: null,
+      digitalCards: 10,
+      aiScans: null,
+    },
+  },
+};
+
+// Plan granted to new users who start a trial
+export const TRIAL_PLAN_ID = "premium";
+export { TRIAL_DAYS };
+
+// Days a lapsed subscription keeps its features before it expires
+export const GRACE_PERIOD_DAYS = 7;
+
+export function getPlan(planId: string): Plan | undefined {
+  return PLANS[planId];
+}
@@ -0,0 +1,171 @@
+import type { QuotaResource, QuotaSummary, QuotaUsage } from "@shared/schema";
+import { storage } from "./storage";
+import { getSubscriptionState } from "./subscriptions";
+import { BillingError } from "./billing";
+import { getUserDataSource } from "./userData";
+
+export const QUOTA_RESOURCES: QuotaResource[] = ["contacts", "groups", "digitalCards", "aiScans"];
+
+// Resources kept as Firestore documents, which the server can count. AI
+// scans leave nothing to count, so their usage only ever goes up.
+const COUNTED_COLLECTIONS: Partial<Record<QuotaResource, string>> = {
+  contacts: "contacts",
+  groups: "groups",
+  digitalCards: "digitalCards",
+};
+
+// Documents one create request may add; each is kept under the size of a
+// request body
+export const MAX_CREATE_DOCUMENTS = 100;
+
+// Sources of contacts saved from AI scans made before scans were counted
+const SCANNED_CONTACT_SOURCES = ["business_card_scan", "bulk_scan"];
+
+export class QuotaExceededError extends BillingError {
+  resource: QuotaResource;
+  quota: QuotaUsage;
+
+  constructor(resource: QuotaResource, quota: QuotaUsage) {
+    super(`Quota exceeded for ${resource}`, 403);
+    this.name = "QuotaExceededError";
+    this.resource = resource;
+    this.quota = quota;
+  }
+}
+
+export function isQuotaResource(value: unknown): value is QuotaResource {
+  return typeof value === "string" && QUOTA_RESOURCES.includes(value as QuotaResource);
+}
+
+function toQuotaUsage(used: number, limit: number | null): QuotaUsage {
+  return {
+    used,
+    limit,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+  };
+}
+
+/**
+ * Current usage and remaining allowance for every quota on the user's plan.
+ */
+export async function getQuotaSummary(userId: string): Promise<QuotaSummary> {
+  const [subscription, usage] = await Promise.all([
+    getSubscriptionState(userId),
+    storage.getUsage(userId),
+  ]);
+
+  const quotas = {} as QuotaSummary["quotas"];
+  for (const resource of QUOTA_RESOURCES) {
+    quotas[resource] = toQuotaUsage(usage[resource], subscription.limits[resource]);
+  }
+
+  return { userId, planId: subscription.planId, quotas };
+}
+
+/**
+ * Reserve `amount` units of a quota. Throws QuotaExceededError without
+ * consuming anything when the plan's limit would be passed.
+ */
+export async function consumeQuota(
+  userId: string,
+  resource: QuotaResource,
+  amount = 1,
+): Promise<QuotaUsage> {
+  const { limits } = await getSubscriptionState(userId);
+  const limit = limits[resource];
+  const result = await storage.incrementUsage(userId, resource, amount, limit);
+
+  if (!result.allowed) {
+    throw new QuotaExceededError(resource, toQuotaUsage(result.used, limit));
+  }
+  return toQuotaUsage(result.used, limit);
+}
+
+export function isCountedResource(value: unknown): value is QuotaResource {
+  return isQuotaResource(value) && COUNTED_COLLECTIONS[value] !== undefined;
+}
+
+/**
+ * Give back quota the server reserved itself for work that then failed,
+ * e.g. an AI scan. Never exposed to clients.
+ */
+export async function releaseQuota(
+  userId: string,
+  resource: QuotaResource,
+  amount = 1,
+): Promise<QuotaUsage> {
+  const { limits } = await getSubscriptionState(userId);
+  const used = await storage.decrementUsage(userId, resource, amount);
+  return toQuotaUsage(used, limits[resource]);
+}
+
+/**
+ * Set usage to the number of the user's documents that exist, after they
+ * delete some or a create fails. Quota only comes back for data that is
+ * actually gone.
+ */
+export async function syncQuota(userId: string, resource: QuotaResource): Promise<QuotaUsage> {
+  const collectionName = COUNTED_COLLECTIONS[resource];
+  if (!collectionName) {
+    throw new Error(`Usage of ${resource} cannot be recounted`);
+  }
+
+  const [{ limits }, count] = await Promise.all([
+    getSubscriptionState(userId),
+    getUserDataSource().countOwned(collectionName, userId),
+  ]);
+  const used = await storage.setUsage(userId, resource, count);
+  return toQuotaUsage(used, limits[resource]);
+}
+
+/**
+ * Create contacts, groups or digital cards for the user, reserving quota for
+ * them first. The security rules keep clients from creating these documents
+ * themselves, so this is the only way past the plan's limits. Nothing is
+ * created, and the quota is given back, if the write fails.
+ */
+export async function createCountedDocuments(
+  userId: string,
+  resource: QuotaResource,
+  documents: unknown,
+): Promise<QuotaUsage & { ids: string[] }> {
+  const collectionName = COUNTED_COLLECTIONS[resource];
+  if (!collectionName) {
+    throw new Error(`${resource} are not kept as documents`);
+  }
+  if (
+    !Array.isArray(documents) ||
+    documents.length === 0 ||
+    documents.length > MAX_CREATE_DOCUMENTS ||
+    documents.some(data => !data || typeof data !== "object" || Array.isArray(data))
+  ) {
+    throw new BillingError(`Send between 1 and ${MAX_CREATE_DOCUMENTS} documents to create`, 400);
+  }
+
+  const quota = await consumeQuota(userId, resource, documents.length);
+  try {
+    const ids = await getUserDataSource().createOwned(collectionName, userId, documents);
+    return { ...quota, ids };
+  } catch (error) {
+    await releaseQuota(userId, resource, documents.length);
+    throw error;
+  }
+}
+
+/**
+ * Bring counters in line with the user's data, counted here. Documents are
+ * recounted; AI scans are only raised, to cover contacts saved from scans
+ * before they were counted.
+ */
+export async function reconcileQuota(userId: string): Promise<QuotaSummary> {
+  const data = getUserDataSource();
+  for (const resource of QUOTA_RESOURCES) {
+    const collectionName = COUNTED_COLLECTIONS[resource];
+    if (collectionName) {
+      await storage.setUsage(userId, resource, await data.countOwned(collectionName, userId));
+    }
+  }
+  const scans = await data.countOwned("contacts", userId, { field: "source", values: SCANNED_CONTACT_SOURCES });
+  await storage.raiseUsage(userId, "aiScans", scans);
+  return getQuotaSummary(userId);
+}
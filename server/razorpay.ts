@@ -1,8 +1,22 @@
 import crypto from 'crypto';
+import Razorpay from 'razorpay';
+import type { CreateOrderParams, GatewayOrder, PaymentGateway } from './payments';
 
 // Razorpay configuration
 export const RAZORPAY_KEY_ID = process.env.RAZORPAY_KEY_ID;
 export const RAZORPAY_KEY_SECRET = process.env.RAZORPAY_KEY_SECRET;
+export const RAZORPAY_WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET;
+
+/**
+ * Constant-time comparison of two hex signatures
+ */
+function signaturesMatch(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  const actualBuffer = Buffer.from(actual, 'utf8');
+
+  return expectedBuffer.length === actualBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+}
 
 /**
  * Verify Razorpay payment signature
@@ -22,7 +36,26 @@ export function verifyRazorpaySignature(
     .update(body)
     .digest('hex');
 
-  return expectedSignature === signature;
+  return signaturesMatch(expectedSignature, signature);
+}
+
+/**
+ * Verify the X-Razorpay-Signature header of a webhook delivery
+ */
+export function verifyRazorpayWebhookSignature(
+  rawBody: Buffer | string,
+  signature: string
+): boolean {
+  if (!RAZORPAY_WEBHOOK_SECRET) {
+    throw new Error('Razorpay webhook secret not configured');
+  }
+
+  const expectedSignature = crypto
+    .createHmac('sha256', RAZORPAY_WEBHOOK_SECRET)
+    .update(rawBody)
+    .digest('hex');
+
+  return signaturesMatch(expectedSignature, signature);
 }
 
 /**
@@ -37,4 +70,51 @@ export function createRazorpayOrder(planId: string, amount: number) {
       planId: planId
     }
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Payment gateway backed by the Razorpay Orders API
+ */
+export class RazorpayGateway implements PaymentGateway {
+  readonly name = 'razorpay';
+  readonly publicKey = RAZORPAY_KEY_ID;
+  private client: Razorpay | undefined;
+
+  private getClient(): Razorpay {
+    if (!RAZORPAY_KEY_ID || !RAZORPAY_KEY_SECRET) {
+      throw new Error('Razorpay credentials not configured');
+    }
+
+    if (!this.client) {
+      this.client = new Razorpay({
+        key_id: RAZORPAY_KEY_ID,
+        key_secret: RAZORPAY_KEY_SECRET,
+      });
+    }
+    return this.client;
+  }
+
+  async createOrder(params: CreateOrderParams): Promise<GatewayOrder> {
+    const order = await this.getClient().orders.create({
+      amount: params.amount,
+      currency: params.currency,
+      receipt: params.receipt,
+      notes: params.notes,
+    });
+
+    return {
+      id: order.id,
+      amount: Number(order.amount),
+      currency: order.currency,
+      receipt: order.receipt ?? params.receipt,
+    };
+  }
+
+  verifyPaymentSignature(orderId: string, paymentId: string, signature: string): boolean {
+    return verifyRazorpaySignature(orderId, paymentId, signature);
+  }
+
+  verifyWebhookSignature(rawBody: Buffer | string, signature: string): boolean {
+    return verifyRazorpayWebhookSignature(rawBody, signature);
+  }
+}
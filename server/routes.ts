@@ -1,86 +1,481 @@
-import type { Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { createRazorpayOrder, verifyRazorpaySignature } from "./razorpay";
+import { requireUser } from "./auth";
+import { getPaymentGateway } from "./payments";
+import { getSubscriptionState, startTrial } from "./subscriptions";
+import {
+  QuotaExceededError,
+  consumeQuota,
+  createCountedDocuments,
+  getQuotaSummary,
+  isCountedResource,
+  reconcileQuota,
+  releaseQuota,
+  syncQuota,
+} from "./quotas";
+import { OcrError, scanBusinessCards, type CardSide, type ScanMode } from "./ocr";
+import {
+  BillingError,
+  createOrderForPlan,
+  handleRazorpayWebhook,
+  verifyCheckoutPayment,
+} from "./billing";
+import {
+  CampaignError,
+  cancelCampaign,
+  createCampaign,
+  getCampaignDetails,
+  handleWhatsAppWebhook,
+  listCampaigns,
+} from "./campaigns";
+import { WHATSAPP_WEBHOOK_VERIFY_TOKEN } from "./whatsapp";
+import { createWhatsAppMockRouter } from "./whatsappMock";
+import { CaptureTransport, EmailError, getEmailTransport, releaseEmailSends, reserveEmailSends, sendEmail } from "./email";
+import { composeCampaignEmails, composeContactEmail } from "./emailMessages";
+import { composeCampaignWhatsApp } from "./whatsappMessages";
+import {
+  WhatsAppAccountError,
+  deleteWhatsAppCredentials,
+  getWhatsAppAccountStatus,
+  saveWhatsAppCredentials,
+  sendTestTemplate,
+  verifyWhatsAppWebhook,
+} from "./whatsappAccounts";
+
+// Where the app is served from, for links in outgoing messages
+const requestOrigin = (req: Request) => `${req.protocol}://${req.get('host')}`;
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Razorpay order creation endpoint
-  app.post('/api/create-razorpay-order', async (req, res) => {
+  app.post('/api/create-razorpay-order', requireUser, async (req, res) => {
     try {
-      const { planId, amount, userId } = req.body;
+      const { planId } = req.body;
       
-      if (!planId || !amount || !userId) {
+      if (!planId) {
         return res.status(400).json({ error: 'Missing required fields' });
       }
 
-      const orderData = createRazorpayOrder(planId, amount);
-      
-      // You would typically create this order with Razorpay SDK here
-      // For now, we'll create a mock order ID
-      const orderId = `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const { order, keyId } = await createOrderForPlan(req.auth!.uid, planId);
       
       res.json({
-        orderId,
-        amount: orderData.amount,
-        currency: orderData.currency,
-        receipt: orderData.receipt
+        orderId: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        receipt: order.receipt,
+        keyId
       });
     } catch (error: any) {
       console.error('Error creating Razorpay order:', error);
+      if (error instanceof BillingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Failed to create payment order' });
     }
   });
 
   // Razorpay payment verification endpoint
-  app.post('/api/verify-razorpay-payment', async (req, res) => {
+  app.post('/api/verify-razorpay-payment', requireUser, async (req, res) => {
     try {
       const {
         razorpay_order_id,
         razorpay_payment_id,
-        razorpay_signature,
-        userId,
-        planId
+        razorpay_signature
       } = req.body;
 
       if (!razorpay_order_id || !razorpay_payment_id || !razorpay_signature) {
         return res.status(400).json({ error: 'Missing payment verification data' });
       }
 
-      const isValidSignature = verifyRazorpaySignature(
-        razorpay_order_id,
-        razorpay_payment_id,
-        razorpay_signature
-      );
-
-      if (!isValidSignature) {
-        return res.status(400).json({ error: 'Invalid payment signature' });
-      }
-
-      // Payment is verified - you can update your database here
-      console.log(`Payment verified for user ${userId}, plan ${planId}`);
+      const { userId: subscriberId } = await verifyCheckoutPayment({
+        orderId: razorpay_order_id,
+        paymentId: razorpay_payment_id,
+        signature: razorpay_signature,
+        userId: req.auth!.uid
+      });
       
       res.json({
         success: true,
-        message: 'Payment verified successfully'
+        message: 'Payment verified successfully',
+        subscription: await getSubscriptionState(subscriberId)
       });
     } catch (error: any) {
       console.error('Error verifying payment:', error);
+      if (error instanceof BillingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ error: 'Payment verification failed' });
     }
   });
 
+  // Razorpay webhook endpoint. Deliveries are authenticated with an HMAC of
+  // the raw body and de-duplicated by X-Razorpay-Event-Id.
+  app.post('/api/webhooks/razorpay', async (req, res) => {
+    try {
+      const signature = req.get('x-razorpay-signature');
+      const eventId = req.get('x-razorpay-event-id');
+
+      if (!signature || !eventId || !req.rawBody) {
+        return res.status(400).json({ error: 'Missing webhook signature or event id' });
+      }
+
+      if (!getPaymentGateway().verifyWebhookSignature(req.rawBody as Buffer, signature)) {
+        return res.status(400).json({ error: 'Invalid webhook signature' });
+      }
+
+      const processed = await handleRazorpayWebhook(eventId, req.body);
+      res.json({ received: true, duplicate: !processed });
+    } catch (error: any) {
+      console.error('Error handling Razorpay webhook:', error);
+      if (error instanceof BillingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Webhook processing failed' });
+    }
+  });
+
+  // Payment ledger for a user
+  app.get('/api/payments/:userId', requireUser, async (req, res) => {
+    try {
+      const payments = await storage.getPaymentsByUser(req.params.userId);
+      res.json({ payments });
+    } catch (error: any) {
+      console.error('Error loading payments:', error);
+      res.status(500).json({ error: 'Failed to load payments' });
+    }
+  });
+
   // Subscription status endpoint
-  app.get('/api/subscription/:userId', (req, res) => {
-    // For now, return a default response since subscription system is not fully implemented
-    // In a real implementation, you would query your database for subscription data
-    res.json({
-      hasSubscription: false,
-      planName: null,
-      endDate: null,
-      isActive: false
-    });
+  app.get('/api/subscription/:userId', requireUser, async (req, res) => {
+    try {
+      res.json(await getSubscriptionState(req.params.userId));
+    } catch (error: any) {
+      console.error('Error loading subscription:', error);
+      res.status(500).json({ error: 'Failed to load subscription' });
+    }
+  });
+
+  // Start the free trial for a user who has never subscribed
+  app.post('/api/subscription/:userId/trial', requireUser, async (req, res) => {
+    try {
+      res.json(await startTrial(req.params.userId));
+    } catch (error: any) {
+      console.error('Error starting trial:', error);
+      if (error instanceof BillingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to start trial' });
+    }
   });
 
+  // Remaining quota for every resource on the user's plan
+  app.get('/api/quota/:userId', requireUser, async (req, res) => {
+    try {
+      res.json(await getQuotaSummary(req.params.userId));
+    } catch (error: any) {
+      console.error('Error loading quota:', error);
+      res.status(500).json({ error: 'Failed to load quota' });
+    }
+  });
+
+  // Create contacts, groups or digital cards within the user's quota;
+  // clients cannot create them in Firestore directly
+  app.post('/api/quota/:userId/create', requireUser, async (req, res) => {
+    try {
+      const { resource, documents } = req.body;
+
+      if (!isCountedResource(resource)) {
+        return res.status(400).json({ error: 'Invalid quota request' });
+      }
+
+      const created = await createCountedDocuments(req.params.userId, resource, documents);
+      res.status(201).json({ resource, ...created });
+    } catch (error: any) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json({
+          error: error.message,
+          resource: error.resource,
+          ...error.quota
+        });
+      }
+      if (error instanceof BillingError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error creating documents:', error);
+      res.status(500).json({ error: 'Failed to create documents' });
+    }
+  });
+
+  // Recount a resource after deletes or a failed create. Usage follows the
+  // user's documents, so quota only comes back for data that is gone.
+  app.post('/api/quota/:userId/sync', requireUser, async (req, res) => {
+    try {
+      const { resource } = req.body;
+
+      if (!isCountedResource(resource)) {
+        return res.status(400).json({ error: 'Invalid quota request' });
+      }
+
+      const quota = await syncQuota(req.params.userId, resource);
+      res.json({ resource, ...quota });
+    } catch (error: any) {
+      console.error('Error recounting quota:', error);
+      res.status(500).json({ error: 'Failed to update quota' });
+    }
+  });
+
+  // Recount usage from the user's existing data
+  app.post('/api/quota/:userId/reconcile', requireUser, async (req, res) => {
+    try {
+      res.json(await reconcileQuota(req.params.userId));
+    } catch (error: any) {
+      console.error('Error reconciling quota:', error);
+      res.status(500).json({ error: 'Failed to reconcile quota' });
+    }
+  });
+
+  // Read business cards from an uploaded image. The body is the raw image
+  // bytes; each scan uses one unit of the aiScans quota.
+  app.post('/api/ocr/scan', requireUser, express.raw({ type: 'image/*', limit: '15mb' }), async (req, res) => {
+    const userId = req.auth!.uid;
+    const mode: ScanMode = req.query.mode === 'single' ? 'single' : 'multi';
+    const side: CardSide = req.query.side === 'back' ? 'back' : 'front';
+
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Request body must be an image' });
+    }
+
+    try {
+      await consumeQuota(userId, 'aiScans');
+    } catch (error: any) {
+      if (error instanceof QuotaExceededError) {
+        return res.status(error.status).json({
+          error: error.message,
+          resource: error.resource,
+          ...error.quota
+        });
+      }
+      console.error('Error consuming quota:', error);
+      return res.status(500).json({ error: 'Failed to update quota' });
+    }
+
+    try {
+      const result = await scanBusinessCards(
+        { data: req.body, mimeType: req.get('content-type')!.split(';')[0].trim() },
+        mode,
+        side
+      );
+      res.json(result);
+    } catch (error: any) {
+      await releaseQuota(userId, 'aiScans').catch(err => console.error('Error releasing quota:', err));
+      if (error instanceof OcrError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error scanning card:', error);
+      res.status(500).json({ error: 'Failed to scan card' });
+    }
+  });
+
+  // The user's WhatsApp Business API connection; the token is never returned
+  app.get('/api/whatsapp/:userId/credentials', requireUser, async (req, res) => {
+    try {
+      res.json(await getWhatsAppAccountStatus(req.params.userId));
+    } catch (error: any) {
+      console.error('Error loading WhatsApp credentials:', error);
+      res.status(500).json({ error: 'Failed to load WhatsApp credentials' });
+    }
+  });
+
+  // Validate credentials against the Cloud API and store them encrypted
+  app.put('/api/whatsapp/:userId/credentials', requireUser, async (req, res) => {
+    try {
+      const { token, phoneNumberId, appSecret } = req.body;
+      res.json(await saveWhatsAppCredentials(req.params.userId, { token, phoneNumberId, appSecret }));
+    } catch (error: any) {
+      if (error instanceof WhatsAppAccountError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
+      console.error('Error saving WhatsApp credentials:', error);
+      res.status(500).json({ error: 'Failed to save WhatsApp credentials' });
+    }
+  });
+
+  app.delete('/api/whatsapp/:userId/credentials', requireUser, async (req, res) => {
+    try {
+      await deleteWhatsAppCredentials(req.params.userId);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('Error removing WhatsApp credentials:', error);
+      res.status(500).json({ error: 'Failed to remove WhatsApp credentials' });
+    }
+  });
+
+  // Send an approved template with the saved credentials and report what
+  // the Cloud API answered
+  app.post('/api/whatsapp/:userId/test-template', requireUser, async (req, res) => {
+    try {
+      const { to, templateName, languageCode } = req.body;
+      res.json(await sendTestTemplate(req.params.userId, { to, templateName, languageCode }));
+    } catch (error: any) {
+      if (error instanceof WhatsAppAccountError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
+      console.error('Error sending WhatsApp test template:', error);
+      res.status(500).json({ error: 'Failed to send test template' });
+    }
+  });
+
+  // Email one of the user's contacts, rendered here from a stored template
+  // or the plain text the user wrote
+  app.post('/api/email/send', requireUser, async (req, res) => {
+    try {
+      const { contactId, to, templateId, subject, text } = req.body;
+      const message = await composeContactEmail(req.auth!, { contactId, to, templateId, subject, text }, requestOrigin(req));
+      const day = await reserveEmailSends(req.auth!.uid, 1);
+      let sent;
+      try {
+        sent = await sendEmail(message);
+      } catch (error) {
+        await releaseEmailSends(req.auth!.uid, 1, day);
+        throw error;
+      }
+      res.json(sent);
+    } catch (error: any) {
+      if (error instanceof EmailError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error sending email:', error);
+      res.status(500).json({ error: 'Failed to send email' });
+    }
+  });
+
+  // Send a template to a group over WhatsApp or email, one message per
+  // contact; sending is throttled in the background.
+  app.post('/api/campaigns/:userId', requireUser, async (req, res) => {
+    try {
+      const { name, channel, templateId, groupId, subject, contactIds } = req.body;
+      // Messages are rendered here from the stored template for the user's
+      // own contacts
+      const email = channel === 'email'
+        ? await composeCampaignEmails(req.auth!, { templateId, subject, contactIds }, requestOrigin(req))
+        : null;
+      const whatsapp = channel === 'email'
+        ? null
+        : await composeCampaignWhatsApp(req.auth!, { templateId, contactIds }, requestOrigin(req));
+      const campaign = await createCampaign({
+        userId: req.auth!.uid,
+        name,
+        channel,
+        templateId,
+        groupId,
+        fromName: email?.fromName,
+        replyTo: email?.replyTo,
+        whatsappTemplate: whatsapp?.whatsappTemplate,
+        whatsappLanguage: whatsapp?.whatsappLanguage,
+        recipients: email ? email.recipients : whatsapp!.recipients,
+      });
+      res.status(201).json({ campaign });
+    } catch (error: any) {
+      if (error instanceof CampaignError || error instanceof EmailError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error creating campaign:', error);
+      res.status(500).json({ error: 'Failed to create campaign' });
+    }
+  });
+
+  app.get('/api/campaigns/:userId', requireUser, async (req, res) => {
+    try {
+      res.json({ campaigns: await listCampaigns(req.auth!.uid) });
+    } catch (error: any) {
+      console.error('Error loading campaigns:', error);
+      res.status(500).json({ error: 'Failed to load campaigns' });
+    }
+  });
+
+  // Campaign with the delivery status of every recipient
+  app.get('/api/campaigns/:userId/:campaignId', requireUser, async (req, res) => {
+    try {
+      res.json(await getCampaignDetails(req.auth!.uid, req.params.campaignId));
+    } catch (error: any) {
+      if (error instanceof CampaignError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error loading campaign:', error);
+      res.status(500).json({ error: 'Failed to load campaign' });
+    }
+  });
+
+  app.post('/api/campaigns/:userId/:campaignId/cancel', requireUser, async (req, res) => {
+    try {
+      res.json({ campaign: await cancelCampaign(req.auth!.uid, req.params.campaignId) });
+    } catch (error: any) {
+      if (error instanceof CampaignError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Error cancelling campaign:', error);
+      res.status(500).json({ error: 'Failed to cancel campaign' });
+    }
+  });
+
+  // Meta checks the webhook URL by echoing a challenge with the verify token
+  app.get('/api/webhooks/whatsapp', (req, res) => {
+    if (
+      req.query['hub.mode'] === 'subscribe' &&
+      WHATSAPP_WEBHOOK_VERIFY_TOKEN &&
+      req.query['hub.verify_token'] === WHATSAPP_WEBHOOK_VERIFY_TOKEN
+    ) {
+      return res.status(200).send(String(req.query['hub.challenge'] ?? ''));
+    }
+    res.status(403).json({ error: 'Webhook verification failed' });
+  });
+
+  // Message status updates (sent, delivered, read, failed) for campaigns,
+  // authenticated with an HMAC of the raw body keyed with the secret of the
+  // app the phone number belongs to
+  app.post('/api/webhooks/whatsapp', async (req, res) => {
+    try {
+      const signature = req.get('x-hub-signature-256');
+
+      if (!signature || !req.rawBody) {
+        return res.status(400).json({ error: 'Missing webhook signature' });
+      }
+
+      const { valid, userId } = await verifyWhatsAppWebhook(req.rawBody as Buffer, signature, req.body);
+      if (!valid) {
+        return res.status(400).json({ error: 'Invalid webhook signature' });
+      }
+      // Numbers nobody has connected have no campaigns to update
+      if (!userId) {
+        return res.json({ received: true, updated: 0 });
+      }
+
+      const updated = await handleWhatsAppWebhook(req.body, userId);
+      res.json({ received: true, updated });
+    } catch (error: any) {
+      console.error('Error handling WhatsApp webhook:', error);
+      res.status(500).json({ error: 'Webhook processing failed' });
+    }
+  });
+
+  // Local stand-in for the WhatsApp Cloud API; set WHATSAPP_API_URL to
+  // http://localhost:<port>/api/mock/whatsapp to send through it
+  if (process.env.WHATSAPP_MOCK === 'true') {
+    app.use('/api/mock/whatsapp', createWhatsAppMockRouter({ onWebhook: handleWhatsAppWebhook }));
+  }
+
+  // Emails kept by the capture transport (EMAIL_TRANSPORT=capture), newest
+  // first. They are everyone's, so the route only exists in development.
+  if (app.get('env') === 'development') {
+    app.get('/api/mock/email/messages', (_req, res) => {
+      const transport = getEmailTransport();
+      if (!(transport instanceof CaptureTransport)) {
+        return res.status(404).json({ error: 'Email capture is not enabled' });
+      }
+      res.json({ messages: transport.messages.slice().reverse() });
+    });
+  }
+
   // Health check endpoint
   app.get('/api/health', (req, res) => {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
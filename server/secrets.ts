@@ -0,0 +1,49 @@
+import crypto from "crypto";
+
+// 32-byte key, hex or base64, for secrets stored on behalf of users
+const CREDENTIALS_ENCRYPTION_KEY = process.env.CREDENTIALS_ENCRYPTION_KEY;
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+function encryptionKey(): Buffer {
+  if (!CREDENTIALS_ENCRYPTION_KEY) {
+    throw new Error("CREDENTIALS_ENCRYPTION_KEY not configured");
+  }
+
+  const key = /^[0-9a-f]{64}$/i.test(CREDENTIALS_ENCRYPTION_KEY)
+    ? Buffer.from(CREDENTIALS_ENCRYPTION_KEY, "hex")
+    : Buffer.from(CREDENTIALS_ENCRYPTION_KEY, "base64");
+  if (key.length !== 32) {
+    throw new Error("CREDENTIALS_ENCRYPTION_KEY must be 32 bytes, hex or base64 encoded");
+  }
+  return key;
+}
+
+/**
+ * Encrypt a secret with AES-256-GCM. The result carries its own IV and
+ * auth tag: `v1:<iv>:<tag>:<ciphertext>`, base64 parts.
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+/**
+ * Decrypt a value from encryptSecret. Throws if it was tampered with or
+ * encrypted under another key.
+ */
+export function decryptSecret(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(":");
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unrecognised encrypted secret");
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+}
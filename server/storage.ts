@@ -1,5 +1,24 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  type User,
+  type InsertUser,
+  type PaymentOrder,
+  type InsertPaymentOrder,
+  type PaymentOrderStatus,
+  type Payment,
+  type InsertPayment,
+  type Subscription,
+  type InsertSubscription,
+  type WebhookEvent,
+  type QuotaResource,
+  type Campaign,
+  type CampaignStatus,
+  type InsertCampaign,
+  type CampaignRecipient,
+  type InsertCampaignRecipient,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { Timestamp, type DocumentData } from "firebase-admin/firestore";
+import { getFirebaseAdminFirestore } from "./firebaseAdmin";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -8,13 +27,79 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  createPaymentOrder(order: InsertPaymentOrder): Promise<PaymentOrder>;
+  getPaymentOrder(id: string): Promise<PaymentOrder | undefined>;
+  updatePaymentOrderStatus(id: string, status: PaymentOrderStatus): Promise<PaymentOrder | undefined>;
+
+  getPayment(id: string): Promise<Payment | undefined>;
+  getPaymentsByUser(userId: string): Promise<Payment[]>;
+  upsertPayment(payment: InsertPayment): Promise<Payment>;
+
+  getSubscriptionByUser(userId: string): Promise<Subscription | undefined>;
+  upsertSubscription(subscription: InsertSubscription): Promise<Subscription>;
+
+  getWebhookEvent(id: string): Promise<WebhookEvent | undefined>;
+  recordWebhookEvent(id: string, event: string): Promise<WebhookEvent>;
+
+  getUsage(userId: string): Promise<Record<QuotaResource, number>>;
+  // Atomically add `amount` unless that would take usage past `limit`
+  incrementUsage(
+    userId: string,
+    resource: QuotaResource,
+    amount: number,
+    limit: number | null,
+  ): Promise<{ allowed: boolean; used: number }>;
+  decrementUsage(userId: string, resource: QuotaResource, amount: number): Promise<number>;
+  setUsage(userId: string, resource: QuotaResource, used: number): Promise<number>;
+  // Raise usage to at least `floor`; never lowers it
+  raiseUsage(userId: string, resource: QuotaResource, floor: number): Promise<number>;
+  // Emails sent on `day` (YYYY-MM-DD, UTC). Adding is atomic and refused
+  // past `limit`; counts from earlier days are dropped.
+  incrementEmailSends(
+    userId: string,
+    day: string,
+    amount: number,
+    limit: number,
+  ): Promise<{ allowed: boolean; sent: number }>;
+  // Give back sends counted on `day`; does nothing once the day is over
+  decrementEmailSends(userId: string, day: string, amount: number): Promise<void>;
+
+  createCampaign(campaign: InsertCampaign, recipients: InsertCampaignRecipient[]): Promise<Campaign>;
+  getCampaign(id: string): Promise<Campaign | undefined>;
+  getCampaignsByUser(userId: string): Promise<Campaign[]>;
+  getCampaignsByStatus(status: CampaignStatus): Promise<Campaign[]>;
+  updateCampaign(id: string, updates: Partial<Pick<Campaign, "status" | "completedAt">>): Promise<Campaign | undefined>;
+  getCampaignRecipients(campaignId: string): Promise<CampaignRecipient[]>;
+  getCampaignRecipient(id: string): Promise<CampaignRecipient | undefined>;
+  getCampaignRecipientByMessageId(messageId: string): Promise<CampaignRecipient | undefined>;
+  updateCampaignRecipient(
+    id: string,
+    updates: Partial<Pick<CampaignRecipient, "status" | "messageId" | "error">>,
+  ): Promise<CampaignRecipient | undefined>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private paymentOrders: Map<string, PaymentOrder>;
+  private payments: Map<string, Payment>;
+  private subscriptions: Map<string, Subscription>;
+  private webhookEvents: Map<string, WebhookEvent>;
+  private usage: Map<string, number>;
+  private emailSends: Map<string, { day: string; sent: number }>;
+  private campaigns: Map<string, Campaign>;
+  private campaignRecipients: Map<string, CampaignRecipient>;
 
   constructor() {
     this.users = new Map();
+    this.paymentOrders = new Map();
+    this.payments = new Map();
+    this.subscriptions = new Map();
+    this.webhookEvents = new Map();
+    this.usage = new Map();
+    this.emailSends = new Map();
+    this.campaigns = new Map();
+    this.campaignRecipients = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +118,549 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async createPaymentOrder(insertOrder: InsertPaymentOrder): Promise<PaymentOrder> {
+    const order: PaymentOrder = {
+      ...insertOrder,
+      status: "created",
+      createdAt: new Date(),
+    };
+    this.paymentOrders.set(order.id, order);
+    return order;
+  }
+
+  async getPaymentOrder(id: string): Promise<PaymentOrder | undefined> {
+    return this.paymentOrders.get(id);
+  }
+
+  async updatePaymentOrderStatus(
+    id: string,
+    status: PaymentOrderStatus,
+  ): Promise<PaymentOrder | undefined> {
+    const order = this.paymentOrders.get(id);
+    if (!order) return undefined;
+
+    const updated: PaymentOrder = { ...order, status };
+    this.paymentOrders.set(id, updated);
+    return updated;
+  }
+
+  async getPayment(id: string): Promise<Payment | undefined> {
+    return this.payments.get(id);
+  }
+
+  async getPaymentsByUser(userId: string): Promise<Payment[]> {
+    return Array.from(this.payments.values())
+      .filter((payment) => payment.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async upsertPayment(insertPayment: InsertPayment): Promise<Payment> {
+    const existing = this.payments.get(insertPayment.id);
+    const payment: Payment = {
+      ...insertPayment,
+      method: insertPayment.method ?? existing?.method ?? null,
+      errorReason: insertPayment.errorReason ?? null,
+      createdAt: existing?.createdAt ?? new Date(),
+    };
+    this.payments.set(payment.id, payment);
+    return payment;
+  }
+
+  async getSubscriptionByUser(userId: string): Promise<Subscription | undefined> {
+    return Array.from(this.subscriptions.values()).find(
+      (subscription) => subscription.userId === userId,
+    );
+  }
+
+  async upsertSubscription(insertSubscription: InsertSubscription): Promise<Subscription> {
+    const existing = await this.getSubscriptionByUser(insertSubscription.userId);
+    const subscription: Subscription = {
+      ...insertSubscription,
+      id: existing?.id ?? randomUUID(),
+      orderId: insertSubscription.orderId ?? null,
+      paymentId: insertSubscription.paymentId ?? null,
+      updatedAt: new Date(),
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  async getWebhookEvent(id: string): Promise<WebhookEvent | undefined> {
+    return this.webhookEvents.get(id);
+  }
+
+  async recordWebhookEvent(id: string, event: string): Promise<WebhookEvent> {
+    const webhookEvent: WebhookEvent = { id, event, receivedAt: new Date() };
+    this.webhookEvents.set(id, webhookEvent);
+    return webhookEvent;
+  }
+
+  private usageKey(userId: string, resource: QuotaResource): string {
+    return `${userId}:${resource}`;
+  }
+
+  async getUsage(userId: string): Promise<Record<QuotaResource, number>> {
+    return {
+      contacts: this.usage.get(this.usageKey(userId, "contacts")) ?? 0,
+      groups: this.usage.get(this.usageKey(userId, "groups")) ?? 0,
+      digitalCards: this.usage.get(this.usageKey(userId, "digitalCards")) ?? 0,
+      aiScans: this.usage.get(this.usageKey(userId, "aiScans")) ?? 0,
+    };
+  }
+
+  async incrementUsage(
+    userId: string,
+    resource: QuotaResource,
+    amount: number,
+    limit: number | null,
+  ): Promise<{ allowed: boolean; used: number }> {
+    const key = this.usageKey(userId, resource);
+    const used = this.usage.get(key) ?? 0;
+    if (limit !== null && used + amount > limit) {
+      return { allowed: false, used };
+    }
+
+    this.usage.set(key, used + amount);
+    return { allowed: true, used: used + amount };
+  }
+
+  async decrementUsage(userId: string, resource: QuotaResource, amount: number): Promise<number> {
+    const key = this.usageKey(userId, resource);
+    const used = Math.max(0, (this.usage.get(key) ?? 0) - amount);
+    this.usage.set(key, used);
+    return used;
+  }
+
+  async setUsage(userId: string, resource: QuotaResource, used: number): Promise<number> {
+    this.usage.set(this.usageKey(userId, resource), Math.max(0, used));
+    return Math.max(0, used);
+  }
+
+  async raiseUsage(userId: string, resource: QuotaResource, floor: number): Promise<number> {
+    const key = this.usageKey(userId, resource);
+    const used = Math.max(this.usage.get(key) ?? 0, floor);
+    this.usage.set(key, used);
+    return used;
+  }
+
+  async incrementEmailSends(
+    userId: string,
+    day: string,
+    amount: number,
+    limit: number,
+  ): Promise<{ allowed: boolean; sent: number }> {
+    const current = this.emailSends.get(userId);
+    const sent = current?.day === day ? current.sent : 0;
+    if (sent + amount > limit) {
+      return { allowed: false, sent };
+    }
+
+    this.emailSends.set(userId, { day, sent: sent + amount });
+    return { allowed: true, sent: sent + amount };
+  }
+
+  async decrementEmailSends(userId: string, day: string, amount: number): Promise<void> {
+    const current = this.emailSends.get(userId);
+    if (current?.day === day) {
+      this.emailSends.set(userId, { day, sent: Math.max(0, current.sent - amount) });
+    }
+  }
+
+  async createCampaign(insertCampaign: InsertCampaign, recipients: InsertCampaignRecipient[]): Promise<Campaign> {
+    const campaign: Campaign = {
+      ...insertCampaign,
+      channel: insertCampaign.channel ?? "whatsapp",
+      templateId: insertCampaign.templateId ?? null,
+      groupId: insertCampaign.groupId ?? null,
+      fromName: insertCampaign.fromName ?? null,
+      replyTo: insertCampaign.replyTo ?? null,
+      whatsappTemplate: insertCampaign.whatsappTemplate ?? null,
+      whatsappLanguage: insertCampaign.whatsappLanguage ?? null,
+      status: "sending",
+      createdAt: new Date(),
+      completedAt: null,
+    };
+    this.campaigns.set(campaign.id, campaign);
+
+    for (const recipient of recipients) {
+      const id = randomUUID();
+      this.campaignRecipients.set(id, {
+        ...recipient,
+        subject: recipient.subject ?? null,
+        html: recipient.html ?? null,
+        templateParams: recipient.templateParams ?? null,
+        id,
+        campaignId: campaign.id,
+        status: "queued",
+        messageId: null,
+        error: null,
+        updatedAt: new Date(),
+      });
+    }
+    return campaign;
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    return this.campaigns.get(id);
+  }
+
+  async getCampaignsByUser(userId: string): Promise<Campaign[]> {
+    return Array.from(this.campaigns.values())
+      .filter((campaign) => campaign.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getCampaignsByStatus(status: CampaignStatus): Promise<Campaign[]> {
+    return Array.from(this.campaigns.values()).filter((campaign) => campaign.status === status);
+  }
+
+  async updateCampaign(
+    id: string,
+    updates: Partial<Pick<Campaign, "status" | "completedAt">>,
+  ): Promise<Campaign | undefined> {
+    const campaign = this.campaigns.get(id);
+    if (!campaign) return undefined;
+
+    const updated: Campaign = { ...campaign, ...updates };
+    this.campaigns.set(id, updated);
+    return updated;
+  }
+
+  async getCampaignRecipients(campaignId: string): Promise<CampaignRecipient[]> {
+    return Array.from(this.campaignRecipients.values()).filter(
+      (recipient) => recipient.campaignId === campaignId,
+    );
+  }
+
+  async getCampaignRecipient(id: string): Promise<CampaignRecipient | undefined> {
+    return this.campaignRecipients.get(id);
+  }
+
+  async getCampaignRecipientByMessageId(messageId: string): Promise<CampaignRecipient | undefined> {
+    return Array.from(this.campaignRecipients.values()).find(
+      (recipient) => recipient.messageId === messageId,
+    );
+  }
+
+  async updateCampaignRecipient(
+    id: string,
+    updates: Partial<Pick<CampaignRecipient, "status" | "messageId" | "error">>,
+  ): Promise<CampaignRecipient | undefined> {
+    const recipient = this.campaignRecipients.get(id);
+    if (!recipient) return undefined;
+
+    const updated: CampaignRecipient = { ...recipient, ...updates, updatedAt: new Date() };
+    this.campaignRecipients.set(id, updated);
+    return updated;
+  }
+}
+
+// Server-only collections; the security rules give clients no access to
+// them. Subscriptions are kept one document per user, under the user's id.
+const PAYMENT_ORDERS = "paymentOrders";
+const PAYMENTS = "payments";
+const SUBSCRIPTIONS = "subscriptions";
+const WEBHOOK_EVENTS = "webhookEvents";
+// One document per user, with a count for each quota resource and the
+// emails sent today (emailDay, emailSends)
+const USAGE = "usage";
+const CAMPAIGNS = "campaigns";
+const CAMPAIGN_RECIPIENTS = "campaignRecipients";
+// Firestore allows 500 writes per batch
+const BATCH_SIZE = 450;
+
+// Document fields with the Timestamps Firestore returns for Dates converted
+// back
+function fromDocument<T>(data: DocumentData): T {
+  const record: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    record[key] = value instanceof Timestamp ? value.toDate() : value;
+  }
+  return record as T;
+}
+
+/**
+ * Keeps payment orders, the payment ledger, subscriptions, handled webhook
+ * deliveries, quota usage, daily email counts and campaigns in Firestore,
+ * so they survive restarts and are shared by every server instance. Only
+ * users, which the server does not use, are kept in memory.
+ */
+export class FirestoreStorage extends MemStorage {
+  private collection(name: string) {
+    return getFirebaseAdminFirestore().collection(name);
+  }
+
+  async createPaymentOrder(insertOrder: InsertPaymentOrder): Promise<PaymentOrder> {
+    const order: PaymentOrder = {
+      ...insertOrder,
+      status: "created",
+      createdAt: new Date(),
+    };
+    await this.collection(PAYMENT_ORDERS).doc(order.id).set(order);
+    return order;
+  }
+
+  async getPaymentOrder(id: string): Promise<PaymentOrder | undefined> {
+    const snapshot = await this.collection(PAYMENT_ORDERS).doc(id).get();
+    return snapshot.exists ? fromDocument<PaymentOrder>(snapshot.data()!) : undefined;
+  }
+
+  async updatePaymentOrderStatus(
+    id: string,
+    status: PaymentOrderStatus,
+  ): Promise<PaymentOrder | undefined> {
+    const order = await this.getPaymentOrder(id);
+    if (!order) return undefined;
+
+    await this.collection(PAYMENT_ORDERS).doc(id).update({ status });
+    return { ...order, status };
+  }
+
+  async getPayment(id: string): Promise<Payment | undefined> {
+    const snapshot = await this.collection(PAYMENTS).doc(id).get();
+    return snapshot.exists ? fromDocument<Payment>(snapshot.data()!) : undefined;
+  }
+
+  async getPaymentsByUser(userId: string): Promise<Payment[]> {
+    const snapshot = await this.collection(PAYMENTS).where("userId", "==", userId).get();
+    return snapshot.docs
+      .map((doc) => fromDocument<Payment>(doc.data()))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async upsertPayment(insertPayment: InsertPayment): Promise<Payment> {
+    const ref = this.collection(PAYMENTS).doc(insertPayment.id);
+    // Checkout verification and the webhook can report the same payment at
+    // once; the first report's time and method are kept
+    return getFirebaseAdminFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const existing = snapshot.exists ? fromDocument<Payment>(snapshot.data()!) : undefined;
+      const payment: Payment = {
+        ...insertPayment,
+        method: insertPayment.method ?? existing?.method ?? null,
+        errorReason: insertPayment.errorReason ?? null,
+        createdAt: existing?.createdAt ?? new Date(),
+      };
+      transaction.set(ref, payment);
+      return payment;
+    });
+  }
+
+  async getSubscriptionByUser(userId: string): Promise<Subscription | undefined> {
+    const snapshot = await this.collection(SUBSCRIPTIONS).doc(userId).get();
+    return snapshot.exists ? fromDocument<Subscription>(snapshot.data()!) : undefined;
+  }
+
+  async upsertSubscription(insertSubscription: InsertSubscription): Promise<Subscription> {
+    const ref = this.collection(SUBSCRIPTIONS).doc(insertSubscription.userId);
+    return getFirebaseAdminFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const subscription: Subscription = {
+        ...insertSubscription,
+        id: snapshot.exists ? snapshot.get("id") : randomUUID(),
+        orderId: insertSubscription.orderId ?? null,
+        paymentId: insertSubscription.paymentId ?? null,
+        updatedAt: new Date(),
+      };
+      transaction.set(ref, subscription);
+      return subscription;
+    });
+  }
+
+  async getWebhookEvent(id: string): Promise<WebhookEvent | undefined> {
+    const snapshot = await this.collection(WEBHOOK_EVENTS).doc(id).get();
+    return snapshot.exists ? fromDocument<WebhookEvent>(snapshot.data()!) : undefined;
+  }
+
+  async recordWebhookEvent(id: string, event: string): Promise<WebhookEvent> {
+    const webhookEvent: WebhookEvent = { id, event, receivedAt: new Date() };
+    await this.collection(WEBHOOK_EVENTS).doc(id).set(webhookEvent);
+    return webhookEvent;
+  }
+
+  async getUsage(userId: string): Promise<Record<QuotaResource, number>> {
+    const snapshot = await this.collection(USAGE).doc(userId).get();
+    return {
+      contacts: snapshot.get("contacts") ?? 0,
+      groups: snapshot.get("groups") ?? 0,
+      digitalCards: snapshot.get("digitalCards") ?? 0,
+      aiScans: snapshot.get("aiScans") ?? 0,
+    };
+  }
+
+  // Apply `update` to one counter in a transaction; it returns the new
+  // value, or undefined to leave the counter as it is
+  private updateUsage(
+    userId: string,
+    resource: QuotaResource,
+    update: (used: number) => number | undefined,
+  ): Promise<{ changed: boolean; used: number }> {
+    const ref = this.collection(USAGE).doc(userId);
+    return getFirebaseAdminFirestore().runTransaction(async (transaction) => {
+      const used: number = (await transaction.get(ref)).get(resource) ?? 0;
+      const next = update(used);
+      if (next === undefined) return { changed: false, used };
+
+      transaction.set(ref, { [resource]: next, updatedAt: new Date() }, { merge: true });
+      return { changed: true, used: next };
+    });
+  }
+
+  async incrementUsage(
+    userId: string,
+    resource: QuotaResource,
+    amount: number,
+    limit: number | null,
+  ): Promise<{ allowed: boolean; used: number }> {
+    const { changed, used } = await this.updateUsage(userId, resource, (used) =>
+      limit !== null && used + amount > limit ? undefined : used + amount,
+    );
+    return { allowed: changed, used };
+  }
+
+  async decrementUsage(userId: string, resource: QuotaResource, amount: number): Promise<number> {
+    return (await this.updateUsage(userId, resource, (used) => Math.max(0, used - amount))).used;
+  }
+
+  async setUsage(userId: string, resource: QuotaResource, used: number): Promise<number> {
+    await this.collection(USAGE).doc(userId).set(
+      { [resource]: Math.max(0, used), updatedAt: new Date() },
+      { merge: true },
+    );
+    return Math.max(0, used);
+  }
+
+  async raiseUsage(userId: string, resource: QuotaResource, floor: number): Promise<number> {
+    return (await this.updateUsage(userId, resource, (used) => (used < floor ? floor : undefined))).used;
+  }
+
+  async incrementEmailSends(
+    userId: string,
+    day: string,
+    amount: number,
+    limit: number,
+  ): Promise<{ allowed: boolean; sent: number }> {
+    const ref = this.collection(USAGE).doc(userId);
+    return getFirebaseAdminFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const sent: number = snapshot.get("emailDay") === day ? snapshot.get("emailSends") ?? 0 : 0;
+      if (sent + amount > limit) return { allowed: false, sent };
+
+      transaction.set(ref, { emailDay: day, emailSends: sent + amount, updatedAt: new Date() }, { merge: true });
+      return { allowed: true, sent: sent + amount };
+    });
+  }
+
+  async decrementEmailSends(userId: string, day: string, amount: number): Promise<void> {
+    const ref = this.collection(USAGE).doc(userId);
+    await getFirebaseAdminFirestore().runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (snapshot.get("emailDay") !== day) return;
+
+      const sent: number = snapshot.get("emailSends") ?? 0;
+      transaction.set(ref, { emailSends: Math.max(0, sent - amount), updatedAt: new Date() }, { merge: true });
+    });
+  }
+
+  async createCampaign(insertCampaign: InsertCampaign, recipients: InsertCampaignRecipient[]): Promise<Campaign> {
+    const firestore = getFirebaseAdminFirestore();
+    const campaign: Campaign = {
+      ...insertCampaign,
+      channel: insertCampaign.channel ?? "whatsapp",
+      templateId: insertCampaign.templateId ?? null,
+      groupId: insertCampaign.groupId ?? null,
+      fromName: insertCampaign.fromName ?? null,
+      replyTo: insertCampaign.replyTo ?? null,
+      whatsappTemplate: insertCampaign.whatsappTemplate ?? null,
+      whatsappLanguage: insertCampaign.whatsappLanguage ?? null,
+      status: "sending",
+      createdAt: new Date(),
+      completedAt: null,
+    };
+
+    // Recipients are written first, so a campaign is never seen without
+    // them. Their ids keep them in the order given, as Firestore lists
+    // documents by id.
+    const stored: CampaignRecipient[] = recipients.map((recipient, i) => ({
+      ...recipient,
+      subject: recipient.subject ?? null,
+      html: recipient.html ?? null,
+      templateParams: recipient.templateParams ?? null,
+      id: `${campaign.id}-${String(i).padStart(5, "0")}`,
+      campaignId: campaign.id,
+      status: "queued",
+      messageId: null,
+      error: null,
+      updatedAt: new Date(),
+    }));
+    for (let i = 0; i < stored.length; i += BATCH_SIZE) {
+      const batch = firestore.batch();
+      stored.slice(i, i + BATCH_SIZE).forEach((recipient) =>
+        batch.set(this.collection(CAMPAIGN_RECIPIENTS).doc(recipient.id), recipient),
+      );
+      await batch.commit();
+    }
+    await this.collection(CAMPAIGNS).doc(campaign.id).set(campaign);
+    return campaign;
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    const snapshot = await this.collection(CAMPAIGNS).doc(id).get();
+    return snapshot.exists ? fromDocument<Campaign>(snapshot.data()!) : undefined;
+  }
+
+  async getCampaignsByUser(userId: string): Promise<Campaign[]> {
+    const snapshot = await this.collection(CAMPAIGNS).where("userId", "==", userId).get();
+    return snapshot.docs
+      .map((doc) => fromDocument<Campaign>(doc.data()))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getCampaignsByStatus(status: CampaignStatus): Promise<Campaign[]> {
+    const snapshot = await this.collection(CAMPAIGNS).where("status", "==", status).get();
+    return snapshot.docs.map((doc) => fromDocument<Campaign>(doc.data()));
+  }
+
+  async updateCampaign(
+    id: string,
+    updates: Partial<Pick<Campaign, "status" | "completedAt">>,
+  ): Promise<Campaign | undefined> {
+    const campaign = await this.getCampaign(id);
+    if (!campaign) return undefined;
+
+    await this.collection(CAMPAIGNS).doc(id).update(updates);
+    return { ...campaign, ...updates };
+  }
+
+  async getCampaignRecipients(campaignId: string): Promise<CampaignRecipient[]> {
+    const snapshot = await this.collection(CAMPAIGN_RECIPIENTS).where("campaignId", "==", campaignId).get();
+    return snapshot.docs.map((doc) => fromDocument<CampaignRecipient>(doc.data()));
+  }
+
+  async getCampaignRecipient(id: string): Promise<CampaignRecipient | undefined> {
+    const snapshot = await this.collection(CAMPAIGN_RECIPIENTS).doc(id).get();
+    return snapshot.exists ? fromDocument<CampaignRecipient>(snapshot.data()!) : undefined;
+  }
+
+  async getCampaignRecipientByMessageId(messageId: string): Promise<CampaignRecipient | undefined> {
+    const snapshot = await this.collection(CAMPAIGN_RECIPIENTS).where("messageId", "==", messageId).limit(1).get();
+    return snapshot.empty ? undefined : fromDocument<CampaignRecipient>(snapshot.docs[0].data());
+  }
+
+  async updateCampaignRecipient(
+    id: string,
+    updates: Partial<Pick<CampaignRecipient, "status" | "messageId" | "error">>,
+  ): Promise<CampaignRecipient | undefined> {
+    const recipient = await this.getCampaignRecipient(id);
+    if (!recipient) return undefined;
+
+    const changes = { ...updates, updatedAt: new Date() };
+    await this.collection(CAMPAIGN_RECIPIENTS).doc(id).update(changes);
+    return { ...recipient, ...changes };
+  }
 }
 
-export const storage = new MemStorage();
+// Firestore unless STORAGE=memory, which keeps everything in memory for
+// local testing
+export const storage: IStorage = process.env.STORAGE === "memory" ? new MemStorage() : new FirestoreStorage();
@@ -0,0 +1,151 @@
+import type {
+  Subscription,
+  SubscriptionState,
+  SubscriptionStatus,
+} from "@shared/schema";
+import { storage } from "./storage";
+import {
+  FREE_PLAN,
+  GRACE_PERIOD_DAYS,
+  TRIAL_DAYS,
+  TRIAL_PLAN_ID,
+  getPlan,
+} from "./plans";
+import { BillingError } from "./billing";
+import { getUserDataSource } from "./userData";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ENTITLED_STATUSES: SubscriptionStatus[] = ["trialing", "active", "grace", "past_due"];
+
+export function getGraceEndDate(subscription: Subscription): Date {
+  return new Date(subscription.expiryDate.getTime() + GRACE_PERIOD_DAYS * DAY_MS);
+}
+
+/**
+ * Derive the effective status of a stored subscription at a point in time.
+ * Trials end at their expiry date; paid plans fall into a grace period first.
+ */
+export function resolveSubscriptionStatus(
+  subscription: Subscription | undefined,
+  now: Date = new Date(),
+): SubscriptionStatus {
+  if (!subscription) return "none";
+
+  if (subscription.status === "trialing") {
+    return now < subscription.expiryDate ? "trialing" : "expired";
+  }
+
+  if (now >= getGraceEndDate(subscription)) return "expired";
+
+  if (subscription.status === "past_due") return "past_due";
+
+  return now < subscription.expiryDate ? "active" : "grace";
+}
+
+export function isEntitled(status: SubscriptionStatus): boolean {
+  return ENTITLED_STATUSES.includes(status);
+}
+
+// Dates on user documents are Firestore Timestamps
+function legacyDate(value: any): Date | null {
+  const date = value?.toDate?.() ?? (value ? new Date(value) : null);
+  return date && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+/**
+ * The user's subscription. Before the server kept subscriptions, checkout
+ * wrote them to the user's Firestore document; the first lookup of such a
+ * user copies that subscription into storage, where it is renewed from.
+ */
+export async function findSubscription(userId: string): Promise<Subscription | undefined> {
+  const subscription = await storage.getSubscriptionByUser(userId);
+  if (subscription) return subscription;
+
+  const [user] = await getUserDataSource().getMany("users", [userId]);
+  const legacy = user?.subscription;
+  const expiryDate = legacyDate(legacy?.expiryDate);
+  if (!legacy || !getPlan(legacy.planId) || !expiryDate) return undefined;
+
+  return storage.upsertSubscription({
+    userId,
+    planId: legacy.planId,
+    status: "active",
+    startDate: legacyDate(legacy.startDate) ?? expiryDate,
+    expiryDate,
+    orderId: legacy.orderId ?? null,
+    paymentId: legacy.paymentId ?? null,
+  });
+}
+
+/**
+ * Build the subscription model served to the client.
+ */
+export async function getSubscriptionState(
+  userId: string,
+  now: Date = new Date(),
+): Promise<SubscriptionState> {
+  const subscription = await findSubscription(userId);
+  const status = resolveSubscriptionStatus(subscription, now);
+  const isActive = isEntitled(status);
+  const plan = subscription && isActive ? getPlan(subscription.planId) ?? FREE_PLAN : FREE_PLAN;
+
+  if (!subscription) {
+    return {
+      userId,
+      status,
+      planId: plan.id,
+      planName: plan.name,
+      isActive: false,
+      hasSubscription: false,
+      startDate: null,
+      endDate: null,
+      renewsAt: null,
+      graceEndsAt: null,
+      daysRemaining: null,
+      features: plan.features,
+      limits: plan.limits,
+    };
+  }
+
+  const graceEndsAt = subscription.status === "trialing" ? null : getGraceEndDate(subscription);
+  const daysRemaining = Math.max(
+    0,
+    Math.ceil((subscription.expiryDate.getTime() - now.getTime()) / DAY_MS),
+  );
+
+  return {
+    userId,
+    status,
+    planId: plan.id,
+    planName: plan.name,
+    isActive,
+    hasSubscription: true,
+    startDate: subscription.startDate.toISOString(),
+    endDate: subscription.expiryDate.toISOString(),
+    renewsAt: status === "expired" ? null : subscription.expiryDate.toISOString(),
+    graceEndsAt: graceEndsAt ? graceEndsAt.toISOString() : null,
+    daysRemaining,
+    features: plan.features,
+    limits: plan.limits,
+  };
+}
+
+/**
+ * Start the one-time free trial for a user who has never subscribed.
+ */
+export async function startTrial(userId: string, now: Date = new Date()): Promise<SubscriptionState> {
+  if (await findSubscription(userId)) {
+    throw new BillingError("Trial is only available to new subscribers", 409);
+  }
+
+  await storage.upsertSubscription({
+    userId,
+    planId: TRIAL_PLAN_ID,
+    status: "trialing",
+    startDate: now,
+    expiryDate: new Date(now.getTime() + TRIAL_DAYS * DAY_MS),
+  });
+
+  return getSubscriptionState(userId, now);
+}
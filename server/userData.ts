@@ -0,0 +1,92 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { getFirebaseAdminFirestore } from "./firebaseAdmin";
+
+// A document's fields along with its id
+export type UserDocument = { id: string } & Record<string, any>;
+
+// Only documents whose `field` is one of `values`
+export interface FieldFilter {
+  field: string;
+  values: string[];
+}
+
+/**
+ * Reads the data clients keep in Firestore, for checks the server cannot
+ * take the client's word for, and creates the documents clients may not
+ * create themselves.
+ */
+export interface UserDataSource {
+  readonly name: string;
+  // Documents in a collection with the user as `ownerId`
+  countOwned(collectionName: string, userId: string, filter?: FieldFilter): Promise<number>;
+  listOwned(collectionName: string, userId: string): Promise<UserDocument[]>;
+  // Documents by id, whoever owns them; missing ones are left out
+  getMany(collectionName: string, ids: string[]): Promise<UserDocument[]>;
+  // Create documents owned by the user, all or none, returning their ids
+  createOwned(collectionName: string, userId: string, documents: Record<string, unknown>[]): Promise<string[]>;
+}
+
+export class FirestoreUserData implements UserDataSource {
+  readonly name = "firestore";
+
+  async countOwned(collectionName: string, userId: string, filter?: FieldFilter): Promise<number> {
+    let query = getFirebaseAdminFirestore()
+      .collection(collectionName)
+      .where("ownerId", "==", userId);
+    if (filter) {
+      query = query.where(filter.field, "in", filter.values);
+    }
+    const snapshot = await query.count().get();
+    return snapshot.data().count;
+  }
+
+  async listOwned(collectionName: string, userId: string): Promise<UserDocument[]> {
+    const snapshot = await getFirebaseAdminFirestore()
+      .collection(collectionName)
+      .where("ownerId", "==", userId)
+      .get();
+    return snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }));
+  }
+
+  async getMany(collectionName: string, ids: string[]): Promise<UserDocument[]> {
+    if (ids.length === 0) return [];
+    const firestore = getFirebaseAdminFirestore();
+    const collection = firestore.collection(collectionName);
+    const snapshots = await firestore.getAll(...ids.map(id => collection.doc(id)));
+    return snapshots.filter(doc => doc.exists).map(doc => ({ ...doc.data(), id: doc.id }));
+  }
+
+  async createOwned(collectionName: string, userId: string, documents: Record<string, unknown>[]): Promise<string[]> {
+    const firestore = getFirebaseAdminFirestore();
+    const collection = firestore.collection(collectionName);
+    const batch = firestore.batch();
+    const refs = documents.map(data => {
+      const ref = collection.doc();
+      batch.set(ref, {
+        ...data,
+        ownerId: userId,
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return ref;
+    });
+    await batch.commit();
+    return refs.map(ref => ref.id);
+  }
+}
+
+let source: UserDataSource | undefined;
+
+export function getUserDataSource(): UserDataSource {
+  if (!source) {
+    source = new FirestoreUserData();
+  }
+  return source;
+}
+
+/**
+ * Replace the active source, e.g. with in-memory data in local testing.
+ */
+export function setUserDataSource(next: UserDataSource) {
+  source = next;
+}
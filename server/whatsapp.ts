@@ -0,0 +1,227 @@
+import crypto from "crypto";
+
+// WhatsApp Business Cloud API configuration. Messages are sent with each
+// user's own credentials (see whatsappAccounts.ts). WHATSAPP_API_URL can
+// point at the local mock (see whatsappMock.ts) instead of the Graph API.
+export const WHATSAPP_API_URL = process.env.WHATSAPP_API_URL || "https://graph.facebook.com";
+export const WHATSAPP_API_VERSION = process.env.WHATSAPP_API_VERSION || "v21.0";
+// Signs status webhooks of the app users' numbers belong to, unless they
+// saved their own app's secret
+export const WHATSAPP_APP_SECRET = process.env.WHATSAPP_APP_SECRET;
+export const WHATSAPP_WEBHOOK_VERIFY_TOKEN = process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN;
+
+/**
+ * Error response from the Cloud API. `code` is the API's error code, e.g.
+ * 131047 when the 24-hour customer service window has closed.
+ */
+export class WhatsAppApiError extends Error {
+  status: number;
+  code: number | null;
+
+  constructor(message: string, status: number, code: number | null = null) {
+    super(message);
+    this.name = "WhatsAppApiError";
+    this.status = status;
+    this.code = code;
+  }
+
+  // Rate limits and server errors are worth another attempt later
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500 || this.code === 130429 || this.code === 131056;
+  }
+}
+
+export interface WhatsAppSendResult {
+  // Provider's message id, which later status webhooks refer to
+  messageId: string;
+  // Raw API response body
+  response: unknown;
+}
+
+/**
+ * Sends WhatsApp messages. Free-form text only reaches contacts who have
+ * messaged the business in the last 24 hours; approved templates reach
+ * anyone.
+ */
+export interface WhatsAppClient {
+  readonly name: string;
+  sendText(to: string, body: string): Promise<WhatsAppSendResult>;
+  // Body parameters fill the template's {{1}}, {{2}}, ... in order
+  sendTemplate(to: string, templateName: string, languageCode: string, bodyParams?: string[]): Promise<WhatsAppSendResult>;
+}
+
+// The business phone number the credentials belong to
+export interface WhatsAppPhoneNumber {
+  id: string;
+  displayPhoneNumber: string | null;
+  verifiedName: string | null;
+}
+
+// Delivery status reported by a webhook for one message
+export interface WhatsAppStatusUpdate {
+  messageId: string;
+  status: "sent" | "delivered" | "read" | "failed";
+  timestamp: Date;
+  error: string | null;
+}
+
+/**
+ * Client for the Graph API `/{phone-number-id}/messages` endpoint
+ */
+export class CloudApiClient implements WhatsAppClient {
+  readonly name = "cloud-api";
+
+  constructor(
+    private token: string,
+    private phoneNumberId: string,
+    private baseUrl = WHATSAPP_API_URL,
+    private version = WHATSAPP_API_VERSION,
+  ) {}
+
+  sendText(to: string, body: string): Promise<WhatsAppSendResult> {
+    return this.send({
+      to,
+      type: "text",
+      text: { preview_url: true, body },
+    });
+  }
+
+  sendTemplate(to: string, templateName: string, languageCode: string, bodyParams: string[] = []): Promise<WhatsAppSendResult> {
+    return this.send({
+      to,
+      type: "template",
+      template: {
+        name: templateName,
+        language: { code: languageCode },
+        ...(bodyParams.length > 0 && {
+          components: [{
+            type: "body",
+            parameters: bodyParams.map(text => ({ type: "text", text })),
+          }],
+        }),
+      },
+    });
+  }
+
+  /**
+   * Look up the phone number the credentials are for. Fails with the API's
+   * error when the token is invalid or cannot access the number.
+   */
+  async getPhoneNumber(): Promise<WhatsAppPhoneNumber> {
+    const data = await this.request("GET", "?fields=display_phone_number,verified_name");
+    return {
+      id: data.id || this.phoneNumberId,
+      displayPhoneNumber: data.display_phone_number || null,
+      verifiedName: data.verified_name || null,
+    };
+  }
+
+  private async send(message: Record<string, unknown>): Promise<WhatsAppSendResult> {
+    const data = await this.request("POST", "/messages", {
+      messaging_product: "whatsapp",
+      recipient_type: "individual",
+      ...message,
+    });
+
+    const messageId = data.messages?.[0]?.id;
+    if (!messageId) {
+      throw new WhatsAppApiError("WhatsApp API response did not include a message id", 502);
+    }
+    return { messageId, response: data };
+  }
+
+  private async request(method: "GET" | "POST", path: string, body?: Record<string, unknown>): Promise<any> {
+    if (!this.token || !this.phoneNumberId) {
+      throw new WhatsAppApiError("WhatsApp Business API credentials are not configured", 503);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/${this.version}/${this.phoneNumberId}${path}`, {
+        method,
+        headers: {
+          "Authorization": `Bearer ${this.token}`,
+          ...(body && { "Content-Type": "application/json" }),
+        },
+        body: body && JSON.stringify(body),
+        signal: AbortSignal.timeout(30000),
+      });
+    } catch (error: any) {
+      throw new WhatsAppApiError(`WhatsApp API unreachable: ${error.message}`, 503);
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const apiError = data.error || {};
+      const details = apiError.error_data?.details;
+      throw new WhatsAppApiError(
+        [apiError.message || `WhatsApp API error ${response.status}`, details].filter(Boolean).join(": "),
+        response.status,
+        apiError.code ?? null,
+      );
+    }
+    return data;
+  }
+}
+
+/**
+ * Verify the X-Hub-Signature-256 header Meta attaches to webhook deliveries,
+ * signed with the secret of the app the phone number belongs to. Without a
+ * secret no delivery can be trusted, so none is valid.
+ */
+export function verifyWhatsAppWebhookSignature(
+  rawBody: Buffer | string,
+  signature: string,
+  appSecret = WHATSAPP_APP_SECRET,
+): boolean {
+  if (!appSecret) {
+    return false;
+  }
+
+  const expected = `sha256=${crypto.createHmac("sha256", appSecret).update(rawBody).digest("hex")}`;
+  const expectedBuffer = Buffer.from(expected, "utf8");
+  const actualBuffer = Buffer.from(signature, "utf8");
+  return expectedBuffer.length === actualBuffer.length && crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+}
+
+/**
+ * Business phone number a webhook payload is about. A delivery only covers
+ * numbers of one app, so the first one is enough to pick the secret.
+ */
+export function webhookPhoneNumberId(payload: any): string | null {
+  for (const entry of payload?.entry ?? []) {
+    for (const change of entry?.changes ?? []) {
+      const phoneNumberId = change?.value?.metadata?.phone_number_id;
+      if (phoneNumberId) return String(phoneNumberId);
+    }
+  }
+  return null;
+}
+
+/**
+ * Message status updates in a webhook payload. Other notifications, such as
+ * incoming messages, are ignored.
+ */
+export function parseWhatsAppStatuses(payload: any): WhatsAppStatusUpdate[] {
+  const updates: WhatsAppStatusUpdate[] = [];
+
+  for (const entry of payload?.entry ?? []) {
+    for (const change of entry?.changes ?? []) {
+      if (change?.field !== "messages") continue;
+
+      for (const status of change.value?.statuses ?? []) {
+        if (!status?.id || !["sent", "delivered", "read", "failed"].includes(status.status)) continue;
+
+        const error = status.errors?.[0];
+        updates.push({
+          messageId: status.id,
+          status: status.status,
+          timestamp: status.timestamp ? new Date(Number(status.timestamp) * 1000) : new Date(),
+          error: error ? [error.title || error.message, error.error_data?.details].filter(Boolean).join(": ") : null,
+        });
+      }
+    }
+  }
+
+  return updates;
+}
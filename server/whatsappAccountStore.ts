@@ -0,0 +1,120 @@
+import type { InsertWhatsAppAccount, WhatsAppAccount } from "@shared/schema";
+import type { DocumentData } from "firebase-admin/firestore";
+import { getFirebaseAdminFirestore } from "./firebaseAdmin";
+
+/**
+ * Where users' WhatsApp Business API credentials are kept. Accounts must
+ * outlive server restarts, so the default store is Firestore.
+ */
+export interface WhatsAppAccountStore {
+  readonly name: string;
+  get(userId: string): Promise<WhatsAppAccount | undefined>;
+  // The account a business phone number is saved under, for routing webhooks
+  getByPhoneNumberId(phoneNumberId: string): Promise<WhatsAppAccount | undefined>;
+  upsert(account: InsertWhatsAppAccount): Promise<WhatsAppAccount>;
+  delete(userId: string): Promise<boolean>;
+}
+
+// Server-only collection, one document per user; the security rules give
+// clients no access to it
+const COLLECTION = "whatsappAccounts";
+
+function toAccount(data: DocumentData): WhatsAppAccount {
+  return {
+    userId: data.userId,
+    phoneNumberId: data.phoneNumberId,
+    encryptedToken: data.encryptedToken,
+    tokenHint: data.tokenHint,
+    encryptedAppSecret: data.encryptedAppSecret ?? null,
+    displayPhoneNumber: data.displayPhoneNumber ?? null,
+    verifiedName: data.verifiedName ?? null,
+    validatedAt: data.validatedAt.toDate(),
+    updatedAt: data.updatedAt.toDate(),
+  };
+}
+
+export class FirestoreWhatsAppAccountStore implements WhatsAppAccountStore {
+  readonly name = "firestore";
+
+  private collection() {
+    return getFirebaseAdminFirestore().collection(COLLECTION);
+  }
+
+  async get(userId: string): Promise<WhatsAppAccount | undefined> {
+    const snapshot = await this.collection().doc(userId).get();
+    return snapshot.exists ? toAccount(snapshot.data()!) : undefined;
+  }
+
+  async getByPhoneNumberId(phoneNumberId: string): Promise<WhatsAppAccount | undefined> {
+    const snapshot = await this.collection().where("phoneNumberId", "==", phoneNumberId).limit(1).get();
+    return snapshot.empty ? undefined : toAccount(snapshot.docs[0].data());
+  }
+
+  async upsert(insertAccount: InsertWhatsAppAccount): Promise<WhatsAppAccount> {
+    const account: WhatsAppAccount = {
+      ...insertAccount,
+      encryptedAppSecret: insertAccount.encryptedAppSecret ?? null,
+      displayPhoneNumber: insertAccount.displayPhoneNumber ?? null,
+      verifiedName: insertAccount.verifiedName ?? null,
+      updatedAt: new Date(),
+    };
+    await this.collection().doc(account.userId).set(account);
+    return account;
+  }
+
+  async delete(userId: string): Promise<boolean> {
+    const ref = this.collection().doc(userId);
+    const snapshot = await ref.get();
+    if (!snapshot.exists) return false;
+    await ref.delete();
+    return true;
+  }
+}
+
+/**
+ * Keeps accounts in memory only; for local testing.
+ */
+export class MemoryWhatsAppAccountStore implements WhatsAppAccountStore {
+  readonly name = "memory";
+  private accounts = new Map<string, WhatsAppAccount>();
+
+  async get(userId: string): Promise<WhatsAppAccount | undefined> {
+    return this.accounts.get(userId);
+  }
+
+  async getByPhoneNumberId(phoneNumberId: string): Promise<WhatsAppAccount | undefined> {
+    return Array.from(this.accounts.values()).find(account => account.phoneNumberId === phoneNumberId);
+  }
+
+  async upsert(insertAccount: InsertWhatsAppAccount): Promise<WhatsAppAccount> {
+    const account: WhatsAppAccount = {
+      ...insertAccount,
+      encryptedAppSecret: insertAccount.encryptedAppSecret ?? null,
+      displayPhoneNumber: insertAccount.displayPhoneNumber ?? null,
+      verifiedName: insertAccount.verifiedName ?? null,
+      updatedAt: new Date(),
+    };
+    this.accounts.set(account.userId, account);
+    return account;
+  }
+
+  async delete(userId: string): Promise<boolean> {
+    return this.accounts.delete(userId);
+  }
+}
+
+let store: WhatsAppAccountStore | undefined;
+
+export function getWhatsAppAccountStore(): WhatsAppAccountStore {
+  if (!store) {
+    store = new FirestoreWhatsAppAccountStore();
+  }
+  return store;
+}
+
+/**
+ * Replace the active store, e.g. with an in-memory one in local testing.
+ */
+export function setWhatsAppAccountStore(next: WhatsAppAccountStore) {
+  store = next;
+}
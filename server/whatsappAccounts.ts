@@ -0,0 +1,191 @@
+import type { WhatsAppAccount, WhatsAppAccountStatus } from "@shared/schema";
+import { getWhatsAppAccountStore } from "./whatsappAccountStore";
+import { decryptSecret, encryptSecret } from "./secrets";
+import {
+  CloudApiClient,
+  WHATSAPP_APP_SECRET,
+  WhatsAppApiError,
+  verifyWhatsAppWebhookSignature,
+  webhookPhoneNumberId,
+  type WhatsAppClient,
+  type WhatsAppSendResult,
+} from "./whatsapp";
+
+// Template every new WhatsApp Business account has approved
+export const DEFAULT_TEST_TEMPLATE = "hello_world";
+export const DEFAULT_TEST_TEMPLATE_LANGUAGE = "en_US";
+
+/**
+ * `code` carries the Cloud API's error code when the API refused the
+ * request, e.g. 190 for an expired token or 132001 for an unknown template.
+ */
+export class WhatsAppAccountError extends Error {
+  status: number;
+  code: number | null;
+
+  constructor(message: string, status = 400, code: number | null = null) {
+    super(message);
+    this.name = "WhatsAppAccountError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface TestTemplateParams {
+  to: string;
+  templateName?: string;
+  languageCode?: string;
+}
+
+// API failures caused by the user's credentials or input are 400s; the
+// API being down is a 502
+function fromApiError(error: WhatsAppApiError, prefix: string): WhatsAppAccountError {
+  return new WhatsAppAccountError(`${prefix}: ${error.message}`, error.status >= 500 ? 502 : 400, error.code);
+}
+
+function toStatus(account: WhatsAppAccount | undefined): WhatsAppAccountStatus {
+  return {
+    configured: !!account,
+    phoneNumberId: account?.phoneNumberId ?? null,
+    tokenHint: account?.tokenHint ?? null,
+    hasAppSecret: !!account?.encryptedAppSecret,
+    displayPhoneNumber: account?.displayPhoneNumber ?? null,
+    verifiedName: account?.verifiedName ?? null,
+    validatedAt: account?.validatedAt.toISOString() ?? null,
+  };
+}
+
+export async function getWhatsAppAccountStatus(userId: string): Promise<WhatsAppAccountStatus> {
+  return toStatus(await getWhatsAppAccountStore().get(userId));
+}
+
+function encryptCredential(value: string, label: string): string {
+  try {
+    return encryptSecret(value);
+  } catch (error: any) {
+    console.error(`Cannot encrypt WhatsApp ${label}:`, error.message);
+    throw new WhatsAppAccountError("Credential storage is not configured on the server", 503);
+  }
+}
+
+/**
+ * Check the credentials against the Cloud API, then store them with the
+ * token and app secret encrypted. Nothing is stored when the API rejects
+ * them. Leaving the app secret out keeps the one saved for the same number.
+ */
+export async function saveWhatsAppCredentials(
+  userId: string,
+  { token, phoneNumberId, appSecret }: { token?: string; phoneNumberId?: string; appSecret?: string },
+): Promise<WhatsAppAccountStatus> {
+  token = token?.trim();
+  phoneNumberId = phoneNumberId?.trim();
+  appSecret = appSecret?.trim();
+  if (!token || !phoneNumberId) {
+    throw new WhatsAppAccountError("Access token and phone number ID are required");
+  }
+  if (!/^\d+$/.test(phoneNumberId)) {
+    throw new WhatsAppAccountError("Phone number ID should be the numeric ID from WhatsApp > API Setup, not the phone number");
+  }
+  if (appSecret && !/^[0-9a-f]{32}$/i.test(appSecret)) {
+    throw new WhatsAppAccountError("App secret should be the 32-character secret from App settings > Basic");
+  }
+
+  // Status webhooks are routed to accounts by phone number id
+  const store = getWhatsAppAccountStore();
+  const owner = await store.getByPhoneNumberId(phoneNumberId);
+  if (owner && owner.userId !== userId) {
+    throw new WhatsAppAccountError("This WhatsApp number is already connected to another account", 409);
+  }
+
+  let phoneNumber;
+  try {
+    phoneNumber = await new CloudApiClient(token, phoneNumberId).getPhoneNumber();
+  } catch (error) {
+    if (error instanceof WhatsAppApiError) {
+      throw fromApiError(error, "WhatsApp rejected these credentials");
+    }
+    throw error;
+  }
+
+  const account = await store.upsert({
+    userId,
+    phoneNumberId,
+    encryptedToken: encryptCredential(token, "token"),
+    tokenHint: token.slice(-4),
+    encryptedAppSecret: appSecret ? encryptCredential(appSecret, "app secret") : owner?.encryptedAppSecret ?? null,
+    displayPhoneNumber: phoneNumber.displayPhoneNumber,
+    verifiedName: phoneNumber.verifiedName,
+    validatedAt: new Date(),
+  });
+  return toStatus(account);
+}
+
+export async function deleteWhatsAppCredentials(userId: string): Promise<void> {
+  await getWhatsAppAccountStore().delete(userId);
+}
+
+/**
+ * Client for sending as the user with their saved credentials. Messages are
+ * never sent from another business number.
+ */
+export async function getWhatsAppClientForUser(userId: string): Promise<WhatsAppClient> {
+  const account = await getWhatsAppAccountStore().get(userId);
+  if (!account) {
+    throw new WhatsAppAccountError("Connect your WhatsApp account in Settings before sending WhatsApp campaigns", 409);
+  }
+  return new CloudApiClient(decryptSecret(account.encryptedToken), account.phoneNumberId);
+}
+
+/**
+ * Check a status webhook's signature with the secret of the app its phone
+ * number belongs to: the account's saved secret, else WHATSAPP_APP_SECRET.
+ * `userId` is the user the number is connected to, if any.
+ */
+export async function verifyWhatsAppWebhook(
+  rawBody: Buffer,
+  signature: string,
+  payload: any,
+): Promise<{ valid: boolean; userId: string | null }> {
+  const phoneNumberId = webhookPhoneNumberId(payload);
+  const account = phoneNumberId ? await getWhatsAppAccountStore().getByPhoneNumberId(phoneNumberId) : undefined;
+
+  const appSecret = account?.encryptedAppSecret ? decryptSecret(account.encryptedAppSecret) : WHATSAPP_APP_SECRET;
+  if (!appSecret) {
+    console.error(`No WhatsApp app secret to verify webhooks for phone number ${phoneNumberId ?? "(none)"}`);
+  }
+  return {
+    valid: verifyWhatsAppWebhookSignature(rawBody, signature, appSecret),
+    userId: account?.userId ?? null,
+  };
+}
+
+/**
+ * Send an approved template with the user's saved credentials, returning
+ * the API's response as is.
+ */
+export async function sendTestTemplate(userId: string, params: TestTemplateParams): Promise<WhatsAppSendResult> {
+  const account = await getWhatsAppAccountStore().get(userId);
+  if (!account) {
+    throw new WhatsAppAccountError("Save your WhatsApp Business API credentials first", 409);
+  }
+
+  const to = String(params.to || "").replace(/\D/g, "");
+  if (to.length < 8) {
+    throw new WhatsAppAccountError("Enter a WhatsApp number with its country code to send the test to");
+  }
+  const templateName = params.templateName?.trim() || DEFAULT_TEST_TEMPLATE;
+  if (!/^[a-z0-9_]+$/.test(templateName)) {
+    throw new WhatsAppAccountError("Template names use lowercase letters, numbers and underscores");
+  }
+  const languageCode = params.languageCode?.trim() || DEFAULT_TEST_TEMPLATE_LANGUAGE;
+
+  const client = new CloudApiClient(decryptSecret(account.encryptedToken), account.phoneNumberId);
+  try {
+    return await client.sendTemplate(to, templateName, languageCode);
+  } catch (error) {
+    if (error instanceof WhatsAppApiError) {
+      throw fromApiError(error, "WhatsApp did not accept the test message");
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,95 @@
+import type { InsertCampaignRecipient } from "@shared/schema";
+import { toWhatsAppNumber } from "@shared/phone";
+import { renderWhatsAppParams, type WhatsAppTemplate } from "@shared/templates";
+import type { VerifiedUser } from "./auth";
+import { CampaignError } from "./campaigns";
+import { contactName, contactValues, loadContacts, loadSender } from "./emailMessages";
+import { getUserDataSource, type UserDocument } from "./userData";
+
+// Contacts one WhatsApp campaign can go to
+export const MAX_WHATSAPP_CONTACTS = 1000;
+
+// WhatsApp campaigns are filled in here from the user's own template and
+// contacts, so clients cannot send to numbers or with parameters of their
+// choosing
+
+export interface CampaignWhatsAppRequest {
+  templateId: string;
+  contactIds: string[];
+}
+
+export interface CampaignWhatsApp {
+  whatsappTemplate: string;
+  whatsappLanguage: string | null;
+  recipients: InsertCampaignRecipient[];
+}
+
+async function loadTemplate(
+  userId: string,
+  templateId: string,
+): Promise<WhatsAppTemplate & { whatsappTemplate: string; whatsappLanguage: string | null }> {
+  const [template] = await getUserDataSource().getMany("templates", [String(templateId)]);
+  if (!template || template.ownerId !== userId) {
+    throw new CampaignError("Template not found", 404);
+  }
+  if (!template.whatsappTemplate) {
+    throw new CampaignError("This template has no approved WhatsApp template");
+  }
+  return {
+    whatsappTemplate: template.whatsappTemplate,
+    whatsappLanguage: template.whatsappLanguage || null,
+    whatsappParams: template.whatsappParams || [],
+  };
+}
+
+// First number that can receive WhatsApp, skipping landlines and faxes
+function whatsAppPhone(contact: UserDocument): string {
+  const phones: string[] = contact.phones?.length ? contact.phones : contact.phone ? [contact.phone] : [];
+  return phones.find(phone => {
+    const type = contact.phoneDetails?.find((detail: { e164: string }) => detail.e164 === phone)?.type;
+    return type !== "landline" && type !== "fax";
+  }) || "";
+}
+
+/**
+ * Fill a template's approved WhatsApp template parameters for each of the
+ * user's contacts in a WhatsApp campaign. Numbers without a country code
+ * are read in the user's default country.
+ */
+export async function composeCampaignWhatsApp(
+  user: VerifiedUser,
+  request: CampaignWhatsAppRequest,
+  origin: string,
+): Promise<CampaignWhatsApp> {
+  if (!request.templateId) {
+    throw new CampaignError("Choose a template to send");
+  }
+  if (!Array.isArray(request.contactIds) || request.contactIds.length === 0) {
+    throw new CampaignError("Campaign has no recipients");
+  }
+  if (request.contactIds.length > MAX_WHATSAPP_CONTACTS) {
+    throw new CampaignError(`Campaigns are limited to ${MAX_WHATSAPP_CONTACTS} recipients`);
+  }
+
+  const [template, [settings], contacts, sender] = await Promise.all([
+    loadTemplate(user.uid, request.templateId),
+    getUserDataSource().getMany("settings", [user.uid]),
+    loadContacts(user.uid, request.contactIds),
+    loadSender(user, origin),
+  ]);
+
+  return {
+    whatsappTemplate: template.whatsappTemplate,
+    whatsappLanguage: template.whatsappLanguage,
+    recipients: contacts.map(contact => {
+      const templateParams = renderWhatsAppParams(template, { ...sender, ...contactValues(contact) });
+      return {
+        contactId: contact.id,
+        name: contactName(contact),
+        to: toWhatsAppNumber(whatsAppPhone(contact), settings?.defaultCountry || undefined),
+        message: templateParams.filter(Boolean).join(", ") || template.whatsappTemplate,
+        templateParams,
+      };
+    }),
+  };
+}
@@ -0,0 +1,120 @@
+import express, { type Router } from "express";
+import { randomUUID } from "crypto";
+
+export interface MockWhatsAppMessage {
+  id: string;
+  phoneNumberId: string;
+  to: string;
+  type: string;
+  body: any;
+  sentAt: Date;
+}
+
+interface MockWhatsAppOptions {
+  // Receives the status webhooks the real API would deliver
+  onWebhook: (payload: any) => Promise<unknown>;
+  // Delay between each simulated status: sent, delivered, read
+  statusDelayMs?: number;
+}
+
+/**
+ * Stand-in for the Graph API messages endpoint, for local development and
+ * tests. Point WHATSAPP_API_URL at wherever it is mounted. Every accepted
+ * message is reported sent, delivered and read through `onWebhook`, except
+ * numbers ending in 000, which fail as undeliverable like a number that is
+ * not on WhatsApp.
+ */
+export function createWhatsAppMockRouter({ onWebhook, statusDelayMs = 500 }: MockWhatsAppOptions): Router {
+  const router = express.Router();
+  const messages: MockWhatsAppMessage[] = [];
+
+  const deliverStatus = (message: MockWhatsAppMessage, status: string, delay: number, errors?: any[]) => {
+    setTimeout(() => {
+      onWebhook({
+        object: "whatsapp_business_account",
+        entry: [{
+          id: "mock-waba",
+          changes: [{
+            field: "messages",
+            value: {
+              messaging_product: "whatsapp",
+              metadata: { phone_number_id: message.phoneNumberId },
+              statuses: [{
+                id: message.id,
+                status,
+                timestamp: String(Math.floor(Date.now() / 1000)),
+                recipient_id: message.to,
+                ...(errors && { errors }),
+              }],
+            },
+          }],
+        }],
+      }).catch(error => console.error("Mock WhatsApp webhook failed:", error));
+    }, delay);
+  };
+
+  const invalidToken = {
+    error: { message: "Invalid OAuth access token.", type: "OAuthException", code: 190 },
+  };
+
+  // Phone number lookup used to validate credentials
+  router.get("/:version/:phoneNumberId", (req, res) => {
+    if (!req.get("authorization")?.startsWith("Bearer ")) {
+      return res.status(401).json(invalidToken);
+    }
+
+    res.json({
+      id: req.params.phoneNumberId,
+      display_phone_number: "+1 555-010-0000",
+      verified_name: "Mock Business",
+    });
+  });
+
+  router.post("/:version/:phoneNumberId/messages", (req, res) => {
+    if (!req.get("authorization")?.startsWith("Bearer ")) {
+      return res.status(401).json(invalidToken);
+    }
+
+    const { messaging_product, to, type } = req.body || {};
+    if (messaging_product !== "whatsapp" || !to || !type) {
+      return res.status(400).json({
+        error: { message: "(#100) Invalid parameter", type: "OAuthException", code: 100 },
+      });
+    }
+
+    const message: MockWhatsAppMessage = {
+      id: `wamid.mock-${randomUUID()}`,
+      phoneNumberId: req.params.phoneNumberId,
+      to: String(to),
+      type: String(type),
+      body: req.body[type],
+      sentAt: new Date(),
+    };
+    messages.push(message);
+
+    if (message.to.endsWith("000")) {
+      deliverStatus(message, "failed", statusDelayMs, [{
+        code: 131026,
+        title: "Message undeliverable",
+        error_data: { details: "The recipient is not a WhatsApp user" },
+      }]);
+    } else {
+      deliverStatus(message, "sent", statusDelayMs);
+      deliverStatus(message, "delivered", statusDelayMs * 2);
+      deliverStatus(message, "read", statusDelayMs * 3);
+    }
+
+    res.json({
+      messaging_product: "whatsapp",
+      contacts: [{ input: message.to, wa_id: message.to }],
+      messages: [{ id: message.id }],
+    });
+  });
+
+  // Everything the mock has accepted, newest first
+  router.get("/messages", (_req, res) => {
+    res.json({ messages: messages.slice().reverse() });
+  });
+
+  return router;
+}
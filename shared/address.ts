@@ -0,0 +1,266 @@
+// Structured postal addresses, split from the single-line addresses read
+// off cards and typed into forms
+import type { VCardAddress } from "./vcard";
+
+export interface PostalAddress {
+  // Building, street and anything else before the city
+  street: string;
+  // City or town
+  locality: string;
+  // State, province or county
+  region: string;
+  postalCode: string;
+  country: string;
+}
+
+export const EMPTY_POSTAL_ADDRESS: PostalAddress = { street: '', locality: '', region: '', postalCode: '', country: '' };
+
+// Country names as written on cards, mapped to ISO 3166-1 alpha-2 codes
+const COUNTRY_NAMES: Record<string, string> = {
+  'india': 'IN', 'bharat': 'IN',
+  'united states': 'US', 'united states of america': 'US', 'usa': 'US', 'us': 'US', 'u s a': 'US', 'america': 'US',
+  'canada': 'CA',
+  'united kingdom': 'GB', 'uk': 'GB', 'u k': 'GB', 'great britain': 'GB', 'england': 'GB', 'scotland': 'GB', 'wales': 'GB',
+  'ireland': 'IE',
+  'australia': 'AU',
+  'new zealand': 'NZ',
+  'united arab emirates': 'AE', 'uae': 'AE', 'u a e': 'AE',
+  'saudi arabia': 'SA', 'ksa': 'SA',
+  'qatar': 'QA', 'kuwait': 'KW', 'oman': 'OM', 'bahrain': 'BH',
+  'singapore': 'SG', 'malaysia': 'MY', 'sri lanka': 'LK', 'nepal': 'NP', 'bangladesh': 'BD', 'pakistan': 'PK',
+  'china': 'CN', 'japan': 'JP',
+  'germany': 'DE', 'deutschland': 'DE', 'france': 'FR', 'netherlands': 'NL', 'the netherlands': 'NL',
+  'spain': 'ES', 'italy': 'IT',
+  'south africa': 'ZA', 'nigeria': 'NG', 'kenya': 'KE', 'brazil': 'BR',
+};
+
+// Canonical name for each country code, used when a country is recognised
+const COUNTRY_DISPLAY: Record<string, string> = {
+  IN: 'India', US: 'United States', CA: 'Canada', GB: 'United Kingdom', IE: 'Ireland', AU: 'Australia',
+  NZ: 'New Zealand', AE: 'United Arab Emirates', SA: 'Saudi Arabia', QA: 'Qatar', KW: 'Kuwait', OM: 'Oman',
+  BH: 'Bahrain', SG: 'Singapore', MY: 'Malaysia', LK: 'Sri Lanka', NP: 'Nepal', BD: 'Bangladesh', PK: 'Pakistan',
+  CN: 'China', JP: 'Japan', DE: 'Germany', FR: 'France', NL: 'Netherlands', ES: 'Spain', IT: 'Italy',
+  ZA: 'South Africa', NG: 'Nigeria', KE: 'Kenya', BR: 'Brazil',
+};
+
+// Postal code formats by country; countries not listed use GENERIC_POSTAL_CODE
+const POSTAL_CODES: Record<string, RegExp> = {
+  IN: /\b\d{3}\s?\d{3}\b/,
+  US: /\b\d{5}(?:-\d{4})?\b/,
+  CA: /\b[A-Z]\d[A-Z]\s?\d[A-Z]\d\b/i,
+  GB: /\b[A-Z]{1,2}\d[A-Z\d]?\s?\d[A-Z]{2}\b/i,
+  IE: /\b[A-Z]\d{2}\s?[A-Z\d]{4}\b/i,
+  NL: /\b\d{4}\s?[A-Z]{2}\b/,
+  AU: /\b\d{4}\b/, NZ: /\b\d{4}\b/, ZA: /\b\d{4}\b/, BD: /\b\d{4}\b/,
+  SG: /\b\d{6}\b/, CN: /\b\d{6}\b/, NG: /\b\d{6}\b/,
+  JP: /\b\d{3}-?\d{4}\b/,
+  BR: /\b\d{5}-?\d{3}\b/,
+};
+const GENERIC_POSTAL_CODE = /\b\d{4,6}(?:-\d{3,4})?\b/;
+// Countries without postal codes, where numbers are always part of the street
+const NO_POSTAL_CODES = ['AE', 'QA'];
+
+// Regions spelled out on cards, plus the abbreviations used in each country
+const REGIONS: Record<string, { names: string[]; codes?: string[] }> = {
+  IN: {
+    names: [
+      'andhra pradesh', 'arunachal pradesh', 'assam', 'bihar', 'chhattisgarh', 'goa', 'gujarat', 'haryana',
+      'himachal pradesh', 'jharkhand', 'karnataka', 'kerala', 'madhya pradesh', 'maharashtra', 'manipur',
+      'meghalaya', 'mizoram', 'nagaland', 'odisha', 'orissa', 'punjab', 'rajasthan', 'sikkim', 'tamil nadu',
+      'telangana', 'tripura', 'uttar pradesh', 'uttarakhand', 'west bengal', 'delhi', 'new delhi',
+      'jammu and kashmir', 'ladakh', 'puducherry', 'pondicherry', 'chandigarh', 'andaman and nicobar islands',
+      'dadra and nagar haveli and daman and diu', 'lakshadweep',
+    ],
+  },
+  US: {
+    names: [
+      'alabama', 'alaska', 'arizona', 'arkansas', 'california', 'colorado', 'connecticut', 'delaware', 'florida',
+      'georgia', 'hawaii', 'idaho', 'illinois', 'indiana', 'iowa', 'kansas', 'kentucky', 'louisiana', 'maine',
+      'maryland', 'massachusetts', 'michigan', 'minnesota', 'mississippi', 'missouri', 'montana', 'nebraska',
+      'nevada', 'new hampshire', 'new jersey', 'new mexico', 'new york', 'north carolina', 'north dakota', 'ohio',
+      'oklahoma', 'oregon', 'pennsylvania', 'rhode island', 'south carolina', 'south dakota', 'tennessee', 'texas',
+      'utah', 'vermont', 'virginia', 'washington', 'west virginia', 'wisconsin', 'wyoming', 'district of columbia',
+    ],
+    codes: [
+      'al', 'ak', 'az', 'ar', 'ca', 'co', 'ct', 'de', 'fl', 'ga', 'hi', 'id', 'il', 'in', 'ia', 'ks', 'ky', 'la',
+      'me', 'md', 'ma', 'mi', 'mn', 'ms', 'mo', 'mt', 'ne', 'nv', 'nh', 'nj', 'nm', 'ny', 'nc', 'nd', 'oh', 'ok',
+      'or', 'pa', 'ri', 'sc', 'sd', 'tn', 'tx', 'ut', 'vt', 'va', 'wa', 'wv', 'wi', 'wy', 'dc',
+    ],
+  },
+  CA: {
+    names: [
+      'alberta', 'british columbia', 'manitoba', 'new brunswick', 'newfoundland and labrador', 'nova scotia',
+      'ontario', 'prince edward island', 'quebec', 'saskatchewan', 'northwest territories', 'nunavut', 'yukon',
+    ],
+    codes: ['ab', 'bc', 'mb', 'nb', 'nl', 'ns', 'on', 'pe', 'qc', 'sk', 'nt', 'nu', 'yt'],
+  },
+  AU: {
+    names: [
+      'new south wales', 'victoria', 'queensland', 'south australia', 'western australia', 'tasmania',
+      'northern territory', 'australian capital territory',
+    ],
+    codes: ['nsw', 'vic', 'qld', 'sa', 'wa', 'tas', 'nt', 'act'],
+  },
+  AE: { names: ['abu dhabi', 'dubai', 'sharjah', 'ajman', 'umm al quwain', 'ras al khaimah', 'fujairah'] },
+};
+
+// Words that mark a segment as part of the street rather than a city
+const STREET_WORDS = /\b(?:street|st|road|rd|avenue|ave|lane|ln|drive|dr|boulevard|blvd|way|floor|flr|suite|ste|building|bldg|tower|block|plot|flat|apt|apartment|house|office|no|nagar|marg|cross|main|layout|sector|phase|colony|complex|po box|p\.?o\.? box)\b|#|\d/i;
+const POSTAL_LABEL = /\b(?:pin(?:\s?code)?|zip(?:\s?code)?|postal\s?code|post\s?code|pincode)\b[\s.:\-]*/gi;
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[.\s]+/g, ' ').trim();
+const tidy = (value: string) => value.replace(/\s*[-–]\s*$/, '').replace(/^\s*[-–]\s*/, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * ISO code for a country name as written ("India", "USA", "U.K.")
+ */
+export function countryCodeFor(name: string): string | undefined {
+  return COUNTRY_NAMES[normalizeKey(name)];
+}
+
+function regionIn(value: string, countryCode?: string): boolean {
+  const key = normalizeKey(value);
+  if (!key) return false;
+  const countries = countryCode && REGIONS[countryCode] ? [countryCode] : Object.keys(REGIONS);
+  return countries.some(code => {
+    const regions = REGIONS[code];
+    // Two-letter codes are only trusted for a known country
+    return regions.names.includes(key) || (!!countryCode && !!regions.codes?.includes(key));
+  });
+}
+
+/**
+ * Split a single-line or multi-line address into its parts. Parts are read
+ * from the end: country, postal code, region, then city; whatever is left
+ * is the street. `defaultCountry` (an ISO code) decides the postal code
+ * format and regions when the address does not name its country.
+ */
+export function parseAddress(text: string, defaultCountry?: string): PostalAddress {
+  const address = { ...EMPTY_POSTAL_ADDRESS };
+  const segments = (text || '')
+    .split(/\r?\n|,|;/)
+    .map(s => tidy(s.replace(POSTAL_LABEL, ' ')))
+    .filter(Boolean);
+  if (segments.length === 0) return address;
+
+  // Country: the last segment, possibly sharing it with the postal code
+  let countryCode: string | undefined;
+  const last = segments[segments.length - 1];
+  const codeInLast = last.match(GENERIC_POSTAL_CODE) || last.match(POSTAL_CODES.GB) || last.match(POSTAL_CODES.CA);
+  const lastCountry = countryCodeFor(codeInLast ? tidy(last.replace(codeInLast[0], '')) : last);
+  if (lastCountry) {
+    countryCode = lastCountry;
+    address.country = COUNTRY_DISPLAY[lastCountry];
+    if (codeInLast) segments[segments.length - 1] = codeInLast[0];
+    else segments.pop();
+  }
+
+  // Postal code: the last match of the country's format, searched from the end
+  const postalCountry = countryCode || defaultCountry || '';
+  const postalPattern = POSTAL_CODES[postalCountry] || GENERIC_POSTAL_CODE;
+  const searchFrom = NO_POSTAL_CODES.includes(postalCountry) ? -1 : segments.length - 1;
+  for (let i = searchFrom; i >= 0 && i >= segments.length - 3; i--) {
+    const match = segments[i].match(postalPattern);
+    // A segment that is only a number is a postal code, not a house number
+    if (!match || (i < segments.length - 1 && STREET_WORDS.test(segments[i].replace(match[0], '')))) continue;
+    address.postalCode = match[0].toUpperCase();
+    const rest = tidy(segments[i].replace(match[0], ''));
+    if (rest) segments[i] = rest;
+    else segments.splice(i, 1);
+    break;
+  }
+
+  // Region, then city, from the segments that are left at the end
+  const regionCountry = countryCode || defaultCountry;
+  const lastSegment = segments[segments.length - 1];
+  if (segments.length > 1 && lastSegment && regionIn(lastSegment, regionCountry)) {
+    address.region = segments.pop()!;
+  } else if (lastSegment) {
+    // "Springfield IL" or "Bengaluru Karnataka" in one segment
+    const words = lastSegment.split(' ');
+    for (let n = Math.min(4, words.length - 1); n >= 1; n--) {
+      const tail = words.slice(-n).join(' ');
+      if (regionIn(tail, regionCountry)) {
+        address.region = tail;
+        segments[segments.length - 1] = words.slice(0, -n).join(' ');
+        break;
+      }
+    }
+  }
+
+  const cityCandidate = segments[segments.length - 1];
+  if (segments.length > 1 && cityCandidate && !STREET_WORDS.test(cityCandidate)) {
+    address.locality = segments.pop()!;
+  } else if (segments.length === 1 && (address.postalCode || address.region) && !STREET_WORDS.test(cityCandidate)) {
+    address.locality = segments.pop()!;
+  }
+
+  address.street = segments.join(', ');
+  return address;
+}
+
+export function isEmptyAddress(address?: Partial<PostalAddress> | null): boolean {
+  return !address || !Object.values(address).some(value => typeof value === 'string' && value.trim());
+}
+
+/**
+ * An address written out, one line per part or joined with commas
+ */
+export function formatAddress(address: Partial<PostalAddress> | null | undefined, separator = ', '): string {
+  if (!address) return '';
+  const regionLine = [address.region, address.postalCode].map(v => v?.trim()).filter(Boolean).join(' ');
+  return [address.street, address.locality, regionLine, address.country]
+    .map(v => v?.trim())
+    .filter(Boolean)
+    .join(separator);
+}
+
+/**
+ * Link that opens an address in the maps app (Google Maps on the web,
+ * the default maps app on phones)
+ */
+export function mapsUrl(address: Partial<PostalAddress> | string): string {
+  const query = typeof address === 'string' ? address.replace(/\s*\n\s*/g, ', ') : formatAddress(address);
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query.trim())}`;
+}
+
+export function toVCardAddress(address: PostalAddress, types: string[] = ['work']): VCardAddress {
+  return {
+    types,
+    poBox: '',
+    extended: '',
+    street: address.street,
+    locality: address.locality,
+    region: address.region,
+    postalCode: address.postalCode,
+    country: address.country,
+  };
+}
+
+export function fromVCardAddress(address: VCardAddress): PostalAddress {
+  return {
+    street: [address.poBox, address.extended, address.street].map(v => v.trim()).filter(Boolean).join(', '),
+    locality: address.locality.trim(),
+    region: address.region.trim(),
+    postalCode: address.postalCode.trim(),
+    country: address.country.trim(),
+  };
+}
+
+export interface AddressFields {
+  // The address on one line, as shown in lists and exports
+  address: string;
+  postalAddress: PostalAddress | null;
+}
+
+/**
+ * The address fields stored on a contact or card. A structured address is
+ * used as given; otherwise the text is parsed.
+ */
+export function toAddressFields(text: string, defaultCountry?: string, postalAddress?: PostalAddress | null): AddressFields {
+  const structured = postalAddress && !isEmptyAddress(postalAddress)
+    ? postalAddress
+    : parseAddress(text, defaultCountry);
+  if (isEmptyAddress(structured)) return { address: (text || '').trim(), postalAddress: null };
+  return { address: (text || '').trim() || formatAddress(structured), postalAddress: structured };
+}
@@ -0,0 +1,38 @@
+// Field clean-up shared by the browser QR parsers and the server OCR pipeline
+
+import { normalizePhoneNumber } from "./phone";
+
+// Phone helpers live in ./phone; re-exported for existing callers
+export { normalizePhoneNumber, phoneMatchKey } from "./phone";
+
+/**
+ * Clean and validate extracted text fields
+ */
+export function cleanExtractedField(value: any, type: 'text' | 'email' | 'url' | 'phone' = 'text'): string {
+  if (!value) return '';
+  
+  let cleaned = value.toString().trim();
+  
+  switch (type) {
+    case 'email':
+      cleaned = cleaned.toLowerCase();
+      // Validate email format
+      if (!/^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(cleaned)) {
+        return '';
+      }
+      break;
+    case 'url':
+      // Ensure URL has protocol
+      if (cleaned && !cleaned.startsWith('http')) {
+        cleaned = 'https://' + cleaned;
+      }
+      break;
+    case 'phone':
+      // Kept as written; numbers are stored in E.164 once the user's
+      // default country is known
+      cleaned = normalizePhoneNumber(cleaned) ? cleaned.replace(/\s+/g, ' ') : '';
+      break;
+  }
+  
+  return cleaned;
+}
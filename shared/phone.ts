@@ -0,0 +1,312 @@
+// Phone number parsing, validation and E.164 normalization shared by the
+// browser and the server. Numbers without a country code are read in the
+// user's default country (a Settings field).
+
+export type PhoneType = 'mobile' | 'landline' | 'fax';
+
+export interface PhoneNumber {
+  // +<country code><national number>
+  e164: string;
+  // The number as it was written
+  display: string;
+  // Unknown for countries where mobile and landline numbers look alike
+  type?: PhoneType;
+  // ISO 3166-1 alpha-2 code, when the country code is one we know
+  country?: string;
+}
+
+export interface PhoneCountry {
+  code: string;
+  name: string;
+  callingCode: string;
+  // Dialled before national numbers inside the country, dropped in E.164
+  trunkPrefix?: string;
+  // Allowed lengths of the national significant number
+  lengths: number[];
+  // Leading digits of mobile numbers; left out where they cannot be told apart
+  mobilePrefixes?: string[];
+}
+
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+  { code: 'IN', name: 'India', callingCode: '91', trunkPrefix: '0', lengths: [10], mobilePrefixes: ['6', '7', '8', '9'] },
+  { code: 'US', name: 'United States', callingCode: '1', trunkPrefix: '1', lengths: [10] },
+  { code: 'CA', name: 'Canada', callingCode: '1', trunkPrefix: '1', lengths: [10] },
+  { code: 'GB', name: 'United Kingdom', callingCode: '44', trunkPrefix: '0', lengths: [9, 10], mobilePrefixes: ['7'] },
+  { code: 'IE', name: 'Ireland', callingCode: '353', trunkPrefix: '0', lengths: [7, 8, 9], mobilePrefixes: ['8'] },
+  { code: 'AU', name: 'Australia', callingCode: '61', trunkPrefix: '0', lengths: [9], mobilePrefixes: ['4'] },
+  { code: 'NZ', name: 'New Zealand', callingCode: '64', trunkPrefix: '0', lengths: [8, 9, 10], mobilePrefixes: ['2'] },
+  { code: 'AE', name: 'United Arab Emirates', callingCode: '971', trunkPrefix: '0', lengths: [8, 9], mobilePrefixes: ['5'] },
+  { code: 'SA', name: 'Saudi Arabia', callingCode: '966', trunkPrefix: '0', lengths: [8, 9], mobilePrefixes: ['5'] },
+  { code: 'QA', name: 'Qatar', callingCode: '974', lengths: [8], mobilePrefixes: ['3', '5', '6', '7'] },
+  { code: 'KW', name: 'Kuwait', callingCode: '965', lengths: [8], mobilePrefixes: ['5', '6', '9'] },
+  { code: 'OM', name: 'Oman', callingCode: '968', lengths: [8], mobilePrefixes: ['7', '9'] },
+  { code: 'BH', name: 'Bahrain', callingCode: '973', lengths: [8], mobilePrefixes: ['3'] },
+  { code: 'SG', name: 'Singapore', callingCode: '65', lengths: [8], mobilePrefixes: ['8', '9'] },
+  { code: 'MY', name: 'Malaysia', callingCode: '60', trunkPrefix: '0', lengths: [8, 9, 10], mobilePrefixes: ['1'] },
+  { code: 'LK', name: 'Sri Lanka', callingCode: '94', trunkPrefix: '0', lengths: [9], mobilePrefixes: ['7'] },
+  { code: 'NP', name: 'Nepal', callingCode: '977', trunkPrefix: '0', lengths: [8, 10], mobilePrefixes: ['9'] },
+  { code: 'BD', name: 'Bangladesh', callingCode: '880', trunkPrefix: '0', lengths: [8, 9, 10], mobilePrefixes: ['1'] },
+  { code: 'PK', name: 'Pakistan', callingCode: '92', trunkPrefix: '0', lengths: [9, 10], mobilePrefixes: ['3'] },
+  { code: 'CN', name: 'China', callingCode: '86', trunkPrefix: '0', lengths: [9, 10, 11], mobilePrefixes: ['1'] },
+  { code: 'JP', name: 'Japan', callingCode: '81', trunkPrefix: '0', lengths: [9, 10], mobilePrefixes: ['70', '80', '90'] },
+  { code: 'DE', name: 'Germany', callingCode: '49', trunkPrefix: '0', lengths: [6, 7, 8, 9, 10, 11], mobilePrefixes: ['15', '16', '17'] },
+  { code: 'FR', name: 'France', callingCode: '33', trunkPrefix: '0', lengths: [9], mobilePrefixes: ['6', '7'] },
+  { code: 'NL', name: 'Netherlands', callingCode: '31', trunkPrefix: '0', lengths: [9], mobilePrefixes: ['6'] },
+  { code: 'ES', name: 'Spain', callingCode: '34', lengths: [9], mobilePrefixes: ['6', '7'] },
+  { code: 'IT', name: 'Italy', callingCode: '39', lengths: [6, 7, 8, 9, 10, 11], mobilePrefixes: ['3'] },
+  { code: 'ZA', name: 'South Africa', callingCode: '27', trunkPrefix: '0', lengths: [9], mobilePrefixes: ['6', '7', '8'] },
+  { code: 'NG', name: 'Nigeria', callingCode: '234', trunkPrefix: '0', lengths: [8, 10], mobilePrefixes: ['7', '8', '9'] },
+  { code: 'KE', name: 'Kenya', callingCode: '254', trunkPrefix: '0', lengths: [9], mobilePrefixes: ['1', '7'] },
+  { code: 'BR', name: 'Brazil', callingCode: '55', trunkPrefix: '0', lengths: [10, 11] },
+];
+
+// Labels printed before numbers on cards and in address books
+const FAX_LABEL = /^(?:fax|f)\b[\s.:\-]*/i;
+const MOBILE_LABEL = /^(?:mobile|mob|cell|m|c|whatsapp|wa)\b[\s.:\-]*/i;
+const LANDLINE_LABEL = /^(?:office|off|landline|work|w|o|direct|board)\b[\s.:\-]*/i;
+const OTHER_LABEL = /^(?:tel|telephone|phone|ph|p|t|contact)\b[\s.:\-]*/i;
+const EXTENSION = /\s*(?:ext\.?|extn\.?|x|#)\s*\d{1,6}\s*$/i;
+
+/**
+ * The type a label in front of a number gives it ("Fax: ...", "M: ...")
+ */
+export function phoneLabelType(raw: string): PhoneType | undefined {
+  const value = (raw || '').trim();
+  if (FAX_LABEL.test(value)) return 'fax';
+  if (MOBILE_LABEL.test(value)) return 'mobile';
+  if (LANDLINE_LABEL.test(value)) return 'landline';
+  return undefined;
+}
+
+function stripPhoneLabel(value: string): string {
+  for (const label of [FAX_LABEL, MOBILE_LABEL, LANDLINE_LABEL, OTHER_LABEL]) {
+    if (label.test(value)) return value.replace(label, '');
+  }
+  return value;
+}
+
+export function getPhoneCountry(code?: string): PhoneCountry | undefined {
+  return code ? PHONE_COUNTRIES.find(c => c.code === code.toUpperCase()) : undefined;
+}
+
+/**
+ * Country for an international number's digits, longest calling code first.
+ * Numbers sharing a calling code resolve to the default country when it
+ * uses that code (so +1 stays Canadian for Canadian users).
+ */
+function countryForInternational(digits: string, defaultCountry?: PhoneCountry): PhoneCountry | undefined {
+  for (const length of [3, 2, 1]) {
+    const callingCode = digits.slice(0, length);
+    if (defaultCountry?.callingCode === callingCode) return defaultCountry;
+    const country = PHONE_COUNTRIES.find(c => c.callingCode === callingCode);
+    if (country) return country;
+  }
+  return undefined;
+}
+
+function typeFromNumber(country: PhoneCountry | undefined, nationalNumber: string): PhoneType | undefined {
+  if (!country?.mobilePrefixes) return undefined;
+  return country.mobilePrefixes.some(prefix => nationalNumber.startsWith(prefix)) ? 'mobile' : 'landline';
+}
+
+/**
+ * Parse one phone number. Numbers with a `+` or `00` prefix are read as
+ * international; anything else is read as a national number of the default
+ * country, with or without its trunk prefix. Labels such as "Fax:" or
+ * "Mob:" set the number's type. Returns null for invalid numbers.
+ */
+export function parsePhoneNumber(raw: string, defaultCountryCode?: string): PhoneNumber | null {
+  if (!raw) return null;
+
+  const display = raw.toString().trim().replace(/\s+/g, ' ');
+  const labelType = phoneLabelType(display);
+  const body = stripPhoneLabel(display).replace(EXTENSION, '');
+
+  // Only digits and common separators may remain
+  if (!/^[+\d\s().\-\/]+$/.test(body)) return null;
+
+  const compact = body.replace(/[^\d+]/g, '');
+  const defaultCountry = getPhoneCountry(defaultCountryCode);
+  const isInternational = compact.startsWith('+') || compact.startsWith('00');
+  const digits = compact.replace(/^\+|^00/, '').replace(/\D/g, '');
+  if (digits.length < 6 || digits.length > 15) return null;
+
+  let country: PhoneCountry | undefined;
+  let nationalNumber: string;
+
+  if (isInternational) {
+    country = countryForInternational(digits, defaultCountry);
+    if (!country) {
+      // A country we have no rules for: accept any plausible length
+      if (digits.length < 8) return null;
+      return { e164: `+${digits}`, display, type: labelType };
+    }
+    nationalNumber = digits.slice(country.callingCode.length);
+    // "+44 (0)20 ..." style numbers repeat the trunk prefix
+    if (country.trunkPrefix === '0' && nationalNumber.startsWith('0') && !country.lengths.includes(nationalNumber.length)) {
+      nationalNumber = nationalNumber.slice(1);
+    }
+  } else {
+    if (!defaultCountry) return null;
+    country = defaultCountry;
+    const { trunkPrefix, lengths, callingCode } = defaultCountry;
+
+    if (trunkPrefix && digits.startsWith(trunkPrefix) && lengths.includes(digits.length - trunkPrefix.length)) {
+      nationalNumber = digits.slice(trunkPrefix.length);
+    } else if (lengths.includes(digits.length)) {
+      nationalNumber = digits;
+    } else if (digits.startsWith(callingCode) && lengths.includes(digits.length - callingCode.length)) {
+      // Country code written without the +
+      nationalNumber = digits.slice(callingCode.length);
+    } else {
+      return null;
+    }
+  }
+
+  if (!country.lengths.includes(nationalNumber.length)) return null;
+
+  return {
+    e164: `+${country.callingCode}${nationalNumber}`,
+    display,
+    type: labelType || typeFromNumber(country, nationalNumber),
+    country: country.code,
+  };
+}
+
+export function isValidPhoneNumber(raw: string, defaultCountryCode?: string): boolean {
+  return parsePhoneNumber(raw, defaultCountryCode) !== null;
+}
+
+/**
+ * Normalize a phone number to E.164. Without a default country, national
+ * numbers cannot be placed and are returned as bare digits. Returns an
+ * empty string for numbers that are not valid.
+ */
+export function normalizePhoneNumber(phone: string, defaultCountryCode?: string): string {
+  if (!phone) return '';
+
+  const parsed = parsePhoneNumber(phone, defaultCountryCode);
+  if (parsed) return parsed.e164;
+  if (defaultCountryCode) return '';
+
+  const cleaned = phone.replace(/[^\d+]/g, '').replace(/^00/, '+');
+  if (cleaned.startsWith('+')) return '';
+  return cleaned.length >= 7 && cleaned.length <= 15 ? cleaned : '';
+}
+
+/**
+ * Number for wa.me links and the WhatsApp API: E.164 without the +
+ */
+export function toWhatsAppNumber(phone: string, defaultCountryCode?: string): string {
+  return parsePhoneNumber(phone, defaultCountryCode)?.e164.slice(1) || '';
+}
+
+/**
+ * Coarse key for grouping phone numbers written with or without a country
+ * code or trunk prefix: the last ten digits. Numbers in different countries
+ * can share a key, so confirm candidates with phonesMatch. Empty for
+ * numbers too short to compare.
+ */
+export function phoneMatchKey(phone: string): string {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length < 7 ? '' : digits.slice(-10);
+}
+
+/**
+ * Whether two numbers are the same. When both parse they are compared in
+ * E.164, so the same digits in two countries differ; otherwise by
+ * phoneMatchKey.
+ */
+export function phonesMatch(a: string, b: string, defaultCountryCode?: string): boolean {
+  const parsedA = parsePhoneNumber(a, defaultCountryCode);
+  const parsedB = parsePhoneNumber(b, defaultCountryCode);
+  if (parsedA && parsedB) return parsedA.e164 === parsedB.e164;
+
+  const key = phoneMatchKey(a);
+  return !!key && key === phoneMatchKey(b);
+}
+
+export interface PhoneFields {
+  // E.164 numbers (or the number as written when it could not be parsed),
+  // mobiles first
+  phones: string[];
+  phoneDetails: PhoneNumber[];
+}
+
+const TYPE_ORDER: Array<PhoneType | undefined> = ['mobile', undefined, 'landline', 'fax'];
+
+/**
+ * The phone fields stored on a contact. Numbers from `landlines` and
+ * `faxes` are tagged as such unless a label says otherwise; numbers found in
+ * `previous` keep the type they had.
+ */
+export function toPhoneFields(
+  phones: string[] = [],
+  defaultCountryCode?: string,
+  { landlines = [], faxes = [], previous = [] }: { landlines?: string[]; faxes?: string[]; previous?: PhoneNumber[] } = {}
+): PhoneFields {
+  const seen = new Set<string>();
+  const details: PhoneNumber[] = [];
+
+  const add = (raw: string, hint?: PhoneType) => {
+    const value = (raw || '').toString().trim();
+    if (!value) return;
+    const parsed = parsePhoneNumber(value, defaultCountryCode);
+    const detail: PhoneNumber = parsed
+      ? {
+          ...parsed,
+          type: phoneLabelType(value) || hint || previous.find(p => p.e164 === parsed.e164)?.type || parsed.type,
+        }
+      : { e164: '', display: value, type: hint };
+    const key = detail.e164 || value;
+    if (seen.has(key)) return;
+    seen.add(key);
+    details.push(detail);
+  };
+
+  phones.forEach(p => add(p));
+  landlines.forEach(p => add(p, 'landline'));
+  faxes.forEach(p => add(p, 'fax'));
+
+  details.sort((a, b) => TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type));
+
+  // Firestore rejects undefined values
+  const phoneDetails = details.map(d => JSON.parse(JSON.stringify(d)) as PhoneNumber);
+  return { phones: phoneDetails.map(d => d.e164 || d.display), phoneDetails };
+}
+
+// Letters OCR commonly reads in place of digits
+const OCR_DIGITS: Record<string, string> = { o: '0', O: '0', l: '1', I: '1' };
+const PHONE_CANDIDATE = /(?:\b(?:fax|f|mobile|mob|m|cell|c|whatsapp|wa|tel|telephone|phone|ph|p|t|office|off|landline|work|w|o|direct|board|contact)\b[\s.:\-]*)?\+?\(?[\dOoIl][\dOoIl\s().\-]{5,}[\dOoIl]/gi;
+// Separators between several numbers printed on one line
+const PHONE_SEPARATOR = /\s*[\/,;|]\s*|\s{2,}|\s+or\s+/i;
+const LEADING_LABEL = /^[a-z]+\b[\s.:\-]*(?=[+(\dOoIl])/i;
+
+/**
+ * Find phone numbers in free text such as OCR output. Letters OCR confuses
+ * with digits are only corrected inside number-like runs, never across the
+ * whole text. Returns the numbers as written (labels kept, so faxes stay
+ * recognisable), in order and without repeats.
+ */
+export function extractPhoneNumbers(text: string, defaultCountryCode?: string): string[] {
+  const found: string[] = [];
+  const seen = new Set<string>();
+
+  for (const segment of text.split(/\r?\n/).flatMap(line => line.split(PHONE_SEPARATOR))) {
+    for (const match of segment.match(PHONE_CANDIDATE) || []) {
+      const label = match.match(LEADING_LABEL)?.[0] || '';
+      const number = match.slice(label.length);
+      const realDigits = (number.match(/\d/g) || []).length;
+      const confusables = (number.match(/[OoIl]/g) || []).length;
+      if (realDigits < 6 || confusables > 2) continue;
+
+      const candidate = `${label}${number.replace(/[OoIl]/g, ch => OCR_DIGITS[ch])}`.trim();
+      const key = normalizePhoneNumber(candidate, defaultCountryCode);
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      found.push(candidate);
+    }
+  }
+
+  return found;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,3 +16,296 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// How sure the OCR provider is of a field it read
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+// Contact fields the OCR providers report a confidence for
+export type ContactField = 'name' | 'company' | 'email' | 'phones' | 'services' | 'address' | 'website' | 'social';
+
+// 2D codes read from a card image
+export type CodeFormat = 'qr_code' | 'data_matrix' | 'pdf417';
+
+// What a code on a card holds
+export type CodePayloadKind = 'vcard' | 'mecard' | 'tel' | 'mailto' | 'whatsapp' | 'linkedin' | 'upi' | 'url' | 'text';
+
+// Point as a fraction (0-1) of the scanned image's width and height
+export type CardPoint = { x: number; y: number };
+
+// Card outline in the scanned image: top-left, top-right, bottom-right and
+// bottom-left corners of the card as printed, which may be rotated or skewed
+export type CardCorners = [CardPoint, CardPoint, CardPoint, CardPoint];
+
+// Contact fields extracted from a business card image
+export type ParsedContact = {
+  name?: string;
+  company?: string;
+  phones?: string[];
+  landlines?: string[];
+  faxes?: string[];
+  email?: string;
+  services?: string;
+  address?: string;
+  website?: string;
+  social?: string;
+  qrCodes?: Array<{
+    type: 'contact' | 'url' | 'text';
+    data: string;
+    extractedInfo?: any;
+    kind?: CodePayloadKind;
+    format?: CodeFormat;
+  }>;
+  confidence?: ConfidenceLevel;
+  fieldConfidence?: Partial<Record<ContactField, ConfidenceLevel>>;
+  corners?: CardCorners;
+};
+
+// Orders created with the payment gateway before checkout opens
+export const paymentOrders = pgTable("payment_orders", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  planId: text("plan_id").notNull(),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull(),
+  receipt: text("receipt").notNull(),
+  status: text("status").notNull().default("created"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPaymentOrderSchema = createInsertSchema(paymentOrders).omit({
+  status: true,
+  createdAt: true,
+});
+
+export type InsertPaymentOrder = z.infer<typeof insertPaymentOrderSchema>;
+export type PaymentOrder = typeof paymentOrders.$inferSelect;
+export type PaymentOrderStatus = "created" | "paid" | "failed";
+
+// Ledger of every payment reported by the gateway, keyed by gateway payment id
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey(),
+  orderId: varchar("order_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  planId: text("plan_id").notNull(),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull(),
+  status: text("status").notNull(),
+  method: text("method"),
+  errorReason: text("error_reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPaymentSchema = createInsertSchema(payments).omit({
+  createdAt: true,
+});
+
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Payment = typeof payments.$inferSelect;
+export type PaymentStatus = "authorized" | "captured" | "failed";
+
+export const subscriptions = pgTable("subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique(),
+  planId: text("plan_id").notNull(),
+  status: text("status").notNull(),
+  startDate: timestamp("start_date").notNull(),
+  expiryDate: timestamp("expiry_date").notNull(),
+  orderId: varchar("order_id"),
+  paymentId: varchar("payment_id"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
+export type Subscription = typeof subscriptions.$inferSelect;
+
+// Status stored on the subscription row; grace and expiry are derived from dates
+export type SubscriptionRecordStatus = "trialing" | "active" | "past_due";
+
+// Status reported to clients by /api/subscription/:userId
+export type SubscriptionStatus =
+  | "none"
+  | "trialing"
+  | "active"
+  | "grace"
+  | "past_due"
+  | "expired";
+
+export type QuotaResource = "contacts" | "groups" | "digitalCards" | "aiScans";
+
+// Per-plan limits; null means unlimited
+export type QuotaLimits = Record<QuotaResource, number | null>;
+
+export interface QuotaUsage {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+export interface QuotaSummary {
+  userId: string;
+  planId: string;
+  quotas: Record<QuotaResource, QuotaUsage>;
+}
+
+export interface PlanFeatures {
+  unlimitedScanning: boolean;
+  contactStorage: number | "unlimited";
+  groupManagement: boolean;
+  digitalCards: boolean;
+  bulkUpload: boolean;
+  templateManagement: boolean;
+}
+
+// Length of the free trial, shared so the pricing copy matches what the
+// server grants
+export const TRIAL_DAYS = 14;
+
+export interface SubscriptionState {
+  userId: string;
+  status: SubscriptionStatus;
+  planId: string;
+  planName: string;
+  // True while the plan's features are available (trialing, active, grace or past_due)
+  isActive: boolean;
+  hasSubscription: boolean;
+  startDate: string | null;
+  endDate: string | null;
+  renewsAt: string | null;
+  graceEndsAt: string | null;
+  daysRemaining: number | null;
+  features: PlanFeatures;
+  limits: QuotaLimits;
+}
+
+// Webhook deliveries already handled, keyed by the gateway's event id
+export const webhookEvents = pgTable("webhook_events", {
+  id: varchar("id").primaryKey(),
+  event: text("event").notNull(),
+  receivedAt: timestamp("received_at").notNull().defaultNow(),
+});
+
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+
+// Usage counters backing the per-plan quotas
+export const usageCounters = pgTable("usage_counters", {
+  userId: varchar("user_id").notNull(),
+  resource: text("resource").notNull(),
+  used: integer("used").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [primaryKey({ columns: [table.userId, table.resource] })]);
+
+export type UsageCounter = typeof usageCounters.$inferSelect;
+
+// Bulk sends of a message template to a group of contacts
+export const campaigns = pgTable("campaigns", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  name: text("name").notNull(),
+  channel: text("channel").notNull().default("whatsapp"),
+  templateId: varchar("template_id"),
+  groupId: varchar("group_id"),
+  // Email campaigns: sender name shown to recipients and where replies go
+  fromName: text("from_name"),
+  replyTo: text("reply_to"),
+  // WhatsApp campaigns: the approved message template sent and its language
+  whatsappTemplate: text("whatsapp_template"),
+  whatsappLanguage: text("whatsapp_language"),
+  status: text("status").notNull().default("sending"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertCampaignSchema = createInsertSchema(campaigns).omit({
+  status: true,
+  createdAt: true,
+  completedAt: true,
+});
+
+export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
+export type Campaign = typeof campaigns.$inferSelect;
+// `completed` once every recipient has been handed to the provider
+export type CampaignStatus = "sending" | "completed" | "cancelled";
+export type CampaignChannel = "whatsapp" | "email";
+
+// One message of a campaign, with its delivery status
+export const campaignRecipients = pgTable("campaign_recipients", {
+  id: varchar("id").primaryKey(),
+  campaignId: varchar("campaign_id").notNull(),
+  contactId: varchar("contact_id").notNull(),
+  name: text("name").notNull(),
+  // WhatsApp number in international format without the leading +, or
+  // an email address
+  to: text("to").notNull(),
+  // Plain text message; for email the text part, with optional HTML. For
+  // WhatsApp, the template parameters as shown in the contact's timeline.
+  message: text("message").notNull(),
+  subject: text("subject"),
+  html: text("html"),
+  // WhatsApp template body parameters, {{1}} onwards
+  templateParams: text("template_params").array(),
+  status: text("status").notNull().default("queued"),
+  // Id the provider assigned, which status webhooks refer to
+  messageId: varchar("message_id"),
+  error: text("error"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertCampaignRecipientSchema = createInsertSchema(campaignRecipients).omit({
+  id: true,
+  campaignId: true,
+  status: true,
+  messageId: true,
+  error: true,
+  updatedAt: true,
+});
+
+export type InsertCampaignRecipient = z.infer<typeof insertCampaignRecipientSchema>;
+export type CampaignRecipient = typeof campaignRecipients.$inferSelect;
+export type RecipientStatus = "queued" | "sent" | "delivered" | "read" | "failed";
+
+// Campaign with recipient counts by status, as listed to clients
+export interface CampaignSummary extends Campaign {
+  total: number;
+  counts: Record<RecipientStatus, number>;
+}
+
+// A user's own WhatsApp Business API credentials. The access token is
+// stored encrypted and never returned to clients.
+export const whatsappAccounts = pgTable("whatsapp_accounts", {
+  userId: varchar("user_id").primaryKey(),
+  phoneNumberId: varchar("phone_number_id").notNull(),
+  encryptedToken: text("encrypted_token").notNull(),
+  // Last characters of the token, to tell saved tokens apart
+  tokenHint: text("token_hint").notNull(),
+  // Secret of the Meta app the number belongs to, which signs its status
+  // webhooks; WHATSAPP_APP_SECRET is used when unset
+  encryptedAppSecret: text("encrypted_app_secret"),
+  // As reported by the Cloud API when the credentials were validated
+  displayPhoneNumber: text("display_phone_number"),
+  verifiedName: text("verified_name"),
+  validatedAt: timestamp("validated_at").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertWhatsAppAccountSchema = createInsertSchema(whatsappAccounts).omit({
+  updatedAt: true,
+});
+
+export type InsertWhatsAppAccount = z.infer<typeof insertWhatsAppAccountSchema>;
+export type WhatsAppAccount = typeof whatsappAccounts.$inferSelect;
+
+// What clients see of a stored WhatsApp account
+export interface WhatsAppAccountStatus {
+  configured: boolean;
+  phoneNumberId: string | null;
+  tokenHint: string | null;
+  hasAppSecret: boolean;
+  displayPhoneNumber: string | null;
+  verifiedName: string | null;
+  validatedAt: string | null;
+}
@@ -0,0 +1,240 @@
+/**
+ * Message templates.
+ *
+ *   {firstName}                         the contact's first name
+ *   {firstName|there}                   ...or "there" when it is empty
+ *   {#if company}at {company}{/if}      only when company is not empty
+ *   {#if company}...{else}...{/if}      with an alternative
+ *
+ * Anything else in braces is left as written, so a stray "{" in a message
+ * does not break it.
+ */
+
+export type TemplateVariableGroup = 'contact' | 'sender';
+
+export interface TemplateVariable {
+  name: string;
+  label: string;
+  group: TemplateVariableGroup;
+  // Shown in previews when there is no real value
+  sample: string;
+}
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { name: 'firstName', label: 'First name', group: 'contact', sample: 'Priya' },
+  { name: 'lastName', label: 'Last name', group: 'contact', sample: 'Sharma' },
+  { name: 'fullName', label: 'Full name', group: 'contact', sample: 'Priya Sharma' },
+  { name: 'company', label: 'Company', group: 'contact', sample: 'Acme Industries' },
+  { name: 'email', label: 'Email', group: 'contact', sample: 'priya@acme.example' },
+  { name: 'phone', label: 'Phone', group: 'contact', sample: '+91 98765 43210' },
+  { name: 'displayName', label: 'Your name', group: 'sender', sample: 'Alex' },
+  { name: 'businessName', label: 'Your business', group: 'sender', sample: 'Buzz Card' },
+  { name: 'cardLink', label: 'Your digital card link', group: 'sender', sample: 'https://example.com/share/abc123' },
+];
+
+export type TemplateValues = Record<string, string | undefined>;
+
+export interface TemplateIssue {
+  message: string;
+  // Offset in the template where the problem starts
+  index: number;
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string; fallback: string | null; raw: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+const TAG = /\{(?:#if\s+(\w+)\s*|(else)|(\/if)|(\w+)(?:\|([^{}]*))?)\}/g;
+
+const KNOWN_VARIABLES = new Set(TEMPLATE_VARIABLES.map(v => v.name));
+
+/**
+ * Parse into a tree. Unclosed blocks end with the template and stray
+ * {else}/{/if} tags are kept as text; both are reported as issues.
+ */
+function parseTemplate(content: string): { nodes: TemplateNode[]; issues: TemplateIssue[] } {
+  const root: TemplateNode[] = [];
+  const issues: TemplateIssue[] = [];
+  // Open blocks, innermost last, with the branch currently being filled
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean; index: number }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+  const pushText = (text: string) => {
+    if (!text) return;
+    const nodes = current();
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') last.text += text;
+    else nodes.push({ type: 'text', text });
+  };
+
+  let position = 0;
+  for (const match of Array.from(content.matchAll(TAG))) {
+    const index = match.index ?? 0;
+    pushText(content.slice(position, index));
+    position = index + match[0].length;
+
+    const [raw, ifName, elseTag, endTag, name, fallback] = match;
+    if (ifName) {
+      if (!KNOWN_VARIABLES.has(ifName)) issues.push({ message: `Unknown variable "${ifName}"`, index });
+      const node: TemplateNode = { type: 'if', name: ifName, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false, index });
+    } else if (elseTag) {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        issues.push({ message: '{else} without a matching {#if}', index });
+        pushText(raw);
+      } else {
+        top.inElse = true;
+      }
+    } else if (endTag) {
+      if (stack.length === 0) {
+        issues.push({ message: '{/if} without a matching {#if}', index });
+        pushText(raw);
+      } else {
+        stack.pop();
+      }
+    } else {
+      if (!KNOWN_VARIABLES.has(name)) issues.push({ message: `Unknown variable "${name}"`, index });
+      current().push({ type: 'variable', name, fallback: fallback ?? null, raw });
+    }
+  }
+  pushText(content.slice(position));
+
+  stack.forEach(open => issues.push({ message: `{#if ${open.node.name}} is never closed with {/if}`, index: open.index }));
+  return { nodes: root, issues };
+}
+
+const valueOf = (values: TemplateValues, name: string) => (values[name] ?? '').trim();
+
+function renderNodes(nodes: TemplateNode[], values: TemplateValues): string {
+  return nodes.map(node => {
+    if (node.type === 'text') return node.text;
+    if (node.type === 'if') return renderNodes(valueOf(values, node.name) ? node.then : node.otherwise, values);
+    // Unknown variables stay visible rather than silently disappearing
+    if (!KNOWN_VARIABLES.has(node.name)) return node.raw;
+    return valueOf(values, node.name) || (node.fallback ?? '').trim();
+  }).join('');
+}
+
+/**
+ * Tidy the gaps that empty values leave: doubled spaces, spaces before
+ * punctuation and runs of blank lines
+ */
+function tidyWhitespace(text: string): string {
+  return text
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/[ \t]+([,.!?;:])/g, '$1')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Fill a template with values
+ */
+export function renderTemplate(content: string, values: TemplateValues): string {
+  return tidyWhitespace(renderNodes(parseTemplate(content).nodes, values));
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+/**
+ * Fill an HTML template. Values are escaped so a contact's details cannot
+ * add markup; the template's own markup and fallbacks are kept as written.
+ */
+export function renderHtmlTemplate(content: string, values: TemplateValues): string {
+  const escaped = Object.fromEntries(
+    Object.entries(values).map(([name, value]) => [name, value === undefined ? value : escapeHtml(value)])
+  );
+  return renderNodes(parseTemplate(content).nodes, escaped).trim();
+}
+
+// The parts of a template used for email. `content` is the plain text body,
+// shared with WhatsApp; `htmlContent` is an optional formatted version.
+export interface EmailTemplate {
+  subject?: string | null;
+  content: string;
+  htmlContent?: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string | null;
+}
+
+export function renderEmailTemplate(template: EmailTemplate, values: TemplateValues): RenderedEmail {
+  return {
+    subject: renderTemplate(template.subject || '', values).replace(/\s+/g, ' '),
+    text: renderTemplate(template.content, values),
+    html: template.htmlContent?.trim() ? renderHtmlTemplate(template.htmlContent, values) : null,
+  };
+}
+
+// The parts of a template used for WhatsApp campaigns: the name of a
+// template approved in WhatsApp Manager, and text with variables for each
+// of its body parameters in order.
+export interface WhatsAppTemplate {
+  whatsappTemplate?: string | null;
+  whatsappParams?: string[] | null;
+}
+
+export function renderWhatsAppParams(template: WhatsAppTemplate, values: TemplateValues): string[] {
+  return (template.whatsappParams || []).map(param => renderTemplate(param, values).replace(/\s+/g, ' '));
+}
+
+/**
+ * Unknown variables and unbalanced blocks, in the order they appear
+ */
+export function validateTemplate(content: string): TemplateIssue[] {
+  return parseTemplate(content).issues.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Names of the variables a template uses, in first-use order
+ */
+export function templateVariableNames(content: string): string[] {
+  const names: string[] = [];
+  for (const match of Array.from(content.matchAll(TAG))) {
+    const name = match[1] || match[4];
+    if (name && !names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Values standing in for a real contact and sender in previews
+ */
+export function sampleTemplateValues(): TemplateValues {
+  return Object.fromEntries(TEMPLATE_VARIABLES.map(v => [v.name, v.sample]));
+}
+
+/**
+ * Contact variables. `name` is used when first and last names are not
+ * stored separately, as on freshly scanned cards.
+ */
+export function contactTemplateValues(contact: {
+  firstName?: string;
+  lastName?: string;
+  name?: string;
+  company?: string;
+  email?: string;
+  phones?: string[];
+}): TemplateValues {
+  const nameParts = (contact.name || '').trim().split(/\s+/);
+  const firstName = contact.firstName ?? nameParts[0] ?? '';
+  const lastName = contact.lastName ?? nameParts.slice(1).join(' ');
+  return {
+    firstName,
+    lastName,
+    fullName: `${firstName || ''} ${lastName || ''}`.trim(),
+    company: contact.company || '',
+    email: contact.email || '',
+    phone: contact.phones?.[0] || '',
+  };
+}
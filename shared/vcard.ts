@@ -0,0 +1,694 @@
+import type { ParsedContact } from "./schema";
+import { normalizePhoneNumber, phonesMatch } from "./phone";
+import { isEmptyAddress, toVCardAddress, type PostalAddress } from "./address";
+
+/**
+ * vCard reading and writing (RFC 6350 for 4.0, RFC 2426 for 3.0). Parses
+ * 2.1, 3.0 and 4.0 files, including multi-card files, folded lines,
+ * quoted-printable values and embedded photos; writes 3.0 or 4.0 with
+ * escaping, 75-octet line folding and CRLF line endings. Properties the
+ * model does not cover are kept verbatim so a parse/serialize round trip
+ * does not lose data.
+ */
+
+export type VCardVersion = '2.1' | '3.0' | '4.0';
+
+export interface VCardProperty {
+  group?: string;
+  name: string;
+  params: Record<string, string[]>;
+  // Raw value as written in the file (still escaped)
+  value: string;
+}
+
+export interface VCardTypedValue {
+  value: string;
+  types: string[];
+  pref?: boolean;
+}
+
+export interface VCardName {
+  family: string;
+  given: string;
+  additional: string;
+  prefixes: string;
+  suffixes: string;
+}
+
+export interface VCardAddress {
+  types: string[];
+  pref?: boolean;
+  poBox: string;
+  extended: string;
+  street: string;
+  locality: string;
+  region: string;
+  postalCode: string;
+  country: string;
+  label?: string;
+}
+
+// Image either embedded (base64 `data`) or linked (`uri`)
+export interface VCardMedia {
+  uri?: string;
+  data?: string;
+  mediaType?: string;
+}
+
+export interface VCard {
+  version: VCardVersion;
+  formattedName: string;
+  name?: VCardName;
+  organization?: string;
+  organizationUnits?: string[];
+  title?: string;
+  role?: string;
+  phones: VCardTypedValue[];
+  emails: VCardTypedValue[];
+  urls: VCardTypedValue[];
+  addresses: VCardAddress[];
+  note?: string;
+  categories: string[];
+  birthday?: string;
+  photo?: VCardMedia;
+  logo?: VCardMedia;
+  uid?: string;
+  extra: VCardProperty[];
+}
+
+export interface SerializeVCardOptions {
+  version?: '3.0' | '4.0';
+}
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+// ---------------------------------------------------------------------------
+// Escaping
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r\n|\r|\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+/**
+ * Split on a delimiter that is not backslash-escaped, leaving the parts
+ * escaped
+ */
+function splitUnescaped(value: string, delimiter: ';' | ','): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === '\\' && i + 1 < value.length) {
+      current += ch + value[i + 1];
+      i++;
+    } else if (ch === delimiter) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+// RFC 6868 parameter value encoding
+function encodeParamValue(value: string): string {
+  const encoded = value.replace(/\^/g, '^^').replace(/\r\n|\r|\n/g, '^n').replace(/"/g, "^'");
+  return /[;:,]/.test(encoded) || encoded !== value ? `"${encoded}"` : encoded;
+}
+
+function decodeParamValue(value: string): string {
+  return value.replace(/\^(\^|n|')/g, (_, ch: string) => (ch === 'n' ? '\n' : ch === "'" ? '"' : '^'));
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+/**
+ * Fold a content line at 75 octets without splitting a UTF-8 character
+ */
+function foldLine(line: string): string {
+  const chars = Array.from(line);
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of chars) {
+    const size = utf8Length(char);
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join(`${CRLF} `);
+}
+
+function decodeQuotedPrintable(value: string, charset = 'utf-8'): string {
+  const bytes: number[] = [];
+  const text = value.replace(/=\r?\n/g, '');
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  try {
+    return new TextDecoder(charset).decode(new Uint8Array(bytes));
+  } catch {
+    return new TextDecoder('utf-8').decode(new Uint8Array(bytes));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Content lines
+
+function isQuotedPrintable(line: string): boolean {
+  const colon = line.indexOf(':');
+  return colon !== -1 && /;(ENCODING=)?QUOTED-PRINTABLE/i.test(line.slice(0, colon));
+}
+
+/**
+ * Split a file into logical content lines: folded lines are joined and
+ * quoted-printable soft line breaks are followed
+ */
+function unfoldLines(text: string): string[] {
+  const lines: string[] = [];
+
+  for (const raw of text.replace(/\r\n|\r/g, '\n').split('\n')) {
+    const last = lines.length - 1;
+    if (last >= 0 && /^[ \t]/.test(raw)) {
+      lines[last] += raw.slice(1);
+    } else if (last >= 0 && isQuotedPrintable(lines[last]) && lines[last].endsWith('=')) {
+      lines[last] = lines[last].slice(0, -1) + raw;
+    } else if (raw.trim()) {
+      lines.push(raw);
+    }
+  }
+
+  return lines;
+}
+
+function parseContentLine(line: string): VCardProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const segments: string[] = [];
+  let current = '';
+  inQuotes = false;
+  for (const ch of line.slice(0, colon)) {
+    if (ch === '"') inQuotes = !inQuotes;
+    if (ch === ';' && !inQuotes) {
+      segments.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  segments.push(current);
+
+  const [nameWithGroup, ...paramSegments] = segments;
+  const dot = nameWithGroup.lastIndexOf('.');
+  const property: VCardProperty = {
+    group: dot !== -1 ? nameWithGroup.slice(0, dot) : undefined,
+    name: nameWithGroup.slice(dot + 1).trim().toUpperCase(),
+    params: {},
+    value: line.slice(colon + 1),
+  };
+
+  for (const segment of paramSegments) {
+    const eq = segment.indexOf('=');
+    // vCard 2.1 allows bare parameter values such as TEL;CELL
+    const key = (eq === -1 ? 'TYPE' : segment.slice(0, eq)).trim().toUpperCase();
+    const rawValue = eq === -1 ? segment : segment.slice(eq + 1);
+
+    const values: string[] = [];
+    let value = '';
+    inQuotes = false;
+    for (const ch of rawValue) {
+      if (ch === '"') {
+        inQuotes = !inQuotes;
+      } else if (ch === ',' && !inQuotes) {
+        values.push(value);
+        value = '';
+      } else {
+        value += ch;
+      }
+    }
+    values.push(value);
+
+    // TYPE is a list even when quoted: TYPE="work,voice"
+    const decoded = values
+      .flatMap(v => (key === 'TYPE' ? v.split(',') : [v]))
+      .map(v => decodeParamValue(v.trim()))
+      .filter(Boolean);
+    property.params[key] = [...(property.params[key] || []), ...decoded];
+  }
+
+  // vCard 2.1 may also write the encoding bare: NOTE;QUOTED-PRINTABLE:...
+  const isQp = (v: string) => v.toUpperCase() === 'QUOTED-PRINTABLE';
+  if (property.params.ENCODING?.some(isQp) || property.params.TYPE?.some(isQp)) {
+    property.value = decodeQuotedPrintable(property.value, property.params.CHARSET?.[0]);
+    delete property.params.ENCODING;
+    delete property.params.CHARSET;
+    if (property.params.TYPE) property.params.TYPE = property.params.TYPE.filter(v => !isQp(v));
+  }
+
+  return property;
+}
+
+function formatParams(params: Record<string, string[]>): string {
+  return Object.keys(params)
+    .filter(key => params[key].length > 0)
+    .map(key => `;${key}=${params[key].map(encodeParamValue).join(',')}`)
+    .join('');
+}
+
+function formatProperty(property: VCardProperty): string {
+  const name = property.group ? `${property.group}.${property.name}` : property.name;
+  return foldLine(`${name}${formatParams(property.params)}:${property.value}`);
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+
+function readTypes(property: VCardProperty): { types: string[]; pref?: boolean } {
+  const types = (property.params.TYPE || []).map(t => t.toLowerCase());
+  const pref = types.includes('pref') || (property.params.PREF ? Number(property.params.PREF[0]) === 1 : false);
+  return { types: types.filter(t => t !== 'pref'), pref: pref || undefined };
+}
+
+function readMedia(property: VCardProperty): VCardMedia {
+  const value = property.value.trim();
+
+  const dataUri = value.match(/^data:([^;,]+)?(;base64)?,(.*)$/i);
+  if (dataUri) {
+    return { data: dataUri[3], mediaType: dataUri[1] || undefined };
+  }
+
+  const encoding = property.params.ENCODING?.[0]?.toUpperCase();
+  if (encoding === 'B' || encoding === 'BASE64') {
+    const type = property.params.TYPE?.[0];
+    return { data: value.replace(/\s/g, ''), mediaType: type ? `image/${type.toLowerCase()}` : undefined };
+  }
+
+  return { uri: value };
+}
+
+function emptyCard(version: VCardVersion): VCard {
+  return { version, formattedName: '', phones: [], emails: [], urls: [], addresses: [], categories: [], extra: [] };
+}
+
+function applyProperty(card: VCard, property: VCardProperty) {
+  const text = () => unescapeText(property.value).trim();
+
+  switch (property.name) {
+    case 'VERSION':
+      card.version = property.value.trim() === '4.0' ? '4.0' : property.value.trim() === '2.1' ? '2.1' : '3.0';
+      break;
+    case 'FN':
+      card.formattedName = text();
+      break;
+    case 'N': {
+      const [family = '', given = '', additional = '', prefixes = '', suffixes = ''] =
+        splitUnescaped(property.value, ';').map(part => unescapeText(part).trim());
+      card.name = { family, given, additional, prefixes, suffixes };
+      break;
+    }
+    case 'ORG': {
+      const [organization, ...units] = splitUnescaped(property.value, ';').map(part => unescapeText(part).trim());
+      card.organization = organization || undefined;
+      if (units.some(Boolean)) card.organizationUnits = units.filter(Boolean);
+      break;
+    }
+    case 'TITLE':
+      card.title = text();
+      break;
+    case 'ROLE':
+      card.role = text();
+      break;
+    case 'TEL': {
+      const value = text().replace(/^tel:/i, '');
+      if (value) card.phones.push({ value, ...readTypes(property) });
+      break;
+    }
+    case 'EMAIL': {
+      const value = text().replace(/^mailto:/i, '');
+      if (value) card.emails.push({ value, ...readTypes(property) });
+      break;
+    }
+    case 'URL': {
+      const value = text();
+      if (value) card.urls.push({ value, ...readTypes(property) });
+      break;
+    }
+    case 'ADR': {
+      const [poBox = '', extended = '', street = '', locality = '', region = '', postalCode = '', country = ''] =
+        splitUnescaped(property.value, ';').map(part => unescapeText(part).trim());
+      card.addresses.push({
+        ...readTypes(property),
+        poBox,
+        extended,
+        street,
+        locality,
+        region,
+        postalCode,
+        country,
+        label: property.params.LABEL?.[0],
+      });
+      break;
+    }
+    case 'LABEL': {
+      // vCard 3.0 writes address labels as their own property
+      const { types } = readTypes(property);
+      const address = card.addresses.find(a => !a.label && types.every(t => a.types.includes(t)));
+      if (address) {
+        address.label = text();
+      } else {
+        card.extra.push(property);
+      }
+      break;
+    }
+    case 'NOTE':
+      card.note = card.note ? `${card.note}\n${text()}` : text();
+      break;
+    case 'CATEGORIES':
+      splitUnescaped(property.value, ',')
+        .map(part => unescapeText(part).trim())
+        .filter(Boolean)
+        .forEach(category => {
+          if (!card.categories.includes(category)) card.categories.push(category);
+        });
+      break;
+    case 'BDAY':
+      card.birthday = text();
+      break;
+    case 'PHOTO':
+      card.photo = readMedia(property);
+      break;
+    case 'LOGO':
+      card.logo = readMedia(property);
+      break;
+    case 'UID':
+      card.uid = text();
+      break;
+    default:
+      card.extra.push(property);
+  }
+}
+
+/**
+ * Parse every vCard in a file
+ */
+export function parseVCards(text: string): VCard[] {
+  const cards: VCard[] = [];
+  let current: VCard | null = null;
+
+  for (const line of unfoldLines(text)) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN' && property.value.trim().toUpperCase() === 'VCARD') {
+      current = emptyCard('3.0');
+    } else if (property.name === 'END' && property.value.trim().toUpperCase() === 'VCARD') {
+      if (current) cards.push(finalizeCard(current));
+      current = null;
+    } else if (current) {
+      applyProperty(current, property);
+    }
+  }
+
+  return cards;
+}
+
+/**
+ * Parse the first vCard in a file, or null when there is none
+ */
+export function parseVCard(text: string): VCard | null {
+  return parseVCards(text)[0] || null;
+}
+
+function finalizeCard(card: VCard): VCard {
+  if (!card.formattedName && card.name) {
+    const { prefixes, given, additional, family, suffixes } = card.name;
+    card.formattedName = [prefixes, given, additional, family, suffixes].filter(Boolean).join(' ');
+  }
+  return card;
+}
+
+// ---------------------------------------------------------------------------
+// Serializing
+
+function typeParams(value: { types: string[]; pref?: boolean }, version: '3.0' | '4.0'): Record<string, string[]> {
+  if (version === '4.0') {
+    return {
+      TYPE: value.types.map(t => t.toLowerCase()),
+      ...(value.pref ? { PREF: ['1'] } : {}),
+    };
+  }
+  return { TYPE: [...value.types, ...(value.pref ? ['pref'] : [])].map(t => t.toUpperCase()) };
+}
+
+function mediaProperty(name: 'PHOTO' | 'LOGO', media: VCardMedia, version: '3.0' | '4.0'): VCardProperty | null {
+  if (media.data) {
+    if (version === '4.0') {
+      return { name, params: {}, value: `data:${media.mediaType || 'image/jpeg'};base64,${media.data}` };
+    }
+    const type = (media.mediaType || 'image/jpeg').split('/')[1].toUpperCase();
+    return { name, params: { ENCODING: ['b'], TYPE: [type] }, value: media.data };
+  }
+  if (media.uri) {
+    return { name, params: version === '3.0' ? { VALUE: ['uri'] } : {}, value: media.uri };
+  }
+  return null;
+}
+
+/**
+ * Write one vCard. Defaults to 3.0, which every phone and mail client
+ * imports; pass `version: '4.0'` for RFC 6350 output.
+ */
+export function serializeVCard(card: VCard, options: SerializeVCardOptions = {}): string {
+  const version = options.version || (card.version === '4.0' ? '4.0' : '3.0');
+  const properties: VCardProperty[] = [];
+  const push = (name: string, value: string, params: Record<string, string[]> = {}) => {
+    properties.push({ name, params, value });
+  };
+
+  const name = card.name;
+  const formattedName = card.formattedName
+    || finalizeCard({ ...card, formattedName: '' }).formattedName
+    || card.organization
+    || '';
+
+  push('FN', escapeText(formattedName));
+  if (name || version === '3.0') {
+    const parts = name
+      ? [name.family, name.given, name.additional, name.prefixes, name.suffixes]
+      : ['', '', '', '', ''];
+    push('N', parts.map(escapeText).join(';'));
+  }
+  if (card.organization || card.organizationUnits?.length) {
+    push('ORG', [card.organization || '', ...(card.organizationUnits || [])].map(escapeText).join(';'));
+  }
+  if (card.title) push('TITLE', escapeText(card.title));
+  if (card.role) push('ROLE', escapeText(card.role));
+
+  card.phones.forEach(phone => push('TEL', escapeText(phone.value), typeParams(phone, version)));
+  card.emails.forEach(email => push('EMAIL', escapeText(email.value), typeParams(email, version)));
+
+  card.addresses.forEach(address => {
+    const params = typeParams(address, version);
+    if (address.label && version === '4.0') params.LABEL = [address.label];
+    push('ADR', [
+      address.poBox,
+      address.extended,
+      address.street,
+      address.locality,
+      address.region,
+      address.postalCode,
+      address.country,
+    ].map(part => escapeText(part || '')).join(';'), params);
+    if (address.label && version === '3.0') {
+      push('LABEL', escapeText(address.label), typeParams(address, version));
+    }
+  });
+
+  card.urls.forEach(url => push('URL', escapeText(url.value), typeParams(url, version)));
+  if (card.note) push('NOTE', escapeText(card.note));
+  if (card.categories.length > 0) push('CATEGORIES', card.categories.map(escapeText).join(','));
+  if (card.birthday) push('BDAY', escapeText(card.birthday));
+
+  const photo = card.photo && mediaProperty('PHOTO', card.photo, version);
+  if (photo) properties.push(photo);
+  const logo = card.logo && mediaProperty('LOGO', card.logo, version);
+  if (logo) properties.push(logo);
+
+  if (card.uid) push('UID', escapeText(card.uid));
+  properties.push(...card.extra);
+
+  return [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    ...properties.map(formatProperty),
+    'END:VCARD',
+  ].join(CRLF) + CRLF;
+}
+
+/**
+ * Write several vCards to one file
+ */
+export function serializeVCards(cards: VCard[], options: SerializeVCardOptions = {}): string {
+  return cards.map(card => serializeVCard(card, options)).join('');
+}
+
+// ---------------------------------------------------------------------------
+// App contacts
+
+export interface VCardContactFields {
+  firstName?: string;
+  lastName?: string;
+  fullName?: string;
+  company?: string;
+  title?: string;
+  phones?: string[];
+  landlines?: string[];
+  faxes?: string[];
+  emails?: string[];
+  urls?: string[];
+  address?: string;
+  // Written to ADR part by part when given; `address` becomes its label
+  postalAddress?: PostalAddress | null;
+  note?: string;
+  categories?: string[];
+  photo?: VCardMedia;
+  logo?: VCardMedia;
+}
+
+/**
+ * Build a vCard from the flat contact fields used across the app. The
+ * first phone number and email are marked preferred.
+ */
+export function createVCard(fields: VCardContactFields): VCard {
+  let given = fields.firstName?.trim() || '';
+  let family = fields.lastName?.trim() || '';
+  if (!given && !family && fields.fullName) {
+    const parts = fields.fullName.trim().split(/\s+/);
+    given = parts[0] || '';
+    family = parts.slice(1).join(' ');
+  }
+
+  const card = emptyCard('3.0');
+  card.formattedName = fields.fullName?.trim() || [given, family].filter(Boolean).join(' ');
+  card.name = { family, given, additional: '', prefixes: '', suffixes: '' };
+  card.organization = fields.company?.trim() || undefined;
+  card.title = fields.title?.trim() || undefined;
+
+  const clean = (values?: string[]) => (values || []).map(v => v?.trim()).filter(Boolean);
+  card.phones = [
+    ...clean(fields.phones).map(value => ({ value, types: ['cell', 'voice'] })),
+    ...clean(fields.landlines).map(value => ({ value, types: ['work', 'voice'] })),
+    ...clean(fields.faxes).map(value => ({ value, types: ['work', 'fax'] })),
+  ].map((phone, i) => (i === 0 ? { ...phone, pref: true } : phone));
+  card.emails = clean(fields.emails).map((value, i) => ({ value, types: ['internet'], pref: i === 0 || undefined }));
+  card.urls = clean(fields.urls).map(value => ({ value, types: [] }));
+
+  const address = fields.address?.trim();
+  if (fields.postalAddress && !isEmptyAddress(fields.postalAddress)) {
+    card.addresses.push({ ...toVCardAddress(fields.postalAddress), label: address || undefined });
+  } else if (address) {
+    card.addresses.push({
+      types: ['work'],
+      poBox: '',
+      extended: '',
+      street: address.replace(/\s*\n\s*/g, ', '),
+      locality: '',
+      region: '',
+      postalCode: '',
+      country: '',
+      label: address,
+    });
+  }
+
+  card.note = fields.note?.trim() || undefined;
+  card.categories = clean(fields.categories);
+  card.photo = fields.photo;
+  card.logo = fields.logo;
+  return card;
+}
+
+/**
+ * One-line form of a vCard address
+ */
+export function formatVCardAddress(address: VCardAddress): string {
+  return [address.poBox, address.extended, address.street, address.locality, address.region, address.postalCode, address.country]
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join(', ') || address.label?.replace(/\s*\n\s*/g, ', ') || '';
+}
+
+/**
+ * Map a vCard onto the contact fields OCR and imports work with
+ */
+export function vCardToParsedContact(card: VCard): ParsedContact {
+  const contact: ParsedContact = {};
+
+  if (card.formattedName) contact.name = card.formattedName;
+  if (card.organization) contact.company = card.organization;
+
+  const email = card.emails.find(e => e.pref) || card.emails[0];
+  if (email) contact.email = email.value.toLowerCase();
+
+  // Numbers are kept as written, once each; faxes are kept apart
+  const seen: string[] = [];
+  const phones: string[] = [];
+  const faxes: string[] = [];
+  card.phones.forEach(p => {
+    if (!normalizePhoneNumber(p.value)) return;
+    if (seen.some(other => phonesMatch(other, p.value))) return;
+    seen.push(p.value);
+    (p.types.includes('fax') ? faxes : phones).push(p.value.trim());
+  });
+  if (phones.length > 0) contact.phones = phones;
+  if (faxes.length > 0) contact.faxes = faxes;
+
+  if (card.urls[0]) contact.website = card.urls[0].value;
+
+  const address = card.addresses.find(a => a.pref) || card.addresses[0];
+  if (address) {
+    const formatted = formatVCardAddress(address);
+    if (formatted) contact.address = formatted;
+  }
+
+  const services = card.title || card.role || card.note;
+  if (services) contact.services = services;
+
+  return contact;
+}